@@ -1,15 +1,22 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { CommandPalette } from "@/components/command-palette";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 import { useEffect } from "react";
 import Login from "@/pages/login";
 import Dashboard from "@/pages/dashboard";
 import Settings from "@/pages/settings";
 import Devices from "@/pages/devices";
+import Containers from "@/pages/containers";
 import Scripts from "@/pages/scripts";
 import Notes from "@/pages/notes";
+import Alerts from "@/pages/alerts";
+import Audit from "@/pages/audit";
+import Account from "@/pages/account";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -19,13 +26,43 @@ function Router() {
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/settings" component={Settings} />
       <Route path="/devices" component={Devices} />
+      <Route path="/containers" component={Containers} />
       <Route path="/scripts" component={Scripts} />
       <Route path="/notes" component={Notes} />
+      <Route path="/alerts" component={Alerts} />
+      <Route path="/audit" component={Audit} />
+      <Route path="/account" component={Account} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+// Users who still have to change their password, or whose role requires 2FA
+// they have not set up, are kept on the account page; the server refuses
+// everything else until they are done
+function AccountSetupGuard() {
+  const [location, setLocation] = useLocation();
+  const { authStatus } = usePermissions();
+  const setupRequired = !!authStatus?.user?.passwordChangeRequired || !!authStatus?.user?.twoFactorSetupRequired;
+
+  useEffect(() => {
+    if (setupRequired && location !== "/account" && location !== "/") {
+      setLocation("/account");
+    }
+  }, [setupRequired, location, setLocation]);
+
+  return null;
+}
+
+// Host and device status pushed by the server, once the user may see it
+function LiveUpdates() {
+  const { authStatus } = usePermissions();
+  const user = authStatus?.user;
+  useLiveUpdates(!!user && !user.passwordChangeRequired && !user.twoFactorSetupRequired);
+
+  return null;
+}
+
 function App() {
   // Always use dark mode for the cyberpunk aesthetic
   useEffect(() => {
@@ -36,6 +73,9 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
+        <CommandPalette />
+        <AccountSetupGuard />
+        <LiveUpdates />
         <Router />
       </TooltipProvider>
     </QueryClientProvider>
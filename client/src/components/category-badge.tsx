@@ -0,0 +1,91 @@
+import {
+  Activity,
+  Archive,
+  Box,
+  Cloud,
+  Cpu,
+  Database,
+  FileCode,
+  FileText,
+  FolderOpen,
+  HardDrive,
+  Laptop,
+  Lock,
+  Monitor,
+  Network,
+  Router,
+  Search,
+  Server,
+  Settings,
+  Shield,
+  Smartphone,
+  Terminal,
+  Wrench,
+  type LucideIcon,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { Category, CategoryIcon } from "@shared/schema";
+
+export const categoryIconComponents: Record<CategoryIcon, LucideIcon> = {
+  server: Server,
+  monitor: Monitor,
+  laptop: Laptop,
+  router: Router,
+  smartphone: Smartphone,
+  "hard-drive": HardDrive,
+  cpu: Cpu,
+  cloud: Cloud,
+  network: Network,
+  lock: Lock,
+  shield: Shield,
+  terminal: Terminal,
+  "file-code": FileCode,
+  "file-text": FileText,
+  "folder-open": FolderOpen,
+  search: Search,
+  wrench: Wrench,
+  settings: Settings,
+  database: Database,
+  archive: Archive,
+  activity: Activity,
+  box: Box,
+};
+
+export function getCategoryIcon(category: Category | undefined, fallback: LucideIcon): LucideIcon {
+  return (category && categoryIconComponents[category.icon as CategoryIcon]) || fallback;
+}
+
+// Icon tile tinted with the category colour
+export function CategoryIconTile({
+  category,
+  fallback,
+  className,
+}: {
+  category: Category | undefined;
+  fallback: LucideIcon;
+  className?: string;
+}) {
+  const Icon = getCategoryIcon(category, fallback);
+  return (
+    <div
+      className={cn("p-2 rounded-md", !category && "bg-primary/10 text-primary", className)}
+      style={category ? { color: category.color, backgroundColor: `${category.color}1a` } : undefined}
+    >
+      <Icon className="w-4 h-4" />
+    </div>
+  );
+}
+
+// Category name; an unknown slug is shown as-is
+export function CategoryBadge({ category, slug }: { category: Category | undefined; slug: string }) {
+  return (
+    <Badge
+      variant="outline"
+      className="text-xs"
+      style={category ? { color: category.color, borderColor: `${category.color}66` } : undefined}
+    >
+      {category?.name ?? slug}
+    </Badge>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Bell, Boxes, FileCode, LayoutDashboard, ScrollText, Server, Settings, StickyNote, UserCog, type LucideIcon } from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { usePermissions } from "@/hooks/use-permissions";
+import type { Permission, SearchHighlight, SearchResult, SearchResultType } from "@shared/schema";
+
+const SEARCH_DELAY_MS = 200;
+
+const pages: { label: string; path: string; icon: LucideIcon; permission?: Permission }[] = [
+  { label: "Dashboard", path: "/dashboard", icon: LayoutDashboard },
+  { label: "Devices", path: "/devices", icon: Server },
+  { label: "Containers", path: "/containers", icon: Boxes },
+  { label: "Scripts", path: "/scripts", icon: FileCode },
+  { label: "Notes", path: "/notes", icon: StickyNote },
+  { label: "Alerts", path: "/alerts", icon: Bell },
+  { label: "Audit Log", path: "/audit", icon: ScrollText, permission: "audit:view" },
+  { label: "Settings", path: "/settings", icon: Settings },
+  { label: "Account", path: "/account", icon: UserCog },
+];
+
+const resultGroups: { type: SearchResultType; heading: string; path: string; icon: LucideIcon }[] = [
+  { type: "device", heading: "Devices", path: "/devices", icon: Server },
+  { type: "script", heading: "Scripts", path: "/scripts", icon: FileCode },
+  { type: "note", heading: "Notes", path: "/notes", icon: StickyNote },
+];
+
+function Highlighted({ parts }: { parts: SearchHighlight[] }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-primary/25 text-foreground rounded-sm px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+// Global Ctrl+K / Cmd+K search over devices, scripts and notes. With an empty
+// query it offers the app's pages instead.
+export function CommandPalette() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+
+  const { authStatus, can } = usePermissions();
+
+  const authenticated = !!authStatus?.authenticated;
+
+  useEffect(() => {
+    if (!authenticated) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.ctrlKey || event.metaKey)) {
+        event.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [authenticated]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const { data: results, isFetching } = useQuery<SearchResult[]>({
+    queryKey: [`/api/search?q=${encodeURIComponent(query)}`],
+    enabled: open && authenticated && query.length > 0,
+    staleTime: 30000,
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setInput("");
+      setQuery("");
+    }
+    setOpen(next);
+  };
+
+  const navigate = (path: string, elementId?: string) => {
+    handleOpenChange(false);
+    setLocation(elementId ? `${path}#${elementId}` : path);
+    // Already on the page: its scroll-to-hash hook won't run again
+    if (elementId) {
+      setTimeout(() => {
+        document.getElementById(elementId)?.scrollIntoView({ behavior: "smooth", block: "start" });
+      }, 0);
+    }
+  };
+
+  if (!authenticated) return null;
+
+  const searching = query.length > 0;
+
+  return (
+    <CommandDialog open={open} onOpenChange={handleOpenChange} shouldFilter={false}>
+      <CommandInput
+        placeholder="Search devices, scripts and notes..."
+        value={input}
+        onValueChange={setInput}
+        data-testid="input-command-search"
+      />
+      <CommandList>
+        {searching ? (
+          <>
+            {results && results.length === 0 && !isFetching && (
+              <CommandEmpty>No results for "{query}".</CommandEmpty>
+            )}
+            {resultGroups.map((group) => {
+              const groupResults = results?.filter((result) => result.type === group.type) ?? [];
+              if (groupResults.length === 0) return null;
+              return (
+                <CommandGroup key={group.type} heading={group.heading}>
+                  {groupResults.map((result) => (
+                    <CommandItem
+                      key={`${result.type}-${result.id}`}
+                      value={`${result.type}-${result.id}`}
+                      onSelect={() => navigate(group.path, `${result.type}-${result.id}`)}
+                      className="items-start gap-3"
+                      data-testid={`command-result-${result.type}-${result.id}`}
+                    >
+                      <group.icon className="mt-0.5 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-baseline gap-2">
+                          <span className="font-medium truncate">
+                            <Highlighted parts={result.title} />
+                          </span>
+                          {result.subtitle && (
+                            <span className="text-xs text-muted-foreground font-mono truncate">
+                              {result.subtitle}
+                            </span>
+                          )}
+                        </div>
+                        {result.snippet.length > 0 && (
+                          <p className="text-xs text-muted-foreground line-clamp-2 break-words">
+                            <Highlighted parts={result.snippet} />
+                          </p>
+                        )}
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              );
+            })}
+          </>
+        ) : (
+          <CommandGroup heading="Go to">
+            {pages.filter((page) => !page.permission || can(page.permission)).map((page) => (
+              <CommandItem
+                key={page.path}
+                value={page.path}
+                onSelect={() => navigate(page.path)}
+                data-testid={`command-page-${page.label.toLowerCase().replace(/\s+/g, "-")}`}
+              >
+                <page.icon className="mr-2 text-muted-foreground" />
+                {page.label}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+      <div className="border-t border-border px-3 py-2 text-xs text-muted-foreground flex justify-between">
+        <span>{isFetching ? "Searching..." : "Enter to open"}</span>
+        <CommandShortcut>Ctrl K</CommandShortcut>
+      </div>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,118 @@
+import ReactMarkdown, { defaultUrlTransform, type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeHighlight from "rehype-highlight";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import "highlight.js/styles/github-dark.css";
+import { resolveWikiLink, splitWikiLinks, type WikiLinkType } from "@shared/wikiLinks";
+import type { Device, Script } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+const wikiLinkPages: Record<WikiLinkType, string> = {
+  device: "/devices",
+  script: "/scripts",
+};
+
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MarkdownNode[];
+}
+
+// Turns [[type:ref|label]] in text nodes into links with wiki: URLs, leaving
+// code blocks and existing links untouched
+function linkWikiReferences(node: MarkdownNode) {
+  if (!node.children || node.type === "link" || node.type === "linkReference") return;
+  node.children = node.children.flatMap((child): MarkdownNode[] => {
+    if (child.type !== "text") {
+      linkWikiReferences(child);
+      return [child];
+    }
+    return splitWikiLinks(child.value || "").map((segment) =>
+      typeof segment === "string"
+        ? { type: "text", value: segment }
+        : {
+            type: "link",
+            url: `wiki:${segment.type}:${encodeURIComponent(segment.ref)}`,
+            children: [{ type: "text", value: segment.label ?? segment.ref }],
+          },
+    );
+  });
+}
+
+function remarkWikiLinks() {
+  return (tree: MarkdownNode) => linkWikiReferences(tree);
+}
+
+// Keep wiki: URLs for the link renderer; everything else gets the default sanitising
+function urlTransform(url: string) {
+  return url.startsWith("wiki:") ? url : defaultUrlTransform(url);
+}
+
+// GitHub-flavoured Markdown with highlighted code blocks. [[device:name]] and
+// [[script:name]] links resolve against the inventory.
+export function MarkdownContent({ content, className }: { content: string; className?: string }) {
+  const hasWikiLinks = /\[\[(device|script):/.test(content);
+
+  const { data: devices } = useQuery<Device[]>({
+    queryKey: ["/api/devices"],
+    enabled: hasWikiLinks,
+  });
+
+  const { data: scripts } = useQuery<Script[]>({
+    queryKey: ["/api/scripts"],
+    enabled: hasWikiLinks,
+  });
+
+  const components: Components = {
+    a: ({ href, children }) => {
+      if (href?.startsWith("wiki:")) {
+        const [, type, encodedRef] = href.split(":");
+        const ref = decodeURIComponent(encodedRef || "");
+        const entities: { id: string; name: string }[] | undefined = type === "device" ? devices : scripts;
+        const entity = entities ? resolveWikiLink(ref, entities) : undefined;
+
+        if (!entity) {
+          return (
+            <span
+              className="text-destructive line-through"
+              title={entities ? `No ${type} named "${ref}"` : undefined}
+              data-testid="link-wiki-unresolved"
+            >
+              {children}
+            </span>
+          );
+        }
+        return (
+          <Link
+            href={`${wikiLinkPages[type as WikiLinkType]}#${type}-${entity.id}`}
+            data-testid={`link-wiki-${type}-${entity.id}`}
+          >
+            {children}
+          </Link>
+        );
+      }
+
+      const external = /^https?:\/\//.test(href || "");
+      return (
+        <a href={href} {...(external ? { target: "_blank", rel: "noopener noreferrer" } : {})}>
+          {children}
+        </a>
+      );
+    },
+  };
+
+  return (
+    <div className={cn("prose prose-sm dark:prose-invert max-w-none break-words", className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkWikiLinks]}
+        rehypePlugins={[rehypeHighlight]}
+        urlTransform={urlTransform}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { Link } from "wouter";
+import { StickyNote } from "lucide-react";
+
+// Notes that reference an entity with a [[device:...]] or [[script:...]] link
+export function NoteBacklinkList({ notes }: { notes: { noteId: string; title: string }[] | undefined }) {
+  if (!notes || notes.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs" data-testid="list-note-backlinks">
+      <span className="flex items-center gap-1 text-muted-foreground">
+        <StickyNote className="w-3 h-3" />
+        Linked from:
+      </span>
+      {notes.map((note) => (
+        <Link
+          key={note.noteId}
+          href={`/notes#note-${note.noteId}`}
+          className="text-primary hover:underline"
+          data-testid={`link-backlink-${note.noteId}`}
+        >
+          {note.title}
+        </Link>
+      ))}
+    </div>
+  );
+}
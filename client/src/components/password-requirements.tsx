@@ -0,0 +1,11 @@
+// The active password rules, listed under a new-password field
+export function PasswordRequirements({ rules }: { rules: string[] }) {
+  if (rules.length === 0) return null;
+  return (
+    <ul className="text-xs text-muted-foreground list-disc pl-5 space-y-0.5" data-testid="list-password-requirements">
+      {rules.map((rule) => (
+        <li key={rule}>{rule}</li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,245 @@
+import { useState, useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { History, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { diffLines, toSideBySide, type DiffCell } from "@/lib/diff";
+import { cn } from "@/lib/utils";
+
+interface Revision {
+  id: string;
+  content: string;
+  author: string | null;
+  createdAt: Date | string;
+}
+
+const cellStyles: Record<DiffCell["type"], string> = {
+  equal: "",
+  removed: "bg-destructive/15",
+  added: "bg-primary/15",
+};
+
+function DiffColumnCell({ cell }: { cell: DiffCell | null }) {
+  return (
+    <div className={cn("flex min-w-0", cell ? cellStyles[cell.type] : "bg-muted/30")}>
+      <span className="w-10 shrink-0 pr-2 text-right text-muted-foreground select-none">
+        {cell?.lineNumber ?? ""}
+      </span>
+      <span className="whitespace-pre-wrap break-all min-w-0">{cell?.text ?? ""}</span>
+    </div>
+  );
+}
+
+function SideBySideDiff({
+  before,
+  after,
+  beforeLabel,
+  afterLabel,
+}: {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}) {
+  const rows = useMemo(() => toSideBySide(diffLines(before, after)), [before, after]);
+  const unchanged = before === after;
+
+  return (
+    <div className="rounded-md border border-border overflow-hidden">
+      <div className="grid grid-cols-2 text-xs font-medium border-b border-border bg-background/50">
+        <div className="px-3 py-2 border-r border-border">{beforeLabel}</div>
+        <div className="px-3 py-2">{afterLabel}</div>
+      </div>
+      {unchanged ? (
+        <p className="px-3 py-4 text-sm text-muted-foreground">No differences in content.</p>
+      ) : (
+        <div className="max-h-[50vh] overflow-y-auto font-mono text-xs" data-testid="diff-view">
+          {rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-2">
+              <div className="border-r border-border">
+                <DiffColumnCell cell={row.left} />
+              </div>
+              <DiffColumnCell cell={row.right} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Revision list with a side-by-side diff of the selected revision against the
+// current version (or the revision before it) and one-click restore
+export function RevisionHistoryDialog<T extends Revision>({
+  title,
+  queryKey,
+  restoreUrl,
+  invalidateQueryKey,
+  currentContent,
+  canRestore,
+  describeRevision,
+  open,
+  onOpenChange,
+}: {
+  title: string;
+  queryKey: string[];
+  restoreUrl: (revision: T) => string;
+  invalidateQueryKey: string;
+  currentContent: string;
+  canRestore: boolean;
+  describeRevision?: (revision: T) => string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareWith, setCompareWith] = useState<"current" | "previous">("current");
+
+  const { data: revisions, isLoading } = useQuery<T[]>({
+    queryKey,
+    enabled: open,
+  });
+
+  // Revisions are newest first; nothing selected means the current one
+  const selectedPosition = Math.max(0, revisions?.findIndex((revision) => revision.id === selectedId) ?? 0);
+  const selected = revisions?.[selectedPosition];
+  const previous = revisions?.[selectedPosition + 1];
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: T) => {
+      return await apiRequest("POST", restoreUrl(revision));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [invalidateQueryKey] });
+      setSelectedId(null);
+      toast({
+        title: "Revision Restored",
+        description: "The selected revision is now the current version.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore revision",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setSelectedId(null);
+      setCompareWith("current");
+    }
+    onOpenChange(next);
+  };
+
+  const formatRevision = (revision: T) =>
+    `${new Date(revision.createdAt).toLocaleString()}${revision.author ? ` by ${revision.author}` : ""}`;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            History: {title}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading revisions...</p>
+        ) : !revisions || revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions recorded yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-4">
+            <div className="space-y-1 max-h-[60vh] overflow-y-auto">
+              {revisions.map((revision, index) => (
+                <button
+                  key={revision.id}
+                  type="button"
+                  onClick={() => setSelectedId(revision.id)}
+                  className={cn(
+                    "w-full text-left text-xs py-2 px-3 rounded-md hover-elevate",
+                    revision.id === selected?.id ? "bg-primary/10" : "bg-background/50",
+                  )}
+                  data-testid={`button-revision-${revision.id}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">#{revisions.length - index}</span>
+                    {index === 0 && <Badge variant="outline" className="text-[10px]">Current</Badge>}
+                  </div>
+                  <div className="text-muted-foreground">{formatRevision(revision)}</div>
+                  {describeRevision && <div className="truncate">{describeRevision(revision)}</div>}
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="space-y-3 min-w-0">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant={compareWith === "current" ? "secondary" : "ghost"}
+                      onClick={() => setCompareWith("current")}
+                      data-testid="button-compare-current"
+                    >
+                      Against current
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={compareWith === "previous" ? "secondary" : "ghost"}
+                      onClick={() => setCompareWith("previous")}
+                      data-testid="button-compare-previous"
+                    >
+                      Against previous
+                    </Button>
+                  </div>
+                  {canRestore && selectedPosition > 0 && (
+                    <Button
+                      size="sm"
+                      onClick={() => restoreMutation.mutate(selected)}
+                      disabled={restoreMutation.isPending}
+                      className="gap-2"
+                      data-testid="button-restore-revision"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Restore this revision
+                    </Button>
+                  )}
+                </div>
+
+                {compareWith === "current" ? (
+                  <SideBySideDiff
+                    before={selected.content}
+                    after={currentContent}
+                    beforeLabel={`#${revisions.length - selectedPosition} · ${formatRevision(selected)}`}
+                    afterLabel="Current version"
+                  />
+                ) : previous ? (
+                  <SideBySideDiff
+                    before={previous.content}
+                    after={selected.content}
+                    beforeLabel={`#${revisions.length - selectedPosition - 1} · ${formatRevision(previous)}`}
+                    afterLabel={`#${revisions.length - selectedPosition} · ${formatRevision(selected)}`}
+                  />
+                ) : (
+                  <p className="text-sm text-muted-foreground">This is the first recorded revision.</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
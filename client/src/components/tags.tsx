@@ -0,0 +1,179 @@
+import { useState, type KeyboardEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Hash, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { TaggableType, TagWithCounts } from "@shared/schema";
+
+const MAX_TAGS = 20;
+
+// "Home Lab" -> "home-lab"; the server applies the same rules
+function normalizeTag(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^a-z0-9._-]/g, "")
+    .replace(/^[._-]+/, "")
+    .slice(0, 32);
+}
+
+// Chip editor for an item's tags with suggestions from existing tags
+export function TagInput({
+  value,
+  onChange,
+  "data-testid": testId = "input-tags",
+}: {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  "data-testid"?: string;
+}) {
+  const [draft, setDraft] = useState("");
+
+  const { data: allTags } = useQuery<TagWithCounts[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const addTags = (input: string) => {
+    const added = input.split(",").map(normalizeTag).filter((tag) => tag && !value.includes(tag));
+    if (added.length > 0) {
+      onChange(Array.from(new Set([...value, ...added])).slice(0, MAX_TAGS));
+    }
+    setDraft("");
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" || event.key === ",") {
+      event.preventDefault();
+      addTags(draft);
+    } else if (event.key === "Backspace" && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  const suggestions = allTags?.filter((tag) => !value.includes(tag.name)) ?? [];
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1 pr-1" data-testid={`badge-tag-${tag}`}>
+              <Hash className="w-3 h-3" />
+              {tag}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((existing) => existing !== tag))}
+                className="rounded-sm hover:text-destructive"
+                aria-label={`Remove tag ${tag}`}
+                data-testid={`button-remove-tag-${tag}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft && addTags(draft)}
+        placeholder={value.length >= MAX_TAGS ? "Tag limit reached" : "Add tags, press Enter"}
+        disabled={value.length >= MAX_TAGS}
+        list={`${testId}-suggestions`}
+        data-testid={testId}
+      />
+      <datalist id={`${testId}-suggestions`}>
+        {suggestions.map((tag) => (
+          <option key={tag.id} value={tag.name} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
+
+// Read-only tag chips on a card; clicking one filters by it
+export function TagList({
+  tags,
+  selected = [],
+  onSelect,
+}: {
+  tags: string[];
+  selected?: string[];
+  onSelect?: (tag: string) => void;
+}) {
+  if (tags.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <Badge
+          key={tag}
+          variant="outline"
+          className={cn("text-xs gap-0.5 font-normal", onSelect && "cursor-pointer", selected.includes(tag) && "bg-primary/15 text-primary")}
+          onClick={onSelect ? () => onSelect(tag) : undefined}
+          data-testid={`tag-${tag}`}
+        >
+          <Hash className="w-3 h-3" />
+          {tag}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+// Tags used by one kind of item, sized by how often they occur. Selected tags
+// narrow the list to items carrying all of them.
+export function TagCloud({
+  type,
+  selected,
+  onToggle,
+  onClear,
+}: {
+  type: TaggableType;
+  selected: string[];
+  onToggle: (tag: string) => void;
+  onClear: () => void;
+}) {
+  const { data: allTags } = useQuery<TagWithCounts[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const used = allTags?.filter((tag) => tag[type] > 0) ?? [];
+  if (used.length === 0 && selected.length === 0) return null;
+
+  const max = Math.max(1, ...used.map((tag) => tag[type]));
+  const size = (count: number) => {
+    const weight = max > 1 ? Math.log(count) / Math.log(max) : 0;
+    return `${(0.75 + weight * 0.5).toFixed(2)}rem`;
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-6" data-testid="tag-cloud">
+      {used.map((tag) => (
+        <button
+          key={tag.id}
+          type="button"
+          onClick={() => onToggle(tag.name)}
+          style={{ fontSize: size(tag[type]) }}
+          className={cn(
+            "font-mono transition-colors",
+            selected.includes(tag.name) ? "text-primary underline underline-offset-4" : "text-muted-foreground hover:text-foreground",
+          )}
+          title={`${tag[type]} item${tag[type] === 1 ? "" : "s"}`}
+          data-testid={`button-tag-filter-${tag.name}`}
+        >
+          #{tag.name}
+        </button>
+      ))}
+      {selected.length > 0 && (
+        <Button variant="ghost" size="sm" onClick={onClear} className="h-7 gap-1" data-testid="button-clear-tag-filter">
+          <X className="w-3 h-3" />
+          Clear tags
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from "@/components/ui/input-otp";
+
+// Six-digit authenticator code; onComplete fires once all digits are in
+export function TotpCodeInput({
+  value,
+  onChange,
+  onComplete,
+  disabled,
+  "data-testid": testId = "input-totp-code",
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+  "data-testid"?: string;
+}) {
+  return (
+    <InputOTP
+      maxLength={6}
+      pattern={REGEXP_ONLY_DIGITS}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus
+      containerClassName="justify-center"
+      data-testid={testId}
+    >
+      <InputOTPGroup>
+        {[0, 1, 2].map((index) => (
+          <InputOTPSlot key={index} index={index} className="h-12 w-11 font-mono text-lg" />
+        ))}
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        {[3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} className="h-12 w-11 font-mono text-lg" />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CategoryScope, CategoryWithUsage } from "@shared/schema";
+
+// Admin-managed categories for one kind of item
+export function useCategories(scope: CategoryScope) {
+  const { data } = useQuery<CategoryWithUsage[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const categories = (data ?? []).filter((category) => category.scope === scope);
+  const getCategory = (slug: string) => categories.find((category) => category.slug === slug);
+
+  return { categories, getCategory };
+}
@@ -0,0 +1,110 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { Device, LiveEvent, Tagged } from "@shared/schema";
+
+const MIN_RECONNECT_MS = 1000;
+const MAX_RECONNECT_MS = 30000;
+// Close code the server uses when the session behind the socket has ended
+const SESSION_ENDED = 4001;
+
+let connected = false;
+const listeners = new Set<() => void>();
+
+function setConnected(value: boolean) {
+  if (connected === value) return;
+  connected = value;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function applyLiveEvent(event: LiveEvent) {
+  switch (event.type) {
+    case "system_status":
+      queryClient.setQueryData(["/api/system/status"], event.status);
+      break;
+    case "metric_sample":
+      queryClient.invalidateQueries({
+        predicate: (query) => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/system/history"),
+      });
+      break;
+    case "device_status":
+      queryClient.setQueryData<Tagged<Device>[]>(["/api/devices"], (devices) =>
+        devices?.map((device) => (device.id === event.device.id ? { ...device, ...event.device } : device)),
+      );
+      // Its checks and availability changed with it
+      queryClient.invalidateQueries({ queryKey: ["/api/devices", event.device.id] });
+      break;
+  }
+}
+
+// Keeps one WebSocket to /api/live open while enabled and writes what it
+// receives into the query cache, reconnecting with backoff when it drops
+export function useLiveUpdates(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryMs = MIN_RECONNECT_MS;
+    let reconnecting = false;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/api/live`);
+
+      socket.onopen = () => {
+        retryMs = MIN_RECONNECT_MS;
+        setConnected(true);
+        // Catch up on whatever changed while the socket was down
+        if (reconnecting) {
+          queryClient.invalidateQueries({ queryKey: ["/api/system/status"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+        }
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          applyLiveEvent(JSON.parse(message.data) as LiveEvent);
+        } catch (error) {
+          console.error("Live update error:", error);
+        }
+      };
+
+      socket.onclose = (event) => {
+        setConnected(false);
+        socket = null;
+        if (stopped) return;
+        if (event.code === SESSION_ENDED) {
+          // Signed out elsewhere; the status check sends the user to the login page
+          queryClient.invalidateQueries({ queryKey: ["/api/auth/status"] });
+        }
+        reconnecting = true;
+        retryTimer = setTimeout(connect, retryMs);
+        retryMs = Math.min(retryMs * 2, MAX_RECONNECT_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+      setConnected(false);
+    };
+  }, [enabled]);
+}
+
+// Polling interval for data the socket keeps current: off while connected,
+// so queries only poll when live updates are unavailable
+export function useLiveRefetchInterval(fallbackMs = 30000): number | false {
+  const isConnected = useSyncExternalStore(subscribe, () => connected);
+  return isConnected ? false : fallbackMs;
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { checkPasswordPolicy, describePasswordPolicy, type PasswordPolicy } from "@shared/passwordPolicy";
+
+// The server's password rules, for listing them and checking a new password
+// before it is sent. The server also refuses common passwords, which only it
+// can check.
+export function usePasswordPolicy() {
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/auth/password-policy"],
+    staleTime: Infinity,
+  });
+
+  const rules = policy ? describePasswordPolicy(policy) : [];
+  // First broken rule, or null when the password looks acceptable
+  const check = (password: string, username?: string) =>
+    policy ? checkPasswordPolicy(password, policy, username)[0] ?? null : null;
+
+  return { policy, rules, check };
+}
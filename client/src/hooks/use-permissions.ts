@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Permission, SessionUser } from "@shared/schema";
+
+export interface AuthStatus {
+  authenticated: boolean;
+  user?: SessionUser;
+}
+
+// The signed-in user and a check against their role's permissions. The server
+// enforces the same permissions; this only decides which controls to show.
+export function usePermissions() {
+  const { data: authStatus, isLoading } = useQuery<AuthStatus>({
+    queryKey: ["/api/auth/status"],
+  });
+
+  const granted = authStatus?.user?.permissions ?? [];
+  const can = (permission: Permission) => granted.includes(permission);
+
+  return { authStatus, isLoading, can };
+}
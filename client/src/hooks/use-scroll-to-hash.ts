@@ -0,0 +1,11 @@
+import { useEffect } from "react";
+
+// Scrolls to the element named by the URL hash (e.g. /devices#device-<id>)
+// once the page has rendered its data
+export function useScrollToHash(ready: boolean) {
+  useEffect(() => {
+    if (!ready || !window.location.hash) return;
+    const element = document.getElementById(decodeURIComponent(window.location.hash.slice(1)));
+    element?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }, [ready]);
+}
@@ -0,0 +1,13 @@
+import { useState } from "react";
+
+// Selected filter tags, toggled from the tag cloud and from tag chips on cards.
+// An item matches when it carries every selected tag.
+export function useTagFilter() {
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+
+  const toggleTag = (tag: string) =>
+    setSelectedTags((current) => (current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag]));
+  const matchesTags = (tags: string[]) => selectedTags.every((tag) => tags.includes(tag));
+
+  return { selectedTags, toggleTag, clearTags: () => setSelectedTags([]), matchesTags };
+}
@@ -0,0 +1,109 @@
+export type DiffLineType = "equal" | "removed" | "added";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface DiffCell {
+  lineNumber: number;
+  text: string;
+  type: DiffLineType;
+}
+
+export interface SideBySideRow {
+  left: DiffCell | null;
+  right: DiffCell | null;
+}
+
+// Beyond this many comparisons the changed block is shown as replaced wholesale
+const MAX_LCS_CELLS = 4_000_000;
+
+// Line diff based on the longest common subsequence, after trimming the
+// common prefix and suffix that most edits leave untouched
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map((text) => ({ type: "equal", text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    midA.forEach((text) => result.push({ type: "removed", text }));
+    midB.forEach((text) => result.push({ type: "added", text }));
+  } else {
+    // lengths[i][j] is the LCS length of midA[i..] and midB[j..]
+    const lengths = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i][j] = midA[i] === midB[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        result.push({ type: "equal", text: midA[i] });
+        i++;
+        j++;
+      } else if (j < midB.length && (i === midA.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+        result.push({ type: "added", text: midB[j] });
+        j++;
+      } else {
+        result.push({ type: "removed", text: midA[i] });
+        i++;
+      }
+    }
+  }
+
+  a.slice(endA).forEach((text) => result.push({ type: "equal", text }));
+  return result;
+}
+
+// Pairs removed and added lines from the same change block onto one row
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let leftNumber = 0;
+  let rightNumber = 0;
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].type === "equal") {
+      const text = lines[index].text;
+      rows.push({
+        left: { lineNumber: ++leftNumber, text, type: "equal" },
+        right: { lineNumber: ++rightNumber, text, type: "equal" },
+      });
+      index++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < lines.length && lines[index].type !== "equal") {
+      (lines[index].type === "removed" ? removed : added).push(lines[index].text);
+      index++;
+    }
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      rows.push({
+        left: row < removed.length ? { lineNumber: ++leftNumber, text: removed[row], type: "removed" } : null,
+        right: row < added.length ? { lineNumber: ++rightNumber, text: added[row], type: "added" } : null,
+      });
+    }
+  }
+
+  return rows;
+}
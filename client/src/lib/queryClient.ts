@@ -1,8 +1,15 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// The server answers 403 with this when the user's role started requiring 2FA
+// after they signed in; refreshing the auth status sends them to set it up
+const TWO_FACTOR_SETUP_ERROR = "Set up two-factor authentication to continue";
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
+    if (res.status === 403 && text.includes(TWO_FACTOR_SETUP_ERROR)) {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/status"] });
+    }
     throw new Error(`${res.status}: ${text}`);
   }
 }
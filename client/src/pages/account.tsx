@@ -0,0 +1,730 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Shield,
+  ArrowLeft,
+  Loader2,
+  LogOut,
+  ShieldCheck,
+  ShieldAlert,
+  KeyRound,
+  Copy,
+  Download,
+  Lock,
+  Monitor,
+  Smartphone,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { TotpCodeInput } from "@/components/totp-code-input";
+import { PasswordRequirements } from "@/components/password-requirements";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { usePasswordPolicy } from "@/hooks/use-password-policy";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SessionUser, TwoFactorSetup, TwoFactorStatus, UserSession } from "@shared/schema";
+
+function invalidateTwoFactor() {
+  queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/auth/status"] });
+}
+
+// Shown once after enrolling or regenerating; the server keeps only hashes
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: "Copied", description: "Recovery codes copied to the clipboard." });
+  };
+
+  const downloadCodes = () => {
+    const url = URL.createObjectURL(new Blob([`${text}\n`], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "wasteland-companion-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4" data-testid="recovery-codes">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator.
+        They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-4 rounded-md bg-background font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" className="gap-2" onClick={copyCodes} data-testid="button-copy-recovery-codes">
+          <Copy className="w-4 h-4" />
+          Copy
+        </Button>
+        <Button variant="outline" className="gap-2" onClick={downloadCodes} data-testid="button-download-recovery-codes">
+          <Download className="w-4 h-4" />
+          Download
+        </Button>
+        <Button onClick={onDone} className="ml-auto" data-testid="button-recovery-codes-done">
+          I've saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function EnrollTwoFactor({ onEnabled }: { onEnabled: (recoveryCodes: string[]) => void }) {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup");
+      return response.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start two-factor setup",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code: value });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Two-Factor Enabled",
+        description: "Your authenticator app is now required to sign in.",
+      });
+      onEnabled(data.recoveryCodes);
+      invalidateTwoFactor();
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Error",
+        description: error.message || "That code does not match",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!setup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Protect your account with a code from an authenticator app such as Aegis, Google Authenticator, or 1Password
+          in addition to your password.
+        </p>
+        <Button className="gap-2" onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-2fa">
+          {setupMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+          Set Up Two-Factor Authentication
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Scan the QR code with your authenticator app, or enter the key by hand, then type the 6-digit code it shows.
+      </p>
+      <div className="flex flex-col sm:flex-row items-center gap-6">
+        <img
+          src={setup.qrCode}
+          alt="Authenticator QR code"
+          className="w-44 h-44 rounded-md bg-white p-2"
+          data-testid="img-totp-qr"
+        />
+        <div className="space-y-4 min-w-0">
+          <div>
+            <div className="text-xs text-muted-foreground mb-1">Setup key</div>
+            <code className="block font-mono text-sm break-all" data-testid="text-totp-secret">
+              {setup.secret.match(/.{1,4}/g)?.join(" ")}
+            </code>
+          </div>
+          <TotpCodeInput
+            value={code}
+            onChange={setCode}
+            onComplete={(value) => enableMutation.mutate(value)}
+            disabled={enableMutation.isPending}
+          />
+          <Button
+            onClick={() => enableMutation.mutate(code)}
+            disabled={code.length !== 6 || enableMutation.isPending}
+            data-testid="button-enable-2fa"
+          >
+            {enableMutation.isPending ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Verifying...
+              </>
+            ) : (
+              "Turn On"
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function RegenerateRecoveryCodesDialog({ onRegenerated }: { onRegenerated: (recoveryCodes: string[]) => void }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState("");
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code: value });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setOpen(false);
+      setCode("");
+      onRegenerated(data.recoveryCodes);
+      invalidateTwoFactor();
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create new recovery codes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <Button variant="outline" className="gap-2" onClick={() => setOpen(true)} data-testid="button-regenerate-recovery-codes">
+        <KeyRound className="w-4 h-4" />
+        New Recovery Codes
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="bg-card border-card-border">
+          <DialogHeader>
+            <DialogTitle>New Recovery Codes</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Your current recovery codes stop working. Enter a code from your authenticator app to continue.
+          </p>
+          <TotpCodeInput
+            value={code}
+            onChange={setCode}
+            onComplete={(value) => regenerateMutation.mutate(value)}
+            disabled={regenerateMutation.isPending}
+            data-testid="input-regenerate-code"
+          />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+function DisableTwoFactorDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [password, setPassword] = useState("");
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/disable", { password });
+      return response.json();
+    },
+    onSuccess: () => {
+      setOpen(false);
+      setPassword("");
+      toast({
+        title: "Two-Factor Disabled",
+        description: "You now sign in with your password alone.",
+      });
+      invalidateTwoFactor();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to turn off two-factor authentication",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <Button variant="outline" className="text-destructive" onClick={() => setOpen(true)} data-testid="button-disable-2fa">
+        Turn Off
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="bg-card border-card-border">
+          <DialogHeader>
+            <DialogTitle>Turn Off Two-Factor Authentication</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              disableMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <p className="text-sm text-muted-foreground">Enter your password to confirm.</p>
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoFocus
+              className="bg-background"
+              data-testid="input-disable-2fa-password"
+            />
+            <DialogFooter>
+              <Button
+                type="submit"
+                variant="destructive"
+                disabled={!password || disableMutation.isPending}
+                data-testid="button-confirm-disable-2fa"
+              >
+                {disableMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Turn Off"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+const changePasswordFormSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(1, "New password is required"),
+  confirmPassword: z.string(),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type ChangePasswordFormData = z.infer<typeof changePasswordFormSchema>;
+
+const passwordFields = [
+  { name: "currentPassword", label: "Current Password", autoComplete: "current-password" },
+  { name: "newPassword", label: "New Password", autoComplete: "new-password" },
+  { name: "confirmPassword", label: "Confirm New Password", autoComplete: "new-password" },
+] as const;
+
+function ChangePasswordCard({ user }: { user: SessionUser }) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const { rules, check } = usePasswordPolicy();
+
+  const form = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordFormSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async (data: ChangePasswordFormData) => {
+      const response = await apiRequest("POST", "/api/auth/password", {
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+      return response.json() as Promise<{ success: true; user: SessionUser }>;
+    },
+    onSuccess: (result) => {
+      form.reset();
+      toast({
+        title: "Password Changed",
+        description: "Use your new password the next time you sign in.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/status"] });
+      // A required change is done; carry on unless 2FA enrollment is next
+      if (user.passwordChangeRequired && !result.user.twoFactorSetupRequired) {
+        setLocation("/dashboard");
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: ChangePasswordFormData) => {
+    const problem = check(data.newPassword, user.username);
+    if (problem) {
+      form.setError("newPassword", { message: problem });
+      return;
+    }
+    changeMutation.mutate(data);
+  };
+
+  return (
+    <Card className="border-card-border">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5 text-primary" />
+          Password
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 max-w-md">
+            {passwordFields.map(({ name, label, autoComplete }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                        <Input
+                          {...field}
+                          type="password"
+                          autoComplete={autoComplete}
+                          className="pl-10 bg-background"
+                          data-testid={`input-${name.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)}`}
+                        />
+                      </div>
+                    </FormControl>
+                    <FormMessage />
+                    {name === "newPassword" && <PasswordRequirements rules={rules} />}
+                  </FormItem>
+                )}
+              />
+            ))}
+            <Button type="submit" disabled={changeMutation.isPending} data-testid="button-change-own-password">
+              {changeMutation.isPending ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Change Password"
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TwoFactorCard() {
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  return (
+    <Card className="border-card-border">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 pb-4">
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-primary" />
+          Two-Factor Authentication
+        </CardTitle>
+        {status && (
+          <Badge
+            variant="outline"
+            className={status.enabled ? "bg-primary/20 text-primary border-primary/30" : "text-muted-foreground"}
+            data-testid="badge-2fa-status"
+          >
+            {status.enabled ? "On" : "Off"}
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading || !status ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 text-primary animate-spin" />
+          </div>
+        ) : recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Signing in asks for a code from your authenticator app.{" "}
+              <span className={status.recoveryCodesRemaining <= 2 ? "text-destructive" : undefined} data-testid="text-recovery-codes-remaining">
+                {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left.
+              </span>
+              {status.required && " Your role requires two-factor authentication, so it cannot be turned off."}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <RegenerateRecoveryCodesDialog onRegenerated={setRecoveryCodes} />
+              {!status.required && <DisableTwoFactorDialog />}
+            </div>
+          </div>
+        ) : (
+          <EnrollTwoFactor onEnabled={setRecoveryCodes} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// "Firefox on Linux"; good enough to tell one's own devices apart
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\//.test(userAgent) ? "Opera"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : userAgent.split(/[\s/]/)[0];
+  const os =
+    /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  return os ? `${browser} on ${os}` : browser;
+}
+
+function SessionsCard() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<UserSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string | null) => {
+      const response = await apiRequest("DELETE", id ? `/api/auth/sessions/${id}` : "/api/auth/sessions");
+      return response.json();
+    },
+    onSuccess: (_result, id) => {
+      toast({
+        title: "Signed Out",
+        description: id ? "That session has been signed out." : "All other sessions have been signed out.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to sign out the session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const others = sessions?.filter((session) => !session.current).length ?? 0;
+
+  return (
+    <Card className="border-card-border">
+      <CardHeader className="flex flex-row items-center justify-between gap-4 pb-4">
+        <CardTitle className="flex items-center gap-2">
+          <Monitor className="w-5 h-5 text-primary" />
+          Active Sessions
+        </CardTitle>
+        {others > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => revokeMutation.mutate(null)}
+            disabled={revokeMutation.isPending}
+            data-testid="button-revoke-other-sessions"
+          >
+            Sign Out Other Sessions
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 text-primary animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {sessions?.map((session) => {
+              const DeviceIcon = session.userAgent && /Mobile|Android|iPhone/.test(session.userAgent) ? Smartphone : Monitor;
+              return (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between gap-4 py-3 px-4 rounded-md bg-background/50 hover-elevate"
+                  data-testid={`row-session-${session.id}`}
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className="p-2 rounded-md bg-muted">
+                      <DeviceIcon className="w-4 h-4 text-muted-foreground" />
+                    </div>
+                    <div className="min-w-0">
+                      <div className="font-medium text-sm flex items-center gap-2" title={session.userAgent ?? undefined}>
+                        {describeUserAgent(session.userAgent)}
+                        {session.current && (
+                          <Badge variant="outline" className="text-xs bg-primary/20 text-primary border-primary/30">
+                            this device
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground font-mono truncate">
+                        {session.ip ?? "unknown address"}
+                        {session.lastSeenAt && ` · active ${new Date(session.lastSeenAt).toLocaleString()}`}
+                        {session.signedInAt && ` · signed in ${new Date(session.signedInAt).toLocaleString()}`}
+                      </div>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Sign out this session"
+                      onClick={() => revokeMutation.mutate(session.id)}
+                      disabled={revokeMutation.isPending}
+                      data-testid={`button-revoke-session-${session.id}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Account() {
+  const [, setLocation] = useLocation();
+  const { authStatus, isLoading } = usePermissions();
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      setLocation("/");
+    },
+  });
+
+  if (!isLoading && authStatus?.authenticated === false) {
+    setLocation("/");
+    return null;
+  }
+
+  const user = authStatus?.user;
+  const passwordChangeRequired = !!user?.passwordChangeRequired;
+  const setupRequired = passwordChangeRequired || !!user?.twoFactorSetupRequired;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b border-border bg-card/95 backdrop-blur">
+        <div className="max-w-4xl mx-auto px-4 py-3 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            {!setupRequired && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setLocation("/dashboard")}
+                data-testid="button-back"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+            )}
+            <div className="p-2 rounded-md bg-primary/10 glow-primary-sm">
+              <Shield className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-lg font-bold tracking-wide">ACCOUNT</h1>
+              <p className="text-xs text-muted-foreground font-mono">
+                {user ? `${user.username} · ${user.role}` : "..."}
+              </p>
+            </div>
+          </div>
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => logoutMutation.mutate()}
+            data-testid="button-logout"
+          >
+            <LogOut className="w-4 h-4" />
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        {passwordChangeRequired && (
+          <Alert variant="destructive" data-testid="alert-password-change-required">
+            <ShieldAlert className="w-4 h-4" />
+            <AlertTitle>Password change required</AlertTitle>
+            <AlertDescription>
+              You signed in with a password someone else set. Choose your own below to continue.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!passwordChangeRequired && user?.twoFactorSetupRequired && (
+          <Alert variant="destructive" data-testid="alert-2fa-required">
+            <ShieldAlert className="w-4 h-4" />
+            <AlertTitle>Two-factor authentication required</AlertTitle>
+            <AlertDescription>
+              Your role requires two-factor authentication. Set it up below to continue to the dashboard.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading || !user ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 text-primary animate-spin" />
+          </div>
+        ) : (
+          <>
+            <ChangePasswordCard user={user} />
+            <TwoFactorCard />
+            <SessionsCard />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,1236 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Shield,
+  ArrowLeft,
+  Plus,
+  Edit,
+  Trash2,
+  Bell,
+  BellOff,
+  BellRing,
+  CheckCircle2,
+  Send,
+  Clock,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  alertChannelTypes,
+  alertComparators,
+  alertDeviceStatuses,
+  alertSeverities,
+  systemMetricNames,
+  type AlertChannel,
+  type AlertRule,
+  type AlertWithRule,
+  type Device,
+} from "@shared/schema";
+
+const metricLabels: Record<string, string> = {
+  cpu: "CPU Usage (%)",
+  memory: "Memory Usage (%)",
+  disk: "Disk Usage (%)",
+  temperature: "Temperature (°C)",
+};
+
+const channelTypeLabels: Record<string, string> = {
+  webhook: "Webhook",
+  email: "Email (SMTP)",
+  ntfy: "ntfy",
+  gotify: "Gotify",
+};
+
+const snoozeOptions = [
+  { minutes: 15, label: "15 minutes" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 240, label: "4 hours" },
+  { minutes: 1440, label: "1 day" },
+];
+
+function SeverityBadge({ severity }: { severity: string }) {
+  const variants: Record<string, string> = {
+    critical: "bg-destructive/20 text-destructive border-destructive/30",
+    warning: "bg-yellow-500/20 text-yellow-500 border-yellow-500/30",
+    info: "bg-primary/20 text-primary border-primary/30",
+  };
+  return (
+    <Badge variant="outline" className={`${variants[severity] || variants.info} font-mono text-xs uppercase`}>
+      {severity}
+    </Badge>
+  );
+}
+
+function StateBadge({ state }: { state: string }) {
+  if (state === "firing") {
+    return (
+      <Badge variant="outline" className="bg-destructive/20 text-destructive border-destructive/30 gap-1">
+        <BellRing className="w-3 h-3" />
+        Firing
+      </Badge>
+    );
+  }
+  if (state === "pending") {
+    return (
+      <Badge variant="outline" className="bg-yellow-500/20 text-yellow-500 border-yellow-500/30 gap-1">
+        <Clock className="w-3 h-3" />
+        Pending
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="outline" className="bg-primary/20 text-primary border-primary/30 gap-1">
+      <CheckCircle2 className="w-3 h-3" />
+      Resolved
+    </Badge>
+  );
+}
+
+function AlertRow({ alert, canManage }: { alert: AlertWithRule; canManage: boolean }) {
+  const { toast } = useToast();
+  const isSnoozed = !!alert.snoozedUntil && new Date(alert.snoozedUntil).getTime() > Date.now();
+
+  const snoozeMutation = useMutation({
+    mutationFn: async (minutes: number) => {
+      return await apiRequest("POST", `/api/alerts/${alert.id}/snooze`, { minutes });
+    },
+    onSuccess: (_, minutes) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+      toast({
+        title: minutes > 0 ? "Alert Snoozed" : "Snooze Cleared",
+        description: minutes > 0 ? "Notifications for this alert are paused." : "Notifications for this alert are active again.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update snooze. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex items-start justify-between gap-4 py-3 px-4 rounded-md bg-background/50" data-testid={`row-alert-${alert.id}`}>
+      <div className="min-w-0 space-y-1">
+        <div className="flex items-center gap-2 flex-wrap">
+          <StateBadge state={alert.state} />
+          <SeverityBadge severity={alert.severity} />
+          <span className="font-medium text-sm">{alert.ruleName}</span>
+          <span className="text-xs text-muted-foreground">· {alert.subjectLabel}</span>
+        </div>
+        <p className="text-sm text-muted-foreground">{alert.message}</p>
+        <div className="text-xs text-muted-foreground font-mono">
+          Started {new Date(alert.startedAt).toLocaleString()}
+          {alert.resolvedAt && ` · Resolved ${new Date(alert.resolvedAt).toLocaleString()}`}
+          {isSnoozed && ` · Snoozed until ${new Date(alert.snoozedUntil!).toLocaleString()}`}
+        </div>
+      </div>
+      {canManage && alert.state !== "resolved" && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" data-testid={`button-snooze-alert-${alert.id}`}>
+              {isSnoozed ? <BellOff className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {snoozeOptions.map((option) => (
+              <DropdownMenuItem key={option.minutes} onClick={() => snoozeMutation.mutate(option.minutes)}>
+                Snooze {option.label}
+              </DropdownMenuItem>
+            ))}
+            {isSnoozed && (
+              <DropdownMenuItem onClick={() => snoozeMutation.mutate(0)}>
+                Clear snooze
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+}
+
+function AlertList({ state, canManage }: { state: "active" | "history"; canManage: boolean }) {
+  const { data: alerts, isLoading } = useQuery<AlertWithRule[]>({
+    queryKey: [`/api/alerts?state=${state}`],
+    refetchInterval: 30000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[200px]">
+        <p className="text-muted-foreground">Loading alerts...</p>
+      </div>
+    );
+  }
+
+  if (!alerts || alerts.length === 0) {
+    return (
+      <Card className="border-card-border">
+        <CardContent className="p-8 text-center">
+          <CheckCircle2 className="w-12 h-12 mx-auto mb-4 text-primary" />
+          <h3 className="text-lg font-semibold mb-2">
+            {state === "active" ? "All Clear" : "No Alert History"}
+          </h3>
+          <p className="text-muted-foreground">
+            {state === "active" ? "No alerts are pending or firing." : "Resolved alerts will show up here."}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="border-card-border">
+      <CardContent className="p-2 space-y-2">
+        {alerts.map((alert) => (
+          <AlertRow key={alert.id} alert={alert} canManage={canManage} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+const ruleFormSchema = z.object({
+  name: z.string().min(1, "Rule name is required"),
+  targetType: z.enum(["metric", "device"]),
+  metric: z.enum(systemMetricNames),
+  comparator: z.enum(alertComparators),
+  threshold: z.coerce.number(),
+  deviceId: z.string(),
+  deviceStatus: z.enum(alertDeviceStatuses),
+  durationSeconds: z.coerce.number().int().min(0, "Duration cannot be negative"),
+  severity: z.enum(alertSeverities),
+  channelIds: z.array(z.string()),
+  enabled: z.boolean(),
+});
+
+type RuleFormData = z.infer<typeof ruleFormSchema>;
+
+const ANY_DEVICE = "any";
+
+const defaultRuleForm: RuleFormData = {
+  name: "",
+  targetType: "metric",
+  metric: "cpu",
+  comparator: ">",
+  threshold: 90,
+  deviceId: ANY_DEVICE,
+  deviceStatus: "offline",
+  durationSeconds: 300,
+  severity: "warning",
+  channelIds: [],
+  enabled: true,
+};
+
+function ruleToForm(rule: AlertRule): RuleFormData {
+  return {
+    name: rule.name,
+    targetType: rule.targetType as RuleFormData["targetType"],
+    metric: (rule.metric as RuleFormData["metric"]) || "cpu",
+    comparator: (rule.comparator as RuleFormData["comparator"]) || ">",
+    threshold: rule.threshold ?? 90,
+    deviceId: rule.deviceId || ANY_DEVICE,
+    deviceStatus: (rule.deviceStatus as RuleFormData["deviceStatus"]) || "offline",
+    durationSeconds: rule.durationSeconds,
+    severity: rule.severity as RuleFormData["severity"],
+    channelIds: rule.channelIds,
+    enabled: rule.enabled,
+  };
+}
+
+function formToRulePayload(data: RuleFormData) {
+  const isMetric = data.targetType === "metric";
+  return {
+    name: data.name,
+    targetType: data.targetType,
+    metric: isMetric ? data.metric : null,
+    comparator: isMetric ? data.comparator : null,
+    threshold: isMetric ? data.threshold : null,
+    deviceId: !isMetric && data.deviceId !== ANY_DEVICE ? data.deviceId : null,
+    deviceStatus: isMetric ? null : data.deviceStatus,
+    durationSeconds: data.durationSeconds,
+    severity: data.severity,
+    channelIds: data.channelIds,
+    enabled: data.enabled,
+  };
+}
+
+function describeRule(rule: AlertRule, devices: Device[] | undefined) {
+  if (rule.targetType === "metric") {
+    return `${metricLabels[rule.metric || ""] || rule.metric} ${rule.comparator} ${rule.threshold}`;
+  }
+  const device = devices?.find((d) => d.id === rule.deviceId);
+  return `${device ? device.name : "Any device"} is ${rule.deviceStatus}`;
+}
+
+function RulesPanel({ canManage }: { canManage: boolean }) {
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+  const [deletingRule, setDeletingRule] = useState<AlertRule | null>(null);
+
+  const { data: rules, isLoading } = useQuery<AlertRule[]>({
+    queryKey: ["/api/alert-rules"],
+  });
+
+  const { data: devices } = useQuery<Device[]>({
+    queryKey: ["/api/devices"],
+  });
+
+  const { data: channels } = useQuery<AlertChannel[]>({
+    queryKey: ["/api/alert-channels"],
+    enabled: canManage,
+  });
+
+  const form = useForm<RuleFormData>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: defaultRuleForm,
+  });
+
+  const targetType = form.watch("targetType");
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: RuleFormData) => {
+      const payload = formToRulePayload(data);
+      if (editingRule) {
+        return await apiRequest("PATCH", `/api/alert-rules/${editingRule.id}`, payload);
+      }
+      return await apiRequest("POST", "/api/alert-rules", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alert-rules"] });
+      setIsFormOpen(false);
+      setEditingRule(null);
+      toast({
+        title: editingRule ? "Rule Updated" : "Rule Added",
+        description: "The alert rule has been saved.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save alert rule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/alert-rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alert-rules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+      setDeletingRule(null);
+      toast({
+        title: "Rule Deleted",
+        description: "The alert rule has been removed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete alert rule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddRule = () => {
+    setEditingRule(null);
+    form.reset(defaultRuleForm);
+    setIsFormOpen(true);
+  };
+
+  const handleEditRule = (rule: AlertRule) => {
+    setEditingRule(rule);
+    form.reset(ruleToForm(rule));
+    setIsFormOpen(true);
+  };
+
+  return (
+    <div className="space-y-4">
+      {canManage && (
+        <div className="flex justify-end">
+          <Button onClick={handleAddRule} className="gap-2" data-testid="button-add-rule">
+            <Plus className="w-4 h-4" />
+            Add Rule
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <p className="text-muted-foreground">Loading rules...</p>
+        </div>
+      ) : !rules || rules.length === 0 ? (
+        <Card className="border-card-border">
+          <CardContent className="p-8 text-center text-muted-foreground">
+            No alert rules defined yet.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="border-card-border">
+          <CardContent className="p-2 space-y-2">
+            {rules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between gap-4 py-3 px-4 rounded-md bg-background/50"
+                data-testid={`row-rule-${rule.id}`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">{rule.name}</span>
+                    <SeverityBadge severity={rule.severity} />
+                    {!rule.enabled && <Badge variant="outline" className="text-xs">Disabled</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground font-mono">
+                    {describeRule(rule, devices)}
+                    {rule.durationSeconds > 0 && ` for ${rule.durationSeconds}s`}
+                    {` · ${rule.channelIds.length} channel${rule.channelIds.length === 1 ? "" : "s"}`}
+                  </div>
+                </div>
+                {canManage && (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleEditRule(rule)}
+                      data-testid={`button-edit-rule-${rule.id}`}
+                    >
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeletingRule(rule)}
+                      data-testid={`button-delete-rule-${rule.id}`}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Alert Rule" : "Add Alert Rule"}</DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rule Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., High CPU" {...field} data-testid="input-rule-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="targetType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Watch</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-rule-target">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="metric">System Metric</SelectItem>
+                          <SelectItem value="device">Device Status</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="severity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Severity</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-rule-severity">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {alertSeverities.map((severity) => (
+                            <SelectItem key={severity} value={severity} className="capitalize">
+                              {severity}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {targetType === "metric" ? (
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="metric"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Metric</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-rule-metric">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {systemMetricNames.map((metric) => (
+                              <SelectItem key={metric} value={metric}>
+                                {metricLabels[metric]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="comparator"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Condition</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-rule-comparator">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {alertComparators.map((comparator) => (
+                              <SelectItem key={comparator} value={comparator}>
+                                {comparator}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="threshold"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Threshold</FormLabel>
+                        <FormControl>
+                          <Input type="number" {...field} data-testid="input-rule-threshold" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="deviceId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Device</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-rule-device">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={ANY_DEVICE}>Any device</SelectItem>
+                            {devices?.map((device) => (
+                              <SelectItem key={device.id} value={device.id}>
+                                {device.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="deviceStatus"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Status Is</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-rule-device-status">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {alertDeviceStatuses.map((status) => (
+                              <SelectItem key={status} value={status} className="capitalize">
+                                {status}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
+              <FormField
+                control={form.control}
+                name="durationSeconds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fire after condition holds for (seconds)</FormLabel>
+                    <FormControl>
+                      <Input type="number" {...field} data-testid="input-rule-duration" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="channelIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notify Channels</FormLabel>
+                    {channels && channels.length > 0 ? (
+                      <div className="space-y-2">
+                        {channels.map((channel) => (
+                          <label key={channel.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(channel.id)}
+                              onCheckedChange={(checked) => {
+                                field.onChange(checked
+                                  ? [...field.value, channel.id]
+                                  : field.value.filter((id) => id !== channel.id));
+                              }}
+                              data-testid={`checkbox-rule-channel-${channel.id}`}
+                            />
+                            {channel.name}
+                            <span className="text-xs text-muted-foreground">({channelTypeLabels[channel.type]})</span>
+                          </label>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        No channels configured. Alerts will only appear on this page.
+                      </p>
+                    )}
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="enabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-4">
+                    <FormLabel>Enabled</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-rule-enabled" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-rule">
+                  {saveMutation.isPending ? "Saving..." : "Save Rule"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingRule} onOpenChange={() => setDeletingRule(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Alert Rule</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{deletingRule?.name}"? Its alert history will be removed as well.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingRule && deleteMutation.mutate(deletingRule.id)}
+              className="bg-destructive text-destructive-foreground"
+              data-testid="button-confirm-delete"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+const channelFormSchema = z.object({
+  name: z.string().min(1, "Channel name is required"),
+  type: z.enum(alertChannelTypes),
+  enabled: z.boolean(),
+  url: z.string().optional(),
+  serverUrl: z.string().optional(),
+  topic: z.string().optional(),
+  token: z.string().optional(),
+  host: z.string().optional(),
+  port: z.string().optional(),
+  secure: z.boolean(),
+  username: z.string().optional(),
+  password: z.string().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+}).superRefine((data, ctx) => {
+  const require = (field: keyof typeof data, message: string) => {
+    if (!data[field]) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+  };
+  if (data.type === "webhook") require("url", "URL is required");
+  if (data.type === "ntfy") require("topic", "Topic is required");
+  if (data.type === "gotify") {
+    require("serverUrl", "Server URL is required");
+    require("token", "Application token is required");
+  }
+  if (data.type === "email") {
+    require("host", "SMTP host is required");
+    require("from", "Sender address is required");
+    require("to", "Recipient is required");
+  }
+});
+
+type ChannelFormData = z.infer<typeof channelFormSchema>;
+
+const defaultChannelForm: ChannelFormData = {
+  name: "",
+  type: "ntfy",
+  enabled: true,
+  url: "",
+  serverUrl: "https://ntfy.sh",
+  topic: "",
+  token: "",
+  host: "",
+  port: "587",
+  secure: false,
+  username: "",
+  password: "",
+  from: "",
+  to: "",
+};
+
+function channelToForm(channel: AlertChannel): ChannelFormData {
+  const config = channel.config as Record<string, unknown>;
+  const text = (value: unknown, fallback = "") => (value === undefined || value === null ? fallback : String(value));
+  return {
+    ...defaultChannelForm,
+    name: channel.name,
+    type: channel.type as ChannelFormData["type"],
+    enabled: channel.enabled,
+    url: text(config.url),
+    serverUrl: text(config.serverUrl, defaultChannelForm.serverUrl),
+    topic: text(config.topic),
+    token: text(config.token),
+    host: text(config.host),
+    port: text(config.port, "587"),
+    secure: config.secure === true,
+    username: text(config.username),
+    password: text(config.password),
+    from: text(config.from),
+    to: text(config.to),
+  };
+}
+
+function formToChannelPayload(data: ChannelFormData) {
+  const optional = (value?: string) => (value ? value : undefined);
+  const configs: Record<ChannelFormData["type"], Record<string, unknown>> = {
+    webhook: { url: data.url },
+    ntfy: { serverUrl: data.serverUrl || "https://ntfy.sh", topic: data.topic, token: optional(data.token) },
+    gotify: { serverUrl: data.serverUrl, token: data.token },
+    email: {
+      host: data.host,
+      port: Number(data.port || 587),
+      secure: data.secure,
+      username: optional(data.username),
+      password: optional(data.password),
+      from: data.from,
+      to: data.to,
+    },
+  };
+  return { name: data.name, type: data.type, enabled: data.enabled, config: configs[data.type] };
+}
+
+function ChannelsPanel() {
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingChannel, setEditingChannel] = useState<AlertChannel | null>(null);
+  const [deletingChannel, setDeletingChannel] = useState<AlertChannel | null>(null);
+
+  const { data: channels, isLoading } = useQuery<AlertChannel[]>({
+    queryKey: ["/api/alert-channels"],
+  });
+
+  const form = useForm<ChannelFormData>({
+    resolver: zodResolver(channelFormSchema),
+    defaultValues: defaultChannelForm,
+  });
+
+  const channelType = form.watch("type");
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ChannelFormData) => {
+      const payload = formToChannelPayload(data);
+      if (editingChannel) {
+        return await apiRequest("PATCH", `/api/alert-channels/${editingChannel.id}`, payload);
+      }
+      return await apiRequest("POST", "/api/alert-channels", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alert-channels"] });
+      setIsFormOpen(false);
+      setEditingChannel(null);
+      toast({
+        title: editingChannel ? "Channel Updated" : "Channel Added",
+        description: "The notification channel has been saved.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save channel. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/alert-channels/${id}/test`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Test Sent",
+        description: "A test notification was delivered.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Delivery Failed",
+        description: error.message || "Failed to send test notification.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/alert-channels/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alert-channels"] });
+      setDeletingChannel(null);
+      toast({
+        title: "Channel Deleted",
+        description: "The notification channel has been removed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete channel. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddChannel = () => {
+    setEditingChannel(null);
+    form.reset(defaultChannelForm);
+    setIsFormOpen(true);
+  };
+
+  const handleEditChannel = (channel: AlertChannel) => {
+    setEditingChannel(channel);
+    form.reset(channelToForm(channel));
+    setIsFormOpen(true);
+  };
+
+  const textField = (name: keyof ChannelFormData, label: string, placeholder?: string, type = "text") => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type={type}
+              placeholder={placeholder}
+              {...field}
+              value={field.value as string}
+              data-testid={`input-channel-${name}`}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={handleAddChannel} className="gap-2" data-testid="button-add-channel">
+          <Plus className="w-4 h-4" />
+          Add Channel
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <p className="text-muted-foreground">Loading channels...</p>
+        </div>
+      ) : !channels || channels.length === 0 ? (
+        <Card className="border-card-border">
+          <CardContent className="p-8 text-center text-muted-foreground">
+            No notification channels configured yet.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="border-card-border">
+          <CardContent className="p-2 space-y-2">
+            {channels.map((channel) => (
+              <div
+                key={channel.id}
+                className="flex items-center justify-between gap-4 py-3 px-4 rounded-md bg-background/50"
+                data-testid={`row-channel-${channel.id}`}
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">{channel.name}</span>
+                    <Badge variant="outline" className="text-xs">{channelTypeLabels[channel.type]}</Badge>
+                    {!channel.enabled && <Badge variant="outline" className="text-xs">Disabled</Badge>}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => testMutation.mutate(channel.id)}
+                    disabled={testMutation.isPending}
+                    data-testid={`button-test-channel-${channel.id}`}
+                  >
+                    <Send className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleEditChannel(channel)}
+                    data-testid={`button-edit-channel-${channel.id}`}
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDeletingChannel(channel)}
+                    data-testid={`button-delete-channel-${channel.id}`}
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingChannel ? "Edit Channel" : "Add Notification Channel"}</DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                {textField("name", "Channel Name", "e.g., Phone")}
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-channel-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {alertChannelTypes.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {channelTypeLabels[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {channelType === "webhook" && textField("url", "Webhook URL", "https://example.com/hooks/alerts")}
+
+              {channelType === "ntfy" && (
+                <>
+                  {textField("serverUrl", "Server URL", "https://ntfy.sh")}
+                  <div className="grid grid-cols-2 gap-4">
+                    {textField("topic", "Topic", "homelab-alerts")}
+                    {textField("token", "Access Token (optional)", undefined, "password")}
+                  </div>
+                </>
+              )}
+
+              {channelType === "gotify" && (
+                <>
+                  {textField("serverUrl", "Server URL", "https://gotify.example.com")}
+                  {textField("token", "Application Token", undefined, "password")}
+                </>
+              )}
+
+              {channelType === "email" && (
+                <>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="col-span-2">{textField("host", "SMTP Host", "smtp.example.com")}</div>
+                    {textField("port", "Port", "587")}
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="secure"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4">
+                        <FormLabel>Implicit TLS (port 465)</FormLabel>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-channel-secure" />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-2 gap-4">
+                    {textField("username", "Username (optional)")}
+                    {textField("password", "Password (optional)", undefined, "password")}
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    {textField("from", "From", "lab@example.com")}
+                    {textField("to", "To", "you@example.com")}
+                  </div>
+                </>
+              )}
+
+              <FormField
+                control={form.control}
+                name="enabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-4">
+                    <FormLabel>Enabled</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-channel-enabled" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-channel">
+                  {saveMutation.isPending ? "Saving..." : "Save Channel"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingChannel} onOpenChange={() => setDeletingChannel(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Channel</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{deletingChannel?.name}"? Rules using it will stop notifying through it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingChannel && deleteMutation.mutate(deletingChannel.id)}
+              className="bg-destructive text-destructive-foreground"
+              data-testid="button-confirm-delete"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default function Alerts() {
+  const [, setLocation] = useLocation();
+
+  const { can } = usePermissions();
+  const canManage = can("alerts:manage");
+
+  const { data: activeAlerts } = useQuery<AlertWithRule[]>({
+    queryKey: ["/api/alerts?state=active"],
+    refetchInterval: 30000,
+  });
+
+  const firingCount = activeAlerts?.filter((alert) => alert.state === "firing").length || 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b border-border bg-card/95 backdrop-blur">
+        <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setLocation("/dashboard")}
+              data-testid="button-back"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="p-2 rounded-md bg-primary/10 glow-primary-sm">
+              <Shield className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-lg font-bold tracking-wide">ALERTS</h1>
+              <p className="text-xs text-muted-foreground font-mono">
+                {firingCount} firing
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6">
+        <Tabs defaultValue="active">
+          <TabsList className="mb-6">
+            <TabsTrigger value="active" data-testid="tab-alerts-active">Active</TabsTrigger>
+            <TabsTrigger value="history" data-testid="tab-alerts-history">History</TabsTrigger>
+            <TabsTrigger value="rules" data-testid="tab-alerts-rules">Rules</TabsTrigger>
+            {canManage && (
+              <TabsTrigger value="channels" data-testid="tab-alerts-channels">Channels</TabsTrigger>
+            )}
+          </TabsList>
+
+          <TabsContent value="active">
+            <AlertList state="active" canManage={canManage} />
+          </TabsContent>
+          <TabsContent value="history">
+            <AlertList state="history" canManage={canManage} />
+          </TabsContent>
+          <TabsContent value="rules">
+            <RulesPanel canManage={canManage} />
+          </TabsContent>
+          {canManage && (
+            <TabsContent value="channels">
+              <ChannelsPanel />
+            </TabsContent>
+          )}
+        </Tabs>
+      </main>
+    </div>
+  );
+}
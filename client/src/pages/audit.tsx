@@ -0,0 +1,392 @@
+import { Fragment, useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Shield,
+  ArrowLeft,
+  Loader2,
+  Lock,
+  Download,
+  ChevronDown,
+  ChevronRight,
+  ChevronLeft,
+  ScrollText,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { usePermissions } from "@/hooks/use-permissions";
+import {
+  auditActions,
+  auditEntityTypes,
+  type AuditChange,
+  type AuditEvent,
+  type AuditEventPage,
+} from "@shared/schema";
+
+const PAGE_SIZE = 50;
+const FILTER_DELAY_MS = 300;
+const ALL = "all";
+
+const actionStyles: Record<string, string> = {
+  create: "bg-primary/20 text-primary border-primary/30",
+  delete: "bg-destructive/20 text-destructive border-destructive/30",
+  login_failed: "bg-destructive/20 text-destructive border-destructive/30",
+  lock: "bg-destructive/20 text-destructive border-destructive/30",
+  run: "bg-yellow-500/20 text-yellow-500 border-yellow-500/30",
+  start: "bg-yellow-500/20 text-yellow-500 border-yellow-500/30",
+  stop: "bg-destructive/20 text-destructive border-destructive/30",
+  restart: "bg-yellow-500/20 text-yellow-500 border-yellow-500/30",
+  reload: "bg-yellow-500/20 text-yellow-500 border-yellow-500/30",
+  recreate: "bg-yellow-500/20 text-yellow-500 border-yellow-500/30",
+};
+
+// "alert_channel" -> "alert channel"
+const humanize = (value: string) => value.replace(/_/g, " ");
+
+interface AuditFilters {
+  actor: string;
+  q: string;
+  action: string;
+  entityType: string;
+  from: string;
+  to: string;
+}
+
+const emptyFilters: AuditFilters = { actor: "", q: "", action: ALL, entityType: ALL, from: "", to: "" };
+
+// Query string shared by the table and the CSV export. Dates are whole
+// local days, so "to" runs until the end of its day.
+function auditSearchParams(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.actor.trim()) params.set("actor", filters.actor.trim());
+  if (filters.q.trim()) params.set("q", filters.q.trim());
+  if (filters.action !== ALL) params.set("action", filters.action);
+  if (filters.entityType !== ALL) params.set("entityType", filters.entityType);
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function ChangesTable({ changes }: { changes: AuditChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No field changes recorded.</p>;
+  }
+  return (
+    <div className="space-y-1 font-mono text-xs">
+      {changes.map((change) => (
+        <div key={change.field} className="grid grid-cols-[10rem_1fr_1fr] gap-3" data-testid={`audit-change-${change.field}`}>
+          <span className="text-muted-foreground truncate">{change.field}</span>
+          <span className="text-destructive/90 break-all whitespace-pre-wrap">{formatValue(change.before)}</span>
+          <span className="text-primary break-all whitespace-pre-wrap">{formatValue(change.after)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function AuditEventRow({ event }: { event: AuditEvent }) {
+  const [expanded, setExpanded] = useState(false);
+  const hasDetails = event.changes.length > 0 || !!event.userAgent;
+
+  return (
+    <Fragment>
+      <TableRow
+        className={hasDetails ? "cursor-pointer" : undefined}
+        onClick={() => hasDetails && setExpanded(!expanded)}
+        data-testid={`row-audit-${event.id}`}
+      >
+        <TableCell className="w-6 pr-0">
+          {hasDetails && (expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+        </TableCell>
+        <TableCell className="font-mono text-xs whitespace-nowrap">
+          {new Date(event.createdAt).toLocaleString()}
+        </TableCell>
+        <TableCell className="font-medium">{event.actorName}</TableCell>
+        <TableCell>
+          <Badge variant="outline" className={`${actionStyles[event.action] || ""} font-mono text-xs`}>
+            {humanize(event.action)}
+          </Badge>
+        </TableCell>
+        <TableCell>
+          <span className="text-xs text-muted-foreground mr-2">{humanize(event.entityType)}</span>
+          {event.entityLabel}
+        </TableCell>
+        <TableCell className="font-mono text-xs text-muted-foreground">{event.ip}</TableCell>
+      </TableRow>
+      {expanded && (
+        <TableRow className="hover:bg-transparent">
+          <TableCell />
+          <TableCell colSpan={5} className="space-y-3 pb-4">
+            <ChangesTable changes={event.changes} />
+            {event.userAgent && (
+              <p className="text-xs text-muted-foreground font-mono break-all">{event.userAgent}</p>
+            )}
+          </TableCell>
+        </TableRow>
+      )}
+    </Fragment>
+  );
+}
+
+export default function Audit() {
+  const [, setLocation] = useLocation();
+
+  const { authStatus, isLoading: authLoading, can } = usePermissions();
+  const canView = can("audit:view");
+
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters);
+  const [applied, setApplied] = useState<AuditFilters>(emptyFilters);
+  const [offset, setOffset] = useState(0);
+
+  // Typing in the text filters waits for a pause before querying
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setApplied(filters);
+      setOffset(0);
+    }, FILTER_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  const params = auditSearchParams(applied);
+  const pageParams = new URLSearchParams(params);
+  pageParams.set("limit", String(PAGE_SIZE));
+  pageParams.set("offset", String(offset));
+
+  const { data: page, isLoading, isFetching } = useQuery<AuditEventPage>({
+    queryKey: [`/api/audit-events?${pageParams}`],
+    enabled: authStatus?.authenticated === true && canView,
+    staleTime: 0,
+  });
+
+  if (!authLoading && authStatus?.authenticated === false) {
+    setLocation("/");
+    return null;
+  }
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 text-primary animate-spin mx-auto mb-4" />
+          <p className="text-muted-foreground">Verifying access...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!canView) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <Lock className="w-12 h-12 text-destructive mx-auto mb-4" />
+          <h2 className="text-xl font-bold mb-2">Access Denied</h2>
+          <p className="text-muted-foreground mb-6">Your role does not include the audit:view permission.</p>
+          <Button onClick={() => setLocation("/dashboard")} data-testid="button-back-to-dashboard">
+            Back to Dashboard
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const updateFilter = (field: keyof AuditFilters, value: string) => {
+    setFilters((current) => ({ ...current, [field]: value }));
+  };
+
+  const total = page?.total ?? 0;
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(emptyFilters);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b border-border bg-card/95 backdrop-blur">
+        <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setLocation("/dashboard")}
+              data-testid="button-back"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="p-2 rounded-md bg-primary/10 glow-primary-sm">
+              <Shield className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-lg font-bold tracking-wide">AUDIT LOG</h1>
+              <p className="text-xs text-muted-foreground font-mono">
+                {total} event{total === 1 ? "" : "s"}
+              </p>
+            </div>
+          </div>
+
+          <Button variant="outline" className="gap-2" asChild data-testid="button-export-audit">
+            <a href={`/api/audit-events/export.csv?${params}`} download>
+              <Download className="w-4 h-4" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        <Card className="border-card-border">
+          <CardContent className="p-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-6">
+            <Input
+              value={filters.actor}
+              onChange={(e) => updateFilter("actor", e.target.value)}
+              placeholder="User"
+              data-testid="input-audit-actor"
+            />
+            <Input
+              value={filters.q}
+              onChange={(e) => updateFilter("q", e.target.value)}
+              placeholder="Device, script, note..."
+              data-testid="input-audit-search"
+            />
+            <Select value={filters.action} onValueChange={(value) => updateFilter("action", value)}>
+              <SelectTrigger data-testid="select-audit-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                {auditActions.map((action) => (
+                  <SelectItem key={action} value={action}>{humanize(action)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filters.entityType} onValueChange={(value) => updateFilter("entityType", value)}>
+              <SelectTrigger data-testid="select-audit-entity-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All types</SelectItem>
+                {auditEntityTypes.map((entityType) => (
+                  <SelectItem key={entityType} value={entityType}>{humanize(entityType)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter("from", e.target.value)}
+              aria-label="From date"
+              data-testid="input-audit-from"
+            />
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilter("to", e.target.value)}
+                aria-label="To date"
+                data-testid="input-audit-to"
+              />
+              {isFiltered && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setFilters(emptyFilters)}
+                  aria-label="Clear filters"
+                  data-testid="button-clear-audit-filters"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[200px]">
+            <p className="text-muted-foreground">Loading audit log...</p>
+          </div>
+        ) : !page || page.events.length === 0 ? (
+          <Card className="border-card-border">
+            <CardContent className="p-8 text-center">
+              <ScrollText className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-semibold mb-2">No Events</h3>
+              <p className="text-muted-foreground">
+                {isFiltered ? "No events match these filters." : "Changes and sign-ins will show up here."}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="border-card-border">
+            <CardContent className="p-2">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    <TableHead>Time</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>IP</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {page.events.map((event) => (
+                    <AuditEventRow key={event.id} event={event} />
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="flex items-center justify-between gap-4 px-2 pt-3 pb-1 text-sm text-muted-foreground">
+                <span className="font-mono" data-testid="text-audit-range">
+                  {offset + 1}–{offset + page.events.length} of {total}
+                  {isFetching && <Loader2 className="w-3 h-3 ml-2 inline animate-spin" />}
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                    disabled={offset === 0}
+                    data-testid="button-audit-prev"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                    Newer
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setOffset(offset + PAGE_SIZE)}
+                    disabled={offset + PAGE_SIZE >= total}
+                    data-testid="button-audit-next"
+                  >
+                    Older
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
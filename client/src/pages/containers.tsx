@@ -0,0 +1,402 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Shield,
+  ArrowLeft,
+  Box,
+  Boxes,
+  ChevronDown,
+  Play,
+  Square,
+  RotateCw,
+  DownloadCloud,
+  Loader2,
+  AlertTriangle,
+  RefreshCw,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ContainerAction, ContainerActionResult, ContainerSummary } from "@shared/schema";
+
+const REFRESH_INTERVAL_MS = 15000;
+const STANDALONE = "Standalone containers";
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+function StateBadge({ container }: { container: ContainerSummary }) {
+  const styles: Record<string, string> = {
+    running: "bg-primary/20 text-primary border-primary/30",
+    restarting: "bg-yellow-500/20 text-yellow-500 border-yellow-500/30",
+    paused: "bg-yellow-500/20 text-yellow-500 border-yellow-500/30",
+    exited: "bg-destructive/20 text-destructive border-destructive/30",
+    dead: "bg-destructive/20 text-destructive border-destructive/30",
+  };
+
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs capitalize ${styles[container.state] || "bg-muted text-muted-foreground border-border"}`}
+      data-testid={`badge-container-state-${container.id}`}
+    >
+      {container.state}
+    </Badge>
+  );
+}
+
+function HealthBadge({ health }: { health: NonNullable<ContainerSummary["health"]> }) {
+  const styles: Record<typeof health, string> = {
+    healthy: "bg-primary/10 text-primary border-primary/30",
+    starting: "bg-yellow-500/10 text-yellow-500 border-yellow-500/30",
+    unhealthy: "bg-destructive/10 text-destructive border-destructive/30",
+  };
+
+  return (
+    <Badge variant="outline" className={`text-xs ${styles[health]}`}>
+      {health}
+    </Badge>
+  );
+}
+
+function formatPort(port: ContainerSummary["ports"][number]) {
+  return port.publicPort ? `${port.publicPort}→${port.privatePort}/${port.type}` : `${port.privatePort}/${port.type}`;
+}
+
+const actionButtons: { action: ContainerAction; label: string; icon: typeof Box; destructive?: boolean }[] = [
+  { action: "start", label: "Start", icon: Play },
+  { action: "stop", label: "Stop", icon: Square, destructive: true },
+  { action: "restart", label: "Restart", icon: RotateCw },
+  { action: "recreate", label: "Pull & Recreate", icon: DownloadCloud },
+];
+
+const actionWarnings: Record<ContainerAction, string> = {
+  start: "",
+  stop: " Anything that depends on it stops working until it is started again.",
+  restart: " Clients connected to it are dropped.",
+  recreate: " If a newer image is pulled, the container is stopped and replaced by one with the same settings on the new image; named and anonymous volumes are kept.",
+};
+
+// Start/stop/restart/recreate buttons; each asks for confirmation first
+function ContainerActions({ container }: { container: ContainerSummary }) {
+  const { toast } = useToast();
+  const [pendingAction, setPendingAction] = useState<ContainerAction | null>(null);
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: ContainerAction) => {
+      const response = await apiRequest("POST", `/api/containers/${container.id}/actions`, { action });
+      return response.json() as Promise<ContainerActionResult>;
+    },
+    onSuccess: (result, action) => {
+      toast({
+        title: action === "recreate" && !result.recreated ? "Already Up to Date" : "Container Updated",
+        description: action === "recreate"
+          ? result.recreated
+            ? `${container.name} now runs the newly pulled ${container.image}.`
+            : `${container.image} has no newer image; ${container.name} was left as it is.`
+          : `${container.name}: ${action} finished.`,
+      });
+    },
+    onError: (error: Error, action) => {
+      const label = actionButtons.find((button) => button.action === action)?.label.toLowerCase() ?? action;
+      toast({
+        title: `Failed to ${label} ${container.name}`,
+        description: error.message || "The container action failed",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/containers"] });
+    },
+  });
+
+  const confirm = actionButtons.find((button) => button.action === pendingAction);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {actionButtons.map(({ action, label, icon: Icon, destructive }) => (
+        <Button
+          key={action}
+          variant="outline"
+          size="sm"
+          className={`gap-2 ${destructive ? "text-destructive" : ""}`}
+          disabled={actionMutation.isPending}
+          onClick={() => setPendingAction(action)}
+          data-testid={`button-container-${action}-${container.id}`}
+        >
+          {actionMutation.isPending && actionMutation.variables === action ? (
+            <Loader2 className="w-3 h-3 animate-spin" />
+          ) : (
+            <Icon className="w-3 h-3" />
+          )}
+          {label}
+        </Button>
+      ))}
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent className="bg-card border-card-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className={`w-5 h-5 ${confirm?.destructive ? "text-destructive" : "text-yellow-500"}`} />
+              {confirm?.label} {container.name}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction === "recreate" ? (
+                <>Pull <strong className="font-mono">{container.image}</strong> for <strong>{container.name}</strong>?</>
+              ) : (
+                <>Ask Docker to {pendingAction} <strong>{container.name}</strong>?</>
+              )}
+              {pendingAction && actionWarnings[pendingAction]}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingAction && actionMutation.mutate(pendingAction)}
+              className={confirm?.destructive ? "bg-destructive text-destructive-foreground" : undefined}
+              data-testid="button-confirm-container-action"
+            >
+              {confirm?.label}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function ContainerLogs({ container }: { container: ContainerSummary }) {
+  const { data, isLoading, isFetching, error, refetch } = useQuery<{ lines: string[] }>({
+    queryKey: ["/api/containers", container.id, "logs"],
+    // Fresh output each time the row is expanded
+    staleTime: 0,
+  });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span className="text-xs text-muted-foreground">Last 100 log lines</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => refetch()}
+          disabled={isFetching}
+          data-testid={`button-refresh-logs-${container.id}`}
+        >
+          <RefreshCw className={`w-3 h-3 ${isFetching ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground">Loading logs...</p>
+      ) : error ? (
+        <p className="text-xs text-destructive">{error.message || "Could not load logs"}</p>
+      ) : data && data.lines.length > 0 ? (
+        <pre
+          className="text-xs font-mono bg-muted/50 rounded-md p-2 max-h-72 overflow-auto whitespace-pre-wrap break-all"
+          data-testid={`text-container-logs-${container.id}`}
+        >
+          {data.lines.join("\n")}
+        </pre>
+      ) : (
+        <p className="text-xs text-muted-foreground">No output yet.</p>
+      )}
+    </div>
+  );
+}
+
+function ContainerRow({ container, canManage }: { container: ContainerSummary; canManage: boolean }) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="rounded-md bg-background/50" data-testid={`row-container-${container.id}`}>
+      <CollapsibleTrigger asChild>
+        <button
+          type="button"
+          className="flex w-full flex-wrap items-center justify-between gap-3 py-3 px-4 rounded-md text-left hover-elevate"
+          data-testid={`button-toggle-container-${container.id}`}
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="p-2 rounded-md bg-muted">
+              <Box className="w-4 h-4 text-muted-foreground" />
+            </div>
+            <div className="min-w-0">
+              <div className="font-medium text-sm truncate">
+                {container.name}
+                {container.composeService && container.composeService !== container.name && (
+                  <span className="text-muted-foreground font-normal"> · {container.composeService}</span>
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground font-mono truncate">{container.image}</div>
+              {container.ports.length > 0 && (
+                <div className="text-xs text-muted-foreground font-mono truncate">
+                  {container.ports.map(formatPort).join(", ")}
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-xs font-mono text-muted-foreground">
+            {container.cpuPercent !== null && <span>CPU {container.cpuPercent.toFixed(1)}%</span>}
+            {container.memoryBytes !== null && (
+              <span>
+                MEM {formatBytes(container.memoryBytes)}
+                {container.memoryLimitBytes ? ` / ${formatBytes(container.memoryLimitBytes)}` : ""}
+              </span>
+            )}
+            {container.restartCount > 0 && (
+              <span className="text-yellow-500" data-testid={`text-container-restarts-${container.id}`}>
+                {container.restartCount} restart{container.restartCount === 1 ? "" : "s"}
+              </span>
+            )}
+            {container.health && <HealthBadge health={container.health} />}
+            <StateBadge container={container} />
+            <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+          </div>
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        {isOpen && (
+          <div className="space-y-3 px-4 pb-3">
+            <div className="text-xs text-muted-foreground">
+              {container.status} · created {new Date(container.createdAt).toLocaleString()}
+            </div>
+            {canManage && <ContainerActions container={container} />}
+            <ContainerLogs container={container} />
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+// Compose projects by name, then containers started by hand
+function groupByProject(containers: ContainerSummary[]): [string, ContainerSummary[]][] {
+  const groups = new Map<string, ContainerSummary[]>();
+  for (const container of containers) {
+    const project = container.composeProject ?? STANDALONE;
+    groups.set(project, [...(groups.get(project) ?? []), container]);
+  }
+  return Array.from(groups.entries()).sort(([a], [b]) => {
+    if (a === STANDALONE) return 1;
+    if (b === STANDALONE) return -1;
+    return a.localeCompare(b);
+  });
+}
+
+export default function Containers() {
+  const [, setLocation] = useLocation();
+
+  const { can } = usePermissions();
+  const canManage = can("containers:manage");
+
+  const { data: containers, isLoading, error, refetch, isFetching } = useQuery<ContainerSummary[]>({
+    queryKey: ["/api/containers"],
+    refetchInterval: REFRESH_INTERVAL_MS,
+    retry: false,
+  });
+
+  const runningCount = containers?.filter((container) => container.state === "running").length || 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b border-border bg-card/95 backdrop-blur">
+        <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setLocation("/dashboard")}
+              data-testid="button-back"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="p-2 rounded-md bg-primary/10 glow-primary-sm">
+              <Shield className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-lg font-bold tracking-wide">CONTAINERS</h1>
+              <p className="text-xs text-muted-foreground font-mono">
+                {runningCount} / {containers?.length || 0} running
+              </p>
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            data-testid="button-refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${isFetching ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 text-primary animate-spin" />
+          </div>
+        ) : error ? (
+          <Card className="border-card-border">
+            <CardContent className="text-center py-12">
+              <AlertTriangle className="w-8 h-8 text-destructive mx-auto mb-4" />
+              <p className="text-muted-foreground" data-testid="text-containers-error">
+                {error.message || "Could not reach Docker"}
+              </p>
+              <Button variant="outline" className="mt-4" onClick={() => refetch()}>
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : containers && containers.length > 0 ? (
+          groupByProject(containers).map(([project, members]) => (
+            <Card key={project} className="border-card-border" data-testid={`card-project-${project}`}>
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center justify-between gap-2 text-base">
+                  <span className="flex items-center gap-2">
+                    {project === STANDALONE ? <Box className="w-4 h-4 text-primary" /> : <Boxes className="w-4 h-4 text-primary" />}
+                    {project}
+                  </span>
+                  <span className="text-xs font-normal text-muted-foreground">
+                    {members.filter((container) => container.state === "running").length} / {members.length} running
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-2 space-y-2">
+                {members.map((container) => (
+                  <ContainerRow key={container.id} container={container} canManage={canManage} />
+                ))}
+              </CardContent>
+            </Card>
+          ))
+        ) : (
+          <div className="text-center py-12 text-muted-foreground">
+            No containers on this host.
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
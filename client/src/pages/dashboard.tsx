@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import {
@@ -19,41 +19,65 @@ import {
   Network,
   FileCode,
   StickyNote,
+  Bell,
+  ScrollText,
+  UserCog,
+  AlertTriangle,
+  ChevronDown,
+  Share2,
+  Boxes,
+  Play,
+  Square,
+  RotateCw,
+  Loader2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useLiveRefetchInterval } from "@/hooks/use-live-updates";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { MetricHistory, ServiceAction, ServiceStatus, ServiceUnitDetails, SystemCollector, SystemMetricName, SystemStatus } from "@shared/schema";
 
-interface SystemStatus {
-  hostname: string;
-  uptime: string;
-  cpuUsage: number;
-  memoryUsage: number;
-  diskUsage: number;
-  networkStatus: "online" | "offline";
-  temperature: number;
-  services: ServiceStatus[];
-  lastUpdate: string;
-}
-
-interface ServiceStatus {
-  name: string;
-  status: "running" | "stopped" | "warning";
-  port?: number;
-  uptime?: string;
-}
-
-function StatusBadge({ status }: { status: "running" | "stopped" | "warning" | "online" | "offline" }) {
+function StatusBadge({ status }: { status: "running" | "stopped" | "warning" | "online" | "offline" | "unknown" }) {
   const variants: Record<string, { className: string; label: string }> = {
     running: { className: "bg-primary/20 text-primary border-primary/30", label: "Running" },
     online: { className: "bg-primary/20 text-primary border-primary/30", label: "Online" },
     stopped: { className: "bg-destructive/20 text-destructive border-destructive/30", label: "Stopped" },
     offline: { className: "bg-destructive/20 text-destructive border-destructive/30", label: "Offline" },
     warning: { className: "bg-yellow-500/20 text-yellow-500 border-yellow-500/30", label: "Warning" },
+    unknown: { className: "bg-muted text-muted-foreground border-border", label: "Unknown" },
   };
 
   const variant = variants[status] || variants.stopped;
@@ -65,21 +89,175 @@ function StatusBadge({ status }: { status: "running" | "stopped" | "warning" | "
   );
 }
 
+const historyRanges = [
+  { value: "1h", label: "1H", ms: 60 * 60 * 1000 },
+  { value: "24h", label: "24H", ms: 24 * 60 * 60 * 1000 },
+  { value: "7d", label: "7D", ms: 7 * 24 * 60 * 60 * 1000 },
+  { value: "30d", label: "30D", ms: 30 * 24 * 60 * 60 * 1000 },
+  { value: "1y", label: "1Y", ms: 365 * 24 * 60 * 60 * 1000 },
+];
+
+const historyChartConfig = {
+  value: { label: "Value", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+function formatHistoryTick(value: string, rangeMs: number) {
+  const date = new Date(value);
+  return rangeMs > 24 * 60 * 60 * 1000
+    ? date.toLocaleDateString(undefined, { month: "short", day: "numeric" })
+    : date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+function MetricSparkline({ metric }: { metric: SystemMetricName }) {
+  const { data: history } = useQuery<MetricHistory>({
+    queryKey: [`/api/system/history?metric=${metric}`],
+    refetchInterval: useLiveRefetchInterval(60000),
+  });
+
+  if (!history || history.points.length < 2) {
+    return <div className="h-10" />;
+  }
+
+  return (
+    <ChartContainer config={historyChartConfig} className="aspect-auto h-10 w-full">
+      <AreaChart data={history.points} margin={{ top: 2, right: 0, bottom: 0, left: 0 }}>
+        <YAxis hide domain={[0, "auto"]} />
+        <Area
+          dataKey="value"
+          type="monotone"
+          stroke="var(--color-value)"
+          fill="var(--color-value)"
+          fillOpacity={0.15}
+          strokeWidth={1.5}
+          isAnimationActive={false}
+        />
+      </AreaChart>
+    </ChartContainer>
+  );
+}
+
+function MetricHistoryDialog({
+  metric,
+  title,
+  unit,
+  open,
+  onOpenChange,
+}: {
+  metric: SystemMetricName;
+  title: string;
+  unit?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [range, setRange] = useState(historyRanges[0]);
+
+  // Pin "from" when the range changes so the query key stays stable between renders
+  const from = useMemo(() => new Date(Date.now() - range.ms).toISOString(), [range, open]);
+
+  const { data: history, isLoading } = useQuery<MetricHistory>({
+    queryKey: [`/api/system/history?metric=${metric}&from=${encodeURIComponent(from)}`],
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl bg-card border-card-border">
+        <DialogHeader>
+          <DialogTitle>{title} History</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-1">
+            {historyRanges.map((r) => (
+              <Button
+                key={r.value}
+                variant={r.value === range.value ? "default" : "ghost"}
+                size="sm"
+                onClick={() => setRange(r)}
+                data-testid={`button-history-range-${r.value}`}
+              >
+                {r.label}
+              </Button>
+            ))}
+          </div>
+          {history && (
+            <span className="text-xs text-muted-foreground font-mono">
+              {history.resolution} / {history.step}s step
+            </span>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <RefreshCw className="w-6 h-6 text-primary animate-spin" />
+          </div>
+        ) : !history || history.points.length === 0 ? (
+          <div className="flex items-center justify-center h-64 text-muted-foreground">
+            No samples recorded for this range yet
+          </div>
+        ) : (
+          <ChartContainer config={historyChartConfig} className="aspect-auto h-64 w-full">
+            <AreaChart data={history.points} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="t"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+                tickFormatter={(value) => formatHistoryTick(value, range.ms)}
+              />
+              <YAxis tickLine={false} axisLine={false} domain={[0, "auto"]} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const t = payload?.[0]?.payload?.t;
+                      return t ? new Date(t).toLocaleString() : "";
+                    }}
+                    formatter={(value) => `${value}${unit ?? ""}`}
+                  />
+                }
+              />
+              <Area
+                dataKey="value"
+                type="monotone"
+                stroke="var(--color-value)"
+                fill="var(--color-value)"
+                fillOpacity={0.15}
+                strokeWidth={2}
+                connectNulls
+                isAnimationActive={false}
+              />
+            </AreaChart>
+          </ChartContainer>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function MetricCard({
   icon: Icon,
+  metric,
   title,
   value,
   unit,
   percentage,
   status,
+  error,
 }: {
   icon: typeof Cpu;
+  metric: SystemMetricName;
   title: string;
-  value: string | number;
+  value: number | null;
   unit?: string;
   percentage?: number;
   status?: "good" | "warning" | "critical";
+  // Why the value could not be read
+  error?: string;
 }) {
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
   const getStatusColor = () => {
     switch (status) {
       case "critical": return "text-destructive";
@@ -96,79 +274,289 @@ function MetricCard({
   };
 
   return (
-    <Card className="border-card-border">
-      <CardContent className="p-4">
-        <div className="flex items-center gap-3 mb-3">
-          <div className={`p-2 rounded-md bg-primary/10 ${getStatusColor()}`}>
-            <Icon className="w-4 h-4" />
+    <>
+      <Card
+        className="border-card-border hover-elevate cursor-pointer"
+        onClick={() => setIsHistoryOpen(true)}
+        data-testid={`card-metric-${metric}`}
+      >
+        <CardContent className="p-4">
+          <div className="flex items-center gap-3 mb-3">
+            <div className={`p-2 rounded-md bg-primary/10 ${getStatusColor()}`}>
+              <Icon className="w-4 h-4" />
+            </div>
+            <span className="text-sm text-muted-foreground">{title}</span>
           </div>
-          <span className="text-sm text-muted-foreground">{title}</span>
-        </div>
-        <div className="flex items-baseline gap-1 mb-2">
-          <span className={`text-2xl font-mono font-bold ${getStatusColor()}`}>
-            {value}
-          </span>
-          {unit && <span className="text-sm text-muted-foreground">{unit}</span>}
-        </div>
-        {percentage !== undefined && (
-          <Progress 
-            value={percentage} 
-            className="h-1.5"
-            style={{ 
-              "--progress-color": getProgressColor() 
-            } as React.CSSProperties}
-          />
-        )}
-      </CardContent>
-    </Card>
+          <div className="flex items-baseline gap-1 mb-2">
+            <span className={`text-2xl font-mono font-bold ${value === null ? "text-muted-foreground" : getStatusColor()}`}>
+              {value ?? "—"}
+            </span>
+            {unit && value !== null && <span className="text-sm text-muted-foreground">{unit}</span>}
+          </div>
+          {error && (
+            <div className="text-xs text-muted-foreground truncate" title={error} data-testid={`text-metric-error-${metric}`}>
+              Unavailable: {error}
+            </div>
+          )}
+          {percentage !== undefined && value !== null && (
+            <Progress 
+              value={percentage} 
+              className="h-1.5"
+              style={{ 
+                "--progress-color": getProgressColor() 
+              } as React.CSSProperties}
+            />
+          )}
+          <div className="mt-3">
+            <MetricSparkline metric={metric} />
+          </div>
+        </CardContent>
+      </Card>
+      <MetricHistoryDialog
+        metric={metric}
+        title={title}
+        unit={unit}
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+      />
+    </>
   );
 }
 
-function ServiceRow({ service }: { service: ServiceStatus }) {
-  const getIcon = (name: string) => {
-    const icons: Record<string, typeof Server> = {
-      nginx: Globe,
-      postgresql: Database,
-      redis: Database,
-      docker: Server,
-      ssh: Terminal,
-      firewall: Lock,
-    };
-    return icons[name.toLowerCase()] || Server;
-  };
+const serviceIcons: Record<string, typeof Server> = {
+  nginx: Globe,
+  apache2: Globe,
+  httpd: Globe,
+  postgresql: Database,
+  mysql: Database,
+  mariadb: Database,
+  redis: Database,
+  "redis-server": Database,
+  docker: Server,
+  ssh: Terminal,
+  sshd: Terminal,
+  firewall: Lock,
+  ufw: Lock,
+  smbd: Share2,
+  samba: Share2,
+  "wg-quick": Network,
+  wireguard: Network,
+  "pihole-ftl": Shield,
+};
+
+// Matched on the unit ("wg-quick@wg0.service" -> "wg-quick"), then the display name
+function getServiceIcon(service: ServiceStatus) {
+  const unit = service.unit.toLowerCase().replace(/\.service$/, "").replace(/@.*$/, "");
+  return serviceIcons[unit] || serviceIcons[service.name.toLowerCase()] || Server;
+}
 
-  const Icon = getIcon(service.name);
+function formatMemory(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+function ServiceDetails({ service }: { service: ServiceStatus }) {
+  const { data: details, isLoading, isError, error } = useQuery<ServiceUnitDetails>({
+    queryKey: ["/api/services", service.id, "details"],
+    // Fresh journal lines each time the row is expanded
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground px-4 pb-3">Loading details...</p>;
+  }
+  if (isError || !details) {
+    return (
+      <p className="text-xs text-destructive px-4 pb-3" data-testid={`text-service-details-error-${service.id}`}>
+        {error?.message || "Could not load service details"}
+      </p>
+    );
+  }
+
+  const facts = [
+    { label: "Unit", value: details.unit },
+    { label: "State", value: details.activeState ? `${details.activeState}${details.subState ? ` (${details.subState})` : ""}` : "—" },
+    { label: "Main PID", value: details.mainPid?.toString() ?? "—" },
+    { label: "Memory", value: details.memoryBytes !== null ? formatMemory(details.memoryBytes) : "—" },
+    { label: "Restarts", value: details.restartCount?.toString() ?? "—" },
+  ];
 
   return (
-    <div className="flex items-center justify-between py-3 px-4 rounded-md bg-background/50 hover-elevate">
-      <div className="flex items-center gap-3">
-        <div className="p-2 rounded-md bg-muted">
-          <Icon className="w-4 h-4 text-muted-foreground" />
-        </div>
-        <div>
-          <div className="font-medium text-sm">{service.name}</div>
-          {service.port && (
-            <div className="text-xs text-muted-foreground font-mono">
-              Port: {service.port}
+    <div className="space-y-3 px-4 pb-3" data-testid={`section-service-details-${service.id}`}>
+      {details.description && (
+        <p className="text-xs text-muted-foreground">{details.description}</p>
+      )}
+      {details.unitError ? (
+        <p className="text-xs text-destructive">Unit details unavailable: {details.unitError}</p>
+      ) : (
+        <dl className="grid grid-cols-2 sm:grid-cols-5 gap-2 text-xs">
+          {facts.map((fact) => (
+            <div key={fact.label}>
+              <dt className="text-muted-foreground">{fact.label}</dt>
+              <dd className="font-mono truncate" data-testid={`text-service-${fact.label.toLowerCase().replace(/\s+/g, "-")}-${service.id}`}>
+                {fact.value}
+              </dd>
             </div>
-          )}
-        </div>
-      </div>
-      <div className="flex items-center gap-3">
-        {service.uptime && (
-          <span className="text-xs text-muted-foreground font-mono">
-            {service.uptime}
-          </span>
+          ))}
+        </dl>
+      )}
+      <div>
+        <div className="text-xs text-muted-foreground mb-1">Recent journal</div>
+        {details.journalError ? (
+          <p className="text-xs text-destructive">Journal unavailable: {details.journalError}</p>
+        ) : details.journal && details.journal.length > 0 ? (
+          <pre
+            className="text-xs font-mono bg-muted/50 rounded-md p-2 max-h-48 overflow-auto whitespace-pre-wrap break-all"
+            data-testid={`text-service-journal-${service.id}`}
+          >
+            {details.journal.join("\n")}
+          </pre>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            No journal entries. Reading other units' logs needs the systemd-journal group.
+          </p>
         )}
-        <StatusBadge status={service.status} />
       </div>
     </div>
   );
 }
 
+const serviceActionButtons: { action: ServiceAction; label: string; icon: typeof Server; destructive?: boolean }[] = [
+  { action: "start", label: "Start", icon: Play },
+  { action: "stop", label: "Stop", icon: Square, destructive: true },
+  { action: "restart", label: "Restart", icon: RotateCw },
+  { action: "reload", label: "Reload", icon: RefreshCw },
+];
+
+// Start/stop/restart/reload buttons; each asks for confirmation first
+function ServiceActions({ service }: { service: ServiceStatus }) {
+  const { toast } = useToast();
+  const [pendingAction, setPendingAction] = useState<ServiceAction | null>(null);
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: ServiceAction) => {
+      const response = await apiRequest("POST", `/api/services/${service.id}/actions`, { action });
+      return response.json();
+    },
+    onSuccess: (_data, action) => {
+      toast({
+        title: "Service Updated",
+        description: `${service.name}: ${action} finished.`,
+      });
+    },
+    onError: (error: Error, action) => {
+      toast({
+        title: `Failed to ${action} ${service.name}`,
+        description: error.message || "The service action failed",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/services", service.id, "details"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/system/status"] });
+    },
+  });
+
+  const confirm = serviceActionButtons.find((button) => button.action === pendingAction);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 pb-3">
+      {serviceActionButtons.map(({ action, label, icon: Icon, destructive }) => (
+        <Button
+          key={action}
+          variant="outline"
+          size="sm"
+          className={`gap-2 ${destructive ? "text-destructive" : ""}`}
+          disabled={actionMutation.isPending}
+          onClick={() => setPendingAction(action)}
+          data-testid={`button-service-${action}-${service.id}`}
+        >
+          {actionMutation.isPending && actionMutation.variables === action ? (
+            <Loader2 className="w-3 h-3 animate-spin" />
+          ) : (
+            <Icon className="w-3 h-3" />
+          )}
+          {label}
+        </Button>
+      ))}
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent className="bg-card border-card-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className={`w-5 h-5 ${confirm?.destructive ? "text-destructive" : "text-yellow-500"}`} />
+              {confirm?.label} {service.name}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Ask systemd to {pendingAction} <strong className="font-mono">{service.unit}</strong> on this host?
+              {pendingAction === "stop" && " Anything that depends on it stops working until it is started again."}
+              {pendingAction === "restart" && " Clients connected to it are dropped."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingAction && actionMutation.mutate(pendingAction)}
+              className={confirm?.destructive ? "bg-destructive text-destructive-foreground" : undefined}
+              data-testid="button-confirm-service-action"
+            >
+              {confirm?.label}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function ServiceRow({ service, canControl }: { service: ServiceStatus; canControl: boolean }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const Icon = getServiceIcon(service);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="rounded-md bg-background/50">
+      <CollapsibleTrigger asChild>
+        <button
+          type="button"
+          className="flex w-full items-center justify-between py-3 px-4 rounded-md text-left hover-elevate"
+          data-testid={`button-toggle-service-${service.id}`}
+        >
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-md bg-muted">
+              <Icon className="w-4 h-4 text-muted-foreground" />
+            </div>
+            <div>
+              <div className="font-medium text-sm">{service.name}</div>
+              {service.port && (
+                <div className="text-xs text-muted-foreground font-mono">
+                  Port: {service.port}
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            {service.uptime && (
+              <span className="text-xs text-muted-foreground font-mono">
+                {service.uptime}
+              </span>
+            )}
+            <StatusBadge status={service.status} />
+            <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform ${isOpen ? "rotate-180" : ""}`} />
+          </div>
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        {isOpen && canControl && <ServiceActions service={service} />}
+        {isOpen && <ServiceDetails service={service} />}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
 export default function Dashboard() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { can } = usePermissions();
   const [currentTime, setCurrentTime] = useState(new Date());
 
   useEffect(() => {
@@ -178,7 +566,8 @@ export default function Dashboard() {
 
   const { data: systemStatus, isLoading, refetch, isRefetching } = useQuery<SystemStatus>({
     queryKey: ["/api/system/status"],
-    refetchInterval: 30000, // Refresh every 30 seconds
+    // Pushed over the live socket; polled every 30 seconds without it
+    refetchInterval: useLiveRefetchInterval(),
   });
 
   const logoutMutation = useMutation({
@@ -228,6 +617,14 @@ export default function Dashboard() {
     return "good";
   };
 
+  const collectorError = (collector: SystemCollector) =>
+    systemStatus?.errors.find((error) => error.collector === collector)?.message;
+
+  const cpuUsage = systemStatus?.cpuUsage ?? null;
+  const memoryUsage = systemStatus?.memoryUsage ?? null;
+  const diskUsage = systemStatus?.diskUsage ?? null;
+  const temperature = systemStatus?.temperature ?? null;
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -272,6 +669,15 @@ export default function Dashboard() {
               <Network className="w-4 h-4" />
             </Button>
 
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setLocation("/containers")}
+              data-testid="button-containers"
+            >
+              <Boxes className="w-4 h-4" />
+            </Button>
+
             <Button
               variant="ghost"
               size="icon"
@@ -290,6 +696,26 @@ export default function Dashboard() {
               <StickyNote className="w-4 h-4" />
             </Button>
 
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setLocation("/alerts")}
+              data-testid="button-alerts"
+            >
+              <Bell className="w-4 h-4" />
+            </Button>
+
+            {can("audit:view") && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setLocation("/audit")}
+                data-testid="button-audit"
+              >
+                <ScrollText className="w-4 h-4" />
+              </Button>
+            )}
+
             <Button
               variant="ghost"
               size="icon"
@@ -299,6 +725,15 @@ export default function Dashboard() {
               <Settings className="w-4 h-4" />
             </Button>
 
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setLocation("/account")}
+              data-testid="button-account"
+            >
+              <UserCog className="w-4 h-4" />
+            </Button>
+
             <Button
               variant="ghost"
               size="icon"
@@ -327,7 +762,7 @@ export default function Dashboard() {
               <div className="flex items-center justify-between gap-4 mb-4">
                 <h2 className="text-lg font-semibold">System Overview</h2>
                 <div className="flex items-center gap-2">
-                  <StatusBadge status={systemStatus?.networkStatus || "online"} />
+                  <StatusBadge status={systemStatus?.networkStatus || "unknown"} />
                   <span className="text-xs text-muted-foreground font-mono">
                     Uptime: {systemStatus?.uptime || "0d 0h"}
                   </span>
@@ -337,35 +772,43 @@ export default function Dashboard() {
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                 <MetricCard
                   icon={Cpu}
+                  metric="cpu"
                   title="CPU Usage"
-                  value={systemStatus?.cpuUsage || 0}
+                  value={cpuUsage}
                   unit="%"
-                  percentage={systemStatus?.cpuUsage || 0}
-                  status={getCpuStatus(systemStatus?.cpuUsage || 0)}
+                  percentage={cpuUsage ?? undefined}
+                  status={cpuUsage === null ? undefined : getCpuStatus(cpuUsage)}
+                  error={collectorError("cpu")}
                 />
                 <MetricCard
                   icon={MemoryStick}
+                  metric="memory"
                   title="Memory"
-                  value={systemStatus?.memoryUsage || 0}
+                  value={memoryUsage}
                   unit="%"
-                  percentage={systemStatus?.memoryUsage || 0}
-                  status={getMemoryStatus(systemStatus?.memoryUsage || 0)}
+                  percentage={memoryUsage ?? undefined}
+                  status={memoryUsage === null ? undefined : getMemoryStatus(memoryUsage)}
+                  error={collectorError("memory")}
                 />
                 <MetricCard
                   icon={HardDrive}
+                  metric="disk"
                   title="Disk Usage"
-                  value={systemStatus?.diskUsage || 0}
+                  value={diskUsage}
                   unit="%"
-                  percentage={systemStatus?.diskUsage || 0}
-                  status={getDiskStatus(systemStatus?.diskUsage || 0)}
+                  percentage={diskUsage ?? undefined}
+                  status={diskUsage === null ? undefined : getDiskStatus(diskUsage)}
+                  error={collectorError("disk")}
                 />
                 <MetricCard
                   icon={Thermometer}
+                  metric="temperature"
                   title="Temperature"
-                  value={systemStatus?.temperature || 0}
+                  value={temperature}
                   unit="°C"
-                  percentage={(systemStatus?.temperature || 0) / 100 * 100}
-                  status={getTempStatus(systemStatus?.temperature || 0)}
+                  percentage={temperature ?? undefined}
+                  status={temperature === null ? undefined : getTempStatus(temperature)}
+                  error={collectorError("temperature")}
                 />
               </div>
             </section>
@@ -381,12 +824,18 @@ export default function Dashboard() {
 
               <Card className="border-card-border">
                 <CardContent className="p-2">
+                  {collectorError("services") && (
+                    <div className="flex items-center gap-2 px-4 py-2 text-xs text-muted-foreground" data-testid="text-services-error">
+                      <AlertTriangle className="w-3 h-3 text-yellow-500" />
+                      Service states unavailable: {collectorError("services")}
+                    </div>
+                  )}
                   <div className="space-y-2">
-                    {systemStatus?.services?.map((service, index) => (
-                      <ServiceRow key={service.name + index} service={service} />
-                    )) || (
+                    {systemStatus?.services?.length ? systemStatus.services.map((service) => (
+                      <ServiceRow key={service.id} service={service} canControl={can("services:control")} />
+                    )) : (
                       <div className="py-8 text-center text-muted-foreground">
-                        No services configured
+                        No services watched{can("services:manage") ? "; add some in Settings" : ""}
                       </div>
                     )}
                   </div>
@@ -402,7 +851,7 @@ export default function Dashboard() {
                   <span>Encryption: Active</span>
                 </div>
                 <div className="font-mono">
-                  Last update: {systemStatus?.lastUpdate || new Date().toLocaleTimeString()}
+                  Last update: {systemStatus ? new Date(systemStatus.lastUpdate).toLocaleTimeString() : "—"}
                 </div>
               </div>
             </footer>
@@ -8,15 +8,17 @@ import {
   Edit,
   Trash2,
   Server,
-  Monitor,
-  Laptop,
-  Router,
-  Smartphone,
-  HardDrive,
   Wifi,
   WifiOff,
   Clock,
   X,
+  ChevronDown,
+  Activity,
+  AlertTriangle,
+  ListChecks,
+  Radar,
+  Check,
+  EyeOff,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -24,6 +26,7 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -48,6 +51,11 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -61,7 +69,15 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Device } from "@shared/schema";
+import { NoteBacklinkList } from "@/components/note-backlinks";
+import { useScrollToHash } from "@/hooks/use-scroll-to-hash";
+import { useCategories } from "@/hooks/use-categories";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useLiveRefetchInterval } from "@/hooks/use-live-updates";
+import { useTagFilter } from "@/hooks/use-tag-filter";
+import { CategoryBadge, getCategoryIcon } from "@/components/category-badge";
+import { TagCloud, TagInput, TagList } from "@/components/tags";
+import { checkTypes, dnsRecordTypes, type Device, type Tagged, type DeviceAvailability, type DeviceCheck, type DiscoveredHost, type NetworkScan, type NoteBacklinks } from "@shared/schema";
 
 const deviceFormSchema = z.object({
   name: z.string().min(1, "Device name is required"),
@@ -70,25 +86,11 @@ const deviceFormSchema = z.object({
   deviceType: z.string().min(1, "Device type is required"),
   os: z.string().optional(),
   description: z.string().optional(),
+  tags: z.array(z.string()),
 });
 
 type DeviceFormData = z.infer<typeof deviceFormSchema>;
 
-const deviceTypes = [
-  { value: "server", label: "Server", icon: Server },
-  { value: "workstation", label: "Workstation", icon: Monitor },
-  { value: "laptop", label: "Laptop", icon: Laptop },
-  { value: "router", label: "Router/Switch", icon: Router },
-  { value: "mobile", label: "Mobile Device", icon: Smartphone },
-  { value: "storage", label: "Storage/NAS", icon: HardDrive },
-  { value: "other", label: "Other", icon: Server },
-];
-
-function getDeviceIcon(type: string) {
-  const deviceType = deviceTypes.find(d => d.value === type);
-  return deviceType?.icon || Server;
-}
-
 function StatusBadge({ status }: { status: string }) {
   if (status === "online") {
     return (
@@ -106,6 +108,14 @@ function StatusBadge({ status }: { status: string }) {
       </Badge>
     );
   }
+  if (status === "degraded") {
+    return (
+      <Badge variant="outline" className="bg-yellow-500/20 text-yellow-500 border-yellow-500/30 gap-1">
+        <AlertTriangle className="w-3 h-3" />
+        Degraded
+      </Badge>
+    );
+  }
   return (
     <Badge variant="outline" className="bg-muted text-muted-foreground gap-1">
       <Clock className="w-3 h-3" />
@@ -114,21 +124,934 @@ function StatusBadge({ status }: { status: string }) {
   );
 }
 
+function formatDuration(seconds: number) {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${seconds}s`;
+}
+
+function formatUptime(value: number | null) {
+  return value === null ? "--" : `${value}%`;
+}
+
+const segmentColors: Record<string, string> = {
+  online: "bg-primary",
+  degraded: "bg-yellow-500",
+  offline: "bg-destructive",
+};
+
+function AvailabilityBar({ availability }: { availability: DeviceAvailability }) {
+  const windowEnd = Date.now();
+  const windowStart = windowEnd - 24 * 60 * 60 * 1000;
+  const windowMs = windowEnd - windowStart;
+
+  return (
+    <div className="relative h-2 w-full rounded-sm bg-muted overflow-hidden" title="Last 24 hours">
+      {availability.segments.map((segment) => {
+        const start = Math.max(new Date(segment.start).getTime(), windowStart);
+        const end = Math.min(new Date(segment.end).getTime(), windowEnd);
+        return (
+          <div
+            key={segment.start}
+            className={`absolute top-0 h-full ${segmentColors[segment.status] || "bg-muted-foreground/40"}`}
+            style={{
+              left: `${((start - windowStart) / windowMs) * 100}%`,
+              width: `${((end - start) / windowMs) * 100}%`,
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+function DeviceAvailabilitySection({ device }: { device: Device }) {
+  const [isOutagesOpen, setIsOutagesOpen] = useState(false);
+
+  const { data: availability } = useQuery<DeviceAvailability>({
+    queryKey: ["/api/devices", device.id, "availability"],
+    refetchInterval: useLiveRefetchInterval(60000),
+  });
+
+  if (!availability) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 mb-4" data-testid={`section-availability-${device.id}`}>
+      <AvailabilityBar availability={availability} />
+      <div className="flex items-center justify-between gap-2 text-xs font-mono text-muted-foreground">
+        <span>24h {formatUptime(availability.uptime["24h"])}</span>
+        <span>7d {formatUptime(availability.uptime["7d"])}</span>
+        <span>30d {formatUptime(availability.uptime["30d"])}</span>
+      </div>
+      <Collapsible open={isOutagesOpen} onOpenChange={setIsOutagesOpen}>
+        <CollapsibleTrigger asChild>
+          <button
+            type="button"
+            className="flex w-full items-center justify-between gap-2 text-xs text-muted-foreground hover:text-foreground"
+            data-testid={`button-toggle-outages-${device.id}`}
+          >
+            <span className="flex items-center gap-1">
+              <Activity className="w-3 h-3" />
+              {availability.outages.length} outages (30d)
+              {availability.mtbfSeconds !== null && (
+                <span> · MTBF {formatDuration(availability.mtbfSeconds)}</span>
+              )}
+            </span>
+            <ChevronDown className={`w-3 h-3 transition-transform ${isOutagesOpen ? "rotate-180" : ""}`} />
+          </button>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          {availability.outages.length === 0 ? (
+            <p className="text-xs text-muted-foreground pt-2">No outages recorded.</p>
+          ) : (
+            <ul className="space-y-1 pt-2 max-h-32 overflow-y-auto">
+              {availability.outages.map((outage) => (
+                <li key={outage.start} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="text-muted-foreground">{new Date(outage.start).toLocaleString()}</span>
+                  <span className={`font-mono ${outage.end ? "" : "text-destructive"}`}>
+                    {outage.end ? formatDuration(outage.durationSeconds) : `ongoing ${formatDuration(outage.durationSeconds)}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+}
+
+const checkTypeLabels: Record<string, string> = {
+  ping: "Ping",
+  tcp: "TCP Port",
+  http: "HTTP(S)",
+  dns: "DNS",
+  tls: "TLS Certificate",
+};
+
+const checkStatusColors: Record<string, string> = {
+  up: "bg-primary",
+  warning: "bg-yellow-500",
+  down: "bg-destructive",
+  unknown: "bg-muted-foreground/40",
+};
+
+const checkFormSchema = z.object({
+  type: z.enum(checkTypes),
+  name: z.string().optional(),
+  intervalSeconds: z.coerce.number().int().min(10, "Interval must be at least 10 seconds"),
+  timeoutMs: z.coerce.number().int().min(500, "Timeout must be at least 500 ms"),
+  enabled: z.boolean(),
+  port: z.string().optional(),
+  url: z.string().optional(),
+  expectedStatus: z.string().optional(),
+  keyword: z.string().optional(),
+  ignoreTlsErrors: z.boolean(),
+  hostname: z.string().optional(),
+  recordType: z.enum(dnsRecordTypes),
+  expectedValue: z.string().optional(),
+  useDeviceAsResolver: z.boolean(),
+  servername: z.string().optional(),
+  warnDays: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if ((data.type === "tcp" || data.type === "tls") && data.port && !/^\d+$/.test(data.port)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["port"], message: "Port must be a number" });
+  }
+  if (data.type === "tcp" && !data.port) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["port"], message: "Port is required" });
+  }
+  if (data.type === "http" && !/^https?:\/\/.+/.test(data.url || "")) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["url"], message: "URL must start with http:// or https://" });
+  }
+  if (data.type === "dns" && !data.hostname) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["hostname"], message: "Hostname is required" });
+  }
+});
+
+type CheckFormData = z.infer<typeof checkFormSchema>;
+
+const defaultCheckForm: CheckFormData = {
+  type: "tcp",
+  name: "",
+  intervalSeconds: 60,
+  timeoutMs: 5000,
+  enabled: true,
+  port: "",
+  url: "",
+  expectedStatus: "200",
+  keyword: "",
+  ignoreTlsErrors: false,
+  hostname: "",
+  recordType: "A",
+  expectedValue: "",
+  useDeviceAsResolver: true,
+  servername: "",
+  warnDays: "14",
+};
+
+function checkToForm(check: DeviceCheck): CheckFormData {
+  const config = check.config as Record<string, unknown>;
+  const text = (value: unknown, fallback = "") => (value === undefined || value === null ? fallback : String(value));
+  return {
+    ...defaultCheckForm,
+    type: check.type as CheckFormData["type"],
+    name: check.name || "",
+    intervalSeconds: check.intervalSeconds,
+    timeoutMs: check.timeoutMs,
+    enabled: check.enabled,
+    port: text(config.port),
+    url: text(config.url),
+    expectedStatus: text(config.expectedStatus, "200"),
+    keyword: text(config.keyword),
+    ignoreTlsErrors: config.ignoreTlsErrors === true,
+    hostname: text(config.hostname),
+    recordType: (config.recordType as CheckFormData["recordType"]) || "A",
+    expectedValue: text(config.expectedValue),
+    useDeviceAsResolver: config.useDeviceAsResolver !== false,
+    servername: text(config.servername),
+    warnDays: text(config.warnDays, "14"),
+  };
+}
+
+function formToCheckPayload(data: CheckFormData) {
+  const optional = (value?: string) => (value ? value : undefined);
+  const configs: Record<CheckFormData["type"], Record<string, unknown>> = {
+    ping: {},
+    tcp: { port: Number(data.port) },
+    http: {
+      url: data.url,
+      expectedStatus: Number(data.expectedStatus || 200),
+      keyword: optional(data.keyword),
+      ignoreTlsErrors: data.ignoreTlsErrors,
+    },
+    dns: {
+      hostname: data.hostname,
+      recordType: data.recordType,
+      expectedValue: optional(data.expectedValue),
+      useDeviceAsResolver: data.useDeviceAsResolver,
+    },
+    tls: {
+      port: Number(data.port || 443),
+      servername: optional(data.servername),
+      warnDays: Number(data.warnDays || 14),
+    },
+  };
+  return {
+    type: data.type,
+    name: optional(data.name),
+    intervalSeconds: data.intervalSeconds,
+    timeoutMs: data.timeoutMs,
+    enabled: data.enabled,
+    config: configs[data.type],
+  };
+}
+
+function describeCheck(check: DeviceCheck) {
+  const config = check.config as Record<string, unknown>;
+  switch (check.type) {
+    case "tcp": return `port ${config.port}`;
+    case "http": return String(config.url);
+    case "dns": return `${config.recordType} ${config.hostname}`;
+    case "tls": return `port ${config.port}`;
+    default: return "ICMP";
+  }
+}
+
+function DeviceChecksList({ device }: { device: Device }) {
+  const { data: checks } = useQuery<DeviceCheck[]>({
+    queryKey: ["/api/devices", device.id, "checks"],
+    refetchInterval: useLiveRefetchInterval(),
+  });
+
+  if (!checks || checks.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="space-y-1 mb-4" data-testid={`list-checks-${device.id}`}>
+      {checks.map((check) => (
+        <li key={check.id} className="flex items-center gap-2 text-xs" title={check.lastMessage || undefined}>
+          <span className={`w-2 h-2 rounded-full shrink-0 ${check.enabled ? checkStatusColors[check.status] || checkStatusColors.unknown : checkStatusColors.unknown}`} />
+          <span className="font-medium">{check.name || checkTypeLabels[check.type] || check.type}</span>
+          <span className="text-muted-foreground font-mono truncate">{describeCheck(check)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function DeviceChecksDialog({
+  device,
+  open,
+  onOpenChange,
+}: {
+  device: Device;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [editingCheck, setEditingCheck] = useState<DeviceCheck | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+  const { data: checks } = useQuery<DeviceCheck[]>({
+    queryKey: ["/api/devices", device.id, "checks"],
+    enabled: open,
+  });
+
+  const form = useForm<CheckFormData>({
+    resolver: zodResolver(checkFormSchema),
+    defaultValues: defaultCheckForm,
+  });
+
+  const checkType = form.watch("type");
+
+  const invalidateChecks = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CheckFormData) => {
+      const payload = formToCheckPayload(data);
+      if (editingCheck) {
+        return await apiRequest("PATCH", `/api/devices/${device.id}/checks/${editingCheck.id}`, payload);
+      }
+      return await apiRequest("POST", `/api/devices/${device.id}/checks`, payload);
+    },
+    onSuccess: () => {
+      invalidateChecks();
+      setIsEditorOpen(false);
+      setEditingCheck(null);
+      toast({
+        title: editingCheck ? "Check Updated" : "Check Added",
+        description: "The health check has been saved.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save check. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (check: DeviceCheck) => {
+      return await apiRequest("DELETE", `/api/devices/${device.id}/checks/${check.id}`);
+    },
+    onSuccess: () => {
+      invalidateChecks();
+      toast({
+        title: "Check Deleted",
+        description: "The health check has been removed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete check. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddCheck = () => {
+    setEditingCheck(null);
+    form.reset(defaultCheckForm);
+    setIsEditorOpen(true);
+  };
+
+  const handleEditCheck = (check: DeviceCheck) => {
+    setEditingCheck(check);
+    form.reset(checkToForm(check));
+    setIsEditorOpen(true);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Health Checks: {device.name}</DialogTitle>
+        </DialogHeader>
+
+        {!isEditorOpen ? (
+          <div className="space-y-3">
+            {checks && checks.length > 0 ? (
+              <div className="space-y-2">
+                {checks.map((check) => (
+                  <div
+                    key={check.id}
+                    className="flex items-center justify-between gap-3 py-2 px-3 rounded-md bg-background/50"
+                    data-testid={`row-check-${check.id}`}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 text-sm font-medium">
+                        <span className={`w-2 h-2 rounded-full ${checkStatusColors[check.status] || checkStatusColors.unknown}`} />
+                        {check.name || checkTypeLabels[check.type]}
+                        {!check.enabled && <Badge variant="outline" className="text-xs">Disabled</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground font-mono truncate">
+                        {describeCheck(check)} · every {check.intervalSeconds}s
+                      </div>
+                      {check.lastMessage && (
+                        <div className="text-xs text-muted-foreground truncate">{check.lastMessage}</div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleEditCheck(check)}
+                        data-testid={`button-edit-check-${check.id}`}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(check)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-check-${check.id}`}
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No checks configured. This device is monitored with a plain ping.
+              </p>
+            )}
+            <DialogFooter>
+              <Button onClick={handleAddCheck} className="gap-2" data-testid="button-add-check">
+                <Plus className="w-4 h-4" />
+                Add Check
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Check Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-check-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {checkTypes.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {checkTypeLabels[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Web UI" {...field} data-testid="input-check-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {(checkType === "tcp" || checkType === "tls") && (
+                <FormField
+                  control={form.control}
+                  name="port"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Port</FormLabel>
+                      <FormControl>
+                        <Input placeholder={checkType === "tls" ? "443" : "e.g., 22"} {...field} data-testid="input-check-port" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {checkType === "http" && (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="url"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>URL</FormLabel>
+                        <FormControl>
+                          <Input placeholder={`e.g., http://${device.ipAddress}:8080/health`} {...field} data-testid="input-check-url" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="expectedStatus"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Expected Status</FormLabel>
+                          <FormControl>
+                            <Input {...field} data-testid="input-check-expected-status" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="keyword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Keyword (optional)</FormLabel>
+                          <FormControl>
+                            <Input placeholder="e.g., OK" {...field} data-testid="input-check-keyword" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="ignoreTlsErrors"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4">
+                        <FormLabel>Accept self-signed certificates</FormLabel>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-check-ignore-tls" />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+
+              {checkType === "dns" && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="hostname"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Hostname</FormLabel>
+                          <FormControl>
+                            <Input placeholder="e.g., nas.lan" {...field} data-testid="input-check-hostname" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="recordType"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Record Type</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-check-record-type">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {dnsRecordTypes.map((type) => (
+                                <SelectItem key={type} value={type}>{type}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="expectedValue"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Expected Value (optional)</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., 192.168.8.20" {...field} data-testid="input-check-expected-value" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="useDeviceAsResolver"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4">
+                        <FormLabel>Query this device as the DNS server</FormLabel>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-check-device-resolver" />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+
+              {checkType === "tls" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="servername"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>SNI Hostname (optional)</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g., nas.example.com" {...field} data-testid="input-check-servername" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="warnDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Warn Days Before Expiry</FormLabel>
+                        <FormControl>
+                          <Input {...field} data-testid="input-check-warn-days" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="intervalSeconds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Interval (seconds)</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} data-testid="input-check-interval" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="timeoutMs"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Timeout (ms)</FormLabel>
+                      <FormControl>
+                        <Input type="number" {...field} data-testid="input-check-timeout" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="enabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-4">
+                    <FormLabel>Enabled</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-check-enabled" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsEditorOpen(false)}>
+                  Back
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-check">
+                  {saveMutation.isPending ? "Saving..." : "Save Check"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function NetworkDiscoveryDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [cidr, setCidr] = useState("192.168.1.0/24");
+  const [acceptTypes, setAcceptTypes] = useState<Record<string, string>>({});
+  const { categories: deviceTypes } = useCategories("device");
+
+  const { data: scans } = useQuery<NetworkScan[]>({
+    queryKey: ["/api/discovery/scans"],
+    enabled: open,
+    refetchInterval: (query) => (query.state.data?.[0]?.status === "running" ? 2000 : false),
+  });
+
+  const latestScan = scans?.[0];
+  const isScanning = latestScan?.status === "running";
+
+  const { data: hosts } = useQuery<DiscoveredHost[]>({
+    queryKey: ["/api/discovery/hosts"],
+    enabled: open,
+    refetchInterval: isScanning ? 2000 : false,
+  });
+
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/discovery/scans", { cidr });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/discovery/scans"] });
+      toast({
+        title: "Scan Started",
+        description: `Scanning ${cidr} for hosts.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start scan. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (host: DiscoveredHost) => {
+      return await apiRequest("POST", `/api/discovery/hosts/${host.id}/accept`, {
+        deviceType: acceptTypes[host.id] || "other",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/discovery/hosts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      toast({
+        title: "Device Added",
+        description: "The host has been added to your network map.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to accept host. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const ignoreMutation = useMutation({
+    mutationFn: async (host: DiscoveredHost) => {
+      return await apiRequest("POST", `/api/discovery/hosts/${host.id}/ignore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/discovery/hosts"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to ignore host. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Network Discovery</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="discovery-cidr">Subnet (CIDR)</Label>
+              <Input
+                id="discovery-cidr"
+                value={cidr}
+                onChange={(e) => setCidr(e.target.value)}
+                placeholder="e.g., 192.168.1.0/24"
+                data-testid="input-discovery-cidr"
+              />
+            </div>
+            <Button
+              onClick={() => scanMutation.mutate()}
+              disabled={isScanning || scanMutation.isPending || !cidr}
+              className="gap-2"
+              data-testid="button-start-scan"
+            >
+              <Radar className="w-4 h-4" />
+              {isScanning ? "Scanning..." : "Scan"}
+            </Button>
+          </div>
+
+          {latestScan && (
+            <p className="text-xs text-muted-foreground font-mono" data-testid="text-scan-status">
+              {latestScan.status === "running" && `Scanning ${latestScan.cidr}...`}
+              {latestScan.status === "completed" &&
+                `Last scan of ${latestScan.cidr}: ${latestScan.hostsFound} hosts found, ${latestScan.newHosts} new`}
+              {latestScan.status === "failed" && `Last scan of ${latestScan.cidr} failed: ${latestScan.error}`}
+            </p>
+          )}
+
+          {hosts && hosts.length > 0 ? (
+            <div className="space-y-2">
+              {hosts.map((host) => (
+                <div
+                  key={host.id}
+                  className="flex items-center justify-between gap-3 py-2 px-3 rounded-md bg-background/50"
+                  data-testid={`row-discovered-host-${host.id}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <span className="font-mono">{host.ipAddress}</span>
+                      {host.firstScanId === latestScan?.id && (
+                        <Badge variant="outline" className="text-xs bg-primary/10 text-primary border-primary/30">
+                          New
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {[host.hostname, host.macAddress, host.vendor].filter(Boolean).join(" · ") || "No details"}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Select
+                      value={acceptTypes[host.id] || "other"}
+                      onValueChange={(value) => setAcceptTypes({ ...acceptTypes, [host.id]: value })}
+                    >
+                      <SelectTrigger className="w-[130px]" data-testid={`select-discovered-type-${host.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {deviceTypes.map((type) => (
+                          <SelectItem key={type.slug} value={type.slug}>
+                            {type.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => acceptMutation.mutate(host)}
+                      disabled={acceptMutation.isPending}
+                      data-testid={`button-accept-host-${host.id}`}
+                    >
+                      <Check className="w-4 h-4 text-primary" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => ignoreMutation.mutate(host)}
+                      disabled={ignoreMutation.isPending}
+                      data-testid={`button-ignore-host-${host.id}`}
+                    >
+                      <EyeOff className="w-4 h-4 text-muted-foreground" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No hosts awaiting review. Run a scan to look for devices that are not mapped yet.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function DeviceCard({ 
   device, 
-  isAdmin, 
+  canEdit, 
+  canManageHostKeys,
+  backlinks,
+  selectedTags,
+  onTagSelect,
   onEdit, 
   onDelete 
 }: { 
-  device: Device; 
-  isAdmin: boolean; 
-  onEdit: (device: Device) => void; 
-  onDelete: (device: Device) => void;
+  device: Tagged<Device>; 
+  canEdit: boolean; 
+  canManageHostKeys: boolean;
+  backlinks: NoteBacklinks[string] | undefined;
+  selectedTags: string[];
+  onTagSelect: (tag: string) => void;
+  onEdit: (device: Tagged<Device>) => void; 
+  onDelete: (device: Tagged<Device>) => void;
 }) {
-  const Icon = getDeviceIcon(device.deviceType);
+  const { getCategory } = useCategories("device");
+  const deviceType = getCategory(device.deviceType);
+  const Icon = getCategoryIcon(deviceType, Server);
+  const [isChecksOpen, setIsChecksOpen] = useState(false);
+  const { toast } = useToast();
+
+  const clearHostKeyMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/devices/${device.id}/ssh-host-key`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      toast({
+        title: "Host Key Cleared",
+        description: "The next SSH connection will pin the device's current key.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to clear host key. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
   
   return (
-    <Card className="border-card-border hover-elevate" data-testid={`card-device-${device.id}`}>
+    <Card id={`device-${device.id}`} className="border-card-border hover-elevate scroll-mt-20" data-testid={`card-device-${device.id}`}>
       <CardContent className="p-4">
         <div className="flex items-start justify-between gap-3 mb-3">
           <div className="flex items-center gap-3">
@@ -138,6 +1061,9 @@ function DeviceCard({
             <div>
               <h3 className="font-semibold" data-testid={`text-device-name-${device.id}`}>{device.name}</h3>
               <p className="text-xs text-muted-foreground font-mono" data-testid={`text-device-ip-${device.id}`}>{device.ipAddress}</p>
+              <div className="mt-1">
+                <CategoryBadge category={deviceType} slug={device.deviceType} />
+              </div>
             </div>
           </div>
           <StatusBadge status={device.status} />
@@ -156,10 +1082,46 @@ function DeviceCard({
               <span>{device.os}</span>
             </div>
           )}
+          {device.latencyMs !== null && (
+            <div className="flex items-center gap-2" data-testid={`text-device-latency-${device.id}`}>
+              <span className="text-muted-foreground">RTT:</span>
+              <span className="font-mono text-xs">
+                {device.latencyMs} ms
+                {device.jitterMs !== null && ` ± ${device.jitterMs} ms`}
+                {device.packetLoss ? ` · ${device.packetLoss}% loss` : ""}
+              </span>
+            </div>
+          )}
+          {canManageHostKeys && device.sshHostKey && (
+            <div className="flex items-center gap-2" data-testid={`text-device-ssh-key-${device.id}`}>
+              <span className="text-muted-foreground">SSH key:</span>
+              <span className="font-mono text-xs truncate" title={device.sshHostKey}>{device.sshHostKey}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                onClick={() => clearHostKeyMutation.mutate()}
+                disabled={clearHostKeyMutation.isPending}
+                title="Forget pinned host key"
+                data-testid={`button-clear-ssh-key-${device.id}`}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
           {device.description && (
             <p className="text-muted-foreground text-xs mt-2">{device.description}</p>
           )}
         </div>
+
+        <DeviceChecksList device={device} />
+
+        <div className="mb-3 space-y-2">
+          <TagList tags={device.tags} selected={selectedTags} onSelect={onTagSelect} />
+          <NoteBacklinkList notes={backlinks} />
+        </div>
+
+        <DeviceAvailabilitySection device={device} />
         
         <div className="flex items-center justify-between gap-2 pt-3 border-t border-border">
           <div className="text-xs text-muted-foreground">
@@ -170,8 +1132,16 @@ function DeviceCard({
             )}
           </div>
           
-          {isAdmin && (
+          {canEdit && (
             <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsChecksOpen(true)}
+                data-testid={`button-checks-device-${device.id}`}
+              >
+                <ListChecks className="w-4 h-4" />
+              </Button>
               <Button 
                 variant="ghost" 
                 size="icon" 
@@ -192,6 +1162,9 @@ function DeviceCard({
           )}
         </div>
       </CardContent>
+      {canEdit && (
+        <DeviceChecksDialog device={device} open={isChecksOpen} onOpenChange={setIsChecksOpen} />
+      )}
     </Card>
   );
 }
@@ -200,18 +1173,32 @@ export default function Devices() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [isFormOpen, setIsFormOpen] = useState(false);
-  const [editingDevice, setEditingDevice] = useState<Device | null>(null);
-  const [deletingDevice, setDeletingDevice] = useState<Device | null>(null);
+  const [editingDevice, setEditingDevice] = useState<Tagged<Device> | null>(null);
+  const [deletingDevice, setDeletingDevice] = useState<Tagged<Device> | null>(null);
+  const [isDiscoveryOpen, setIsDiscoveryOpen] = useState(false);
+  const [filterType, setFilterType] = useState<string>("all");
+  const { selectedTags, toggleTag, clearTags, matchesTags } = useTagFilter();
+  const { categories: deviceTypes } = useCategories("device");
+
+  const { can } = usePermissions();
+  const canEdit = can("devices:write");
+  const canDiscover = can("discovery:manage");
+
+  const { data: devices, isLoading } = useQuery<Tagged<Device>[]>({
+    queryKey: ["/api/devices"],
+    // Status changes are pushed over the live socket; polled without it
+    refetchInterval: useLiveRefetchInterval(),
+  });
 
-  const { data: authStatus } = useQuery<{ authenticated: boolean; user?: { role: string } }>({
-    queryKey: ["/api/auth/status"],
+  const { data: backlinks } = useQuery<NoteBacklinks>({
+    queryKey: ["/api/backlinks", "device"],
   });
 
-  const isAdmin = authStatus?.user?.role === "admin";
+  useScrollToHash(!!devices);
 
-  const { data: devices, isLoading } = useQuery<Device[]>({
-    queryKey: ["/api/devices"],
-    refetchInterval: 30000,
+  const { data: discoveredHosts } = useQuery<DiscoveredHost[]>({
+    queryKey: ["/api/discovery/hosts"],
+    enabled: canDiscover,
   });
 
   const form = useForm<DeviceFormData>({
@@ -223,6 +1210,7 @@ export default function Devices() {
       deviceType: "server",
       os: "",
       description: "",
+      tags: [],
     },
   });
 
@@ -232,6 +1220,8 @@ export default function Devices() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       setIsFormOpen(false);
       form.reset();
       toast({
@@ -239,10 +1229,10 @@ export default function Devices() {
         description: "The device has been added to your network map.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to add device. Please try again.",
+        description: error.message || "Failed to add device. Please try again.",
         variant: "destructive",
       });
     },
@@ -254,6 +1244,8 @@ export default function Devices() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       setIsFormOpen(false);
       setEditingDevice(null);
       form.reset();
@@ -262,10 +1254,10 @@ export default function Devices() {
         description: "The device has been updated.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update device. Please try again.",
+        description: error.message || "Failed to update device. Please try again.",
         variant: "destructive",
       });
     },
@@ -277,6 +1269,8 @@ export default function Devices() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       setDeletingDevice(null);
       toast({
         title: "Device Deleted",
@@ -301,11 +1295,12 @@ export default function Devices() {
       deviceType: "server",
       os: "",
       description: "",
+      tags: [],
     });
     setIsFormOpen(true);
   };
 
-  const handleEditDevice = (device: Device) => {
+  const handleEditDevice = (device: Tagged<Device>) => {
     setEditingDevice(device);
     form.reset({
       name: device.name,
@@ -314,11 +1309,12 @@ export default function Devices() {
       deviceType: device.deviceType,
       os: device.os || "",
       description: device.description || "",
+      tags: device.tags,
     });
     setIsFormOpen(true);
   };
 
-  const handleDeleteDevice = (device: Device) => {
+  const handleDeleteDevice = (device: Tagged<Device>) => {
     setDeletingDevice(device);
   };
 
@@ -330,6 +1326,10 @@ export default function Devices() {
     }
   };
 
+  const filteredDevices = devices?.filter((device) =>
+    (filterType === "all" || device.deviceType === filterType) && matchesTags(device.tags),
+  );
+
   const onlineCount = devices?.filter(d => d.status === "online").length || 0;
   const offlineCount = devices?.filter(d => d.status === "offline").length || 0;
 
@@ -357,25 +1357,60 @@ export default function Devices() {
             </div>
           </div>
 
-          {isAdmin && (
-            <Button onClick={handleAddDevice} className="gap-2" data-testid="button-add-device">
-              <Plus className="w-4 h-4" />
-              Add Device
-            </Button>
-          )}
+          <div className="flex items-center gap-2">
+            {canDiscover && (
+              <Button
+                variant="outline"
+                onClick={() => setIsDiscoveryOpen(true)}
+                className="gap-2"
+                data-testid="button-discover"
+              >
+                <Radar className="w-4 h-4" />
+                Discover
+                {discoveredHosts && discoveredHosts.length > 0 && (
+                  <Badge variant="secondary" className="ml-1" data-testid="badge-discovered-count">
+                    {discoveredHosts.length}
+                  </Badge>
+                )}
+              </Button>
+            )}
+            {canEdit && (
+              <Button onClick={handleAddDevice} className="gap-2" data-testid="button-add-device">
+                <Plus className="w-4 h-4" />
+                Add Device
+              </Button>
+            )}
+          </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-6">
-        <div className="flex items-center gap-4 mb-6">
-          <Badge variant="outline" className="bg-primary/10 text-primary border-primary/30">
-            {onlineCount} Online
-          </Badge>
-          <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/30">
-            {offlineCount} Offline
-          </Badge>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-4">
+            <Badge variant="outline" className="bg-primary/10 text-primary border-primary/30">
+              {onlineCount} Online
+            </Badge>
+            <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/30">
+              {offlineCount} Offline
+            </Badge>
+          </div>
+          <Select value={filterType} onValueChange={setFilterType}>
+            <SelectTrigger className="w-full sm:w-48" data-testid="select-filter-device-type">
+              <SelectValue placeholder="Filter by type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Types</SelectItem>
+              {deviceTypes.map((type) => (
+                <SelectItem key={type.slug} value={type.slug}>
+                  {type.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
+        <TagCloud type="device" selected={selectedTags} onToggle={toggleTag} onClear={clearTags} />
+
         {isLoading ? (
           <div className="flex items-center justify-center min-h-[300px]">
             <p className="text-muted-foreground">Loading devices...</p>
@@ -388,7 +1423,7 @@ export default function Devices() {
               <p className="text-muted-foreground mb-4">
                 Start mapping your home lab by adding your first device.
               </p>
-              {isAdmin && (
+              {canEdit && (
                 <Button onClick={handleAddDevice} className="gap-2">
                   <Plus className="w-4 h-4" />
                   Add Your First Device
@@ -396,13 +1431,25 @@ export default function Devices() {
               )}
             </CardContent>
           </Card>
+        ) : filteredDevices?.length === 0 ? (
+          <Card className="border-card-border">
+            <CardContent className="p-8 text-center">
+              <Server className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-semibold mb-2">No Matching Devices</h3>
+              <p className="text-muted-foreground">Try adjusting your type or tag filter.</p>
+            </CardContent>
+          </Card>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {devices?.map((device) => (
+            {filteredDevices?.map((device) => (
               <DeviceCard
                 key={device.id}
                 device={device}
-                isAdmin={isAdmin}
+                canEdit={canEdit}
+                canManageHostKeys={can("credentials:manage")}
+                backlinks={backlinks?.[device.id]}
+                selectedTags={selectedTags}
+                onTagSelect={toggleTag}
                 onEdit={handleEditDevice}
                 onDelete={handleDeleteDevice}
               />
@@ -411,6 +1458,10 @@ export default function Devices() {
         )}
       </main>
 
+      {canDiscover && (
+        <NetworkDiscoveryDialog open={isDiscoveryOpen} onOpenChange={setIsDiscoveryOpen} />
+      )}
+
       <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
         <DialogContent className="max-w-md">
           <DialogHeader>
@@ -469,7 +1520,7 @@ export default function Devices() {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Device Type</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger data-testid="select-device-type">
                           <SelectValue placeholder="Select device type" />
@@ -477,8 +1528,8 @@ export default function Devices() {
                       </FormControl>
                       <SelectContent>
                         {deviceTypes.map((type) => (
-                          <SelectItem key={type.value} value={type.value}>
-                            {type.label}
+                          <SelectItem key={type.slug} value={type.slug}>
+                            {type.name}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -521,6 +1572,20 @@ export default function Devices() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tags (optional)</FormLabel>
+                    <FormControl>
+                      <TagInput value={field.value} onChange={field.onChange} data-testid="input-device-tags" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
                   Cancel
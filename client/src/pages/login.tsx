@@ -4,7 +4,7 @@ import { useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Shield, User, Lock, Loader2 } from "lucide-react";
+import { Shield, User, Lock, Loader2, KeyRound } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -14,8 +14,10 @@ import {
   FormItem,
   FormMessage,
 } from "@/components/ui/form";
+import { TotpCodeInput } from "@/components/totp-code-input";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SessionUser } from "@shared/schema";
 
 const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -24,11 +26,19 @@ const loginSchema = z.object({
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+type LoginResponse =
+  | { success: true; twoFactorRequired: true }
+  | { success: true; twoFactorRequired?: undefined; user: SessionUser };
+
 export default function Login() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [systemStatus] = useState<"online" | "offline">("online");
   const [encryptionStatus] = useState<"active" | "inactive">("active");
+  // Second step for accounts with two-factor authentication
+  const [needsCode, setNeedsCode] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
 
   const form = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -38,17 +48,43 @@ export default function Login() {
     },
   });
 
+  const completeLogin = (user: SessionUser) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/status"] });
+    if (user.passwordChangeRequired) {
+      toast({
+        title: "Password Change Required",
+        description: "Choose a new password to continue.",
+      });
+      setLocation("/account");
+      return;
+    }
+    if (user.twoFactorSetupRequired) {
+      toast({
+        title: "Two-Factor Authentication Required",
+        description: "Your role requires two-factor authentication. Set it up to continue.",
+      });
+      setLocation("/account");
+      return;
+    }
+    toast({
+      title: "Authentication Successful",
+      description: "Welcome to Wasteland Companion",
+    });
+    setLocation("/dashboard");
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (data: LoginFormData) => {
       const response = await apiRequest("POST", "/api/auth/login", data);
-      return response.json();
+      return response.json() as Promise<LoginResponse>;
     },
-    onSuccess: () => {
-      toast({
-        title: "Authentication Successful",
-        description: "Welcome to Wasteland Companion",
-      });
-      setLocation("/dashboard");
+    onSuccess: (result) => {
+      if (result.twoFactorRequired) {
+        setCode("");
+        setNeedsCode(true);
+        return;
+      }
+      completeLogin(result.user);
     },
     onError: (error: Error) => {
       toast({
@@ -59,10 +95,38 @@ export default function Login() {
     },
   });
 
+  const verifyMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/auth/login/verify", { code: value });
+      return response.json() as Promise<{ success: true; user: SessionUser }>;
+    },
+    onSuccess: (result) => completeLogin(result.user),
+    onError: (error: Error) => {
+      setCode("");
+      // Expired or too many attempts: the password has to be entered again
+      if (error.message.includes("password")) {
+        setNeedsCode(false);
+        form.setValue("password", "");
+      }
+      toast({
+        title: "Verification Failed",
+        description: error.message || "Invalid code",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: LoginFormData) => {
     loginMutation.mutate(data);
   };
 
+  const startOver = () => {
+    setNeedsCode(false);
+    setUseRecoveryCode(false);
+    setCode("");
+    form.setValue("password", "");
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4 relative">
       {/* Subtle grid background pattern */}
@@ -104,70 +168,143 @@ export default function Login() {
             </p>
           </div>
 
-          {/* Login Form */}
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormControl>
-                      <div className="relative">
-                        <User className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                        <Input
-                          {...field}
-                          type="text"
-                          placeholder="Username"
-                          className="pl-12 h-12 bg-background border-border focus:border-primary focus:ring-1 focus:ring-primary/50 rounded-md font-mono text-sm"
-                          data-testid="input-username"
-                        />
-                      </div>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormControl>
-                      <div className="relative">
-                        <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                        <Input
-                          {...field}
-                          type="password"
-                          placeholder="Password"
-                          className="pl-12 h-12 bg-background border-border focus:border-primary focus:ring-1 focus:ring-primary/50 rounded-md font-mono text-sm"
-                          data-testid="input-password"
-                        />
-                      </div>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
+          {/* Login Form, then the code step for accounts with 2FA */}
+          {needsCode ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (code.trim()) verifyMutation.mutate(code.trim());
+              }}
+              className="space-y-4"
+            >
+              <p className="text-sm text-center text-muted-foreground">
+                {useRecoveryCode
+                  ? "Enter one of your recovery codes. Each code works once."
+                  : "Enter the 6-digit code from your authenticator app."}
+              </p>
+              {useRecoveryCode ? (
+                <div className="relative">
+                  <KeyRound className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="xxxxx-xxxxx"
+                    autoFocus
+                    autoComplete="off"
+                    className="pl-12 h-12 bg-background border-border focus:border-primary focus:ring-1 focus:ring-primary/50 rounded-md font-mono text-sm"
+                    data-testid="input-recovery-code"
+                  />
+                </div>
+              ) : (
+                <TotpCodeInput
+                  value={code}
+                  onChange={setCode}
+                  onComplete={(value) => verifyMutation.mutate(value)}
+                  disabled={verifyMutation.isPending}
+                />
+              )}
               <Button
                 type="submit"
                 className="w-full h-12 text-sm font-bold tracking-widest uppercase glow-primary-sm"
-                disabled={loginMutation.isPending}
-                data-testid="button-authenticate"
+                disabled={verifyMutation.isPending || !code.trim()}
+                data-testid="button-verify-code"
               >
-                {loginMutation.isPending ? (
+                {verifyMutation.isPending ? (
                   <>
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Authenticating...
+                    Verifying...
                   </>
                 ) : (
-                  "Authenticate"
+                  "Verify"
                 )}
               </Button>
+              <div className="flex justify-between text-xs">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode("");
+                  }}
+                  className="text-muted-foreground hover:text-primary"
+                  data-testid="button-toggle-recovery-code"
+                >
+                  {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                </button>
+                <button
+                  type="button"
+                  onClick={startOver}
+                  className="text-muted-foreground hover:text-primary"
+                  data-testid="button-login-start-over"
+                >
+                  Back to sign in
+                </button>
+              </div>
             </form>
-          </Form>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <div className="relative">
+                          <User className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                          <Input
+                            {...field}
+                            type="text"
+                            placeholder="Username"
+                            className="pl-12 h-12 bg-background border-border focus:border-primary focus:ring-1 focus:ring-primary/50 rounded-md font-mono text-sm"
+                            data-testid="input-username"
+                          />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <div className="relative">
+                          <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                          <Input
+                            {...field}
+                            type="password"
+                            placeholder="Password"
+                            className="pl-12 h-12 bg-background border-border focus:border-primary focus:ring-1 focus:ring-primary/50 rounded-md font-mono text-sm"
+                            data-testid="input-password"
+                          />
+                        </div>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full h-12 text-sm font-bold tracking-widest uppercase glow-primary-sm"
+                  disabled={loginMutation.isPending}
+                  data-testid="button-authenticate"
+                >
+                  {loginMutation.isPending ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Authenticating...
+                    </>
+                  ) : (
+                    "Authenticate"
+                  )}
+                </Button>
+              </form>
+            </Form>
+          )}
 
           {/* Status Indicators */}
           <div className="mt-8 text-center space-y-1">
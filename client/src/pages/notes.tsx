@@ -9,15 +9,15 @@ import {
   Trash2,
   StickyNote,
   Search,
-  Server,
-  Wrench,
-  Database,
-  Settings,
   FileText,
+  History,
+  Paperclip,
+  Upload,
+  Eye,
+  Pencil,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import {
@@ -57,90 +57,95 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Note } from "@shared/schema";
+import { RevisionHistoryDialog } from "@/components/revision-history-dialog";
+import { MarkdownContent } from "@/components/markdown-content";
+import { useScrollToHash } from "@/hooks/use-scroll-to-hash";
+import { useCategories } from "@/hooks/use-categories";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useTagFilter } from "@/hooks/use-tag-filter";
+import { CategoryBadge, CategoryIconTile } from "@/components/category-badge";
+import { TagCloud, TagInput, TagList } from "@/components/tags";
+import type { Note, NoteRevision, NoteAttachmentSummary, Tagged } from "@shared/schema";
 
 const noteFormSchema = z.object({
   title: z.string().min(1, "Title is required"),
   content: z.string().min(1, "Content is required"),
   category: z.string().min(1, "Category is required"),
+  tags: z.array(z.string()),
 });
 
 type NoteFormData = z.infer<typeof noteFormSchema>;
 
-const categories = [
-  { value: "setup", label: "Setup", icon: Wrench },
-  { value: "configuration", label: "Configuration", icon: Settings },
-  { value: "troubleshooting", label: "Troubleshooting", icon: Search },
-  { value: "maintenance", label: "Maintenance", icon: Server },
-  { value: "database", label: "Database", icon: Database },
-  { value: "general", label: "General", icon: FileText },
-];
-
-function getCategoryIcon(category: string) {
-  const cat = categories.find(c => c.value === category);
-  return cat?.icon || FileText;
-}
-
-function getCategoryLabel(category: string) {
-  const cat = categories.find(c => c.value === category);
-  return cat?.label || category;
-}
-
 function NoteCard({
   note,
-  isAdmin,
+  canEdit,
+  selectedTags,
+  onTagSelect,
   onEdit,
   onDelete,
 }: {
-  note: Note;
-  isAdmin: boolean;
-  onEdit: (note: Note) => void;
-  onDelete: (note: Note) => void;
+  note: Tagged<Note>;
+  canEdit: boolean;
+  selectedTags: string[];
+  onTagSelect: (tag: string) => void;
+  onEdit: (note: Tagged<Note>) => void;
+  onDelete: (note: Tagged<Note>) => void;
 }) {
-  const Icon = getCategoryIcon(note.category);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const { getCategory } = useCategories("note");
+  const category = getCategory(note.category);
 
   return (
-    <Card className="border-card-border" data-testid={`card-note-${note.id}`}>
+    <Card id={`note-${note.id}`} className="border-card-border scroll-mt-20" data-testid={`card-note-${note.id}`}>
       <CardHeader className="pb-2">
         <div className="flex items-start justify-between gap-3">
           <div className="flex items-center gap-3">
-            <div className="p-2 rounded-md bg-primary/10 text-primary">
-              <Icon className="w-4 h-4" />
-            </div>
+            <CategoryIconTile category={category} fallback={FileText} />
             <div>
               <CardTitle className="text-base" data-testid={`text-note-title-${note.id}`}>
                 {note.title}
               </CardTitle>
-              <Badge variant="outline" className="mt-1 text-xs">
-                {getCategoryLabel(note.category)}
-              </Badge>
+              <div className="mt-1">
+                <CategoryBadge category={category} slug={note.category} />
+              </div>
             </div>
           </div>
-          {isAdmin && (
-            <div className="flex items-center gap-1">
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => onEdit(note)}
-                data-testid={`button-edit-note-${note.id}`}
-              >
-                <Edit className="w-4 h-4" />
-              </Button>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => onDelete(note)}
-                data-testid={`button-delete-note-${note.id}`}
-              >
-                <Trash2 className="w-4 h-4 text-destructive" />
-              </Button>
-            </div>
-          )}
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsHistoryOpen(true)}
+              data-testid={`button-history-note-${note.id}`}
+            >
+              <History className="w-4 h-4" />
+            </Button>
+            {canEdit && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onEdit(note)}
+                  data-testid={`button-edit-note-${note.id}`}
+                >
+                  <Edit className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onDelete(note)}
+                  data-testid={`button-delete-note-${note.id}`}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent>
-        <div className="text-sm text-foreground whitespace-pre-wrap">
-          {note.content}
+        <MarkdownContent content={note.content} />
+        <div className="mt-3">
+          <TagList tags={note.tags} selected={selectedTags} onSelect={onTagSelect} />
         </div>
         <div className="flex items-center justify-between mt-3 text-xs text-muted-foreground">
           <span>
@@ -148,35 +153,178 @@ function NoteCard({
           </span>
         </div>
       </CardContent>
+      <RevisionHistoryDialog<NoteRevision>
+        title={note.title}
+        queryKey={["/api/notes", note.id, "revisions"]}
+        restoreUrl={(revision) => `/api/notes/${note.id}/revisions/${revision.id}/restore`}
+        invalidateQueryKey="/api/notes"
+        currentContent={note.content}
+        canRestore={canEdit}
+        describeRevision={(revision) => revision.title}
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+      />
     </Card>
   );
 }
 
+function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function NoteAttachments({ noteId, onInsert }: { noteId: string; onInsert: (markdown: string) => void }) {
+  const { toast } = useToast();
+
+  const { data: attachments } = useQuery<NoteAttachmentSummary[]>({
+    queryKey: ["/api/notes", noteId, "attachments"],
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const body = new FormData();
+      body.append("file", file);
+      // Multipart uploads bypass apiRequest, which always sends JSON
+      const response = await fetch(`/api/notes/${noteId}/attachments`, {
+        method: "POST",
+        body,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return (await response.json()) as { attachment: NoteAttachmentSummary };
+    },
+    onSuccess: ({ attachment }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes", noteId, "attachments"] });
+      onInsert(attachment.markdown);
+      toast({
+        title: "Attachment Uploaded",
+        description: `${attachment.fileName} was added to the note.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to upload attachment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/attachments/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes", noteId, "attachments"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete attachment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium flex items-center gap-2">
+          <Paperclip className="w-4 h-4" />
+          Attachments
+        </span>
+        <Button type="button" variant="outline" size="sm" className="gap-2" asChild>
+          <label className="cursor-pointer">
+            <Upload className="w-3 h-3" />
+            {uploadMutation.isPending ? "Uploading..." : "Upload"}
+            <input
+              type="file"
+              className="hidden"
+              disabled={uploadMutation.isPending}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) uploadMutation.mutate(file);
+                e.target.value = "";
+              }}
+              data-testid="input-note-attachment"
+            />
+          </label>
+        </Button>
+      </div>
+      {attachments && attachments.length > 0 ? (
+        <div className="space-y-1">
+          {attachments.map((attachment) => (
+            <div
+              key={attachment.id}
+              className="flex items-center justify-between gap-2 text-sm py-1 px-3 rounded-md bg-background/50"
+              data-testid={`row-attachment-${attachment.id}`}
+            >
+              <a href={`/api/attachments/${attachment.id}`} target="_blank" rel="noopener noreferrer" className="truncate hover:underline">
+                {attachment.fileName}
+              </a>
+              <div className="flex items-center gap-1 shrink-0">
+                <span className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onInsert(attachment.markdown)}
+                  data-testid={`button-insert-attachment-${attachment.id}`}
+                >
+                  Insert
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(attachment.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-attachment-${attachment.id}`}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">No attachments yet.</p>
+      )}
+    </div>
+  );
+}
+
 export default function Notes() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [isFormOpen, setIsFormOpen] = useState(false);
-  const [editingNote, setEditingNote] = useState<Note | null>(null);
-  const [deletingNote, setDeletingNote] = useState<Note | null>(null);
+  const [editingNote, setEditingNote] = useState<Tagged<Note> | null>(null);
+  const [deletingNote, setDeletingNote] = useState<Tagged<Note> | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [filterCategory, setFilterCategory] = useState<string>("all");
+  const { selectedTags, toggleTag, clearTags, matchesTags } = useTagFilter();
+  const { categories } = useCategories("note");
+  const [isPreviewing, setIsPreviewing] = useState(false);
 
-  const { data: authStatus } = useQuery<{ authenticated: boolean; user?: { role: string } }>({
-    queryKey: ["/api/auth/status"],
-  });
-
-  const isAdmin = authStatus?.user?.role === "admin";
+  const { can } = usePermissions();
+  const canEdit = can("notes:write");
 
-  const { data: notes, isLoading } = useQuery<Note[]>({
+  const { data: notes, isLoading } = useQuery<Tagged<Note>[]>({
     queryKey: ["/api/notes"],
   });
 
+  useScrollToHash(!!notes);
+
   const form = useForm<NoteFormData>({
     resolver: zodResolver(noteFormSchema),
     defaultValues: {
       title: "",
       content: "",
       category: "general",
+      tags: [],
     },
   });
 
@@ -186,6 +334,9 @@ export default function Notes() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/backlinks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       setIsFormOpen(false);
       form.reset();
       toast({
@@ -193,10 +344,10 @@ export default function Notes() {
         description: "Your note has been saved.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to save note. Please try again.",
+        description: error.message || "Failed to save note. Please try again.",
         variant: "destructive",
       });
     },
@@ -208,6 +359,9 @@ export default function Notes() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/backlinks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       setIsFormOpen(false);
       setEditingNote(null);
       form.reset();
@@ -216,10 +370,10 @@ export default function Notes() {
         description: "Your note has been updated.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update note. Please try again.",
+        description: error.message || "Failed to update note. Please try again.",
         variant: "destructive",
       });
     },
@@ -231,6 +385,9 @@ export default function Notes() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/backlinks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       setDeletingNote(null);
       toast({
         title: "Note Deleted",
@@ -252,21 +409,31 @@ export default function Notes() {
       title: "",
       content: "",
       category: "general",
+      tags: [],
     });
+    setIsPreviewing(false);
     setIsFormOpen(true);
   };
 
-  const handleEditNote = (note: Note) => {
+  const handleEditNote = (note: Tagged<Note>) => {
     setEditingNote(note);
     form.reset({
       title: note.title,
       content: note.content,
       category: note.category,
+      tags: note.tags,
     });
+    setIsPreviewing(false);
     setIsFormOpen(true);
   };
 
-  const handleDeleteNote = (note: Note) => {
+  const handleInsertAttachment = (markdown: string) => {
+    const content = form.getValues("content");
+    const separator = content && !content.endsWith("\n") ? "\n" : "";
+    form.setValue("content", `${content}${separator}${markdown}\n`, { shouldDirty: true, shouldValidate: true });
+  };
+
+  const handleDeleteNote = (note: Tagged<Note>) => {
     setDeletingNote(note);
   };
 
@@ -283,7 +450,7 @@ export default function Notes() {
       note.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
       note.content.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesCategory = filterCategory === "all" || note.category === filterCategory;
-    return matchesSearch && matchesCategory;
+    return matchesSearch && matchesCategory && matchesTags(note.tags);
   });
 
   return (
@@ -310,7 +477,7 @@ export default function Notes() {
             </div>
           </div>
 
-          {isAdmin && (
+          {canEdit && (
             <Button onClick={handleAddNote} className="gap-2" data-testid="button-add-note">
               <Plus className="w-4 h-4" />
               Add Note
@@ -338,14 +505,16 @@ export default function Notes() {
             <SelectContent>
               <SelectItem value="all">All Categories</SelectItem>
               {categories.map((cat) => (
-                <SelectItem key={cat.value} value={cat.value}>
-                  {cat.label}
+                <SelectItem key={cat.slug} value={cat.slug}>
+                  {cat.name}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
         </div>
 
+        <TagCloud type="note" selected={selectedTags} onToggle={toggleTag} onClear={clearTags} />
+
         {isLoading ? (
           <div className="flex items-center justify-center min-h-[300px]">
             <p className="text-muted-foreground">Loading notes...</p>
@@ -362,7 +531,7 @@ export default function Notes() {
                   ? "Start documenting your server work by adding your first note."
                   : "Try adjusting your search or filter."}
               </p>
-              {isAdmin && notes?.length === 0 && (
+              {canEdit && notes?.length === 0 && (
                 <Button onClick={handleAddNote} className="gap-2">
                   <Plus className="w-4 h-4" />
                   Add Your First Note
@@ -376,7 +545,9 @@ export default function Notes() {
               <NoteCard
                 key={note.id}
                 note={note}
-                isAdmin={isAdmin}
+                canEdit={canEdit}
+                selectedTags={selectedTags}
+                onTagSelect={toggleTag}
                 onEdit={handleEditNote}
                 onDelete={handleDeleteNote}
               />
@@ -416,7 +587,7 @@ export default function Notes() {
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Category</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <Select onValueChange={field.onChange} value={field.value}>
                         <FormControl>
                           <SelectTrigger data-testid="select-note-category">
                             <SelectValue placeholder="Select category" />
@@ -424,8 +595,8 @@ export default function Notes() {
                         </FormControl>
                         <SelectContent>
                           {categories.map((cat) => (
-                            <SelectItem key={cat.value} value={cat.value}>
-                              {cat.label}
+                            <SelectItem key={cat.slug} value={cat.slug}>
+                              {cat.name}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -441,20 +612,63 @@ export default function Notes() {
                 name="content"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Content</FormLabel>
+                    <div className="flex items-center justify-between gap-2">
+                      <FormLabel>Content</FormLabel>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="gap-2"
+                        onClick={() => setIsPreviewing(!isPreviewing)}
+                        data-testid="button-toggle-note-preview"
+                      >
+                        {isPreviewing ? <Pencil className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                        {isPreviewing ? "Edit" : "Preview"}
+                      </Button>
+                    </div>
+                    {isPreviewing ? (
+                      <div className="min-h-[200px] rounded-md border border-border p-3" data-testid="note-preview">
+                        <MarkdownContent content={field.value} />
+                      </div>
+                    ) : (
+                      <FormControl>
+                        <Textarea
+                          placeholder="Write your note here..."
+                          className="min-h-[200px] resize-y font-mono text-sm"
+                          {...field}
+                          data-testid="input-note-content"
+                        />
+                      </FormControl>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Markdown is supported. Link inventory items with{" "}
+                      <span className="font-mono">[[device:name]]</span> or <span className="font-mono">[[script:name]]</span>.
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tags (optional)</FormLabel>
                     <FormControl>
-                      <Textarea
-                        placeholder="Write your note here..."
-                        className="min-h-[200px] resize-y"
-                        {...field}
-                        data-testid="input-note-content"
-                      />
+                      <TagInput value={field.value} onChange={field.onChange} data-testid="input-note-tags" />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
 
+              {editingNote ? (
+                <NoteAttachments noteId={editingNote.id} onInsert={handleInsertAttachment} />
+              ) : (
+                <p className="text-xs text-muted-foreground">Save the note first to add attachments.</p>
+              )}
+
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
                   Cancel
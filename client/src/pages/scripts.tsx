@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import {
@@ -10,17 +10,22 @@ import {
   Copy,
   Check,
   FileCode,
-  Terminal,
-  Lock,
-  Server,
   Search,
-  FolderOpen,
+  Play,
+  Loader2,
+  Clock,
+  History,
+  Variable,
+  X,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -46,7 +51,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import {
@@ -58,84 +63,1073 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Script } from "@shared/schema";
+import { RevisionHistoryDialog } from "@/components/revision-history-dialog";
+import { NoteBacklinkList } from "@/components/note-backlinks";
+import { useScrollToHash } from "@/hooks/use-scroll-to-hash";
+import { useCategories } from "@/hooks/use-categories";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useTagFilter } from "@/hooks/use-tag-filter";
+import { CategoryBadge, CategoryIconTile } from "@/components/category-badge";
+import { TagCloud, TagInput, TagList } from "@/components/tags";
+import {
+  scriptParameterTypes,
+  type Script,
+  type Tagged,
+  type ScriptParameter,
+  type Device,
+  type ScriptRun,
+  type ScriptRunPlan,
+  type ScriptRunStreamEvent,
+  type SshCredentialSummary,
+  type ScriptJob,
+  type ScriptJobWithLastRun,
+  type ScriptRevision,
+  type NoteBacklinks,
+} from "@shared/schema";
+import { findPlaceholders, findUnexpandedPlaceholders, renderScript, validateParameterValues, type ScriptParameterValues } from "@shared/scriptTemplate";
+
+const optionalNumber = z.string().trim().regex(/^(-?\d+(\.\d+)?)?$/, "Must be a number");
+
+// Parameter fields are kept as strings while editing and converted on submit
+const parameterFormSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Use letters, digits and underscores"),
+  label: z.string(),
+  type: z.enum(scriptParameterTypes),
+  required: z.boolean(),
+  default: z.string(),
+  options: z.string(),
+  pattern: z.string(),
+  min: optionalNumber,
+  max: optionalNumber,
+});
+
+type ParameterFormData = z.infer<typeof parameterFormSchema>;
 
 const scriptFormSchema = z.object({
   name: z.string().min(1, "Script name is required"),
   content: z.string().min(1, "Script content is required"),
   category: z.string().min(1, "Category is required"),
   description: z.string().optional(),
+  parameters: z.array(parameterFormSchema),
+  tags: z.array(z.string()),
 });
 
 type ScriptFormData = z.infer<typeof scriptFormSchema>;
 
-const categories = [
-  { value: "security", label: "Security", icon: Lock },
-  { value: "networking", label: "Networking", icon: Server },
-  { value: "automation", label: "Automation", icon: Terminal },
-  { value: "backup", label: "Backup", icon: FolderOpen },
-  { value: "monitoring", label: "Monitoring", icon: Search },
-  { value: "general", label: "General", icon: FileCode },
-];
-
-function getCategoryIcon(category: string) {
-  const cat = categories.find(c => c.value === category);
-  return cat?.icon || FileCode;
+const runStatusStyles: Record<string, string> = {
+  running: "bg-primary/10 text-primary border-primary/30",
+  succeeded: "bg-primary/10 text-primary border-primary/30",
+  failed: "bg-destructive/10 text-destructive border-destructive/30",
+  timed_out: "bg-yellow-500/10 text-yellow-500 border-yellow-500/30",
+};
+
+const runStatusLabels: Record<string, string> = {
+  running: "Running",
+  succeeded: "Succeeded",
+  failed: "Failed",
+  timed_out: "Timed Out",
+};
+
+function RunStatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant="outline" className={`text-xs ${runStatusStyles[status] || ""}`}>
+      {status === "running" && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+      {runStatusLabels[status] || status}
+    </Badge>
+  );
 }
 
-function getCategoryLabel(category: string) {
-  const cat = categories.find(c => c.value === category);
-  return cat?.label || category;
+function formatRunDuration(durationMs: number | null) {
+  if (durationMs === null) return "";
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+// Follows a run's output over server-sent events; finished runs replay their stored output
+function RunOutput({ run: initialRun }: { run: ScriptRun }) {
+  const [chunks, setChunks] = useState<{ stream: "stdout" | "stderr"; data: string }[]>([]);
+  const [run, setRun] = useState<ScriptRun>(initialRun);
+
+  useEffect(() => {
+    setChunks([]);
+    const source = new EventSource(`/api/script-runs/${initialRun.id}/stream`);
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as ScriptRunStreamEvent;
+      if (event.type === "output") {
+        setChunks((current) => [...current, { stream: event.stream, data: event.data }]);
+      } else {
+        setRun(event.run);
+        source.close();
+        queryClient.invalidateQueries({ queryKey: ["/api/scripts", event.run.scriptId, "runs"] });
+        if (event.run.jobId) {
+          queryClient.invalidateQueries({ queryKey: ["/api/script-jobs"] });
+        }
+      }
+    };
+    source.onerror = () => source.close();
+    return () => source.close();
+  }, [initialRun.id]);
+
+  return (
+    <div className="space-y-2" data-testid={`run-output-${run.id}`}>
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <div className="min-w-0">
+          <span className="font-medium">{run.targetName}</span>
+          <span className="ml-2 text-xs text-muted-foreground font-mono">{run.host}</span>
+        </div>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground font-mono">
+          {run.exitCode !== null && <span>exit {run.exitCode}</span>}
+          <span>{formatRunDuration(run.durationMs)}</span>
+          <RunStatusBadge status={run.status} />
+        </div>
+      </div>
+      <div className="bg-background/50 rounded-md p-3 border border-border font-mono text-xs overflow-x-auto max-h-64 overflow-y-auto">
+        {chunks.length === 0 && run.status === "running" && (
+          <span className="text-muted-foreground">Waiting for output...</span>
+        )}
+        <pre className="whitespace-pre-wrap break-all">
+          {chunks.map((chunk, index) => (
+            <span key={index} className={chunk.stream === "stderr" ? "text-destructive" : undefined}>
+              {chunk.data}
+            </span>
+          ))}
+        </pre>
+        {run.error && <div className="text-destructive mt-2">{run.error}</div>}
+      </div>
+    </div>
+  );
+}
+
+const parameterTypeLabels: Record<string, string> = {
+  string: "Text",
+  number: "Number",
+  enum: "Choice",
+  device: "Device",
+  secret: "Secret",
+};
+
+const emptyParameter: ParameterFormData = {
+  name: "",
+  label: "",
+  type: "string",
+  required: true,
+  default: "",
+  options: "",
+  pattern: "",
+  min: "",
+  max: "",
+};
+
+function toParameterForm(parameter: ScriptParameter): ParameterFormData {
+  return {
+    name: parameter.name,
+    label: parameter.label || "",
+    type: parameter.type,
+    required: parameter.required,
+    default: parameter.default || "",
+    options: parameter.options?.join(", ") || "",
+    pattern: parameter.pattern || "",
+    min: parameter.min?.toString() || "",
+    max: parameter.max?.toString() || "",
+  };
+}
+
+// Drops fields that do not apply to the parameter's type
+function toScriptParameter(parameter: ParameterFormData): ScriptParameter {
+  return {
+    name: parameter.name,
+    label: parameter.label.trim() || undefined,
+    type: parameter.type,
+    required: parameter.required,
+    default: parameter.type !== "secret" && parameter.default !== "" ? parameter.default : undefined,
+    options: parameter.type === "enum"
+      ? parameter.options.split(",").map((option) => option.trim()).filter(Boolean)
+      : undefined,
+    pattern: parameter.type === "string" && parameter.pattern ? parameter.pattern : undefined,
+    min: parameter.type === "number" && parameter.min !== "" ? Number(parameter.min) : undefined,
+    max: parameter.type === "number" && parameter.max !== "" ? Number(parameter.max) : undefined,
+  };
+}
+
+function ParameterInputs({
+  parameters,
+  values,
+  errors,
+  devices,
+  onChange,
+}: {
+  parameters: ScriptParameter[];
+  values: ScriptParameterValues;
+  errors: Record<string, string>;
+  devices: Device[];
+  onChange: (name: string, value: string) => void;
+}) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {parameters.map((parameter) => {
+        const value = values[parameter.name] ?? "";
+        const inputId = `parameter-${parameter.name}`;
+        return (
+          <div key={parameter.name} className="space-y-2">
+            <Label htmlFor={inputId}>
+              {parameter.label || parameter.name}
+              {parameter.required && !parameter.default && <span className="text-destructive"> *</span>}
+            </Label>
+            {parameter.type === "enum" || parameter.type === "device" ? (
+              <Select value={value} onValueChange={(next) => onChange(parameter.name, next)}>
+                <SelectTrigger id={inputId} data-testid={`select-parameter-${parameter.name}`}>
+                  <SelectValue placeholder={parameter.type === "device" ? "Select device" : "Select option"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {parameter.type === "enum"
+                    ? parameter.options?.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      ))
+                    : devices.map((device) => (
+                        <SelectItem key={device.id} value={device.id}>
+                          {device.name} ({device.ipAddress})
+                        </SelectItem>
+                      ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={inputId}
+                type={parameter.type === "secret" ? "password" : parameter.type === "number" ? "number" : "text"}
+                min={parameter.min}
+                max={parameter.max}
+                placeholder={parameter.default}
+                autoComplete="off"
+                value={value}
+                onChange={(e) => onChange(parameter.name, e.target.value)}
+                data-testid={`input-parameter-${parameter.name}`}
+              />
+            )}
+            {errors[parameter.name] && (
+              <p className="text-xs text-destructive">{errors[parameter.name]}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Asks for parameter values and copies the filled-in script
+function CopyScriptDialog({
+  script,
+  open,
+  onOpenChange,
+  onCopy,
+}: {
+  script: Script;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCopy: (content: string) => Promise<boolean>;
+}) {
+  const [values, setValues] = useState<ScriptParameterValues>({});
+  const [showErrors, setShowErrors] = useState(false);
+
+  const { data: devices } = useQuery<Device[]>({
+    queryKey: ["/api/devices"],
+    enabled: open && script.parameters.some((parameter) => parameter.type === "device"),
+  });
+
+  const errors = validateParameterValues(script.parameters, values, devices || []);
+  const isValid = Object.keys(errors).length === 0;
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setValues({});
+      setShowErrors(false);
+    }
+    onOpenChange(next);
+  };
+
+  const handleCopy = async () => {
+    if (!isValid) {
+      setShowErrors(true);
+      return;
+    }
+    if (await onCopy(renderScript(script.content, script.parameters, values, devices || []))) {
+      handleOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Copy Script: {script.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <ParameterInputs
+            parameters={script.parameters}
+            values={values}
+            errors={showErrors ? errors : {}}
+            devices={devices || []}
+            onChange={(name, value) => setValues((current) => ({ ...current, [name]: value }))}
+          />
+          <div className="bg-background/50 rounded-md p-3 border border-border font-mono text-xs overflow-x-auto max-h-64 overflow-y-auto">
+            <pre className="whitespace-pre-wrap break-all" data-testid="text-copy-preview">
+              {renderScript(script.content, script.parameters, values, devices || [], { maskSecrets: true })}
+            </pre>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCopy} className="gap-2" data-testid="button-copy-rendered-script">
+              <Copy className="w-4 h-4" />
+              Copy
+            </Button>
+          </DialogFooter>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Placeholders the shell would pass on as literal text; saving refuses them
+function UnexpandedPlaceholdersWarning({ placeholders, testId }: { placeholders: string[]; testId: string }) {
+  return (
+    <p className="text-xs text-yellow-500" data-testid={testId}>
+      <span className="font-mono">{placeholders.join(", ")}</span>{" "}
+      {placeholders.length === 1 ? "is" : "are"} inside single quotes or a quoted heredoc, where the shell does not
+      expand {placeholders.length === 1 ? "it" : "them"}. Move {placeholders.length === 1 ? "it" : "them"} outside the
+      quotes or use double quotes.
+    </p>
+  );
+}
+
+function RunScriptDialog({
+  script,
+  open,
+  onOpenChange,
+}: {
+  script: Script;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [selectedDeviceIds, setSelectedDeviceIds] = useState<string[]>([]);
+  const [credentialId, setCredentialId] = useState("");
+  const [timeoutSeconds, setTimeoutSeconds] = useState("300");
+  const [parameterValues, setParameterValues] = useState<ScriptParameterValues>({});
+  const [plan, setPlan] = useState<ScriptRunPlan | null>(null);
+  const [activeRuns, setActiveRuns] = useState<ScriptRun[]>([]);
+
+  const { data: devices } = useQuery<Device[]>({
+    queryKey: ["/api/devices"],
+    enabled: open,
+  });
+
+  const { data: credentials } = useQuery<SshCredentialSummary[]>({
+    queryKey: ["/api/ssh-credentials"],
+    enabled: open,
+  });
+
+  const { data: history } = useQuery<ScriptRun[]>({
+    queryKey: ["/api/scripts", script.id, "runs"],
+    enabled: open,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest("POST", `/api/scripts/${script.id}/runs`, {
+        deviceIds: selectedDeviceIds,
+        credentialId,
+        timeoutSeconds: Number(timeoutSeconds),
+        parameters: parameterValues,
+        dryRun,
+      });
+      return response.json();
+    },
+    onSuccess: (data: { dryRun?: boolean; plan?: ScriptRunPlan; runs?: ScriptRun[] }) => {
+      if (data.dryRun && data.plan) {
+        setPlan(data.plan);
+        return;
+      }
+      setPlan(null);
+      setActiveRuns(data.runs || []);
+      queryClient.invalidateQueries({ queryKey: ["/api/scripts", script.id, "runs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to run script",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const parameterErrors = validateParameterValues(script.parameters, parameterValues, devices || []);
+  const unexpandedPlaceholders = findUnexpandedPlaceholders(script.content);
+
+  const toggleDevice = (deviceId: string, checked: boolean) => {
+    setSelectedDeviceIds((current) =>
+      checked ? [...current, deviceId] : current.filter((id) => id !== deviceId),
+    );
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setPlan(null);
+      setActiveRuns([]);
+      setParameterValues({});
+    }
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Run Script: {script.name}</DialogTitle>
+        </DialogHeader>
+
+        {activeRuns.length > 0 ? (
+          <div className="space-y-4">
+            {activeRuns.map((run) => (
+              <RunOutput key={run.id} run={run} />
+            ))}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setActiveRuns([])} data-testid="button-run-again">
+                Back
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : plan ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Review before running. The script below will be executed with <span className="font-mono">bash</span> as{" "}
+              <span className="font-mono">{plan.credential.username}</span> on {plan.targets.length} device
+              {plan.targets.length === 1 ? "" : "s"}, with a {plan.timeoutSeconds}s timeout per device.
+            </p>
+            <div className="space-y-1">
+              {plan.targets.map((target) => (
+                <div key={target.deviceId} className="flex items-center justify-between text-sm py-1 px-3 rounded-md bg-background/50">
+                  <span>{target.name}</span>
+                  <span className="text-xs text-muted-foreground font-mono">
+                    {target.host}
+                    {!target.hostKeyPinned && " · host key will be pinned on first connect"}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="bg-background/50 rounded-md p-3 border border-border font-mono text-xs overflow-x-auto max-h-64 overflow-y-auto">
+              <pre className="whitespace-pre-wrap break-all">{plan.script.content}</pre>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPlan(null)}>
+                Back
+              </Button>
+              <Button
+                onClick={() => runMutation.mutate(false)}
+                disabled={runMutation.isPending}
+                className="gap-2"
+                data-testid="button-confirm-run"
+              >
+                <Play className="w-4 h-4" />
+                Run Now
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Devices</Label>
+              {devices && devices.length > 0 ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+                  {devices.map((device) => (
+                    <label
+                      key={device.id}
+                      className="flex items-center gap-2 text-sm py-1 px-2 rounded-md bg-background/50 cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={selectedDeviceIds.includes(device.id)}
+                        onCheckedChange={(checked) => toggleDevice(device.id, checked === true)}
+                        data-testid={`checkbox-run-device-${device.id}`}
+                      />
+                      <span className="truncate">{device.name}</span>
+                      <span className="text-xs text-muted-foreground font-mono ml-auto">{device.ipAddress}</span>
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No devices in the inventory yet.</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>SSH Credential</Label>
+                <Select value={credentialId} onValueChange={setCredentialId}>
+                  <SelectTrigger data-testid="select-run-credential">
+                    <SelectValue placeholder="Select credential" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {credentials?.map((credential) => (
+                      <SelectItem key={credential.id} value={credential.id}>
+                        {credential.name} ({credential.username})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {credentials?.length === 0 && (
+                  <p className="text-xs text-muted-foreground">Add SSH credentials in Settings first.</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="run-timeout">Timeout (seconds)</Label>
+                <Input
+                  id="run-timeout"
+                  type="number"
+                  min={5}
+                  max={3600}
+                  value={timeoutSeconds}
+                  onChange={(e) => setTimeoutSeconds(e.target.value)}
+                  data-testid="input-run-timeout"
+                />
+              </div>
+            </div>
+
+            {script.parameters.length > 0 && (
+              <div className="space-y-2">
+                <Label>Parameters</Label>
+                <ParameterInputs
+                  parameters={script.parameters}
+                  values={parameterValues}
+                  errors={parameterErrors}
+                  devices={devices || []}
+                  onChange={(name, value) => setParameterValues((current) => ({ ...current, [name]: value }))}
+                />
+                {unexpandedPlaceholders.length > 0 && (
+                  <UnexpandedPlaceholdersWarning placeholders={unexpandedPlaceholders} testId="text-run-unexpanded-placeholders" />
+                )}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button
+                onClick={() => runMutation.mutate(true)}
+                disabled={
+                  runMutation.isPending
+                  || selectedDeviceIds.length === 0
+                  || !credentialId
+                  || Object.keys(parameterErrors).length > 0
+                }
+                data-testid="button-review-run"
+              >
+                Review
+              </Button>
+            </DialogFooter>
+
+            {history && history.length > 0 && (
+              <div className="space-y-2 pt-2 border-t border-border">
+                <Label>Recent Runs</Label>
+                {history.map((run) => (
+                  <button
+                    key={run.id}
+                    type="button"
+                    onClick={() => setActiveRuns([run])}
+                    className="w-full flex items-center justify-between gap-2 text-sm py-1 px-3 rounded-md bg-background/50 hover-elevate text-left"
+                    data-testid={`button-view-run-${run.id}`}
+                  >
+                    <span className="truncate">
+                      {run.targetName}
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {new Date(run.startedAt).toLocaleString()}
+                        {run.triggeredBy && ` by ${run.triggeredBy}`}
+                      </span>
+                    </span>
+                    <RunStatusBadge status={run.status} />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const overlapPolicyLabels: Record<string, string> = {
+  skip: "Skip if running",
+  queue: "Queue one run",
+  allow: "Run in parallel",
+};
+
+const jobFormSchema = z.object({
+  cronExpression: z.string().trim().min(1, "Cron expression is required"),
+  overlapPolicy: z.enum(["skip", "queue", "allow"]),
+  timeoutSeconds: z.string().regex(/^\d+$/, "Timeout must be a number"),
+  historyLimit: z.string().regex(/^\d+$/, "History size must be a number"),
+  enabled: z.boolean(),
+});
+
+type JobFormData = z.infer<typeof jobFormSchema>;
+
+const defaultJobForm: JobFormData = {
+  cronExpression: "0 3 * * *",
+  overlapPolicy: "skip",
+  timeoutSeconds: "300",
+  historyLimit: "20",
+  enabled: true,
+};
+
+function ScriptJobHistory({ job }: { job: ScriptJob }) {
+  const [selectedRun, setSelectedRun] = useState<ScriptRun | null>(null);
+
+  const { data: runs } = useQuery<ScriptRun[]>({
+    queryKey: ["/api/script-jobs", job.id, "runs"],
+    refetchInterval: 10000,
+  });
+
+  if (selectedRun) {
+    return (
+      <div className="space-y-2">
+        <RunOutput run={selectedRun} />
+        <Button variant="outline" size="sm" onClick={() => setSelectedRun(null)}>
+          Back to history
+        </Button>
+      </div>
+    );
+  }
+
+  if (!runs || runs.length === 0) {
+    return <p className="text-xs text-muted-foreground">No runs yet.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {runs.map((run) => (
+        <button
+          key={run.id}
+          type="button"
+          onClick={() => setSelectedRun(run)}
+          className="w-full flex items-center justify-between gap-2 text-xs py-1 px-2 rounded-md bg-background/50 hover-elevate text-left"
+          data-testid={`button-view-job-run-${run.id}`}
+        >
+          <span className="text-muted-foreground">
+            {new Date(run.startedAt).toLocaleString()}
+            {run.triggeredBy && run.triggeredBy !== "scheduler" && ` by ${run.triggeredBy}`}
+            {run.durationMs !== null && ` · ${formatRunDuration(run.durationMs)}`}
+            {run.exitCode !== null && ` · exit ${run.exitCode}`}
+          </span>
+          <RunStatusBadge status={run.status} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ScriptJobsDialog({
+  script,
+  jobs,
+  open,
+  onOpenChange,
+}: {
+  script: Script;
+  jobs: ScriptJobWithLastRun[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [editingJob, setEditingJob] = useState<ScriptJob | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [historyJobId, setHistoryJobId] = useState<string | null>(null);
+
+  const form = useForm<JobFormData>({
+    resolver: zodResolver(jobFormSchema),
+    defaultValues: defaultJobForm,
+  });
+
+  const invalidateJobs = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/script-jobs"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: JobFormData) => {
+      const payload = {
+        cronExpression: data.cronExpression,
+        overlapPolicy: data.overlapPolicy,
+        timeoutSeconds: Number(data.timeoutSeconds),
+        historyLimit: Number(data.historyLimit),
+        enabled: data.enabled,
+      };
+      if (editingJob) {
+        return await apiRequest("PATCH", `/api/script-jobs/${editingJob.id}`, payload);
+      }
+      return await apiRequest("POST", "/api/script-jobs", { ...payload, scriptId: script.id });
+    },
+    onSuccess: () => {
+      invalidateJobs();
+      setIsEditorOpen(false);
+      setEditingJob(null);
+      toast({
+        title: editingJob ? "Schedule Updated" : "Schedule Added",
+        description: "The scheduled job has been saved.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save schedule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ job, enabled }: { job: ScriptJob; enabled: boolean }) => {
+      return await apiRequest("PATCH", `/api/script-jobs/${job.id}`, { enabled });
+    },
+    onSuccess: invalidateJobs,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update schedule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runNowMutation = useMutation({
+    mutationFn: async (job: ScriptJob) => {
+      const response = await apiRequest("POST", `/api/script-jobs/${job.id}/run`);
+      return response.json();
+    },
+    onSuccess: (data: { queued?: boolean }, job) => {
+      invalidateJobs();
+      queryClient.invalidateQueries({ queryKey: ["/api/script-jobs", job.id, "runs"] });
+      setHistoryJobId(job.id);
+      toast(data.queued
+        ? { title: "Job Queued", description: "It will run once the current run finishes." }
+        : { title: "Job Started", description: "The script is running on the dashboard host." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to start job",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (job: ScriptJob) => {
+      return await apiRequest("DELETE", `/api/script-jobs/${job.id}`);
+    },
+    onSuccess: () => {
+      invalidateJobs();
+      toast({
+        title: "Schedule Deleted",
+        description: "The scheduled job and its history have been removed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete schedule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddJob = () => {
+    setEditingJob(null);
+    form.reset(defaultJobForm);
+    setIsEditorOpen(true);
+  };
+
+  const handleEditJob = (job: ScriptJob) => {
+    setEditingJob(job);
+    form.reset({
+      cronExpression: job.cronExpression,
+      overlapPolicy: job.overlapPolicy as JobFormData["overlapPolicy"],
+      timeoutSeconds: String(job.timeoutSeconds),
+      historyLimit: String(job.historyLimit),
+      enabled: job.enabled,
+    });
+    setIsEditorOpen(true);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Schedules: {script.name}</DialogTitle>
+        </DialogHeader>
+
+        {!isEditorOpen ? (
+          <div className="space-y-3">
+            {jobs.length > 0 ? (
+              jobs.map((job) => (
+                <div key={job.id} className="space-y-2 py-2 px-3 rounded-md bg-background/50" data-testid={`row-job-${job.id}`}>
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 text-sm font-medium">
+                        <span className="font-mono">{job.cronExpression}</span>
+                        {job.lastRun && <RunStatusBadge status={job.lastRun.status} />}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {overlapPolicyLabels[job.overlapPolicy]} · {job.timeoutSeconds}s timeout · keeps {job.historyLimit} runs
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {job.enabled && job.nextRunAt
+                          ? `Next run: ${new Date(job.nextRunAt).toLocaleString()}`
+                          : "Disabled"}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Switch
+                        checked={job.enabled}
+                        onCheckedChange={(enabled) => toggleMutation.mutate({ job, enabled })}
+                        data-testid={`switch-job-enabled-${job.id}`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => runNowMutation.mutate(job)}
+                        disabled={runNowMutation.isPending}
+                        title="Run now"
+                        data-testid={`button-run-job-${job.id}`}
+                      >
+                        <Play className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setHistoryJobId(historyJobId === job.id ? null : job.id)}
+                        title="Run history"
+                        data-testid={`button-job-history-${job.id}`}
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleEditJob(job)}
+                        data-testid={`button-edit-job-${job.id}`}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(job)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-job-${job.id}`}
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                  {historyJobId === job.id && <ScriptJobHistory job={job} />}
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                This script is not scheduled. Scheduled jobs run on the dashboard host.
+              </p>
+            )}
+            <DialogFooter>
+              <Button onClick={handleAddJob} className="gap-2" data-testid="button-add-job">
+                <Plus className="w-4 h-4" />
+                Add Schedule
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="cronExpression"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cron Expression</FormLabel>
+                    <FormControl>
+                      <Input placeholder="minute hour day month weekday" className="font-mono" {...field} data-testid="input-job-cron" />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">
+                      e.g. <span className="font-mono">0 3 * * *</span> daily at 03:00, <span className="font-mono">*/15 * * * *</span> every 15 minutes
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="overlapPolicy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>If Still Running</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-job-overlap">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(overlapPolicyLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="timeoutSeconds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Timeout (seconds)</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-job-timeout" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="historyLimit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Runs to Keep</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid="input-job-history" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="enabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-4">
+                    <FormLabel>Enabled</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-job-enabled" />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsEditorOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-job">
+                  {saveMutation.isPending ? "Saving..." : "Save Schedule"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
 }
 
 function ScriptCard({
   script,
-  isAdmin,
+  jobs,
+  backlinks,
+  canEdit,
+  canRun,
+  canSchedule,
+  selectedTags,
+  onTagSelect,
   onEdit,
   onDelete,
 }: {
-  script: Script;
-  isAdmin: boolean;
-  onEdit: (script: Script) => void;
-  onDelete: (script: Script) => void;
+  script: Tagged<Script>;
+  jobs: ScriptJobWithLastRun[];
+  backlinks: NoteBacklinks[string] | undefined;
+  canEdit: boolean;
+  canRun: boolean;
+  canSchedule: boolean;
+  selectedTags: string[];
+  onTagSelect: (tag: string) => void;
+  onEdit: (script: Tagged<Script>) => void;
+  onDelete: (script: Tagged<Script>) => void;
 }) {
   const [copied, setCopied] = useState(false);
+  const [isRunOpen, setIsRunOpen] = useState(false);
+  const [isJobsOpen, setIsJobsOpen] = useState(false);
+  const [isCopyOpen, setIsCopyOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const { toast } = useToast();
-  const Icon = getCategoryIcon(script.category);
+  const { getCategory } = useCategories("script");
+  const category = getCategory(script.category);
 
-  const handleCopy = async () => {
+  const nextRunAt = jobs
+    .filter((job) => job.enabled && job.nextRunAt)
+    .map((job) => new Date(job.nextRunAt!))
+    .sort((a, b) => a.getTime() - b.getTime())[0];
+  const lastRun = jobs
+    .map((job) => job.lastRun)
+    .filter((run) => run !== null)
+    .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())[0];
+
+  const copyToClipboard = async (content: string) => {
     try {
-      await navigator.clipboard.writeText(script.content);
+      await navigator.clipboard.writeText(content);
       setCopied(true);
       toast({
         title: "Copied",
         description: "Script copied to clipboard",
       });
       setTimeout(() => setCopied(false), 2000);
+      return true;
     } catch {
       toast({
         title: "Error",
         description: "Failed to copy script",
         variant: "destructive",
       });
+      return false;
+    }
+  };
+
+  const handleCopy = () => {
+    if (script.parameters.length > 0) {
+      setIsCopyOpen(true);
+    } else {
+      void copyToClipboard(script.content);
     }
   };
 
   return (
-    <Card className="border-card-border" data-testid={`card-script-${script.id}`}>
+    <Card id={`script-${script.id}`} className="border-card-border scroll-mt-20" data-testid={`card-script-${script.id}`}>
       <CardHeader className="pb-2">
         <div className="flex items-start justify-between gap-3">
           <div className="flex items-center gap-3">
-            <div className="p-2 rounded-md bg-primary/10 text-primary">
-              <Icon className="w-4 h-4" />
-            </div>
+            <CategoryIconTile category={category} fallback={FileCode} />
             <div>
               <CardTitle className="text-base" data-testid={`text-script-name-${script.id}`}>
                 {script.name}
               </CardTitle>
-              <Badge variant="outline" className="mt-1 text-xs">
-                {getCategoryLabel(script.category)}
-              </Badge>
+              <div className="flex items-center gap-1 mt-1">
+                <CategoryBadge category={category} slug={script.category} />
+                {script.parameters.length > 0 && (
+                  <Badge variant="secondary" className="text-xs gap-1" data-testid={`badge-script-parameters-${script.id}`}>
+                    <Variable className="w-3 h-3" />
+                    {script.parameters.length}
+                  </Badge>
+                )}
+              </div>
             </div>
           </div>
           <div className="flex items-center gap-1">
@@ -151,7 +1145,35 @@ function ScriptCard({
                 <Copy className="w-4 h-4" />
               )}
             </Button>
-            {isAdmin && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsHistoryOpen(true)}
+              data-testid={`button-history-script-${script.id}`}
+            >
+              <History className="w-4 h-4" />
+            </Button>
+            {canRun && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsRunOpen(true)}
+                data-testid={`button-run-script-${script.id}`}
+              >
+                <Play className="w-4 h-4" />
+              </Button>
+            )}
+            {canSchedule && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsJobsOpen(true)}
+                data-testid={`button-schedule-script-${script.id}`}
+              >
+                <Clock className="w-4 h-4" />
+              </Button>
+            )}
+            {canEdit && (
               <>
                 <Button
                   variant="ghost"
@@ -181,12 +1203,37 @@ function ScriptCard({
         <div className="bg-background/50 rounded-md p-3 border border-border font-mono text-xs overflow-x-auto max-h-48 overflow-y-auto">
           <pre className="whitespace-pre-wrap break-all">{script.content}</pre>
         </div>
-        <div className="flex items-center justify-between mt-3 text-xs text-muted-foreground">
+        <div className="mt-3 space-y-2">
+          <TagList tags={script.tags} selected={selectedTags} onSelect={onTagSelect} />
+          <NoteBacklinkList notes={backlinks} />
+        </div>
+        <div className="flex items-center justify-between gap-2 mt-3 text-xs text-muted-foreground">
           <span>
             Updated: {script.updatedAt ? new Date(script.updatedAt).toLocaleDateString() : "N/A"}
           </span>
+          {jobs.length > 0 && (
+            <span className="flex items-center gap-2" data-testid={`text-script-schedule-${script.id}`}>
+              <Clock className="w-3 h-3" />
+              {nextRunAt ? `Next: ${nextRunAt.toLocaleString()}` : "Schedule disabled"}
+              {lastRun && <RunStatusBadge status={lastRun.status} />}
+            </span>
+          )}
         </div>
       </CardContent>
+      <CopyScriptDialog script={script} open={isCopyOpen} onOpenChange={setIsCopyOpen} onCopy={copyToClipboard} />
+      <RevisionHistoryDialog<ScriptRevision>
+        title={script.name}
+        queryKey={["/api/scripts", script.id, "revisions"]}
+        restoreUrl={(revision) => `/api/scripts/${script.id}/revisions/${revision.id}/restore`}
+        invalidateQueryKey="/api/scripts"
+        currentContent={script.content}
+        canRestore={canEdit}
+        describeRevision={(revision) => revision.name}
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+      />
+      {canRun && <RunScriptDialog script={script} open={isRunOpen} onOpenChange={setIsRunOpen} />}
+      {canSchedule && <ScriptJobsDialog script={script} jobs={jobs} open={isJobsOpen} onOpenChange={setIsJobsOpen} />}
     </Card>
   );
 }
@@ -195,21 +1242,31 @@ export default function Scripts() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [isFormOpen, setIsFormOpen] = useState(false);
-  const [editingScript, setEditingScript] = useState<Script | null>(null);
-  const [deletingScript, setDeletingScript] = useState<Script | null>(null);
+  const [editingScript, setEditingScript] = useState<Tagged<Script> | null>(null);
+  const [deletingScript, setDeletingScript] = useState<Tagged<Script> | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [filterCategory, setFilterCategory] = useState<string>("all");
+  const { selectedTags, toggleTag, clearTags, matchesTags } = useTagFilter();
+  const { categories } = useCategories("script");
+
+  const { can } = usePermissions();
+  const canEdit = can("scripts:write");
 
-  const { data: authStatus } = useQuery<{ authenticated: boolean; user?: { role: string } }>({
-    queryKey: ["/api/auth/status"],
+  const { data: scripts, isLoading } = useQuery<Tagged<Script>[]>({
+    queryKey: ["/api/scripts"],
   });
 
-  const isAdmin = authStatus?.user?.role === "admin";
+  const { data: scriptJobs } = useQuery<ScriptJobWithLastRun[]>({
+    queryKey: ["/api/script-jobs"],
+    refetchInterval: 30000,
+  });
 
-  const { data: scripts, isLoading } = useQuery<Script[]>({
-    queryKey: ["/api/scripts"],
+  const { data: backlinks } = useQuery<NoteBacklinks>({
+    queryKey: ["/api/backlinks", "script"],
   });
 
+  useScrollToHash(!!scripts);
+
   const form = useForm<ScriptFormData>({
     resolver: zodResolver(scriptFormSchema),
     defaultValues: {
@@ -217,15 +1274,28 @@ export default function Scripts() {
       content: "",
       category: "general",
       description: "",
+      parameters: [],
+      tags: [],
     },
   });
 
+  const parameterFields = useFieldArray({ control: form.control, name: "parameters" });
+  const watchedParameters = form.watch("parameters");
+  const unexpandedPlaceholders = findUnexpandedPlaceholders(form.watch("content"));
+
+  const { data: devices } = useQuery<Device[]>({
+    queryKey: ["/api/devices"],
+    enabled: isFormOpen && watchedParameters.some((parameter) => parameter.type === "device"),
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: ScriptFormData) => {
-      return await apiRequest("POST", "/api/scripts", data);
+      return await apiRequest("POST", "/api/scripts", { ...data, parameters: data.parameters.map(toScriptParameter) });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       setIsFormOpen(false);
       form.reset();
       toast({
@@ -233,10 +1303,10 @@ export default function Scripts() {
         description: "Your script has been saved.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to save script. Please try again.",
+        description: error.message || "Failed to save script. Please try again.",
         variant: "destructive",
       });
     },
@@ -244,10 +1314,12 @@ export default function Scripts() {
 
   const updateMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: ScriptFormData }) => {
-      return await apiRequest("PATCH", `/api/scripts/${id}`, data);
+      return await apiRequest("PATCH", `/api/scripts/${id}`, { ...data, parameters: data.parameters.map(toScriptParameter) });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       setIsFormOpen(false);
       setEditingScript(null);
       form.reset();
@@ -256,10 +1328,10 @@ export default function Scripts() {
         description: "Your script has been updated.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update script. Please try again.",
+        description: error.message || "Failed to update script. Please try again.",
         variant: "destructive",
       });
     },
@@ -271,6 +1343,8 @@ export default function Scripts() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/scripts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       setDeletingScript(null);
       toast({
         title: "Script Deleted",
@@ -293,22 +1367,40 @@ export default function Scripts() {
       content: "",
       category: "general",
       description: "",
+      parameters: [],
+      tags: [],
     });
     setIsFormOpen(true);
   };
 
-  const handleEditScript = (script: Script) => {
+  const handleEditScript = (script: Tagged<Script>) => {
     setEditingScript(script);
     form.reset({
       name: script.name,
       content: script.content,
       category: script.category,
       description: script.description || "",
+      parameters: script.parameters.map(toParameterForm),
+      tags: script.tags,
     });
     setIsFormOpen(true);
   };
 
-  const handleDeleteScript = (script: Script) => {
+  // Adds a text parameter for each placeholder in the content that is not declared yet
+  const handleDetectParameters = () => {
+    const declared = new Set(form.getValues("parameters").map((parameter) => parameter.name));
+    for (const placeholder of findPlaceholders(form.getValues("content"))) {
+      if (declared.has(placeholder.name)) continue;
+      declared.add(placeholder.name);
+      parameterFields.append({
+        ...emptyParameter,
+        name: placeholder.name,
+        type: placeholder.field ? "device" : "string",
+      });
+    }
+  };
+
+  const handleDeleteScript = (script: Tagged<Script>) => {
     setDeletingScript(script);
   };
 
@@ -326,7 +1418,7 @@ export default function Scripts() {
       script.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
       script.content.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesCategory = filterCategory === "all" || script.category === filterCategory;
-    return matchesSearch && matchesCategory;
+    return matchesSearch && matchesCategory && matchesTags(script.tags);
   });
 
   return (
@@ -353,7 +1445,7 @@ export default function Scripts() {
             </div>
           </div>
 
-          {isAdmin && (
+          {canEdit && (
             <Button onClick={handleAddScript} className="gap-2" data-testid="button-add-script">
               <Plus className="w-4 h-4" />
               Add Script
@@ -381,14 +1473,16 @@ export default function Scripts() {
             <SelectContent>
               <SelectItem value="all">All Categories</SelectItem>
               {categories.map((cat) => (
-                <SelectItem key={cat.value} value={cat.value}>
-                  {cat.label}
+                <SelectItem key={cat.slug} value={cat.slug}>
+                  {cat.name}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
         </div>
 
+        <TagCloud type="script" selected={selectedTags} onToggle={toggleTag} onClear={clearTags} />
+
         {isLoading ? (
           <div className="flex items-center justify-center min-h-[300px]">
             <p className="text-muted-foreground">Loading scripts...</p>
@@ -405,7 +1499,7 @@ export default function Scripts() {
                   ? "Start building your script library by adding your first script."
                   : "Try adjusting your search or filter."}
               </p>
-              {isAdmin && scripts?.length === 0 && (
+              {canEdit && scripts?.length === 0 && (
                 <Button onClick={handleAddScript} className="gap-2">
                   <Plus className="w-4 h-4" />
                   Add Your First Script
@@ -419,7 +1513,13 @@ export default function Scripts() {
               <ScriptCard
                 key={script.id}
                 script={script}
-                isAdmin={isAdmin}
+                jobs={scriptJobs?.filter((job) => job.scriptId === script.id) || []}
+                backlinks={backlinks?.[script.id]}
+                canEdit={canEdit}
+                canRun={can("scripts:run")}
+                canSchedule={can("jobs:manage")}
+                selectedTags={selectedTags}
+                onTagSelect={toggleTag}
                 onEdit={handleEditScript}
                 onDelete={handleDeleteScript}
               />
@@ -459,7 +1559,7 @@ export default function Scripts() {
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Category</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <Select onValueChange={field.onChange} value={field.value}>
                         <FormControl>
                           <SelectTrigger data-testid="select-script-category">
                             <SelectValue placeholder="Select category" />
@@ -467,8 +1567,8 @@ export default function Scripts() {
                         </FormControl>
                         <SelectContent>
                           {categories.map((cat) => (
-                            <SelectItem key={cat.value} value={cat.value}>
-                              {cat.label}
+                            <SelectItem key={cat.slug} value={cat.slug}>
+                              {cat.name}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -497,6 +1597,20 @@ export default function Scripts() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tags (optional)</FormLabel>
+                    <FormControl>
+                      <TagInput value={field.value} onChange={field.onChange} data-testid="input-script-tags" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="content"
@@ -512,10 +1626,233 @@ export default function Scripts() {
                       />
                     </FormControl>
                     <FormMessage />
+                    {unexpandedPlaceholders.length > 0 && (
+                      <UnexpandedPlaceholdersWarning placeholders={unexpandedPlaceholders} testId="text-unexpanded-placeholders" />
+                    )}
                   </FormItem>
                 )}
               />
 
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <Label>Parameters</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Reference them in the script as <span className="font-mono">{"{{name}}"}</span>, or{" "}
+                      <span className="font-mono">{"{{name.ip}}"}</span>, <span className="font-mono">.name</span> and{" "}
+                      <span className="font-mono">.mac</span> for devices. Values are passed as shell variables, so placeholders work bare or inside double quotes, but not inside single quotes or a quoted heredoc.
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={handleDetectParameters}
+                      data-testid="button-detect-parameters"
+                    >
+                      Detect
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => parameterFields.append(emptyParameter)}
+                      className="gap-1"
+                      data-testid="button-add-parameter"
+                    >
+                      <Plus className="w-3 h-3" />
+                      Add
+                    </Button>
+                  </div>
+                </div>
+
+                {parameterFields.fields.map((parameterField, index) => {
+                  const type = watchedParameters[index]?.type;
+                  return (
+                    <div key={parameterField.id} className="rounded-md border border-border p-3 space-y-3">
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        <FormField
+                          control={form.control}
+                          name={`parameters.${index}.name`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Name</FormLabel>
+                              <FormControl>
+                                <Input placeholder="hostname" className="font-mono" {...field} data-testid={`input-parameter-name-${index}`} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`parameters.${index}.label`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Label</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Optional" {...field} data-testid={`input-parameter-label-${index}`} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`parameters.${index}.type`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Type</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger data-testid={`select-parameter-type-${index}`}>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {scriptParameterTypes.map((parameterType) => (
+                                    <SelectItem key={parameterType} value={parameterType}>
+                                      {parameterTypeLabels[parameterType]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        {type === "enum" && (
+                          <FormField
+                            control={form.control}
+                            name={`parameters.${index}.options`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Options</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="start, stop, restart" {...field} data-testid={`input-parameter-options-${index}`} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+                        {type === "string" && (
+                          <FormField
+                            control={form.control}
+                            name={`parameters.${index}.pattern`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Pattern</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="Optional regex" className="font-mono" {...field} data-testid={`input-parameter-pattern-${index}`} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+                        {type === "number" && (
+                          <>
+                            <FormField
+                              control={form.control}
+                              name={`parameters.${index}.min`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Min</FormLabel>
+                                  <FormControl>
+                                    <Input type="number" {...field} data-testid={`input-parameter-min-${index}`} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                            <FormField
+                              control={form.control}
+                              name={`parameters.${index}.max`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Max</FormLabel>
+                                  <FormControl>
+                                    <Input type="number" {...field} data-testid={`input-parameter-max-${index}`} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </>
+                        )}
+                        {type !== "secret" && (
+                          <FormField
+                            control={form.control}
+                            name={`parameters.${index}.default`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Default</FormLabel>
+                                {type === "device" ? (
+                                  <Select onValueChange={field.onChange} value={field.value}>
+                                    <FormControl>
+                                      <SelectTrigger data-testid={`select-parameter-default-${index}`}>
+                                        <SelectValue placeholder="None" />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      {devices?.map((device) => (
+                                        <SelectItem key={device.id} value={device.id}>
+                                          {device.name}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                ) : (
+                                  <FormControl>
+                                    <Input placeholder="None" {...field} data-testid={`input-parameter-default-${index}`} />
+                                  </FormControl>
+                                )}
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+                      </div>
+
+                      <div className="flex items-center justify-between">
+                        <FormField
+                          control={form.control}
+                          name={`parameters.${index}.required`}
+                          render={({ field }) => (
+                            <FormItem className="flex items-center gap-2 space-y-0">
+                              <FormControl>
+                                <Checkbox
+                                  checked={field.value}
+                                  onCheckedChange={(checked) => field.onChange(checked === true)}
+                                  data-testid={`checkbox-parameter-required-${index}`}
+                                />
+                              </FormControl>
+                              <FormLabel className="font-normal">Required</FormLabel>
+                            </FormItem>
+                          )}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => parameterFields.remove(index)}
+                          className="gap-1 text-destructive"
+                          data-testid={`button-remove-parameter-${index}`}
+                        >
+                          <X className="w-3 h-3" />
+                          Remove
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
                   Cancel
@@ -0,0 +1,215 @@
+import { storage } from "./storage";
+import { getMetricSnapshot, type MetricSnapshot } from "./systemMetrics";
+import { sendNotification, type AlertNotification } from "./notifications";
+import type { Alert, AlertRule, AlertSeverity, Device, SystemMetricName } from "@shared/schema";
+
+const EVALUATION_INTERVAL = 30000; // Evaluate rules every 30 seconds
+let engineInterval: NodeJS.Timeout | null = null;
+let evaluationInProgress = false;
+
+const metricLabels: Record<SystemMetricName, { label: string; unit: string; key: keyof MetricSnapshot }> = {
+  cpu: { label: "CPU usage", unit: "%", key: "cpuUsage" },
+  memory: { label: "Memory usage", unit: "%", key: "memoryUsage" },
+  disk: { label: "Disk usage", unit: "%", key: "diskUsage" },
+  temperature: { label: "Temperature", unit: "°C", key: "temperature" },
+};
+
+// A rule evaluated against one subject (the host, or a single device)
+interface Observation {
+  subjectKey: string;
+  subjectLabel: string;
+  matches: boolean;
+  value: string;
+  message: string;
+}
+
+function compare(value: number, comparator: string, threshold: number): boolean {
+  switch (comparator) {
+    case ">": return value > threshold;
+    case ">=": return value >= threshold;
+    case "<": return value < threshold;
+    case "<=": return value <= threshold;
+    default: return false;
+  }
+}
+
+// Null when the metric could not be read; its open alerts are left as they are
+function observeMetric(rule: AlertRule, snapshot: MetricSnapshot): Observation[] | null {
+  const metric = metricLabels[rule.metric as SystemMetricName];
+  if (!metric || rule.comparator === null || rule.threshold === null) {
+    return [];
+  }
+  const value = snapshot[metric.key];
+  if (value === null) {
+    return null;
+  }
+  return [{
+    subjectKey: `metric:${rule.metric}`,
+    subjectLabel: metric.label,
+    matches: compare(value, rule.comparator, rule.threshold),
+    value: `${value}${metric.unit}`,
+    message: `${metric.label} is ${value}${metric.unit} (${rule.comparator} ${rule.threshold}${metric.unit})`,
+  }];
+}
+
+function observeDevices(rule: AlertRule, devices: Device[]): Observation[] {
+  return devices
+    .filter((device) => !rule.deviceId || device.id === rule.deviceId)
+    .map((device) => ({
+      subjectKey: `device:${device.id}`,
+      subjectLabel: device.name,
+      matches: device.status === rule.deviceStatus,
+      value: device.status,
+      message: `${device.name} (${device.ipAddress}) is ${device.status}`,
+    }));
+}
+
+async function notify(rule: AlertRule, alert: Alert, state: "firing" | "resolved"): Promise<void> {
+  if (alert.snoozedUntil && alert.snoozedUntil.getTime() > Date.now()) {
+    return;
+  }
+
+  const notification: AlertNotification = {
+    title: state === "firing" ? `${rule.name}: ${alert.subjectLabel}` : `Resolved: ${rule.name}: ${alert.subjectLabel}`,
+    message: alert.message,
+    severity: alert.severity as AlertSeverity,
+    state,
+    alertId: alert.id,
+    ruleName: rule.name,
+    subject: alert.subjectLabel,
+    value: alert.value,
+    timestamp: new Date().toISOString(),
+  };
+
+  for (const channelId of rule.channelIds) {
+    const channel = await storage.getAlertChannel(channelId);
+    if (!channel || !channel.enabled) continue;
+    try {
+      await sendNotification(channel, notification);
+    } catch (error) {
+      console.error(`Alert delivery to "${channel.name}" failed:`, error);
+    }
+  }
+}
+
+async function applyObservation(rule: AlertRule, observation: Observation, open: Alert | undefined, now: Date): Promise<void> {
+  if (!observation.matches) {
+    if (!open) return;
+    if (open.state === "pending") {
+      // Never fired, so there is nothing to resolve or notify about
+      await storage.deleteAlert(open.id);
+      return;
+    }
+    const resolved = await storage.updateAlert(open.id, { state: "resolved", resolvedAt: now });
+    if (resolved) await notify(rule, resolved, "resolved");
+    return;
+  }
+
+  const current = open ?? await storage.createAlert({
+    ruleId: rule.id,
+    subjectKey: observation.subjectKey,
+    subjectLabel: observation.subjectLabel,
+    state: "pending",
+    severity: rule.severity,
+    value: observation.value,
+    message: observation.message,
+    startedAt: now,
+  });
+
+  const heldFor = now.getTime() - current.startedAt.getTime();
+  if (current.state === "pending" && heldFor >= rule.durationSeconds * 1000) {
+    const firing = await storage.updateAlert(current.id, {
+      state: "firing",
+      firedAt: now,
+      value: observation.value,
+      message: observation.message,
+    });
+    if (firing) await notify(rule, firing, "firing");
+  } else if (open) {
+    await storage.updateAlert(current.id, { value: observation.value, message: observation.message });
+  }
+}
+
+async function evaluateRules(): Promise<void> {
+  if (evaluationInProgress) {
+    return;
+  }
+  evaluationInProgress = true;
+
+  try {
+    const now = new Date();
+    const rules = (await storage.getAllAlertRules()).filter((rule) => rule.enabled);
+    const openAlerts = await storage.getOpenAlerts();
+
+    const openBySubject = new Map(openAlerts.map((alert) => [`${alert.ruleId}|${alert.subjectKey}`, alert]));
+    const needsMetrics = rules.some((rule) => rule.targetType === "metric");
+    const needsDevices = rules.some((rule) => rule.targetType === "device");
+    const snapshot = needsMetrics ? await getMetricSnapshot() : null;
+    const devices = needsDevices ? await storage.getAllDevices() : [];
+
+    for (const rule of rules) {
+      const observations = rule.targetType === "metric"
+        ? (snapshot ? observeMetric(rule, snapshot) : [])
+        : observeDevices(rule, devices);
+      if (!observations) {
+        continue;
+      }
+
+      const seen = new Set<string>();
+      for (const observation of observations) {
+        seen.add(observation.subjectKey);
+        const key = `${rule.id}|${observation.subjectKey}`;
+        await applyObservation(rule, observation, openBySubject.get(key), now);
+      }
+
+      // Subjects that disappeared (e.g. a deleted device) resolve their open alerts
+      for (const alert of openAlerts) {
+        if (alert.ruleId === rule.id && !seen.has(alert.subjectKey)) {
+          await applyObservation(rule, { ...toObservation(alert), matches: false }, alert, now);
+        }
+      }
+    }
+
+    // Rules that were disabled leave their open alerts behind; close them quietly
+    const activeRuleIds = new Set(rules.map((rule) => rule.id));
+    for (const alert of openAlerts) {
+      if (!activeRuleIds.has(alert.ruleId)) {
+        await storage.updateAlert(alert.id, { state: "resolved", resolvedAt: now });
+      }
+    }
+  } catch (error) {
+    console.error("Alert engine error:", error);
+  } finally {
+    evaluationInProgress = false;
+  }
+}
+
+function toObservation(alert: Alert): Observation {
+  return {
+    subjectKey: alert.subjectKey,
+    subjectLabel: alert.subjectLabel,
+    matches: false,
+    value: alert.value ?? "",
+    message: alert.message,
+  };
+}
+
+export function startAlertEngine(): void {
+  if (engineInterval) {
+    return;
+  }
+
+  console.log("Starting alert engine (evaluating every 30 seconds)...");
+
+  evaluateRules();
+
+  engineInterval = setInterval(evaluateRules, EVALUATION_INTERVAL);
+}
+
+export function stopAlertEngine(): void {
+  if (engineInterval) {
+    clearInterval(engineInterval);
+    engineInterval = null;
+    console.log("Alert engine stopped");
+  }
+}
@@ -0,0 +1,64 @@
+import crypto from "crypto";
+import type { Request } from "express";
+import { storage } from "./storage";
+import { permissions, type ApiToken, type ApiTokenKind, type ApiTokenScope, type Permission } from "@shared/schema";
+
+const TOKEN_PREFIX = "wct_";
+const PREFIX_LENGTH = TOKEN_PREFIX.length + 8;
+// Writing the last-used time on every call would turn each read into a write
+const USE_RECORD_INTERVAL_MS = 60 * 1000;
+
+// What a request authenticated with a token may do, kept on req.apiToken.
+// userId is the owner of a personal token; a service token has none.
+export interface ApiTokenIdentity {
+  id: string;
+  kind: ApiTokenKind;
+  scopes: ApiTokenScope[];
+  userId: string | null;
+  // Recorded as the actor, e.g. the owner's username or "token:<name>"
+  actorName: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiToken?: ApiTokenIdentity;
+    }
+  }
+}
+
+export function hashApiToken(secret: string): string {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+// 32 random bytes; only the hash and the first few characters are stored
+export function generateApiToken(): { secret: string; tokenHash: string; prefix: string } {
+  const secret = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  return { secret, tokenHash: hashApiToken(secret), prefix: secret.slice(0, PREFIX_LENGTH) };
+}
+
+// The token behind a bearer secret, or undefined if it is unknown or expired
+export async function authenticateApiToken(secret: string, ip: string | undefined): Promise<ApiToken | undefined> {
+  if (!secret.startsWith(TOKEN_PREFIX)) return undefined;
+  const token = await storage.getApiTokenByHash(hashApiToken(secret));
+  if (!token || (token.expiresAt && token.expiresAt <= new Date())) return undefined;
+  if (!token.lastUsedAt || Date.now() - token.lastUsedAt.getTime() > USE_RECORD_INTERVAL_MS) {
+    await storage.recordApiTokenUse(token.id, ip ?? null);
+  }
+  return token;
+}
+
+// A personal token never grants more than its owner's role does right now;
+// a service token grants exactly its scopes
+export function tokenPermissions(token: ApiTokenIdentity, rolePermissions: Permission[]): Permission[] {
+  const scoped = permissions.filter((permission) => token.scopes.includes(permission));
+  return token.kind === "personal" ? scoped.filter((permission) => rolePermissions.includes(permission)) : scoped;
+}
+
+// Who a request acts for: the API token it carries, otherwise the signed-in user
+export function requestActor(req: Request): { userId?: string; username?: string } {
+  if (req.apiToken) {
+    return { userId: req.apiToken.userId ?? undefined, username: req.apiToken.actorName };
+  }
+  return { userId: req.session.userId, username: req.session.username };
+}
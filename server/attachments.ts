@@ -0,0 +1,50 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import multer from "multer";
+
+const ATTACHMENTS_DIR = process.env.ATTACHMENTS_DIR || path.resolve(process.cwd(), "data", "attachments");
+// Largest accepted upload; override with ATTACHMENT_MAX_MB
+export const MAX_ATTACHMENT_BYTES = Math.max(1, parseInt(process.env.ATTACHMENT_MAX_MB || "10", 10) || 10) * 1024 * 1024;
+
+// Only raster images are shown inline; everything else (including SVG, which
+// can carry script) is served as a download
+const INLINE_MIME_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+
+export const attachmentUpload = multer({
+  storage: multer.diskStorage({
+    destination: (_req, _file, callback) => {
+      fs.promises.mkdir(ATTACHMENTS_DIR, { recursive: true })
+        .then(() => callback(null, ATTACHMENTS_DIR))
+        .catch((error) => callback(error, ATTACHMENTS_DIR));
+    },
+    // Stored under a random name so uploaded file names never touch the filesystem
+    filename: (_req, _file, callback) => callback(null, crypto.randomUUID()),
+  }),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1 },
+});
+
+export function attachmentPath(storedName: string): string {
+  return path.join(ATTACHMENTS_DIR, path.basename(storedName));
+}
+
+export function isInlineMimeType(mimeType: string): boolean {
+  return INLINE_MIME_TYPES.has(mimeType);
+}
+
+export async function removeAttachmentFile(storedName: string): Promise<void> {
+  try {
+    await fs.promises.unlink(attachmentPath(storedName));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Remove attachment ${storedName} error:`, error);
+    }
+  }
+}
+
+// Markdown that embeds an image or links to a file
+export function attachmentMarkdown(attachment: { id: string; fileName: string; mimeType: string }): string {
+  const label = attachment.fileName.replace(/([\[\]])/g, "\\$1");
+  const url = `/api/attachments/${attachment.id}`;
+  return isInlineMimeType(attachment.mimeType) ? `![${label}](${url})` : `[${label}](${url})`;
+}
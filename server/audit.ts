@@ -0,0 +1,104 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import { requestActor } from "./apiTokens";
+import type { AuditAction, AuditChange, AuditEntityType, AuditEvent } from "@shared/schema";
+
+const REDACTED = "[redacted]";
+const MAX_VALUE_LENGTH = 500;
+
+// Values that must never reach the audit log. A change to them is still
+// recorded, just without the value.
+const sensitiveFields = ["password", "secret", "passphrase", "totpSecret", "recoveryCodes"];
+
+// The id is the event's entity id; timestamps change on every write
+const ignoredFields = new Set(["id", "createdAt", "updatedAt"]);
+
+type Snapshot = Record<string, unknown> | null | undefined;
+
+function comparable(value: unknown): string {
+  return JSON.stringify(value instanceof Date ? value.toISOString() : value ?? null);
+}
+
+function auditValue(value: unknown, redacted: boolean): unknown {
+  if (value === undefined || value === null) return null;
+  if (redacted) return REDACTED;
+  if (value instanceof Date) return value.toISOString();
+  // Script and note bodies are kept in full by their revision history
+  if (typeof value === "string" && value.length > MAX_VALUE_LENGTH) {
+    return `${value.slice(0, MAX_VALUE_LENGTH)}…`;
+  }
+  return value;
+}
+
+// Field-level differences between two versions of a record. A create has no
+// before and a delete no after, so every field shows up once.
+export function diffSnapshots(before: Snapshot, after: Snapshot, redact: string[] = []): AuditChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const redacted = new Set([...sensitiveFields, ...redact]);
+  return Array.from(fields)
+    .filter((field) => !ignoredFields.has(field))
+    .filter((field) => comparable(before?.[field]) !== comparable(after?.[field]))
+    .sort()
+    .map((field) => ({
+      field,
+      before: auditValue(before?.[field], redacted.has(field)),
+      after: auditValue(after?.[field], redacted.has(field)),
+    }));
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  entityLabel?: string | null;
+  before?: Snapshot;
+  after?: Snapshot;
+  // Extra fields to record without their values, e.g. a channel's credentials
+  redact?: string[];
+  // For requests without a session yet, e.g. the username of a failed login
+  actorName?: string;
+}
+
+// Records who did what, from where. A failed write is logged rather than
+// thrown so that it never turns a completed change into an error response.
+export async function recordAudit(req: Request, entry: AuditEntry): Promise<void> {
+  try {
+    const actor = requestActor(req);
+    await storage.createAuditEvent({
+      actorId: actor.userId ?? null,
+      actorName: entry.actorName ?? actor.username ?? "anonymous",
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId ?? null,
+      entityLabel: entry.entityLabel ?? null,
+      changes: diffSnapshots(entry.before, entry.after, entry.redact),
+      ip: req.ip ?? null,
+      userAgent: req.get("user-agent")?.slice(0, 500) ?? null,
+    });
+  } catch (error) {
+    console.error("Audit log error:", error);
+  }
+}
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  // Quote everything; a leading =, +, - or @ would run as a spreadsheet formula
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const header = ["time", "actor", "action", "entity_type", "entity_id", "entity", "changes", "ip", "user_agent"];
+  const rows = events.map((event) => [
+    event.createdAt.toISOString(),
+    event.actorName,
+    event.action,
+    event.entityType,
+    event.entityId,
+    event.entityLabel,
+    event.changes.length > 0 ? JSON.stringify(event.changes) : "",
+    event.ip,
+    event.userAgent,
+  ]);
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,68 @@
+import { storage } from "./storage";
+import { categoryScopes, type CategoryIcon, type CategoryScope } from "@shared/schema";
+
+interface DefaultCategory {
+  slug: string;
+  name: string;
+  icon: CategoryIcon;
+  color: string;
+}
+
+// The lists the client used to hardcode; seeded for scopes that have no categories yet
+const defaultCategories: Record<CategoryScope, DefaultCategory[]> = {
+  device: [
+    { slug: "server", name: "Server", icon: "server", color: "#22c55e" },
+    { slug: "workstation", name: "Workstation", icon: "monitor", color: "#3b82f6" },
+    { slug: "laptop", name: "Laptop", icon: "laptop", color: "#8b5cf6" },
+    { slug: "router", name: "Router/Switch", icon: "router", color: "#f59e0b" },
+    { slug: "mobile", name: "Mobile Device", icon: "smartphone", color: "#ec4899" },
+    { slug: "storage", name: "Storage/NAS", icon: "hard-drive", color: "#06b6d4" },
+    { slug: "other", name: "Other", icon: "server", color: "#64748b" },
+  ],
+  script: [
+    { slug: "security", name: "Security", icon: "lock", color: "#ef4444" },
+    { slug: "networking", name: "Networking", icon: "server", color: "#3b82f6" },
+    { slug: "automation", name: "Automation", icon: "terminal", color: "#22c55e" },
+    { slug: "backup", name: "Backup", icon: "folder-open", color: "#f59e0b" },
+    { slug: "monitoring", name: "Monitoring", icon: "search", color: "#8b5cf6" },
+    { slug: "general", name: "General", icon: "file-code", color: "#64748b" },
+  ],
+  note: [
+    { slug: "setup", name: "Setup", icon: "wrench", color: "#22c55e" },
+    { slug: "configuration", name: "Configuration", icon: "settings", color: "#3b82f6" },
+    { slug: "troubleshooting", name: "Troubleshooting", icon: "search", color: "#ef4444" },
+    { slug: "maintenance", name: "Maintenance", icon: "server", color: "#f59e0b" },
+    { slug: "database", name: "Database", icon: "database", color: "#8b5cf6" },
+    { slug: "general", name: "General", icon: "file-text", color: "#64748b" },
+  ],
+};
+
+// "troubleshooting" -> "Troubleshooting", "home-lab" -> "Home lab"
+function nameFromSlug(slug: string): string {
+  const words = slug.replace(/[-_]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Seeds the default categories for empty scopes, then registers any value
+// already stored on an item (the server used to accept any string) so that
+// existing rows keep validating.
+export async function ensureCategories(): Promise<void> {
+  for (const scope of categoryScopes) {
+    const existing = await storage.getCategories(scope);
+    const known = new Set(existing.map((category) => category.slug));
+
+    if (existing.length === 0) {
+      for (const category of defaultCategories[scope]) {
+        await storage.createCategory({ scope, ...category });
+        known.add(category.slug);
+      }
+    }
+
+    for (const slug of await storage.getCategorySlugsInUse(scope)) {
+      if (known.has(slug)) continue;
+      await storage.createCategory({ scope, slug, name: nameFromSlug(slug) || slug, icon: "folder-open", color: "#64748b" });
+      known.add(slug);
+      console.log(`Registered ${scope} category "${slug}" found on existing items`);
+    }
+  }
+}
@@ -0,0 +1,21 @@
+// Runs worker over items with at most `limit` in flight at once. Worker
+// errors are passed to onError so one failure does not stop the pool.
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  onError: (error: unknown, item: T) => void,
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (error) {
+        onError(error, item);
+      }
+    }
+  });
+  await Promise.all(runners);
+}
@@ -0,0 +1,112 @@
+import { storage } from "./storage";
+import type {
+  AvailabilitySegment,
+  AvailabilityWindow,
+  DeviceAvailability,
+  DeviceOutage,
+  DeviceStatusEvent,
+} from "@shared/schema";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const WINDOW_MS: Record<AvailabilityWindow, number> = {
+  "24h": DAY,
+  "7d": 7 * DAY,
+  "30d": 30 * DAY,
+};
+
+interface Span {
+  start: number;
+  end: number;
+  status: string;
+}
+
+// Turns chronological status events into contiguous spans clipped to [since, until].
+// Time before the first event is left out because the device was not monitored yet.
+function toSpans(events: DeviceStatusEvent[], since: number, until: number): Span[] {
+  const spans: Span[] = [];
+  events.forEach((event, index) => {
+    const next = events[index + 1];
+    const start = Math.max(event.changedAt.getTime(), since);
+    const end = Math.min(next ? next.changedAt.getTime() : until, until);
+    if (end > start) {
+      spans.push({ start, end, status: event.status });
+    }
+  });
+  return spans;
+}
+
+// Degraded devices still answer, so they count towards uptime
+function isReachable(status: string): boolean {
+  return status === "online" || status === "degraded";
+}
+
+function uptimePercentage(spans: Span[]): number | null {
+  let online = 0;
+  let monitored = 0;
+  for (const span of spans) {
+    if (span.status === "unknown") continue;
+    const duration = span.end - span.start;
+    monitored += duration;
+    if (isReachable(span.status)) online += duration;
+  }
+  if (monitored === 0) {
+    return null;
+  }
+  return Math.round((online / monitored) * 10000) / 100;
+}
+
+function findOutages(events: DeviceStatusEvent[], since: number, until: number): DeviceOutage[] {
+  const outages: DeviceOutage[] = [];
+  events.forEach((event, index) => {
+    if (event.status !== "offline") return;
+    const next = events[index + 1];
+    const start = event.changedAt.getTime();
+    const end = next ? next.changedAt.getTime() : null;
+    if (end !== null && end < since) return;
+    outages.push({
+      start: new Date(start).toISOString(),
+      end: end === null ? null : new Date(end).toISOString(),
+      durationSeconds: Math.round(((end ?? until) - start) / 1000),
+    });
+  });
+  return outages.reverse();
+}
+
+export async function getDeviceAvailability(deviceId: string): Promise<DeviceAvailability> {
+  const until = Date.now();
+  const longestWindow = WINDOW_MS["30d"];
+  const since = until - longestWindow;
+  const events = await storage.getDeviceStatusEventsSince(deviceId, new Date(since));
+
+  const uptime = {} as Record<AvailabilityWindow, number | null>;
+  for (const [window, ms] of Object.entries(WINDOW_MS) as [AvailabilityWindow, number][]) {
+    uptime[window] = uptimePercentage(toSpans(events, until - ms, until));
+  }
+
+  // MTBF over the 30 day window: online time divided by the number of failures
+  const spans = toSpans(events, since, until);
+  const onlineMs = spans
+    .filter((span) => isReachable(span.status))
+    .reduce((total, span) => total + (span.end - span.start), 0);
+  const failures = events.filter((event) =>
+    event.status === "offline" &&
+    isReachable(event.previousStatus ?? "") &&
+    event.changedAt.getTime() >= since
+  ).length;
+
+  const segments: AvailabilitySegment[] = toSpans(events, until - WINDOW_MS["24h"], until).map((span) => ({
+    start: new Date(span.start).toISOString(),
+    end: new Date(span.end).toISOString(),
+    status: span.status,
+  }));
+
+  return {
+    deviceId,
+    uptime,
+    mtbfSeconds: failures > 0 ? Math.round(onlineMs / failures / 1000) : null,
+    outages: findOutages(events, since, until),
+    segments,
+  };
+}
@@ -1,35 +1,124 @@
-import { execSync } from "child_process";
 import { storage } from "./storage";
+import { runDeviceCheck, rollupDeviceStatus } from "./healthChecks";
+import { pingHost } from "./ping";
+import { runWithConcurrency } from "./concurrency";
+import { publishLiveEvent } from "./liveUpdates";
+import type { Device, DeviceCheck, DeviceProbeMetrics } from "@shared/schema";
+
+const MONITOR_INTERVAL = 10000; // Look for due checks every 10 seconds
+const PING_INTERVAL = 60000; // Devices without checks are pinged every 60 seconds
+// Number of devices probed in parallel; override with MONITOR_CONCURRENCY
+const MONITOR_CONCURRENCY = Math.max(1, parseInt(process.env.MONITOR_CONCURRENCY || "8", 10) || 8);
 
-const MONITOR_INTERVAL = 60000; // Check every 60 seconds
 let monitorInterval: NodeJS.Timeout | null = null;
+let sweepInProgress = false;
 
-function pingDevice(ipAddress: string): boolean {
-  try {
-    execSync(`ping -c 1 -W 2 ${ipAddress}`, { 
-      encoding: "utf-8", 
-      timeout: 5000,
-      stdio: "pipe"
+function isDue(lastCheckedAt: Date | null, intervalMs: number, now: number): boolean {
+  return !lastCheckedAt || now - lastCheckedAt.getTime() >= intervalMs;
+}
+
+async function recordDeviceStatus(device: Device, status: string, probe?: DeviceProbeMetrics): Promise<void> {
+  const isReachable = status === "online" || status === "degraded";
+  const lastSeenAt = isReachable ? new Date() : undefined;
+
+  if (status !== device.status) {
+    await storage.createDeviceStatusEvent({
+      deviceId: device.id,
+      status,
+      previousStatus: device.status,
+    });
+  }
+  const updated = await storage.updateDeviceStatus(device.id, status, lastSeenAt, probe);
+  if (updated) {
+    publishLiveEvent({
+      type: "device_status",
+      device: {
+        id: updated.id,
+        status: updated.status,
+        lastSeenAt: updated.lastSeenAt,
+        lastCheckedAt: updated.lastCheckedAt,
+        latencyMs: updated.latencyMs,
+        jitterMs: updated.jitterMs,
+        packetLoss: updated.packetLoss,
+      },
     });
-    return true;
-  } catch {
-    return false;
   }
 }
 
+async function runDueChecks(device: Device, checks: DeviceCheck[], now: number): Promise<void> {
+  const due = checks.filter((check) => isDue(check.lastCheckedAt, check.intervalSeconds * 1000, now));
+  if (due.length === 0) {
+    return;
+  }
+
+  const latest = new Map(checks.map((check) => [check.id, check]));
+  // Prefer ICMP round trips for the device's latency, falling back to TCP connect time
+  let probe: DeviceProbeMetrics | undefined;
+  let probeFromPing = false;
+
+  const results = await Promise.all(due.map(async (check) => ({ check, result: await runDeviceCheck(device, check) })));
+  for (const { check, result } of results) {
+    const updated = await storage.updateDeviceCheckResult(check.id, result.status, result.message);
+    if (updated) {
+      latest.set(updated.id, updated);
+    }
+    if (result.probe && (!probe || (check.type === "ping" && !probeFromPing))) {
+      probe = result.probe;
+      probeFromPing = check.type === "ping";
+    }
+  }
+
+  await recordDeviceStatus(device, rollupDeviceStatus(Array.from(latest.values())), probe);
+}
+
+async function pingDevice(device: Device): Promise<void> {
+  const result = await pingHost(device.ipAddress);
+  await recordDeviceStatus(device, result.alive ? "online" : "offline", {
+    latencyMs: result.latencyMs,
+    jitterMs: result.jitterMs,
+    packetLoss: result.packetLoss,
+  });
+}
+
 async function checkAllDevices(): Promise<void> {
+  // A slow sweep (many unreachable hosts) must not stack up behind itself
+  if (sweepInProgress) {
+    console.warn("Device monitor: previous sweep still running, skipping this interval");
+    return;
+  }
+  sweepInProgress = true;
+
   try {
+    const now = Date.now();
     const devices = await storage.getAllDevices();
-    
-    for (const device of devices) {
-      const isOnline = pingDevice(device.ipAddress);
-      const status = isOnline ? "online" : "offline";
-      const lastSeenAt = isOnline ? new Date() : undefined;
-      
-      await storage.updateDeviceStatus(device.id, status, lastSeenAt);
+    const checks = await storage.getAllDeviceChecks();
+
+    const checksByDevice = new Map<string, DeviceCheck[]>();
+    for (const check of checks) {
+      if (!check.enabled) continue;
+      const list = checksByDevice.get(check.deviceId) ?? [];
+      list.push(check);
+      checksByDevice.set(check.deviceId, list);
     }
+
+    await runWithConcurrency(devices, MONITOR_CONCURRENCY, async (device) => {
+      const deviceChecks = checksByDevice.get(device.id);
+      if (deviceChecks) {
+        await runDueChecks(device, deviceChecks, now);
+        return;
+      }
+
+      // Devices without configured checks fall back to a plain ping
+      if (isDue(device.lastCheckedAt, PING_INTERVAL, now)) {
+        await pingDevice(device);
+      }
+    }, (error, device) => {
+      console.error(`Device monitor error for ${device.name}:`, error);
+    });
   } catch (error) {
     console.error("Device monitor error:", error);
+  } finally {
+    sweepInProgress = false;
   }
 }
 
@@ -38,7 +127,7 @@ export function startDeviceMonitor(): void {
     return;
   }
   
-  console.log("Starting device monitor (checking every 60 seconds)...");
+  console.log(`Starting device monitor (checking every 10 seconds, ${MONITOR_CONCURRENCY} in parallel)...`);
   
   checkAllDevices();
   
@@ -0,0 +1,362 @@
+import http from "http";
+import { runWithConcurrency } from "./concurrency";
+import type { ContainerPort, ContainerSummary } from "@shared/schema";
+
+// Talks to the Docker Engine API on its unix socket; the server's user has to
+// be in the docker group (which is as good as root on the host)
+const DOCKER_SOCKET = process.env.DOCKER_SOCKET || "/var/run/docker.sock";
+const REQUEST_TIMEOUT = 30000;
+// Pulls of large images can take a while on a slow link
+const PULL_TIMEOUT = 10 * 60 * 1000;
+// Each stats call waits about a second for Docker's second CPU sample
+const INSPECT_CONCURRENCY = 8;
+
+export class DockerError extends Error {
+  constructor(message: string, readonly statusCode: number | null = null) {
+    super(message);
+  }
+}
+
+interface DockerResponse {
+  statusCode: number;
+  body: Buffer;
+}
+
+interface EndpointSettings {
+  Aliases?: string[] | null;
+  Links?: string[] | null;
+  IPAMConfig?: Record<string, unknown> | null;
+  DriverOpts?: Record<string, string> | null;
+}
+
+interface ContainerListEntry {
+  Id: string;
+  Names: string[];
+  Image: string;
+  ImageID: string;
+  State: string;
+  Status: string;
+  Created: number;
+  Ports: { IP?: string; PrivatePort: number; PublicPort?: number; Type: string }[];
+  Labels: Record<string, string> | null;
+}
+
+// The parts of GET /containers/{id}/json used here
+interface ContainerInspect {
+  Id: string;
+  Name: string;
+  Image: string;
+  RestartCount: number;
+  State: { Running: boolean; Health?: { Status: string } };
+  Config: Record<string, unknown> & { Image: string; Hostname?: string; Tty?: boolean };
+  HostConfig: Record<string, unknown> & { NetworkMode?: string; Binds?: string[] | null; Mounts?: { Target: string }[] | null };
+  Mounts: { Type: string; Name?: string; Destination: string; RW: boolean }[];
+  NetworkSettings: { Networks?: Record<string, EndpointSettings> | null };
+}
+
+interface ContainerStats {
+  cpu_stats?: { cpu_usage?: { total_usage?: number; percpu_usage?: number[] }; system_cpu_usage?: number; online_cpus?: number };
+  precpu_stats?: { cpu_usage?: { total_usage?: number }; system_cpu_usage?: number };
+  memory_stats?: { usage?: number; limit?: number; stats?: Record<string, number> };
+}
+
+function dockerRequest(method: string, path: string, body?: unknown, timeout = REQUEST_TIMEOUT): Promise<DockerResponse> {
+  return new Promise((resolve, reject) => {
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const req = http.request({
+      socketPath: DOCKER_SOCKET,
+      path,
+      method,
+      headers: payload ? { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(payload) } : {},
+      timeout,
+    }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => chunks.push(chunk));
+      res.on("end", () => resolve({ statusCode: res.statusCode ?? 0, body: Buffer.concat(chunks) }));
+      res.on("error", reject);
+    });
+
+    req.on("timeout", () => req.destroy(new DockerError(`Docker did not answer within ${timeout / 1000} seconds`)));
+    req.on("error", (error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT" || error.code === "ECONNREFUSED") {
+        reject(new DockerError(`Docker is not running or its socket is not at ${DOCKER_SOCKET}`));
+      } else if (error.code === "EACCES") {
+        reject(new DockerError(`No permission to use ${DOCKER_SOCKET}; add the server's user to the docker group`));
+      } else {
+        reject(error);
+      }
+    });
+    req.end(payload);
+  });
+}
+
+// JSON response of an API call; Docker's error message becomes a DockerError
+async function dockerJson<T>(method: string, path: string, body?: unknown): Promise<T> {
+  const response = await dockerRequest(method, path, body);
+  const text = response.body.toString("utf-8");
+  if (response.statusCode >= 400) {
+    let message = text.trim() || `Docker answered ${response.statusCode}`;
+    try {
+      message = JSON.parse(text).message || message;
+    } catch {
+      // Not JSON; keep the raw text
+    }
+    throw new DockerError(message, response.statusCode);
+  }
+  // 204 No Content, or 304 when the container already was in that state
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+const containerPath = (id: string) => `/containers/${encodeURIComponent(id)}`;
+
+function cpuPercent(stats: ContainerStats): number | null {
+  const cpu = stats.cpu_stats;
+  const previous = stats.precpu_stats;
+  const cpuDelta = (cpu?.cpu_usage?.total_usage ?? 0) - (previous?.cpu_usage?.total_usage ?? 0);
+  const systemDelta = (cpu?.system_cpu_usage ?? 0) - (previous?.system_cpu_usage ?? 0);
+  if (!previous?.system_cpu_usage || systemDelta <= 0 || cpuDelta < 0) {
+    return null;
+  }
+  const cpus = cpu?.online_cpus || cpu?.cpu_usage?.percpu_usage?.length || 1;
+  return Math.round((cpuDelta / systemDelta) * cpus * 1000) / 10;
+}
+
+// Same figure as `docker stats`: the page cache the kernel can drop does not count
+function memoryUsage(stats: ContainerStats): number | null {
+  const memory = stats.memory_stats;
+  if (memory?.usage === undefined) {
+    return null;
+  }
+  const cache = memory.stats?.inactive_file ?? memory.stats?.total_inactive_file ?? 0;
+  return Math.max(0, memory.usage - cache);
+}
+
+function toHealth(status: string | undefined): ContainerSummary["health"] {
+  return status === "starting" || status === "healthy" || status === "unhealthy" ? status : null;
+}
+
+// Docker lists a port published on both IPv4 and IPv6 twice
+function uniquePorts(ports: ContainerListEntry["Ports"]): ContainerPort[] {
+  const seen = new Map<string, ContainerPort>();
+  for (const port of ports) {
+    const key = `${port.PrivatePort}/${port.Type}/${port.PublicPort ?? ""}`;
+    if (!seen.has(key)) {
+      seen.set(key, { privatePort: port.PrivatePort, publicPort: port.PublicPort, ip: port.IP, type: port.Type });
+    }
+  }
+  return Array.from(seen.values()).sort((a, b) => a.privatePort - b.privatePort);
+}
+
+// Every container with its restart count and health, plus CPU and memory for
+// the running ones
+export async function listContainers(): Promise<ContainerSummary[]> {
+  const entries = await dockerJson<ContainerListEntry[]>("GET", "/containers/json?all=1");
+  const containers: ContainerSummary[] = [];
+
+  await runWithConcurrency(entries, INSPECT_CONCURRENCY, async (entry) => {
+    const running = entry.State === "running";
+    const [inspect, stats] = await Promise.all([
+      dockerJson<ContainerInspect>("GET", containerPath(entry.Id)),
+      running ? dockerJson<ContainerStats>("GET", `${containerPath(entry.Id)}/stats?stream=false`) : null,
+    ]);
+    const labels = entry.Labels ?? {};
+    containers.push({
+      id: entry.Id,
+      name: (entry.Names[0] ?? entry.Id.slice(0, 12)).replace(/^\//, ""),
+      image: entry.Image,
+      imageId: entry.ImageID,
+      state: entry.State,
+      status: entry.Status,
+      health: toHealth(inspect.State.Health?.Status),
+      ports: uniquePorts(entry.Ports),
+      restartCount: inspect.RestartCount,
+      composeProject: labels["com.docker.compose.project"] ?? null,
+      composeService: labels["com.docker.compose.service"] ?? null,
+      createdAt: new Date(entry.Created * 1000).toISOString(),
+      cpuPercent: stats ? cpuPercent(stats) : null,
+      memoryBytes: stats ? memoryUsage(stats) : null,
+      memoryLimitBytes: stats?.memory_stats?.limit ?? null,
+    });
+  }, (error, entry) => {
+    // Removed between the list and the inspect; leave it out
+    if (error instanceof DockerError && error.statusCode === 404) return;
+    throw error;
+  });
+
+  return containers.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Id, name and image of one container, by id or name
+export async function getContainer(id: string): Promise<{ id: string; name: string; image: string }> {
+  const inspect = await dockerJson<ContainerInspect>("GET", containerPath(id));
+  return { id: inspect.Id, name: inspect.Name.replace(/^\//, ""), image: inspect.Config.Image };
+}
+
+// Without a TTY, Docker frames each chunk of output with an 8-byte header:
+// the stream, three zero bytes and the payload length
+function demultiplex(buffer: Buffer): string {
+  const parts: Buffer[] = [];
+  let offset = 0;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset + 4);
+    parts.push(buffer.subarray(offset + 8, offset + 8 + length));
+    offset += 8 + length;
+  }
+  return Buffer.concat(parts).toString("utf-8");
+}
+
+// The last `tail` lines of stdout and stderr, with Docker's timestamps
+export async function getContainerLogs(id: string, tail: number): Promise<string[]> {
+  const inspect = await dockerJson<ContainerInspect>("GET", containerPath(id));
+  const response = await dockerRequest("GET", `${containerPath(id)}/logs?stdout=1&stderr=1&timestamps=1&tail=${tail}`);
+  if (response.statusCode >= 400) {
+    throw new DockerError(response.body.toString("utf-8").trim() || `Docker answered ${response.statusCode}`, response.statusCode);
+  }
+  const text = inspect.Config.Tty ? response.body.toString("utf-8") : demultiplex(response.body);
+  return text.split("\n").map((line) => line.replace(/\r$/, "")).filter((line) => line !== "");
+}
+
+export async function startContainer(id: string): Promise<void> {
+  await dockerJson("POST", `${containerPath(id)}/start`);
+}
+
+export async function stopContainer(id: string): Promise<void> {
+  await dockerJson("POST", `${containerPath(id)}/stop`);
+}
+
+export async function restartContainer(id: string): Promise<void> {
+  await dockerJson("POST", `${containerPath(id)}/restart`);
+}
+
+// "nginx" pulls every tag unless one is given, so untagged names get :latest
+function pullReference(image: string): string {
+  if (image.startsWith("sha256:")) {
+    throw new DockerError("The container was created from an image id rather than a name, so there is nothing to pull");
+  }
+  const lastSegment = image.slice(image.lastIndexOf("/") + 1);
+  return image.includes("@") || lastSegment.includes(":") ? image : `${image}:latest`;
+}
+
+// The pull endpoint streams JSON progress lines and reports failures in them
+// rather than through the status code
+async function pullImage(reference: string): Promise<void> {
+  const response = await dockerRequest("POST", `/images/create?fromImage=${encodeURIComponent(reference)}`, undefined, PULL_TIMEOUT);
+  const text = response.body.toString("utf-8");
+  if (response.statusCode >= 400) {
+    let message = text.trim();
+    try {
+      message = JSON.parse(text).message || message;
+    } catch {
+      // Not JSON; keep the raw text
+    }
+    throw new DockerError(message || `Docker answered ${response.statusCode}`, response.statusCode);
+  }
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    let progress: { error?: string; errorDetail?: { message?: string } };
+    try {
+      progress = JSON.parse(line);
+    } catch {
+      // Not a progress line, e.g. a proxy banner; nothing to report
+      continue;
+    }
+    if (progress.error || progress.errorDetail) {
+      throw new DockerError(progress.errorDetail?.message || progress.error || "Pull failed");
+    }
+  }
+}
+
+// Endpoint settings to reconnect the new container with; the old container's
+// short id is an automatic alias
+function endpointConfig(endpoint: EndpointSettings, oldId: string) {
+  return {
+    Aliases: (endpoint.Aliases ?? []).filter((alias) => alias !== oldId.slice(0, 12)),
+    Links: endpoint.Links ?? undefined,
+    IPAMConfig: endpoint.IPAMConfig ?? undefined,
+    DriverOpts: endpoint.DriverOpts ?? undefined,
+  };
+}
+
+// Pulls the container's image and, if that brought a newer one, replaces the
+// container with an identical one on the new image: same name, config, host
+// config, networks and volumes. Anonymous volumes are carried over by name so
+// their data survives. The old container is only removed once the new one
+// has started; on failure it is put back.
+export async function pullAndRecreateContainer(id: string): Promise<{ recreated: boolean; containerId: string }> {
+  const old = await dockerJson<ContainerInspect>("GET", containerPath(id));
+  const reference = pullReference(old.Config.Image);
+  await pullImage(reference);
+
+  const image = await dockerJson<{ Id: string }>("GET", `/images/${encodeURIComponent(reference)}/json`);
+  if (image.Id === old.Image) {
+    return { recreated: false, containerId: old.Id };
+  }
+
+  const name = old.Name.replace(/^\//, "");
+  const wasRunning = old.State.Running;
+
+  const config = { ...old.Config };
+  // Docker defaults the hostname to the short id; let the new container get its own
+  if (config.Hostname === old.Id.slice(0, 12)) {
+    delete config.Hostname;
+  }
+
+  const hostConfig = { ...old.HostConfig };
+  const mountedAt = new Set([
+    ...(hostConfig.Binds ?? []).map((bind) => bind.split(":")[1]),
+    ...(hostConfig.Mounts ?? []).map((mount) => mount.Target),
+  ]);
+  const anonymousVolumes = old.Mounts
+    .filter((mount) => mount.Type === "volume" && mount.Name && !mountedAt.has(mount.Destination))
+    .map((mount) => `${mount.Name}:${mount.Destination}${mount.RW ? "" : ":ro"}`);
+  hostConfig.Binds = [...(hostConfig.Binds ?? []), ...anonymousVolumes];
+
+  // host, none and container:<id> modes have no endpoints of their own
+  const networkMode = hostConfig.NetworkMode ?? "";
+  const networks = /^(host|none|container:)/.test(networkMode)
+    ? []
+    : Object.entries(old.NetworkSettings.Networks ?? {});
+  const [firstNetwork, ...otherNetworks] = networks;
+
+  if (wasRunning) {
+    await stopContainer(old.Id);
+  }
+  await dockerJson("POST", `${containerPath(old.Id)}/rename?name=${encodeURIComponent(`${name}-old-${Date.now()}`)}`);
+
+  let newId: string | null = null;
+  try {
+    const created = await dockerJson<{ Id: string }>("POST", `/containers/create?name=${encodeURIComponent(name)}`, {
+      ...config,
+      HostConfig: hostConfig,
+      NetworkingConfig: firstNetwork
+        ? { EndpointsConfig: { [firstNetwork[0]]: endpointConfig(firstNetwork[1], old.Id) } }
+        : undefined,
+    });
+    newId = created.Id;
+
+    for (const [network, endpoint] of otherNetworks) {
+      await dockerJson("POST", `/networks/${encodeURIComponent(network)}/connect`, {
+        Container: newId,
+        EndpointConfig: endpointConfig(endpoint, old.Id),
+      });
+    }
+
+    if (wasRunning) {
+      await startContainer(newId);
+    }
+  } catch (error) {
+    if (newId) {
+      await dockerJson("DELETE", `${containerPath(newId)}?force=1`).catch(() => undefined);
+    }
+    await dockerJson("POST", `${containerPath(old.Id)}/rename?name=${encodeURIComponent(name)}`).catch(() => undefined);
+    if (wasRunning) {
+      await startContainer(old.Id).catch(() => undefined);
+    }
+    throw error;
+  }
+
+  await dockerJson("DELETE", containerPath(old.Id)).catch((error) => {
+    console.error(`Docker: could not remove replaced container ${name}:`, error instanceof Error ? error.message : error);
+  });
+  return { recreated: true, containerId: newId };
+}
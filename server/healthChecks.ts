@@ -0,0 +1,213 @@
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import * as tls from "tls";
+import { Resolver } from "dns/promises";
+import { pingHost } from "./ping";
+import { deviceCheckConfigSchema, type CheckStatus, type Device, type DeviceCheck, type DeviceCheckConfig, type DeviceProbeMetrics } from "@shared/schema";
+
+export interface CheckResult {
+  status: CheckStatus;
+  message: string;
+  // Only set by checks that measure round trips
+  probe?: DeviceProbeMetrics;
+}
+
+type CheckRunner<T extends DeviceCheckConfig["type"]> = (
+  device: Device,
+  config: Extract<DeviceCheckConfig, { type: T }>["config"],
+  timeoutMs: number,
+) => Promise<CheckResult>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const runPing: CheckRunner<"ping"> = async (device, _config, timeoutMs) => {
+  const result = await pingHost(device.ipAddress, timeoutMs);
+  const probe = { latencyMs: result.latencyMs, jitterMs: result.jitterMs, packetLoss: result.packetLoss };
+  if (!result.alive) {
+    return { status: "down", message: "No ICMP reply", probe };
+  }
+  const summary = `${result.latencyMs ?? "?"} ms, ${result.packetLoss ?? 0}% loss`;
+  return { status: result.packetLoss ? "warning" : "up", message: `ICMP reply (${summary})`, probe };
+};
+
+const runTcp: CheckRunner<"tcp"> = (device, config, timeoutMs) => {
+  return new Promise((resolve) => {
+    const started = Date.now();
+    const socket = net.connect({ host: device.ipAddress, port: config.port });
+    socket.setTimeout(timeoutMs);
+    socket.once("connect", () => {
+      const latencyMs = Date.now() - started;
+      socket.destroy();
+      resolve({
+        status: "up",
+        message: `Port ${config.port} open (${latencyMs} ms)`,
+        probe: { latencyMs, jitterMs: null, packetLoss: null },
+      });
+    });
+    socket.once("timeout", () => {
+      socket.destroy();
+      resolve({ status: "down", message: `Port ${config.port} timed out` });
+    });
+    socket.once("error", (error) => {
+      socket.destroy();
+      resolve({ status: "down", message: `Port ${config.port}: ${error.message}` });
+    });
+  });
+};
+
+const MAX_HTTP_BODY_BYTES = 1024 * 1024;
+
+const runHttp: CheckRunner<"http"> = (_device, config, timeoutMs) => {
+  return new Promise((resolve) => {
+    const url = new URL(config.url);
+    const client = url.protocol === "https:" ? https : http;
+    const request = client.request(url, {
+      method: "GET",
+      timeout: timeoutMs,
+      rejectUnauthorized: !config.ignoreTlsErrors,
+    }, (response) => {
+      const statusCode = response.statusCode ?? 0;
+      if (statusCode !== config.expectedStatus) {
+        response.destroy();
+        resolve({ status: "down", message: `HTTP ${statusCode}, expected ${config.expectedStatus}` });
+        return;
+      }
+      if (!config.keyword) {
+        response.destroy();
+        resolve({ status: "up", message: `HTTP ${statusCode}` });
+        return;
+      }
+
+      let body = "";
+      response.setEncoding("utf-8");
+      response.on("data", (chunk: string) => {
+        body += chunk;
+        if (body.length > MAX_HTTP_BODY_BYTES) {
+          response.destroy();
+        }
+      });
+      response.on("close", () => {
+        resolve(body.includes(config.keyword!)
+          ? { status: "up", message: `HTTP ${statusCode}, keyword found` }
+          : { status: "down", message: `Keyword "${config.keyword}" not found` });
+      });
+    });
+    request.once("timeout", () => {
+      request.destroy(new Error("timed out"));
+    });
+    request.once("error", (error) => {
+      resolve({ status: "down", message: `Request failed: ${error.message}` });
+    });
+    request.end();
+  });
+};
+
+function formatDnsRecords(result: unknown): string[] {
+  const records: unknown[] = Array.isArray(result) ? result : [result];
+  return records.map((record) => {
+    if (Array.isArray(record)) return record.join("");
+    if (record && typeof record === "object" && "exchange" in record) {
+      return String((record as { exchange: string }).exchange);
+    }
+    return String(record);
+  });
+}
+
+const runDns: CheckRunner<"dns"> = async (device, config, timeoutMs) => {
+  const resolver = new Resolver({ timeout: timeoutMs, tries: 1 });
+  try {
+    // Throws for a device address that is not an IP, e.g. a hostname
+    if (config.useDeviceAsResolver) {
+      resolver.setServers([device.ipAddress]);
+    }
+    const records = formatDnsRecords(await resolver.resolve(config.hostname, config.recordType));
+    if (records.length === 0) {
+      return { status: "down", message: `No ${config.recordType} records for ${config.hostname}` };
+    }
+    if (config.expectedValue && !records.includes(config.expectedValue)) {
+      return { status: "down", message: `Resolved to ${records.join(", ")}, expected ${config.expectedValue}` };
+    }
+    return { status: "up", message: `${config.hostname} -> ${records.join(", ")}` };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { status: "down", message: `Lookup failed: ${message}` };
+  }
+};
+
+const runTls: CheckRunner<"tls"> = (device, config, timeoutMs) => {
+  return new Promise((resolve) => {
+    const socket = tls.connect({
+      host: device.ipAddress,
+      port: config.port,
+      servername: config.servername || undefined,
+      // Expiry is what we report on; chain problems are surfaced in the message instead
+      rejectUnauthorized: false,
+    });
+    socket.setTimeout(timeoutMs);
+    socket.once("secureConnect", () => {
+      const certificate = socket.getPeerCertificate();
+      const authorizationError = socket.authorizationError;
+      socket.destroy();
+      if (!certificate || !certificate.valid_to) {
+        resolve({ status: "down", message: "No certificate presented" });
+        return;
+      }
+      const expiresAt = new Date(certificate.valid_to);
+      const daysLeft = Math.floor((expiresAt.getTime() - Date.now()) / DAY);
+      const suffix = authorizationError ? ` (${authorizationError})` : "";
+      if (daysLeft < 0) {
+        resolve({ status: "down", message: `Certificate expired ${expiresAt.toDateString()}${suffix}` });
+      } else if (daysLeft <= config.warnDays) {
+        resolve({ status: "warning", message: `Certificate expires in ${daysLeft} days${suffix}` });
+      } else {
+        resolve({ status: "up", message: `Certificate valid for ${daysLeft} days${suffix}` });
+      }
+    });
+    socket.once("timeout", () => {
+      socket.destroy();
+      resolve({ status: "down", message: `TLS handshake on port ${config.port} timed out` });
+    });
+    socket.once("error", (error) => {
+      socket.destroy();
+      resolve({ status: "down", message: `TLS on port ${config.port}: ${error.message}` });
+    });
+  });
+};
+
+export async function runDeviceCheck(device: Device, check: DeviceCheck): Promise<CheckResult> {
+  const parsed = deviceCheckConfigSchema.safeParse({ type: check.type, config: check.config });
+  if (!parsed.success) {
+    return { status: "unknown", message: "Invalid check configuration" };
+  }
+
+  const definition = parsed.data;
+  switch (definition.type) {
+    case "ping":
+      return runPing(device, definition.config, check.timeoutMs);
+    case "tcp":
+      return runTcp(device, definition.config, check.timeoutMs);
+    case "http":
+      return runHttp(device, definition.config, check.timeoutMs);
+    case "dns":
+      return runDns(device, definition.config, check.timeoutMs);
+    case "tls":
+      return runTls(device, definition.config, check.timeoutMs);
+  }
+}
+
+// Rolls check results up into a device status: all up is online, all down is
+// offline, anything in between is degraded.
+export function rollupDeviceStatus(checks: Pick<DeviceCheck, "status">[]): string {
+  const known = checks.filter((check) => check.status !== "unknown");
+  if (known.length === 0) {
+    return "unknown";
+  }
+  if (known.every((check) => check.status === "up")) {
+    return "online";
+  }
+  if (known.every((check) => check.status === "down")) {
+    return "offline";
+  }
+  return "degraded";
+}
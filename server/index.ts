@@ -12,6 +12,19 @@ declare module "http" {
   }
 }
 
+// Behind a reverse proxy, TRUST_PROXY lets the client address come from
+// X-Forwarded-For: "true", a hop count, or addresses/subnets such as
+// "loopback, 10.0.0.0/8". Unset, the connecting address is used, so a client
+// cannot pick its own address to dodge sign-in throttling.
+function parseTrustProxy(value: string | undefined): boolean | number | string {
+  if (!value || value === "false") return false;
+  if (value === "true") return true;
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  return value;
+}
+
+app.set("trust proxy", parseTrustProxy(process.env.TRUST_PROXY));
+
 app.use(
   express.json({
     verify: (req, _res, buf) => {
@@ -33,26 +46,16 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Response bodies are not logged: they carry credentials, script output and
+// session details. Who changed what is kept in the audit log instead.
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
-  let capturedJsonResponse: Record<string, any> | undefined = undefined;
-
-  const originalResJson = res.json;
-  res.json = function (bodyJson, ...args) {
-    capturedJsonResponse = bodyJson;
-    return originalResJson.apply(res, [bodyJson, ...args]);
-  };
 
   res.on("finish", () => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
-
-      log(logLine);
+      log(`${req.method} ${path} ${res.statusCode} in ${duration}ms`);
     }
   });
 
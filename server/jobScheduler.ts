@@ -0,0 +1,195 @@
+import { CronExpressionParser } from "cron-parser";
+import { storage } from "./storage";
+import { startLocalRun } from "./scriptRunner";
+import { renderScript, validateParameterValues } from "@shared/scriptTemplate";
+import type { Script, ScriptJob, ScriptRun } from "@shared/schema";
+
+const SCHEDULER_INTERVAL = 15000; // Look for due jobs every 15 seconds
+// Cron expressions are evaluated in the server's time zone (set TZ to change it)
+const TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+let schedulerInterval: NodeJS.Timeout | null = null;
+let tickInProgress = false;
+
+// Number of in-flight runs per job, and jobs with one run queued behind them
+const runningJobs = new Map<string, number>();
+const queuedJobs = new Set<string>();
+
+// Returns an error message for an invalid expression, or null
+export function validateCronExpression(expression: string): string | null {
+  try {
+    CronExpressionParser.parse(expression, { tz: TIME_ZONE });
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export function getNextRunAt(expression: string, after = new Date()): Date | null {
+  try {
+    return CronExpressionParser.parse(expression, { currentDate: after, tz: TIME_ZONE }).next().toDate();
+  } catch {
+    return null;
+  }
+}
+
+export function isJobRunning(jobId: string): boolean {
+  return (runningJobs.get(jobId) || 0) > 0;
+}
+
+// Scheduled runs have no one to ask for values, so parameters use their defaults
+export async function getScheduledContent(script: Script): Promise<{ content: string } | { error: string }> {
+  const devices = script.parameters.some((parameter) => parameter.type === "device")
+    ? await storage.getAllDevices()
+    : [];
+  const errors = validateParameterValues(script.parameters, {}, devices);
+  if (Object.keys(errors).length > 0) {
+    return { error: `Parameters need default values to run on a schedule: ${Object.values(errors).join("; ")}` };
+  }
+  return { content: renderScript(script.content, script.parameters, {}, devices) };
+}
+
+// Records a run that never started, e.g. skipped by the overlap policy
+async function recordUnstartedRun(job: ScriptJob, scriptName: string, status: "skipped" | "failed", error: string): Promise<ScriptRun> {
+  const now = new Date();
+  const run = await storage.createScriptRun({
+    scriptId: job.scriptId,
+    scriptName,
+    jobId: job.id,
+    targetName: "Dashboard host",
+    host: "local",
+    status,
+    error,
+    timeoutSeconds: job.timeoutSeconds,
+    triggeredBy: "scheduler",
+    startedAt: now,
+    finishedAt: now,
+    durationMs: 0,
+  });
+  await storage.pruneScriptJobRuns(job.id, job.historyLimit);
+  return run;
+}
+
+async function afterRun(jobId: string, finished: ScriptRun): Promise<void> {
+  runningJobs.set(jobId, (runningJobs.get(jobId) || 1) - 1);
+
+  const job = await storage.getScriptJob(jobId);
+  if (!job) return;
+
+  await storage.pruneScriptJobRuns(job.id, job.historyLimit);
+  console.log(`Script job ${job.id} (${finished.scriptName}) finished: ${finished.status}`);
+
+  if (queuedJobs.delete(jobId) && job.enabled) {
+    await runJob(job, "scheduler");
+  }
+}
+
+// What became of a request to run a job. A run that could not start, e.g.
+// for a missing parameter default, is still "started" with a failed run.
+export type JobRunResult =
+  | { status: "started"; run: ScriptRun }
+  | { status: "skipped"; run: ScriptRun }
+  | { status: "queued" }
+  | { status: "missing_script" };
+
+// Starts a job now, applying its overlap policy
+export async function runJob(job: ScriptJob, triggeredBy: string): Promise<JobRunResult> {
+  const script = await storage.getScript(job.scriptId);
+  if (!script) return { status: "missing_script" };
+
+  if (isJobRunning(job.id)) {
+    if (job.overlapPolicy === "skip") {
+      const run = await recordUnstartedRun(job, script.name, "skipped", "Previous run was still in progress");
+      return { status: "skipped", run };
+    }
+    if (job.overlapPolicy === "queue") {
+      queuedJobs.add(job.id);
+      return { status: "queued" };
+    }
+  }
+
+  const rendered = await getScheduledContent(script);
+  if ("error" in rendered) {
+    return { status: "started", run: await recordUnstartedRun(job, script.name, "failed", rendered.error) };
+  }
+
+  runningJobs.set(job.id, (runningJobs.get(job.id) || 0) + 1);
+  try {
+    const { run, finished } = await startLocalRun({ script, content: rendered.content, job, triggeredBy });
+    await storage.updateScriptJob(job.id, { lastRunAt: run.startedAt });
+    void finished
+      .then((result) => afterRun(job.id, result))
+      .catch((error) => console.error("Script job completion error:", error));
+    return { status: "started", run };
+  } catch (error) {
+    runningJobs.set(job.id, (runningJobs.get(job.id) || 1) - 1);
+    throw error;
+  }
+}
+
+async function tick(): Promise<void> {
+  if (tickInProgress) return;
+  tickInProgress = true;
+
+  try {
+    const now = new Date();
+    const jobs = await storage.getAllScriptJobs();
+
+    for (const job of jobs) {
+      if (!job.enabled || !job.nextRunAt || job.nextRunAt > now) continue;
+
+      // Schedule the next occurrence before running so a slow start never fires twice
+      await storage.updateScriptJob(job.id, { nextRunAt: getNextRunAt(job.cronExpression, now) });
+      try {
+        await runJob(job, "scheduler");
+      } catch (error) {
+        console.error(`Script job ${job.id} error:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Job scheduler error:", error);
+  } finally {
+    tickInProgress = false;
+  }
+}
+
+// Occurrences missed while the server was down are not caught up
+async function resetSchedule(): Promise<void> {
+  const interrupted = await storage.failInterruptedScriptRuns();
+  if (interrupted > 0) {
+    console.log(`Marked ${interrupted} interrupted script run(s) as failed`);
+  }
+
+  const now = new Date();
+  for (const job of await storage.getAllScriptJobs()) {
+    await storage.updateScriptJob(job.id, {
+      nextRunAt: job.enabled ? getNextRunAt(job.cronExpression, now) : null,
+    });
+  }
+}
+
+export function startJobScheduler(): void {
+  if (schedulerInterval) {
+    return;
+  }
+
+  console.log(`Starting job scheduler (checking every ${SCHEDULER_INTERVAL / 1000}s, time zone ${TIME_ZONE})`);
+
+  // Hold off ticks until stale schedules are reset
+  tickInProgress = true;
+  resetSchedule()
+    .catch((error) => console.error("Job scheduler startup error:", error))
+    .finally(() => {
+      tickInProgress = false;
+    });
+
+  schedulerInterval = setInterval(tick, SCHEDULER_INTERVAL);
+}
+
+export function stopJobScheduler(): void {
+  if (schedulerInterval) {
+    clearInterval(schedulerInterval);
+    schedulerInterval = null;
+    console.log("Job scheduler stopped");
+  }
+}
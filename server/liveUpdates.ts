@@ -0,0 +1,139 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import type { Store } from "express-session";
+import { WebSocketServer, WebSocket } from "ws";
+import type { LiveEvent } from "@shared/schema";
+
+const LIVE_PATH = "/api/live";
+// Dead connections are dropped and revoked sessions disconnected this often
+const HEARTBEAT_INTERVAL = 30000;
+// Close code telling the browser its session has ended
+const SESSION_ENDED = 4001;
+// Origins besides the dashboard's own that may open the live socket, for a
+// proxy that rewrites the Host header; comma-separated, e.g. https://lab.example
+const ALLOWED_ORIGINS = (process.env.LIVE_ALLOWED_ORIGINS || "")
+  .split(",")
+  .map((origin) => origin.trim().replace(/\/+$/, ""))
+  .filter((origin) => origin !== "");
+
+interface LiveClient {
+  socket: WebSocket;
+  sid: string;
+  store: Store;
+  alive: boolean;
+}
+
+const clients = new Set<LiveClient>();
+const wss = new WebSocketServer({ noServer: true });
+
+let heartbeatInterval: NodeJS.Timeout | null = null;
+
+// Sends an event to every connected browser. Everything pushed is visible to
+// any signed-in user, so there is no per-user filtering.
+export function publishLiveEvent(event: LiveEvent): void {
+  if (clients.size === 0) {
+    return;
+  }
+  const message = JSON.stringify(event);
+  for (const client of Array.from(clients)) {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(message);
+    }
+  }
+}
+
+function heartbeat(): void {
+  for (const client of Array.from(clients)) {
+    if (!client.alive) {
+      client.socket.terminate();
+      continue;
+    }
+    client.alive = false;
+    client.socket.ping();
+    // Signing out, a revoked session or a forced logout ends the stream too
+    client.store.get(client.sid, (error, stored) => {
+      if (!error && !stored?.userId) {
+        client.socket.close(SESSION_ENDED, "Session ended");
+      }
+    });
+  }
+}
+
+function reject(socket: Duplex, status: string): void {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// Browsers send the session cookie with a WebSocket handshake from any site,
+// so the page opening the socket has to be served by this dashboard
+function isAllowedOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return false;
+  if (ALLOWED_ORIGINS.includes(origin)) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+// Accepts WebSocket upgrades on /api/live from signed-in browsers. The session
+// cookie is checked by running the session middleware on the upgrade request;
+// other upgrades, such as Vite's HMR socket, are left to their own handlers.
+export function startLiveUpdates(
+  httpServer: Server,
+  sessionMiddleware: RequestHandler,
+  isSignedIn: (req: Request) => Promise<boolean>,
+): void {
+  if (heartbeatInterval) {
+    return;
+  }
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== LIVE_PATH) {
+      return;
+    }
+    if (!isAllowedOrigin(req)) {
+      reject(socket, "403 Forbidden");
+      return;
+    }
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, async () => {
+      try {
+        if (!(await isSignedIn(request))) {
+          reject(socket, "401 Unauthorized");
+          return;
+        }
+      } catch (error) {
+        console.error("Live updates sign-in check error:", error);
+        reject(socket, "500 Internal Server Error");
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const client: LiveClient = { socket: ws, sid: request.sessionID, store: request.sessionStore, alive: true };
+        clients.add(client);
+        ws.on("pong", () => {
+          client.alive = true;
+        });
+        ws.on("close", () => clients.delete(client));
+        ws.on("error", () => clients.delete(client));
+      });
+    });
+  });
+
+  console.log(`Starting live updates on ${LIVE_PATH}`);
+
+  heartbeatInterval = setInterval(heartbeat, HEARTBEAT_INTERVAL);
+}
+
+export function stopLiveUpdates(): void {
+  if (heartbeatInterval) {
+    clearInterval(heartbeatInterval);
+    heartbeatInterval = null;
+  }
+  for (const client of Array.from(clients)) {
+    client.socket.terminate();
+  }
+  clients.clear();
+}
@@ -0,0 +1,139 @@
+import type { LoginLockout, LoginThrottleKind } from "@shared/schema";
+
+const MAX_USERNAME_FAILURES = Math.max(1, parseInt(process.env.LOGIN_MAX_FAILURES || "5", 10) || 5);
+const MAX_IP_FAILURES = Math.max(1, parseInt(process.env.LOGIN_MAX_IP_FAILURES || "20", 10) || 20);
+const LOCKOUT_MS = Math.max(1, parseInt(process.env.LOGIN_LOCKOUT_MINUTES || "15", 10) || 15) * 60 * 1000;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60 * 1000;
+// Spraying random usernames must not grow the table without bound
+const MAX_RECORDS = 10000;
+
+interface FailureRecord {
+  failures: number;
+  lastFailureAt: number;
+  blockedUntil: number;
+  locked: boolean;
+}
+
+export interface LoginBlock {
+  retryAfterMs: number;
+  locked: boolean;
+}
+
+// Keyed by "username:<name>" and "ip:<address>". Kept in memory: a restart
+// clears every lockout, which an attacker cannot trigger.
+const records = new Map<string, FailureRecord>();
+
+const keyFor = (kind: LoginThrottleKind, value: string) => `${kind}:${kind === "username" ? value.toLowerCase() : value}`;
+
+const limitFor = (kind: LoginThrottleKind) => (kind === "username" ? MAX_USERNAME_FAILURES : MAX_IP_FAILURES);
+
+// An address shared by several people only starts waiting once it has failed
+// as often as a single username may
+const freeFailuresFor = (kind: LoginThrottleKind) => (kind === "username" ? 0 : MAX_USERNAME_FAILURES);
+
+// Failures are forgotten once the account has been quiet for a lockout period,
+// so an expired lockout starts the count again from zero
+function current(key: string, now: number): FailureRecord | undefined {
+  const record = records.get(key);
+  if (record && record.blockedUntil <= now && now - record.lastFailureAt >= LOCKOUT_MS) {
+    records.delete(key);
+    return undefined;
+  }
+  return record;
+}
+
+function prune(now: number): void {
+  for (const key of Array.from(records.keys())) {
+    current(key, now);
+  }
+  // Still full: drop the oldest entries that are not locked
+  for (const [key, record] of Array.from(records)) {
+    if (records.size <= MAX_RECORDS) break;
+    if (!record.locked) records.delete(key);
+  }
+}
+
+function targets(ip: string | undefined, username: string): Array<[LoginThrottleKind, string]> {
+  return ip ? [["username", username], ["ip", ip]] : [["username", username]];
+}
+
+// Whether a sign-in for this username from this address has to wait. Checked
+// before the password so that a blocked attempt learns nothing.
+export function getLoginBlock(ip: string | undefined, username: string): LoginBlock | null {
+  const now = Date.now();
+  let block: LoginBlock | null = null;
+  for (const [kind, value] of targets(ip, username)) {
+    const record = current(keyFor(kind, value), now);
+    if (!record || record.blockedUntil <= now) continue;
+    const retryAfterMs = record.blockedUntil - now;
+    if (!block || retryAfterMs > block.retryAfterMs) {
+      block = { retryAfterMs, locked: record.locked };
+    }
+  }
+  return block;
+}
+
+// Counts a failed password or code. Each failure doubles the wait before the
+// next attempt; reaching the limit locks the username or address out.
+// Returns whatever became locked just now.
+export function recordLoginFailure(ip: string | undefined, username: string): Array<{ kind: LoginThrottleKind; value: string }> {
+  const now = Date.now();
+  if (records.size >= MAX_RECORDS) prune(now);
+
+  const lockedNow: Array<{ kind: LoginThrottleKind; value: string }> = [];
+  for (const [kind, value] of targets(ip, username)) {
+    const key = keyFor(kind, value);
+    const record = current(key, now) ?? { failures: 0, lastFailureAt: now, blockedUntil: 0, locked: false };
+    record.failures += 1;
+    record.lastFailureAt = now;
+    if (record.failures >= limitFor(kind)) {
+      if (!record.locked) lockedNow.push({ kind, value });
+      record.locked = true;
+      record.blockedUntil = now + LOCKOUT_MS;
+    } else if (record.failures > freeFailuresFor(kind)) {
+      const doublings = record.failures - freeFailuresFor(kind) - 1;
+      record.blockedUntil = now + Math.min(BASE_DELAY_MS * 2 ** doublings, MAX_DELAY_MS);
+    }
+    // Re-inserting keeps the map ordered by last failure for pruning
+    records.delete(key);
+    records.set(key, record);
+  }
+  return lockedNow;
+}
+
+// A completed sign-in clears the username's count; the address keeps its
+// count so that one known account cannot reset a spraying client
+export function clearLoginFailures(username: string): void {
+  records.delete(keyFor("username", username));
+}
+
+export function getLoginLockouts(): LoginLockout[] {
+  const now = Date.now();
+  const lockouts: LoginLockout[] = [];
+  for (const [key, record] of Array.from(records)) {
+    if (!record.locked || record.blockedUntil <= now) continue;
+    const separator = key.indexOf(":");
+    lockouts.push({
+      kind: key.slice(0, separator) as LoginThrottleKind,
+      value: key.slice(separator + 1),
+      failures: record.failures,
+      lockedUntil: new Date(record.blockedUntil).toISOString(),
+    });
+  }
+  return lockouts.sort((a, b) => b.lockedUntil.localeCompare(a.lockedUntil));
+}
+
+export function unlockLogin(kind: LoginThrottleKind, value: string): boolean {
+  const key = keyFor(kind, value);
+  const record = current(key, Date.now());
+  return !!record?.locked && records.delete(key);
+}
+
+// "45 seconds", "15 minutes"
+export function describeWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
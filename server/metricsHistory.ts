@@ -0,0 +1,94 @@
+import { storage } from "./storage";
+import { getMetricSnapshot } from "./systemMetrics";
+import { publishLiveEvent } from "./liveUpdates";
+import type { MetricResolution } from "@shared/schema";
+
+const SAMPLE_INTERVAL = 60000; // Sample every 60 seconds
+const MAINTENANCE_EVERY = 5; // Roll up and prune every 5 samples
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Seconds per bucket and how long rows are kept, per resolution
+export const RESOLUTION_SECONDS: Record<MetricResolution, number> = {
+  raw: SAMPLE_INTERVAL / 1000,
+  "5m": 300,
+  "1h": 3600,
+};
+
+export const RETENTION_MS: Record<MetricResolution, number> = {
+  raw: DAY,
+  "5m": 30 * DAY,
+  "1h": 365 * DAY,
+};
+
+let samplerInterval: NodeJS.Timeout | null = null;
+let tick = 0;
+
+function floorTo(date: Date, bucketSeconds: number): Date {
+  const bucketMs = bucketSeconds * 1000;
+  return new Date(Math.floor(date.getTime() / bucketMs) * bucketMs);
+}
+
+async function runMaintenance(now: Date): Promise<void> {
+  // Only completed buckets are rolled up, so the current one is never written half-full
+  await storage.rollupMetricSamples("raw", "5m", RESOLUTION_SECONDS["5m"], floorTo(now, RESOLUTION_SECONDS["5m"]));
+  await storage.rollupMetricSamples("5m", "1h", RESOLUTION_SECONDS["1h"], floorTo(now, RESOLUTION_SECONDS["1h"]));
+
+  for (const [resolution, retention] of Object.entries(RETENTION_MS) as [MetricResolution, number][]) {
+    await storage.deleteMetricSamplesBefore(resolution, new Date(now.getTime() - retention));
+  }
+}
+
+async function sampleMetrics(): Promise<void> {
+  try {
+    const now = new Date();
+    const snapshot = await getMetricSnapshot();
+    await storage.createMetricSample({
+      resolution: "raw",
+      sampledAt: now,
+      ...snapshot,
+    });
+    publishLiveEvent({ type: "metric_sample", sampledAt: now.toISOString() });
+
+    if (tick % MAINTENANCE_EVERY === 0) {
+      await runMaintenance(now);
+    }
+    tick++;
+  } catch (error) {
+    console.error("Metrics sampler error:", error);
+  }
+}
+
+// Picks the coarsest stored resolution that still covers the requested range
+// and is no coarser than the requested step.
+export function pickResolution(from: Date, stepSeconds: number): MetricResolution {
+  const age = Date.now() - from.getTime();
+  if (age <= RETENTION_MS.raw && stepSeconds < RESOLUTION_SECONDS["5m"]) {
+    return "raw";
+  }
+  if (age <= RETENTION_MS["5m"] && stepSeconds < RESOLUTION_SECONDS["1h"]) {
+    return "5m";
+  }
+  return "1h";
+}
+
+export function startMetricsSampler(): void {
+  if (samplerInterval) {
+    return;
+  }
+
+  console.log("Starting metrics sampler (sampling every 60 seconds)...");
+
+  sampleMetrics();
+
+  samplerInterval = setInterval(sampleMetrics, SAMPLE_INTERVAL);
+}
+
+export function stopMetricsSampler(): void {
+  if (samplerInterval) {
+    clearInterval(samplerInterval);
+    samplerInterval = null;
+    console.log("Metrics sampler stopped");
+  }
+}
@@ -0,0 +1,248 @@
+import { execFile } from "child_process";
+import { Resolver } from "dns/promises";
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { pingHost } from "./ping";
+import { runWithConcurrency } from "./concurrency";
+import type { NetworkScan } from "@shared/schema";
+
+const MIN_PREFIX = 20; // Largest scan is a /20 (4094 hosts)
+const PROBE_TIMEOUT_MS = 1000;
+const REVERSE_DNS_TIMEOUT_MS = 2000;
+// Number of hosts probed in parallel; override with DISCOVERY_CONCURRENCY
+const DISCOVERY_CONCURRENCY = Math.max(1, parseInt(process.env.DISCOVERY_CONCURRENCY || "32", 10) || 32);
+const OUI_FILE = process.env.OUI_FILE || path.resolve(process.cwd(), "server", "data", "oui.txt");
+
+let scanInProgress = false;
+let vendorPrefixes: Map<string, string> | null = null;
+
+export class CidrError extends Error {}
+
+function ipToNumber(ip: string): number {
+  return ip.split(".").reduce((acc, octet) => acc * 256 + parseInt(octet, 10), 0);
+}
+
+function numberToIp(value: number): string {
+  return [24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join(".");
+}
+
+// Expands a CIDR block into its usable host addresses
+export function expandCidr(cidr: string): string[] {
+  const [address, prefixText] = cidr.trim().split("/");
+  const octets = address.split(".");
+  const prefix = parseInt(prefixText, 10);
+
+  if (octets.length !== 4 || octets.some((octet) => !/^\d{1,3}$/.test(octet) || parseInt(octet, 10) > 255)) {
+    throw new CidrError(`Invalid network address: ${address}`);
+  }
+  if (isNaN(prefix) || prefix < 0 || prefix > 32) {
+    throw new CidrError(`Invalid prefix length: /${prefixText}`);
+  }
+  if (prefix < MIN_PREFIX) {
+    throw new CidrError(`Networks larger than /${MIN_PREFIX} cannot be scanned`);
+  }
+
+  const size = 2 ** (32 - prefix);
+  const network = ipToNumber(address) - (ipToNumber(address) % size);
+  // /31 and /32 have no network or broadcast address to skip
+  const first = prefix >= 31 ? network : network + 1;
+  const last = prefix >= 31 ? network + size - 1 : network + size - 2;
+
+  const hosts: string[] = [];
+  for (let value = first; value <= last; value++) {
+    hosts.push(numberToIp(value));
+  }
+  return hosts;
+}
+
+function normalizeMac(mac: string): string {
+  return mac.toLowerCase().replace(/-/g, ":");
+}
+
+function loadVendorPrefixes(): Map<string, string> {
+  if (vendorPrefixes) return vendorPrefixes;
+
+  vendorPrefixes = new Map();
+  try {
+    const content = fs.readFileSync(OUI_FILE, "utf-8");
+    for (const line of content.split("\n")) {
+      if (line.startsWith("#")) continue;
+      // Accepts both "B827EB<tab>Vendor" and the IEEE "B8-27-EB   (hex)  Vendor" layout
+      const match = line.match(/^([0-9A-Fa-f]{2})[-:]?([0-9A-Fa-f]{2})[-:]?([0-9A-Fa-f]{2})\s+(?:\(hex\)\s+)?(.+)$/);
+      if (match) {
+        vendorPrefixes.set(`${match[1]}${match[2]}${match[3]}`.toUpperCase(), match[4].trim());
+      }
+    }
+  } catch (error) {
+    console.error(`Could not load OUI vendor file ${OUI_FILE}:`, error);
+  }
+  return vendorPrefixes;
+}
+
+export function lookupVendor(mac: string | null): string | null {
+  if (!mac) return null;
+  const prefix = mac.replace(/[^0-9A-Fa-f]/g, "").slice(0, 6).toUpperCase();
+  return loadVendorPrefixes().get(prefix) ?? null;
+}
+
+function parseProcArp(content: string): Map<string, string> {
+  const neighbours = new Map<string, string>();
+  for (const line of content.split("\n").slice(1)) {
+    const [ip, , flags, mac] = line.trim().split(/\s+/);
+    // Flag 0x0 marks an incomplete entry that never resolved
+    if (ip && mac && flags !== "0x0" && mac !== "00:00:00:00:00:00") {
+      neighbours.set(ip, normalizeMac(mac));
+    }
+  }
+  return neighbours;
+}
+
+function parseIpNeigh(output: string): Map<string, string> {
+  const neighbours = new Map<string, string>();
+  for (const line of output.split("\n")) {
+    const match = line.match(/^(\d+\.\d+\.\d+\.\d+)\s.*\blladdr\s+([0-9a-fA-F:]{17})/);
+    if (match && !/\bFAILED\b|\bINCOMPLETE\b/.test(line)) {
+      neighbours.set(match[1], normalizeMac(match[2]));
+    }
+  }
+  return neighbours;
+}
+
+// Reads the kernel neighbour (ARP) table, which also lists hosts that drop ICMP
+async function readNeighbourTable(): Promise<Map<string, string>> {
+  try {
+    return parseProcArp(await fs.promises.readFile("/proc/net/arp", "utf-8"));
+  } catch {
+    return new Promise((resolve) => {
+      execFile("ip", ["-4", "neigh", "show"], { timeout: 5000 }, (error, stdout) => {
+        resolve(error ? new Map() : parseIpNeigh(stdout));
+      });
+    });
+  }
+}
+
+async function reverseLookup(ip: string): Promise<string | null> {
+  const resolver = new Resolver({ timeout: REVERSE_DNS_TIMEOUT_MS, tries: 1 });
+  try {
+    const [hostname] = await resolver.reverse(ip);
+    return hostname || null;
+  } catch {
+    return null;
+  }
+}
+
+async function runScan(scan: NetworkScan, hosts: string[]): Promise<void> {
+  try {
+    const responsive = new Set<string>();
+    await runWithConcurrency(hosts, DISCOVERY_CONCURRENCY, async (ip) => {
+      const result = await pingHost(ip, PROBE_TIMEOUT_MS, 1);
+      if (result.alive) responsive.add(ip);
+    }, (error, ip) => {
+      console.error(`Discovery probe error for ${ip}:`, error);
+    });
+
+    // The sweep populates the neighbour table, so read it afterwards
+    const inRange = new Set(hosts);
+    const neighbours = await readNeighbourTable();
+    neighbours.forEach((_mac, ip) => {
+      if (inRange.has(ip)) responsive.add(ip);
+    });
+
+    const devices = await storage.getAllDevices();
+    const knownIps = new Set(devices.map((device) => device.ipAddress));
+    const knownMacs = new Set(devices.filter((device) => device.macAddress).map((device) => normalizeMac(device.macAddress!)));
+
+    let newHosts = 0;
+    const candidates = Array.from(responsive).filter((ip) => {
+      const mac = neighbours.get(ip);
+      return !knownIps.has(ip) && !(mac && knownMacs.has(mac));
+    });
+
+    await runWithConcurrency(candidates, DISCOVERY_CONCURRENCY, async (ip) => {
+      const macAddress = neighbours.get(ip) ?? null;
+      const hostname = await reverseLookup(ip);
+      const vendor = lookupVendor(macAddress);
+      const now = new Date();
+      const existing = await storage.getDiscoveredHostByIp(ip);
+
+      if (!existing) {
+        await storage.createDiscoveredHost({
+          ipAddress: ip,
+          macAddress,
+          hostname,
+          vendor,
+          firstScanId: scan.id,
+          lastScanId: scan.id,
+          firstSeenAt: now,
+          lastSeenAt: now,
+        });
+        newHosts++;
+        return;
+      }
+
+      // An accepted host whose device has since been deleted goes back into review
+      const reopened = existing.status === "accepted";
+      await storage.updateDiscoveredHost(existing.id, {
+        macAddress: macAddress ?? existing.macAddress,
+        hostname: hostname ?? existing.hostname,
+        vendor: vendor ?? existing.vendor,
+        lastScanId: scan.id,
+        lastSeenAt: now,
+        ...(reopened ? { status: "new", deviceId: null, firstScanId: scan.id } : {}),
+      });
+      if (reopened) newHosts++;
+    }, (error, ip) => {
+      console.error(`Discovery lookup error for ${ip}:`, error);
+    });
+
+    await storage.updateNetworkScan(scan.id, {
+      status: "completed",
+      hostsFound: responsive.size,
+      newHosts,
+      finishedAt: new Date(),
+    });
+    console.log(`Network scan of ${scan.cidr} finished: ${responsive.size} hosts, ${newHosts} new`);
+  } catch (error) {
+    console.error("Network scan error:", error);
+    // Nobody awaits the scan, so a failure here must not escape either
+    try {
+      await storage.updateNetworkScan(scan.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date(),
+      });
+    } catch (updateError) {
+      console.error("Network scan status error:", updateError);
+    }
+  } finally {
+    scanInProgress = false;
+  }
+}
+
+export function isScanRunning(): boolean {
+  return scanInProgress;
+}
+
+// Starts a scan in the background and returns its record immediately
+export async function startNetworkScan(cidr: string, startedBy: string | null): Promise<NetworkScan> {
+  const hosts = expandCidr(cidr);
+  scanInProgress = true;
+
+  try {
+    // Scans still marked running were cut short by a restart
+    for (const stale of await storage.getRecentNetworkScans(20)) {
+      if (stale.status === "running") {
+        await storage.updateNetworkScan(stale.id, { status: "failed", error: "Interrupted", finishedAt: new Date() });
+      }
+    }
+
+    const scan = await storage.createNetworkScan({ cidr: cidr.trim(), startedBy });
+    console.log(`Network scan of ${scan.cidr} started (${hosts.length} addresses)`);
+    void runScan(scan, hosts);
+    return scan;
+  } catch (error) {
+    scanInProgress = false;
+    throw error;
+  }
+}
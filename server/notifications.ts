@@ -0,0 +1,103 @@
+import nodemailer from "nodemailer";
+import { alertChannelConfigSchema, type AlertChannel, type AlertSeverity } from "@shared/schema";
+
+const DELIVERY_TIMEOUT = 10000;
+
+export interface AlertNotification {
+  title: string;
+  message: string;
+  severity: AlertSeverity;
+  state: "firing" | "resolved" | "test";
+  alertId?: string;
+  ruleName?: string;
+  subject?: string;
+  value?: string | null;
+  timestamp: string;
+}
+
+// ntfy uses 1-5, Gotify 0-10
+const NTFY_PRIORITY: Record<AlertSeverity, number> = { info: 3, warning: 4, critical: 5 };
+const GOTIFY_PRIORITY: Record<AlertSeverity, number> = { info: 2, warning: 5, critical: 8 };
+
+async function postOrThrow(url: string, init: RequestInit): Promise<void> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(DELIVERY_TIMEOUT) });
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new Error(`HTTP ${response.status}${body ? `: ${body.slice(0, 200)}` : ""}`);
+  }
+}
+
+function joinUrl(base: string, path: string): string {
+  return `${base.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+}
+
+export async function sendNotification(channel: AlertChannel, notification: AlertNotification): Promise<void> {
+  const parsed = alertChannelConfigSchema.safeParse({ type: channel.type, config: channel.config });
+  if (!parsed.success) {
+    throw new Error(`Channel "${channel.name}" has an invalid configuration`);
+  }
+
+  const definition = parsed.data;
+  switch (definition.type) {
+    case "webhook": {
+      await postOrThrow(definition.config.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...definition.config.headers },
+        body: JSON.stringify(notification),
+      });
+      return;
+    }
+    case "ntfy": {
+      // Published as JSON to the server root rather than with a Title header,
+      // which fetch rejects when a device or rule name is not Latin-1
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (definition.config.token) {
+        headers.Authorization = `Bearer ${definition.config.token}`;
+      }
+      await postOrThrow(joinUrl(definition.config.serverUrl, ""), {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          topic: definition.config.topic,
+          title: notification.title,
+          message: notification.message,
+          priority: NTFY_PRIORITY[notification.severity],
+          tags: [notification.state === "resolved" ? "white_check_mark" : "warning"],
+        }),
+      });
+      return;
+    }
+    case "gotify": {
+      const url = new URL(joinUrl(definition.config.serverUrl, "message"));
+      url.searchParams.set("token", definition.config.token);
+      await postOrThrow(url.toString(), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: notification.title,
+          message: notification.message,
+          priority: GOTIFY_PRIORITY[notification.severity],
+        }),
+      });
+      return;
+    }
+    case "email": {
+      const { host, port, secure, username, password, from, to } = definition.config;
+      const transport = nodemailer.createTransport({
+        host,
+        port,
+        secure,
+        auth: username ? { user: username, pass: password } : undefined,
+        connectionTimeout: DELIVERY_TIMEOUT,
+        greetingTimeout: DELIVERY_TIMEOUT,
+      });
+      await transport.sendMail({
+        from,
+        to,
+        subject: `[${notification.severity.toUpperCase()}] ${notification.title}`,
+        text: `${notification.message}\n\nTime: ${notification.timestamp}`,
+      });
+      return;
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import fs from "fs";
+import path from "path";
+import { checkPasswordPolicy, passwordCharacterClasses, type PasswordPolicy } from "@shared/passwordPolicy";
+
+const BREACHED_PASSWORDS_FILE = process.env.BREACHED_PASSWORDS_FILE
+  || path.resolve(process.cwd(), "server", "data", "common-passwords.txt");
+
+export const passwordPolicy: PasswordPolicy = {
+  minLength: Math.max(1, parseInt(process.env.PASSWORD_MIN_LENGTH || "10", 10) || 10),
+  minCharacterClasses: Math.min(
+    passwordCharacterClasses.length,
+    Math.max(1, parseInt(process.env.PASSWORD_MIN_CLASSES || "2", 10) || 2),
+  ),
+  breachCheck: process.env.PASSWORD_BREACH_CHECK !== "false",
+};
+
+let breachedPasswords: Set<string> | null = null;
+
+// Read on first use and kept; a missing file turns the check off rather than
+// refusing every password
+function loadBreachedPasswords(): Set<string> {
+  if (breachedPasswords) return breachedPasswords;
+  breachedPasswords = new Set();
+  try {
+    const content = fs.readFileSync(BREACHED_PASSWORDS_FILE, "utf-8");
+    for (const line of content.split("\n")) {
+      const password = line.trim();
+      if (password && !password.startsWith("#")) {
+        breachedPasswords.add(password.toLowerCase());
+      }
+    }
+  } catch (error) {
+    console.error(`Could not load breached password file ${BREACHED_PASSWORDS_FILE}:`, error);
+  }
+  return breachedPasswords;
+}
+
+// Returns the rules a new password breaks; an empty list means it can be used
+export function validateNewPassword(password: string, username: string): string[] {
+  const problems = checkPasswordPolicy(password, passwordPolicy, username);
+  if (passwordPolicy.breachCheck && loadBreachedPasswords().has(password.toLowerCase())) {
+    problems.push("This password is too common; choose another");
+  }
+  return problems;
+}
@@ -0,0 +1,55 @@
+import { execFile } from "child_process";
+
+export interface PingResult {
+  alive: boolean;
+  latencyMs: number | null;
+  jitterMs: number | null;
+  packetLoss: number | null;
+}
+
+const PING_COUNT = 3;
+const PING_INTERVAL_SECONDS = 0.2; // Lowest interval iputils allows without root
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : Math.round(parsed * 100) / 100;
+}
+
+// Parses iputils ("rtt min/avg/max/mdev") and busybox ("round-trip min/avg/max") summaries
+export function parsePingOutput(output: string): Omit<PingResult, "alive"> {
+  const lossMatch = output.match(/([\d.]+)% packet loss/);
+  const rttMatch = output.match(/=\s*([\d.]+)\/([\d.]+)\/([\d.]+)(?:\/([\d.]+))?\s*ms/);
+
+  const packetLoss = parseNumber(lossMatch?.[1]);
+  const latencyMs = parseNumber(rttMatch?.[2]);
+  let jitterMs = parseNumber(rttMatch?.[4]);
+  if (jitterMs === null && rttMatch) {
+    // busybox has no mdev; half the min/max spread is a reasonable stand-in
+    const min = parseNumber(rttMatch[1]);
+    const max = parseNumber(rttMatch[3]);
+    jitterMs = min !== null && max !== null ? Math.round(((max - min) / 2) * 100) / 100 : null;
+  }
+
+  return { latencyMs, jitterMs, packetLoss };
+}
+
+// Sends a short burst of ICMP echoes without blocking the event loop
+export function pingHost(ipAddress: string, timeoutMs = 2000, count = PING_COUNT): Promise<PingResult> {
+  const waitSeconds = String(Math.max(1, Math.ceil(timeoutMs / 1000)));
+  const overallTimeout = count * PING_INTERVAL_SECONDS * 1000 + timeoutMs + 1000;
+
+  return new Promise((resolve) => {
+    execFile(
+      "ping",
+      ["-n", "-c", String(count), "-i", String(PING_INTERVAL_SECONDS), "-W", waitSeconds, ipAddress],
+      { encoding: "utf-8", timeout: overallTimeout },
+      (_error, stdout) => {
+        // ping exits non-zero when no replies arrive but still prints its summary
+        const parsed = parsePingOutput(stdout || "");
+        const alive = parsed.packetLoss !== null ? parsed.packetLoss < 100 : parsed.latencyMs !== null;
+        resolve({ alive, ...parsed, packetLoss: parsed.packetLoss ?? (alive ? null : 100) });
+      },
+    );
+  });
+}
@@ -0,0 +1,48 @@
+import { storage } from "./storage";
+import { permissions, type Role } from "@shared/schema";
+
+export const ADMIN_ROLE = "admin";
+export const DEFAULT_ROLE = "viewer";
+
+// Seeds the built-in roles, keeps the admin role holding every permission
+// (including ones added since it was created) and gives users from before
+// roles existed the role matching their old "admin" / "user" value.
+export async function ensureRoles(): Promise<{ admin: Role; viewer: Role }> {
+  const isFirstRun = (await storage.getRoles()).length === 0;
+
+  let admin = await storage.getRoleByName(ADMIN_ROLE);
+  if (!admin) {
+    admin = await storage.createRole({
+      name: ADMIN_ROLE,
+      description: "Full access, including users and roles",
+      permissions: [...permissions],
+    }, true);
+  } else if (permissions.some((permission) => !admin!.permissions.includes(permission))) {
+    admin = (await storage.updateRole(admin.id, { permissions: [...permissions] }))!;
+  }
+
+  let viewer = await storage.getRoleByName(DEFAULT_ROLE);
+  if (!viewer) {
+    viewer = await storage.createRole({
+      name: DEFAULT_ROLE,
+      description: "Read-only access; the role new users get",
+      permissions: [],
+    }, true);
+  }
+
+  // An example of a narrower role; admins can edit or delete it
+  if (isFirstRun) {
+    await storage.createRole({
+      name: "editor",
+      description: "Maintains the inventory, scripts and notes",
+      permissions: ["devices:write", "scripts:write", "notes:write", "categories:manage"],
+    });
+  }
+
+  const migrated = await storage.assignLegacyRoles(admin.id, viewer.id);
+  if (migrated > 0) {
+    console.log(`Assigned roles to ${migrated} existing user(s)`);
+  }
+
+  return { admin, viewer };
+}
@@ -1,23 +1,61 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { pool } from "./db";
 import session from "express-session";
-import MemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
 import bcrypt from "bcrypt";
-import { insertUserSchema, insertDeviceSchema, insertScriptSchema, insertNoteSchema } from "@shared/schema";
+import { insertUserSchema, insertDeviceSchema, insertDeviceCheckSchema, deviceCheckSettingsSchema, deviceCheckConfigSchema, insertScriptSchema, scriptBaseSchema, insertNoteSchema, systemMetricNames, checkTypes, alertRuleBaseSchema, insertAlertRuleSchema, insertAlertChannelSchema, alertChannelSettingsSchema, alertChannelConfigSchema, alertChannelTypes, startNetworkScanSchema, acceptDiscoveredHostSchema, discoveredHostStatuses, searchQuerySchema, auditQuerySchema, insertRoleSchema, updateRoleSchema, updateUserRoleSchema, insertCategorySchema, updateCategorySchema, categoryScopes, renameTagSchema, insertSshCredentialSchema, sshCredentialBaseSchema, runScriptSchema, insertScriptJobSchema, type MetricHistory, type DeviceCheck, type AlertChannel, type Device, type Script, type SshCredential, type SshCredentialSummary, type ScriptRunPlan, type ScriptRunStreamEvent, type ScriptJobWithLastRun, type NoteAttachment, type NoteAttachmentSummary, type NoteBacklinks, type CategoryScope, type Tagged, type TaggableType, type Permission, type Role, type SessionUser, type User, totpCodeSchema, loginSecondFactorSchema, disableTwoFactorSchema, type TwoFactorStatus, loginThrottleKinds, changeOwnPasswordSchema, createApiTokenSchema, apiTokenScopes, type ApiToken, type ApiTokenScope, insertWatchedServiceSchema, updateWatchedServiceSchema, serviceActionSchema, containerActionSchema, containerLogsQuerySchema, type ContainerActionResult } from "@shared/schema";
 import { z } from "zod";
-import { getSystemStatus } from "./systemMetrics";
+import { getSystemStatus, startSystemCollector, refreshSystemStatus, listServiceUnits, getServiceUnitDetails, controlServiceUnit } from "./systemMetrics";
 import { startDeviceMonitor } from "./deviceMonitor";
-
-const SessionStore = MemoryStore(session);
+import { listContainers, getContainer, getContainerLogs, startContainer, stopContainer, restartContainer, pullAndRecreateContainer, DockerError } from "./docker";
+import { getDeviceAvailability } from "./deviceAvailability";
+import { startMetricsSampler, pickResolution, RESOLUTION_SECONDS } from "./metricsHistory";
+import { startAlertEngine } from "./alertEngine";
+import { startLiveUpdates } from "./liveUpdates";
+import { sendNotification } from "./notifications";
+import { startNetworkScan, isScanRunning, CidrError } from "./networkDiscovery";
+import { encryptSecret, decryptSecret } from "./secrets";
+import { startRemoteRun, subscribeToRun } from "./scriptRunner";
+import { startJobScheduler, runJob, validateCronExpression, getNextRunAt, getScheduledContent } from "./jobScheduler";
+import { renderScript, validateParameterValues } from "@shared/scriptTemplate";
+import { findWikiLinks, resolveWikiLink, slugify, wikiLinkTypes, type WikiLinkType } from "@shared/wikiLinks";
+import multer from "multer";
+import { search } from "./search";
+import { ensureCategories } from "./categories";
+import { ensureWatchedServices } from "./watchedServices";
+import { ensureRoles, ADMIN_ROLE, DEFAULT_ROLE } from "./roles";
+import { recordAudit, auditEventsToCsv } from "./audit";
+import { createTotpSecret, getTotpSetup, verifyTotp, hashRecoveryCode, generateRecoveryCodes } from "./totp";
+import { passwordPolicy, validateNewPassword } from "./passwordPolicy";
+import { publicSessionId, toUserSession } from "./sessions";
+import { authenticateApiToken, generateApiToken, tokenPermissions, requestActor } from "./apiTokens";
+import { getLoginBlock, recordLoginFailure, clearLoginFailures, getLoginLockouts, unlockLogin, describeWait, type LoginBlock } from "./loginThrottle";
+import { attachmentUpload, attachmentPath, attachmentMarkdown, isInlineMimeType, removeAttachmentFile, MAX_ATTACHMENT_BYTES } from "./attachments";
+
+const PgSessionStore = connectPgSimple(session);
 const SALT_ROUNDS = 10;
+const DEFAULT_ADMIN_PASSWORD = "admin123";
+const TWO_FACTOR_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+const SESSION_ACTIVITY_INTERVAL_MS = 60 * 1000;
 
 // Extend express session types
 declare module "express-session" {
   interface SessionData {
     userId?: string;
     username?: string;
-    role?: string;
+    // Password checked, waiting for the TOTP or recovery code
+    pendingTwoFactor?: { userId: string; expiresAt: number; attempts: number };
+    // Secret shown during enrollment, saved once a code from it checks out
+    pendingTotpSecret?: string;
+    passwordChangeRequired?: boolean;
+    // Shown in the sessions list; times are epoch milliseconds
+    signedInAt?: number;
+    lastSeenAt?: number;
+    ip?: string;
+    userAgent?: string;
   }
 }
 
@@ -28,54 +66,286 @@ export async function registerRoutes(
   // Session middleware with production-ready settings
   // For HTTPS deployments, set SECURE_COOKIES=true in environment
   const useSecureCookies = process.env.SECURE_COOKIES === "true";
-  
-  app.use(
-    session({
-      secret: process.env.SESSION_SECRET || "lab-companion-secret-key-change-in-production",
-      resave: false,
-      saveUninitialized: false,
-      store: new SessionStore({
-        checkPeriod: 86400000, // prune expired entries every 24h
-      }),
-      cookie: {
-        secure: useSecureCookies,
-        httpOnly: true,
-        maxAge: 24 * 60 * 60 * 1000, // 24 hours
-        sameSite: "lax",
-      },
-    })
-  );
+
+  // API tokens, sent as "Authorization: Bearer <token>". The token identity
+  // goes on req.apiToken, which requireAuth and requirePermission check
+  // before the session; requestActor gives handlers the acting user either
+  // way. The account routes under /api/auth only accept the cookie.
+  app.use("/api", async (req: Request, res: Response, next: NextFunction) => {
+    const bearer = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") ?? "");
+    if (!bearer || req.path.startsWith("/auth/")) {
+      return next();
+    }
+    try {
+      const token = await authenticateApiToken(bearer[1], req.ip);
+      const owner = token?.userId ? await storage.getUser(token.userId) : undefined;
+      if (!token || (token.kind === "personal" && !owner)) {
+        return res.status(401).json({ error: "Invalid or expired API token" });
+      }
+      req.apiToken = {
+        id: token.id,
+        kind: token.kind,
+        scopes: token.scopes,
+        userId: owner?.id ?? null,
+        actorName: owner?.username ?? `token:${token.name}`,
+      };
+      next();
+    } catch (error) {
+      console.error("API token error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  const sessionMiddleware = session({
+    secret: process.env.SESSION_SECRET || "lab-companion-secret-key-change-in-production",
+    resave: false,
+    saveUninitialized: false,
+    // Kept in PostgreSQL so that sign-ins survive restarts and can be
+    // listed and revoked; db:push creates the table
+    store: new PgSessionStore({
+      pool,
+      tableName: "session",
+      pruneSessionInterval: 15 * 60, // seconds
+    }),
+    cookie: {
+      secure: useSecureCookies,
+      httpOnly: true,
+      maxAge: 24 * 60 * 60 * 1000, // 24 hours
+      sameSite: "lax",
+    },
+  });
+
+  app.use(sessionMiddleware);
+
+  // Last activity for the sessions list, written at most once a minute so
+  // that polling does not rewrite the session row on every request
+  app.use((req: Request, _res: Response, next: NextFunction) => {
+    const now = Date.now();
+    if (req.session.userId && (!req.session.lastSeenAt || now - req.session.lastSeenAt > SESSION_ACTIVITY_INTERVAL_MS)) {
+      req.session.lastSeenAt = now;
+      req.session.ip = req.ip;
+    }
+    next();
+  });
+
+  const builtInRoles = await ensureRoles();
 
   // Create default admin user if no users exist (with hashed password)
   const existingUsers = await storage.getAllUsers();
   if (existingUsers.length === 0) {
-    const hashedPassword = await bcrypt.hash("admin123", SALT_ROUNDS);
+    const hashedPassword = await bcrypt.hash(DEFAULT_ADMIN_PASSWORD, SALT_ROUNDS);
     await storage.createUserWithRole({
       username: "admin",
       password: hashedPassword,
-    }, "admin");
-    console.log("Default admin user created. IMPORTANT: Change password in production!");
+      mustChangePassword: true,
+    }, builtInRoles.admin.id);
+    console.log(`Default admin user created with password ${DEFAULT_ADMIN_PASSWORD}; it must be changed at first sign-in`);
+  } else {
+    // Installs from before the flag existed may still use the default password
+    const admin = existingUsers.find((user) => user.username === "admin");
+    if (admin && !admin.mustChangePassword && await bcrypt.compare(DEFAULT_ADMIN_PASSWORD, admin.password)) {
+      await storage.updateUserPassword(admin.id, admin.password, true);
+      console.log("The admin user still has the default password; it must be changed at next sign-in");
+    }
   }
 
-  // Auth middleware
-  const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+  await ensureCategories();
+  await ensureWatchedServices();
+
+  // Signed in, even if a required password change or 2FA enrollment is still
+  // outstanding; only for the routes those steps need
+  const requireSession = (req: Request, res: Response, next: NextFunction) => {
     if (!req.session.userId) {
       return res.status(401).json({ error: "Authentication required" });
     }
     next();
   };
 
-  // Admin middleware
-  const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  // A role that requires 2FA applies to its members the moment it is turned
+  // on or they join it, so this is never cached in the session
+  const needsTwoFactorSetup = (user: User, role: Role | undefined): boolean =>
+    !!role?.requireTwoFactor && !user.totpEnabledAt;
+
+  // A password change or 2FA enrollment the user has to finish before
+  // anything else, in that order
+  const pendingAccountStep = async (req: Request): Promise<string | null> => {
+    if (req.session.passwordChangeRequired) return "Change your password to continue";
+    const user = req.session.userId ? await storage.getUser(req.session.userId) : undefined;
+    if (user && needsTwoFactorSetup(user, await storage.getUserRole(user.id))) {
+      return "Set up two-factor authentication to continue";
+    }
+    return null;
+  };
+
+  // For routes that act on the caller's own browser session, which a request
+  // made with an API token does not have
+  const rejectApiToken = (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiToken) {
+      return res.status(403).json({ error: "Not available with an API token; sign in instead" });
+    }
+    next();
+  };
+
+  // Auth middleware
+  const requireAuth = async (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiToken) {
+      if (!req.apiToken.scopes.includes("read")) {
+        return res.status(403).json({ error: "Requires an API token with the read scope" });
+      }
+      return next();
+    }
     if (!req.session.userId) {
       return res.status(401).json({ error: "Authentication required" });
     }
-    if (req.session.role !== "admin") {
-      return res.status(403).json({ error: "Admin access required" });
+    try {
+      const pendingStep = await pendingAccountStep(req);
+      if (pendingStep) {
+        return res.status(403).json({ error: pendingStep });
+      }
+      next();
+    } catch (error) {
+      console.error("Auth check error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  };
+
+  // What the caller may do: the user's current role, narrowed to the scopes of
+  // an API token
+  const grantedPermissions = async (req: Request): Promise<Permission[]> => {
+    const { userId } = requestActor(req);
+    const role = userId ? await storage.getUserRole(userId) : undefined;
+    return req.apiToken ? tokenPermissions(req.apiToken, role?.permissions ?? []) : role?.permissions ?? [];
+  };
+
+  // Permission middleware; any one of the listed permissions is enough. The
+  // role is looked up on every request so that role changes take effect
+  // without signing in again. An API token is limited to its scopes.
+  const requirePermission = (...required: Permission[]) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+      const { apiToken } = req;
+      const userId = apiToken ? apiToken.userId : req.session.userId;
+      if (!userId && !apiToken) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      try {
+        const pendingStep = apiToken ? null : await pendingAccountStep(req);
+        if (pendingStep) {
+          return res.status(403).json({ error: pendingStep });
+        }
+        const granted = await grantedPermissions(req);
+        if (!required.some((permission) => granted.includes(permission))) {
+          return res.status(403).json({ error: `Requires the ${required.join(" or ")} permission` });
+        }
+        next();
+      } catch (error) {
+        console.error("Permission check error:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    };
+
+  const toSessionUser = (req: Request, user: User, role: Role | undefined): SessionUser => ({
+    id: user.id,
+    username: user.username,
+    role: role?.name ?? "",
+    permissions: role?.permissions ?? [],
+    twoFactorEnabled: !!user.totpEnabledAt,
+    twoFactorSetupRequired: needsTwoFactorSetup(user, role),
+    passwordChangeRequired: !!req.session.passwordChangeRequired,
+  });
+
+  // Signs the user in once every factor has been checked. Whether they still
+  // have to change their password is decided here, at sign-in; a required 2FA
+  // enrollment is checked on every request.
+  const startSession = async (req: Request, user: User, secondFactor?: string): Promise<SessionUser> => {
+    const role = await storage.getUserRole(user.id);
+    clearLoginFailures(user.username);
+    // A new session id at sign-in, so one planted before it is worthless
+    await new Promise<void>((resolve, reject) => req.session.regenerate((err) => (err ? reject(err) : resolve())));
+    const now = Date.now();
+    req.session.userId = user.id;
+    req.session.username = user.username;
+    req.session.signedInAt = now;
+    req.session.lastSeenAt = now;
+    req.session.ip = req.ip;
+    req.session.userAgent = req.get("user-agent")?.slice(0, 500);
+    req.session.passwordChangeRequired = user.mustChangePassword;
+    await recordAudit(req, {
+      action: "login",
+      entityType: "session",
+      entityId: user.id,
+      entityLabel: user.username,
+      after: secondFactor ? { secondFactor } : undefined,
+    });
+    return toSessionUser(req, user, role);
+  };
+
+  // A sign-in that has to wait is refused before any password or code is
+  // checked, and does not count as another failure
+  const sendLoginBlocked = (res: Response, block: LoginBlock) => {
+    const retryAfter = Math.ceil(block.retryAfterMs / 1000);
+    res.set("Retry-After", String(retryAfter));
+    return res.status(429).json({
+      error: block.locked
+        ? `Too many failed sign-in attempts; try again in ${describeWait(block.retryAfterMs)}`
+        : `Wait ${describeWait(block.retryAfterMs)} before trying again`,
+      retryAfter,
+    });
+  };
+
+  // Counts a wrong password or code against the username and the client
+  // address, and records any lockout that causes
+  const registerLoginFailure = async (req: Request, username: string) => {
+    for (const lockout of recordLoginFailure(req.ip, username)) {
+      await recordAudit(req, {
+        action: "lock",
+        entityType: "login_lockout",
+        entityLabel: lockout.value,
+        actorName: username,
+        after: { kind: lockout.kind, value: lockout.value },
+      });
+    }
+  };
+
+  // Checks an authenticator code, or failing that a recovery code, and uses
+  // it up. Returns how the user proved themselves, or null.
+  const checkSecondFactor = async (user: User, code: string): Promise<string | null> => {
+    if (!user.totpSecret) return null;
+    if (/^\d{6}$/.test(code)) {
+      const counter = verifyTotp(decryptSecret(user.totpSecret), code, user.totpLastCounter);
+      return counter !== null && await storage.claimTotpCounter(user.id, counter) ? "authenticator" : null;
     }
-    next();
+    return await storage.consumeRecoveryCode(user.id, hashRecoveryCode(code)) ? "recovery code" : null;
+  };
+
+  // Category values must name a managed category of the item's kind
+  const isKnownCategory = async (scope: CategoryScope, slug: string | undefined) =>
+    slug === undefined || !!(await storage.getCategoryBySlug(scope, slug));
+
+  const attachTags = <T extends { id: string }>(items: T[], tagsById: Map<string, string[]>): Tagged<T>[] =>
+    items.map((item) => ({ ...item, tags: tagsById.get(item.id) ?? [] }));
+
+  // Scheduled jobs run a script's current content on this host, so changing
+  // what a job runs takes jobs:manage on top of scripts:write. Returns the
+  // error to send, or null when the change is allowed.
+  const checkScheduledScriptChange = async (
+    req: Request,
+    script: Script,
+    next: { content?: string; parameters?: Script["parameters"] },
+  ): Promise<string | null> => {
+    const changesExecution =
+      (next.content !== undefined && next.content !== script.content) ||
+      (next.parameters !== undefined && JSON.stringify(next.parameters) !== JSON.stringify(script.parameters));
+    if (!changesExecution || (await grantedPermissions(req)).includes("jobs:manage")) {
+      return null;
+    }
+    const jobs = await storage.getScriptJobsForScript(script.id);
+    return jobs.length > 0 ? "A scheduled job runs this script; changing its content requires the jobs:manage permission" : null;
   };
 
+  // An item as the audit log sees it, tags included
+  const withTags = async <T extends { id: string }>(type: TaggableType, item: T | undefined): Promise<Tagged<T> | undefined> =>
+    item && attachTags([item], await storage.getItemTags(type, [item.id]))[0];
+
   // Login route with validation
   app.post("/api/auth/login", async (req: Request, res: Response) => {
     try {
@@ -88,24 +358,37 @@ export async function registerRoutes(
       }
 
       const { username, password } = parseResult.data;
+      const block = getLoginBlock(req.ip, username);
+      if (block) {
+        return sendLoginBlocked(res, block);
+      }
+
       const user = await storage.getUserByUsername(username);
 
-      if (!user) {
+      const isValidPassword = user ? await bcrypt.compare(password, user.password) : false;
+      if (!user || !isValidPassword) {
+        await recordAudit(req, {
+          action: "login_failed",
+          entityType: "session",
+          entityId: user?.id,
+          entityLabel: username,
+          actorName: username,
+        });
+        await registerLoginFailure(req, username);
         return res.status(401).json({ error: "Invalid credentials" });
       }
 
-      const isValidPassword = await bcrypt.compare(password, user.password);
-      if (!isValidPassword) {
-        return res.status(401).json({ error: "Invalid credentials" });
+      // The session stays signed out until the second step succeeds
+      if (user.totpEnabledAt) {
+        delete req.session.userId;
+        delete req.session.username;
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_TIMEOUT_MS, attempts: 0 };
+        return res.json({ success: true, twoFactorRequired: true });
       }
 
-      req.session.userId = user.id;
-      req.session.username = user.username;
-      req.session.role = user.role;
-
       res.json({ 
         success: true, 
-        user: { id: user.id, username: user.username, role: user.role } 
+        user: await startSession(req, user),
       });
     } catch (error) {
       console.error("Login error:", error);
@@ -113,8 +396,66 @@ export async function registerRoutes(
     }
   });
 
+  // Second login step for users with 2FA: an authenticator or recovery code
+  app.post("/api/auth/login/verify", async (req: Request, res: Response) => {
+    try {
+      const parseResult = loginSecondFactorSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "Sign-in expired; enter your password again" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.totpEnabledAt) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "Sign-in expired; enter your password again" });
+      }
+
+      const block = getLoginBlock(req.ip, user.username);
+      if (block) {
+        return sendLoginBlocked(res, block);
+      }
+
+      const secondFactor = await checkSecondFactor(user, parseResult.data.code);
+      if (!secondFactor) {
+        pending.attempts += 1;
+        await recordAudit(req, {
+          action: "login_failed",
+          entityType: "session",
+          entityId: user.id,
+          entityLabel: user.username,
+          actorName: user.username,
+          after: { secondFactor: "invalid code" },
+        });
+        await registerLoginFailure(req, user.username);
+        // Too many wrong codes means starting over with the password
+        if (pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ error: "Too many invalid codes; enter your password again" });
+        }
+        return res.status(401).json({ error: "Invalid code" });
+      }
+
+      res.json({ success: true, user: await startSession(req, user, secondFactor) });
+    } catch (error) {
+      console.error("Verify second factor error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Logout route
-  app.post("/api/auth/logout", (req: Request, res: Response) => {
+  app.post("/api/auth/logout", async (req: Request, res: Response) => {
+    if (req.session.userId) {
+      await recordAudit(req, { action: "logout", entityType: "session", entityId: req.session.userId, entityLabel: req.session.username });
+    }
     req.session.destroy((err) => {
       if (err) {
         return res.status(500).json({ error: "Failed to logout" });
@@ -123,179 +464,2743 @@ export async function registerRoutes(
     });
   });
 
-  // Check auth status
-  app.get("/api/auth/status", (req: Request, res: Response) => {
-    if (req.session.userId) {
-      res.json({ 
-        authenticated: true, 
-        user: { 
-          id: req.session.userId, 
-          username: req.session.username,
-          role: req.session.role 
-        } 
+  // Check auth status, including the current role's permissions
+  app.get("/api/auth/status", async (req: Request, res: Response) => {
+    try {
+      const user = req.session.userId ? await storage.getUser(req.session.userId) : undefined;
+      if (user) {
+        res.json({ 
+          authenticated: true, 
+          user: toSessionUser(req, user, await storage.getUserRole(user.id)),
+        });
+      } else {
+        res.json({ authenticated: false });
+      }
+    } catch (error) {
+      console.error("Auth status error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Rules new passwords have to meet, for showing next to password fields
+  app.get("/api/auth/password-policy", requireSession, (req: Request, res: Response) => {
+    res.json(passwordPolicy);
+  });
+
+  // Self-service password change; also how a required change is completed
+  app.post("/api/auth/password", requireSession, async (req: Request, res: Response) => {
+    try {
+      const parseResult = changeOwnPasswordSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const { currentPassword, newPassword } = parseResult.data;
+      const existingUser = await storage.getUser(req.session.userId!);
+      if (!existingUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      if (!await bcrypt.compare(currentPassword, existingUser.password)) {
+        return res.status(400).json({ error: "Invalid input", details: { currentPassword: ["Current password is incorrect"] } });
+      }
+
+      const problems = validateNewPassword(newPassword, existingUser.username);
+      if (await bcrypt.compare(newPassword, existingUser.password)) {
+        problems.push("New password must differ from the current one");
+      }
+      if (problems.length > 0) {
+        return res.status(400).json({ error: "Invalid input", details: { newPassword: problems } });
+      }
+
+      const user = await storage.updateUserPassword(existingUser.id, await bcrypt.hash(newPassword, SALT_ROUNDS));
+      if (!user) {
+        return res.status(500).json({ error: "Failed to update password" });
+      }
+      delete req.session.passwordChangeRequired;
+      // Anyone else signed in with the old password is signed out
+      await storage.deleteUserSessions(user.id, req.sessionID);
+
+      await recordAudit(req, { action: "update", entityType: "user", entityId: user.id, entityLabel: user.username, before: existingUser, after: user });
+      res.json({ success: true, user: toSessionUser(req, user, await storage.getUserRole(user.id)) });
+    } catch (error) {
+      console.error("Change own password error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ SESSION ROUTES ============
+
+  // The signed-in user's sessions on every browser and device
+  app.get("/api/auth/sessions", requireSession, async (req: Request, res: Response) => {
+    try {
+      const rows = await storage.getUserSessions(req.session.userId!);
+      res.json(rows.map((row) => toUserSession(row, req.sessionID)));
+    } catch (error) {
+      console.error("Get sessions error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Signs out every other session, e.g. after using a shared computer
+  app.delete("/api/auth/sessions", requireSession, async (req: Request, res: Response) => {
+    try {
+      const ended = await storage.deleteUserSessions(req.session.userId!, req.sessionID);
+      if (ended > 0) {
+        await recordAudit(req, {
+          action: "logout",
+          entityType: "session",
+          entityId: req.session.userId,
+          entityLabel: req.session.username,
+          after: { sessionsEnded: ended },
+        });
+      }
+      res.json({ success: true, ended });
+    } catch (error) {
+      console.error("Revoke sessions error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", requireSession, async (req: Request, res: Response) => {
+    try {
+      const rows = await storage.getUserSessions(req.session.userId!);
+      const row = rows.find((candidate) => publicSessionId(candidate.sid) === req.params.id);
+      if (!row) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      if (row.sid === req.sessionID) {
+        return res.status(400).json({ error: "Sign out to end the current session" });
+      }
+
+      await storage.deleteSession(row.sid);
+      await recordAudit(req, {
+        action: "logout",
+        entityType: "session",
+        entityId: req.session.userId,
+        entityLabel: req.session.username,
+        before: { ip: row.sess.ip, userAgent: row.sess.userAgent },
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Revoke session error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ API TOKEN ROUTES ============
+
+  // Under /api/auth, so only a signed-in browser can list, create or revoke
+  // tokens; a token cannot mint another
+  const toApiTokenSummary = ({ tokenHash, ...token }: ApiToken, owner: string | null) => ({ ...token, owner });
+
+  // Everyone's tokens for user managers, otherwise the user's personal tokens
+  app.get("/api/auth/tokens", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const role = await storage.getUserRole(req.session.userId!);
+      const manageAll = !!role?.permissions.includes("users:manage");
+      res.json(await storage.getApiTokens(manageAll ? undefined : req.session.userId));
+    } catch (error) {
+      console.error("Get API tokens error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // The token itself is in this response only; just its hash is kept
+  app.post("/api/auth/tokens", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parseResult = createApiTokenSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const { name, kind, scopes, expiresInDays } = parseResult.data;
+      const role = await storage.getUserRole(req.session.userId!);
+      const held: ApiTokenScope[] = ["read", ...(role?.permissions ?? [])];
+      if (kind === "service" && !held.includes("users:manage")) {
+        return res.status(403).json({ error: "Requires the users:manage permission to create service tokens" });
+      }
+      // Nobody can hand a token more than they hold themselves
+      const notHeld = scopes.filter((scope) => !held.includes(scope));
+      if (notHeld.length > 0) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: { scopes: [`You do not hold ${notHeld.join(", ")}`] },
+        });
+      }
+
+      const { secret, tokenHash, prefix } = generateApiToken();
+      const token = await storage.createApiToken({
+        name,
+        kind,
+        userId: kind === "personal" ? req.session.userId! : null,
+        tokenHash,
+        prefix,
+        scopes: apiTokenScopes.filter((scope) => scopes.includes(scope)),
+        expiresAt: expiresInDays === null ? null : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+        createdBy: req.session.userId!,
+      });
+      await recordAudit(req, {
+        action: "create",
+        entityType: "api_token",
+        entityId: token.id,
+        entityLabel: token.name,
+        after: token,
+        redact: ["tokenHash"],
+      });
+      res.json({ token: toApiTokenSummary(token, kind === "personal" ? req.session.username ?? null : null), secret });
+    } catch (error) {
+      console.error("Create API token error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Users revoke their own personal tokens; user managers revoke any token
+  app.delete("/api/auth/tokens/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const token = await storage.getApiToken(id);
+      const role = await storage.getUserRole(req.session.userId!);
+      const allowed = token && (token.userId === req.session.userId || role?.permissions.includes("users:manage"));
+      if (!token || !allowed) {
+        return res.status(404).json({ error: "API token not found" });
+      }
+
+      await storage.deleteApiToken(id);
+      await recordAudit(req, {
+        action: "delete",
+        entityType: "api_token",
+        entityId: token.id,
+        entityLabel: token.name,
+        before: token,
+        redact: ["tokenHash"],
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete API token error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ TWO-FACTOR AUTHENTICATION ROUTES ============
+
+  // The signed-in user's 2FA state
+  app.get("/api/auth/2fa", requireSession, async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const role = await storage.getUserRole(user.id);
+      const status: TwoFactorStatus = {
+        enabled: !!user.totpEnabledAt,
+        required: !!role?.requireTwoFactor,
+        recoveryCodesRemaining: user.totpEnabledAt ? user.recoveryCodes.length : 0,
+      };
+      res.json(status);
+    } catch (error) {
+      console.error("Get two-factor status error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Start enrollment: a new secret and its QR code. Nothing is stored until
+  // the user confirms a code from it.
+  app.post("/api/auth/2fa/setup", requireSession, async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      if (user.totpEnabledAt) {
+        return res.status(409).json({ error: "Two-factor authentication is already on" });
+      }
+
+      const secret = createTotpSecret();
+      req.session.pendingTotpSecret = secret;
+      res.json(await getTotpSetup(secret, user.username));
+    } catch (error) {
+      console.error("Start two-factor setup error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Finish enrollment with a code from the new secret; returns the recovery
+  // codes, which are not shown again
+  app.post("/api/auth/2fa/enable", requireSession, async (req: Request, res: Response) => {
+    try {
+      const parseResult = totpCodeSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const secret = req.session.pendingTotpSecret;
+      if (!secret) {
+        return res.status(400).json({ error: "Start two-factor setup first" });
+      }
+
+      const existingUser = await storage.getUser(req.session.userId!);
+      if (!existingUser) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      if (existingUser.totpEnabledAt) {
+        return res.status(409).json({ error: "Two-factor authentication is already on" });
+      }
+
+      const counter = verifyTotp(secret, parseResult.data.code, null);
+      if (counter === null) {
+        return res.status(400).json({ error: "Invalid input", details: { code: ["That code does not match; check the time on your device"] } });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      const user = await storage.updateUserTwoFactor(existingUser.id, {
+        totpSecret: encryptSecret(secret),
+        totpEnabledAt: new Date(),
+        totpLastCounter: counter,
+        recoveryCodes: hashes,
+      });
+      delete req.session.pendingTotpSecret;
+
+      await recordAudit(req, {
+        action: "update",
+        entityType: "user",
+        entityId: existingUser.id,
+        entityLabel: existingUser.username,
+        before: { twoFactor: "off" },
+        after: { twoFactor: "on" },
+      });
+      res.json({ success: true, user: user && toSessionUser(req, user, await storage.getUserRole(user.id)), recoveryCodes: codes });
+    } catch (error) {
+      console.error("Enable two-factor error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Replace the recovery codes; needs a current authenticator code
+  app.post("/api/auth/2fa/recovery-codes", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parseResult = totpCodeSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const user = await storage.getUser(req.session.userId!);
+      if (!user?.totpEnabledAt) {
+        return res.status(400).json({ error: "Two-factor authentication is off" });
+      }
+      if (await checkSecondFactor(user, parseResult.data.code) === null) {
+        return res.status(400).json({ error: "Invalid input", details: { code: ["Invalid code"] } });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.updateUserTwoFactor(user.id, { recoveryCodes: hashes });
+      await recordAudit(req, {
+        action: "update",
+        entityType: "user",
+        entityId: user.id,
+        entityLabel: user.username,
+        before: { recoveryCodes: user.recoveryCodes },
+        after: { recoveryCodes: hashes },
       });
-    } else {
-      res.json({ authenticated: false });
+      res.json({ success: true, recoveryCodes: codes });
+    } catch (error) {
+      console.error("Regenerate recovery codes error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Turn 2FA off for yourself; needs your password, and is refused when your
+  // role requires 2FA
+  app.post("/api/auth/2fa/disable", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parseResult = disableTwoFactorSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const user = await storage.getUser(req.session.userId!);
+      if (!user?.totpEnabledAt) {
+        return res.status(400).json({ error: "Two-factor authentication is off" });
+      }
+      const role = await storage.getUserRole(user.id);
+      if (role?.requireTwoFactor) {
+        return res.status(400).json({ error: `The ${role.name} role requires two-factor authentication` });
+      }
+      if (!(await bcrypt.compare(parseResult.data.password, user.password))) {
+        return res.status(400).json({ error: "Invalid input", details: { password: ["Incorrect password"] } });
+      }
+
+      await storage.updateUserTwoFactor(user.id, { totpSecret: null, totpEnabledAt: null, totpLastCounter: null, recoveryCodes: [] });
+      await recordAudit(req, {
+        action: "update",
+        entityType: "user",
+        entityId: user.id,
+        entityLabel: user.username,
+        before: { twoFactor: "on" },
+        after: { twoFactor: "off" },
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Disable two-factor error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // System status route (protected); the latest snapshot from the collector
+  app.get("/api/system/status", requireAuth, async (req: Request, res: Response) => {
+    try {
+      res.json(await getSystemStatus());
+    } catch (error) {
+      console.error("Get system status error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Metric history query (protected)
+  const HISTORY_TARGET_POINTS = 120;
+  const historyQuerySchema = z.object({
+    metric: z.enum(systemMetricNames),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    step: z.coerce.number().int().positive().optional(),
+  }).refine((q) => !q.from || !q.to || q.from < q.to, {
+    message: "from must be before to",
+    path: ["from"],
+  });
+
+  app.get("/api/system/history", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parseResult = historyQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const { metric } = parseResult.data;
+      const to = parseResult.data.to ?? new Date();
+      const from = parseResult.data.from ?? new Date(to.getTime() - 60 * 60 * 1000);
+
+      // Default to roughly HISTORY_TARGET_POINTS points across the range
+      const requestedStep = parseResult.data.step
+        ?? Math.ceil((to.getTime() - from.getTime()) / 1000 / HISTORY_TARGET_POINTS);
+      const resolution = pickResolution(from, requestedStep);
+      const resolutionSeconds = RESOLUTION_SECONDS[resolution];
+      const step = Math.max(resolutionSeconds, Math.ceil(requestedStep / resolutionSeconds) * resolutionSeconds);
+
+      const points = await storage.getMetricHistory(metric, resolution, from, to, step);
+      const history: MetricHistory = {
+        metric,
+        resolution,
+        step,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        points,
+      };
+      res.json(history);
+    } catch (error) {
+      console.error("Get metric history error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ WATCHED SERVICE ROUTES ============
+
+  // List the systemd units shown on the dashboard (authenticated users)
+  app.get("/api/services", requireAuth, async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getWatchedServices());
+    } catch (error) {
+      console.error("Get watched services error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Service units systemd knows about, to suggest when adding one
+  app.get("/api/services/units", requirePermission("services:manage"), async (req: Request, res: Response) => {
+    try {
+      res.json(await listServiceUnits());
+    } catch (error) {
+      // No systemd, e.g. inside a container; the unit can still be typed in
+      console.error("List service units error:", error);
+      res.status(502).json({ error: `Could not list systemd units: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+
+  // Main PID, memory, restart count and recent journal lines of a watched unit
+  app.get("/api/services/:id/details", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const service = await storage.getWatchedService(req.params.id);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+      res.json(await getServiceUnitDetails(service.unit));
+    } catch (error) {
+      console.error("Get service details error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Watched services with a start, stop, restart or reload still running
+  const busyServices = new Set<string>();
+
+  // Start, stop, restart or reload a watched unit through systemd; the
+  // outcome is recorded either way
+  app.post("/api/services/:id/actions", requirePermission("services:control"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = serviceActionSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const service = await storage.getWatchedService(req.params.id);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+      if (busyServices.has(service.id)) {
+        return res.status(409).json({ error: `${service.displayName} is busy with another action` });
+      }
+
+      const { action } = parseResult.data;
+      busyServices.add(service.id);
+      let failure: string | null = null;
+      try {
+        await controlServiceUnit(service.unit, action);
+      } catch (error) {
+        failure = error instanceof Error ? error.message : String(error);
+      } finally {
+        busyServices.delete(service.id);
+      }
+
+      await recordAudit(req, {
+        action,
+        entityType: "watched_service",
+        entityId: service.id,
+        entityLabel: service.displayName,
+        after: { unit: service.unit, succeeded: failure === null, error: failure },
+      });
+
+      if (failure !== null) {
+        return res.status(502).json({ error: `Could not ${action} ${service.unit}: ${failure}` });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Service action error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Watch another unit
+  app.post("/api/services", requirePermission("services:manage"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = insertWatchedServiceSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      if (await storage.getWatchedServiceByUnit(parseResult.data.unit)) {
+        return res.status(409).json({ error: "This unit is already watched" });
+      }
+
+      const service = await storage.createWatchedService(parseResult.data);
+      await recordAudit(req, { action: "create", entityType: "watched_service", entityId: service.id, entityLabel: service.displayName, after: service });
+      refreshSystemStatus();
+      res.json({ success: true, service });
+    } catch (error) {
+      console.error("Create watched service error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Change a watched unit's name, display name or port
+  app.patch("/api/services/:id", requirePermission("services:manage"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = updateWatchedServiceSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const existing = await storage.getWatchedService(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+
+      const { unit } = parseResult.data;
+      if (unit && unit !== existing.unit && await storage.getWatchedServiceByUnit(unit)) {
+        return res.status(409).json({ error: "This unit is already watched" });
+      }
+
+      const service = await storage.updateWatchedService(existing.id, parseResult.data);
+      await recordAudit(req, { action: "update", entityType: "watched_service", entityId: existing.id, entityLabel: service?.displayName, before: existing, after: service });
+      refreshSystemStatus();
+      res.json({ success: true, service });
+    } catch (error) {
+      console.error("Update watched service error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Stop watching a unit
+  app.delete("/api/services/:id", requirePermission("services:manage"), async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getWatchedService(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+
+      await storage.deleteWatchedService(existing.id);
+      await recordAudit(req, { action: "delete", entityType: "watched_service", entityId: existing.id, entityLabel: existing.displayName, before: existing });
+      refreshSystemStatus();
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete watched service error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ CONTAINER ROUTES ============
+
+  // Docker's own status code for a missing container, 502 for anything else it refused
+  const dockerErrorResponse = (res: Response, error: DockerError) => {
+    if (error.statusCode === 404) {
+      return res.status(404).json({ error: error.message || "Container not found" });
+    }
+    return res.status(502).json({ error: error.message });
+  };
+
+  // List Docker containers with state, health, ports and resource use (authenticated users)
+  app.get("/api/containers", requireAuth, async (req: Request, res: Response) => {
+    try {
+      res.json(await listContainers());
+    } catch (error) {
+      if (error instanceof DockerError) {
+        return dockerErrorResponse(res, error);
+      }
+      console.error("List containers error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Last lines of a container's output; tail=1-1000, default 100 (authenticated users)
+  app.get("/api/containers/:id/logs", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parseResult = containerLogsQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      res.json({ lines: await getContainerLogs(req.params.id, parseResult.data.tail) });
+    } catch (error) {
+      if (error instanceof DockerError) {
+        return dockerErrorResponse(res, error);
+      }
+      console.error("Get container logs error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Containers with an action still running
+  const busyContainers = new Set<string>();
+
+  // Start, stop, restart, or pull the image and recreate a container; the
+  // outcome is recorded either way
+  app.post("/api/containers/:id/actions", requirePermission("containers:manage"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = containerActionSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const container = await getContainer(req.params.id);
+      if (busyContainers.has(container.id)) {
+        return res.status(409).json({ error: `${container.name} is busy with another action` });
+      }
+
+      const { action } = parseResult.data;
+      busyContainers.add(container.id);
+      let result: ContainerActionResult | null = null;
+      let failure: unknown = null;
+      try {
+        if (action === "recreate") {
+          result = { success: true, ...await pullAndRecreateContainer(container.id) };
+        } else {
+          await { start: startContainer, stop: stopContainer, restart: restartContainer }[action](container.id);
+          result = { success: true, containerId: container.id };
+        }
+      } catch (error) {
+        failure = error;
+      } finally {
+        busyContainers.delete(container.id);
+      }
+
+      await recordAudit(req, {
+        action,
+        entityType: "container",
+        entityId: container.id,
+        entityLabel: container.name,
+        after: {
+          image: container.image,
+          succeeded: failure === null,
+          recreated: result?.recreated,
+          error: failure === null ? null : failure instanceof Error ? failure.message : String(failure),
+        },
+      });
+
+      if (failure instanceof DockerError) {
+        return dockerErrorResponse(res, failure);
+      }
+      if (failure !== null) {
+        throw failure;
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof DockerError) {
+        return dockerErrorResponse(res, error);
+      }
+      console.error("Container action error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ USER MANAGEMENT ROUTES ============
+
+  // Get all users
+  app.get("/api/users", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const [users, roles, sessionCounts] = await Promise.all([storage.getAllUsers(), storage.getRoles(), storage.getActiveSessionCounts()]);
+      const roleNames = new Map(roles.map((role) => [role.id, role.name]));
+      // Return users without passwords
+      const safeUsers = users.map(u => ({ id: u.id, username: u.username, roleId: u.roleId, role: u.roleId ? roleNames.get(u.roleId) ?? "" : "", twoFactorEnabled: !!u.totpEnabledAt, mustChangePassword: u.mustChangePassword, activeSessions: sessionCounts.get(u.id) ?? 0 }));
+      res.json(safeUsers);
+    } catch (error) {
+      console.error("Get users error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create new user (protected). The password policy is checked separately;
+  // by default the user picks their own password at first sign-in.
+  const createUserSchema = z.object({
+    username: z.string().min(3, "Username must be at least 3 characters"),
+    password: z.string().min(1, "Password is required"),
+    roleId: z.string().optional(),
+    mustChangePassword: z.boolean().default(true),
+  });
+
+  app.post("/api/users", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = createUserSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors 
+        });
+      }
+
+      const { username, password, roleId, mustChangePassword } = parseResult.data;
+
+      const problems = validateNewPassword(password, username);
+      if (problems.length > 0) {
+        return res.status(400).json({ error: "Invalid input", details: { password: problems } });
+      }
+
+      // Check if username already exists
+      const existingUser = await storage.getUserByUsername(username);
+      if (existingUser) {
+        return res.status(400).json({ error: "Username already exists" });
+      }
+
+      const role = roleId ? await storage.getRole(roleId) : await storage.getRoleByName(DEFAULT_ROLE);
+      if (!role) {
+        return res.status(400).json({ error: "Invalid input", details: { roleId: ["Unknown role"] } });
+      }
+
+      const hashedPassword = await bcrypt.hash(password, SALT_ROUNDS);
+      const user = await storage.createUserWithRole({
+        username,
+        password: hashedPassword,
+        mustChangePassword,
+      }, role.id);
+
+      await recordAudit(req, { action: "create", entityType: "user", entityId: user.id, entityLabel: user.username, after: user });
+      res.json({ success: true, user: { id: user.id, username: user.username, roleId: user.roleId, role: role.name } });
+    } catch (error) {
+      console.error("Create user error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update user password (protected)
+  const updatePasswordSchema = z.object({
+    password: z.string().min(1, "Password is required"),
+    mustChangePassword: z.boolean().default(true),
+  });
+
+  app.patch("/api/users/:id/password", rejectApiToken, requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const parseResult = updatePasswordSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors 
+        });
+      }
+
+      const { password, mustChangePassword } = parseResult.data;
+
+      // Check if user exists
+      const existingUser = await storage.getUser(id);
+      if (!existingUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const problems = validateNewPassword(password, existingUser.username);
+      if (problems.length > 0) {
+        return res.status(400).json({ error: "Invalid input", details: { password: problems } });
+      }
+
+      // Nobody needs to be made to replace a password they just chose themselves
+      const hashedPassword = await bcrypt.hash(password, SALT_ROUNDS);
+      const user = await storage.updateUserPassword(id, hashedPassword, mustChangePassword && id !== requestActor(req).userId);
+
+      if (!user) {
+        return res.status(500).json({ error: "Failed to update password" });
+      }
+      await storage.deleteUserSessions(user.id, req.sessionID);
+
+      await recordAudit(req, { action: "update", entityType: "user", entityId: user.id, entityLabel: user.username, before: existingUser, after: user });
+      res.json({ success: true, user: { id: user.id, username: user.username } });
+    } catch (error) {
+      console.error("Update password error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Change a user's role
+  app.patch("/api/users/:id/role", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const parseResult = updateUserRoleSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      // Prevent locking yourself out of user management
+      if (id === requestActor(req).userId) {
+        return res.status(400).json({ error: "Cannot change your own role" });
+      }
+
+      const existingUser = await storage.getUser(id);
+      if (!existingUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const role = await storage.getRole(parseResult.data.roleId);
+      if (!role) {
+        return res.status(400).json({ error: "Invalid input", details: { roleId: ["Unknown role"] } });
+      }
+
+      const user = await storage.updateUserRole(id, role.id);
+      if (!user) {
+        return res.status(500).json({ error: "Failed to update role" });
+      }
+
+      const previousRole = existingUser.roleId ? await storage.getRole(existingUser.roleId) : undefined;
+      await recordAudit(req, {
+        action: "update",
+        entityType: "user",
+        entityId: user.id,
+        entityLabel: user.username,
+        before: { role: previousRole?.name ?? null },
+        after: { role: role.name },
+      });
+      res.json({ success: true, user: { id: user.id, username: user.username, roleId: user.roleId, role: role.name } });
+    } catch (error) {
+      console.error("Update user role error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Turn off a user's 2FA, e.g. after they lost their phone and recovery
+  // codes; if their role requires it they enroll again at next sign-in
+  app.delete("/api/users/:id/2fa", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const existingUser = await storage.getUser(req.params.id);
+      if (!existingUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (!existingUser.totpEnabledAt) {
+        return res.status(400).json({ error: "Two-factor authentication is already off" });
+      }
+
+      await storage.updateUserTwoFactor(existingUser.id, { totpSecret: null, totpEnabledAt: null, totpLastCounter: null, recoveryCodes: [] });
+      await recordAudit(req, {
+        action: "update",
+        entityType: "user",
+        entityId: existingUser.id,
+        entityLabel: existingUser.username,
+        before: { twoFactor: "on" },
+        after: { twoFactor: "off" },
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Reset two-factor error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Signs a user out everywhere; an admin doing this to themselves keeps the
+  // session they are using
+  app.delete("/api/users/:id/sessions", rejectApiToken, requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const existingUser = await storage.getUser(id);
+      if (!existingUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const ended = await storage.deleteUserSessions(id, id === req.session.userId ? req.sessionID : undefined);
+      await recordAudit(req, {
+        action: "logout",
+        entityType: "user",
+        entityId: id,
+        entityLabel: existingUser.username,
+        after: { sessionsEnded: ended },
+      });
+      res.json({ success: true, ended });
+    } catch (error) {
+      console.error("Force logout error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Delete user
+  app.delete("/api/users/:id", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      // Prevent deleting own account
+      if (id === requestActor(req).userId) {
+        return res.status(400).json({ error: "Cannot delete your own account" });
+      }
+
+      // Check if user exists
+      const existingUser = await storage.getUser(id);
+      if (!existingUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const deleted = await storage.deleteUser(id);
+      if (!deleted) {
+        return res.status(500).json({ error: "Failed to delete user" });
+      }
+      await storage.deleteUserSessions(id);
+
+      await recordAudit(req, { action: "delete", entityType: "user", entityId: id, entityLabel: existingUser.username, before: existingUser });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete user error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ SIGN-IN PROTECTION ROUTES ============
+
+  // Usernames and client addresses currently refused sign-in
+  app.get("/api/login-lockouts", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    res.json(getLoginLockouts());
+  });
+
+  // Most recent failed sign-ins, from the audit log
+  app.get("/api/login-failures", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const { events } = await storage.getAuditEvents({ action: "login_failed", limit: 20, offset: 0 });
+      res.json(events);
+    } catch (error) {
+      console.error("Get login failures error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Lifts a lockout early, e.g. for a user who mistyped their password
+  app.delete("/api/login-lockouts/:kind/:value", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const kind = z.enum(loginThrottleKinds).safeParse(req.params.kind);
+      if (!kind.success) {
+        return res.status(400).json({ error: "Invalid lockout kind" });
+      }
+      if (!unlockLogin(kind.data, req.params.value)) {
+        return res.status(404).json({ error: "Lockout not found" });
+      }
+
+      await recordAudit(req, {
+        action: "unlock",
+        entityType: "login_lockout",
+        entityLabel: req.params.value,
+        before: { kind: kind.data, value: req.params.value },
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Unlock login error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ ROLE ROUTES ============
+
+  app.get("/api/roles", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getRoles());
+    } catch (error) {
+      console.error("Get roles error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/roles", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = insertRoleSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      if (await storage.getRoleByName(parseResult.data.name)) {
+        return res.status(409).json({ error: "A role with that name already exists" });
+      }
+
+      const role = await storage.createRole(parseResult.data);
+      await recordAudit(req, { action: "create", entityType: "role", entityId: role.id, entityLabel: role.name, after: role });
+      res.json({ success: true, role });
+    } catch (error) {
+      console.error("Create role error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/roles/:id", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = updateRoleSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const existing = await storage.getRole(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Role not found" });
+      }
+
+      const updates = parseResult.data;
+      if (updates.name !== undefined && updates.name !== existing.name) {
+        if (existing.builtIn) {
+          return res.status(400).json({ error: "Built-in roles cannot be renamed" });
+        }
+        if (await storage.getRoleByName(updates.name)) {
+          return res.status(409).json({ error: "A role with that name already exists" });
+        }
+      }
+      // Someone must always be able to manage users and roles
+      if (existing.name === ADMIN_ROLE && updates.permissions !== undefined) {
+        return res.status(400).json({ error: "The admin role always has every permission" });
+      }
+
+      const role = await storage.updateRole(existing.id, updates);
+      await recordAudit(req, { action: "update", entityType: "role", entityId: existing.id, entityLabel: role?.name, before: existing, after: role });
+      res.json({ success: true, role });
+    } catch (error) {
+      console.error("Update role error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/roles/:id", requirePermission("users:manage"), async (req: Request, res: Response) => {
+    try {
+      const role = (await storage.getRoles()).find((candidate) => candidate.id === req.params.id);
+      if (!role) {
+        return res.status(404).json({ error: "Role not found" });
+      }
+      if (role.builtIn) {
+        return res.status(400).json({ error: "Built-in roles cannot be deleted" });
+      }
+      if (role.userCount > 0) {
+        return res.status(409).json({
+          error: `Role is assigned to ${role.userCount} user(s); move them to another role first`,
+        });
+      }
+
+      await storage.deleteRole(role.id);
+      const { userCount, ...deletedRole } = role;
+      await recordAudit(req, { action: "delete", entityType: "role", entityId: role.id, entityLabel: role.name, before: deletedRole });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete role error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ DEVICE MANAGEMENT ROUTES ============
+
+  // Get all devices (authenticated users)
+  app.get("/api/devices", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const devices = await storage.getAllDevices();
+      res.json(attachTags(devices, await storage.getItemTags("device")));
+    } catch (error) {
+      console.error("Get devices error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get single device (authenticated users)
+  app.get("/api/devices/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const device = await storage.getDevice(id);
+      if (!device) {
+        return res.status(404).json({ error: "Device not found" });
+      }
+      const [tagged] = attachTags([device], await storage.getItemTags("device", [device.id]));
+      res.json(tagged);
+    } catch (error) {
+      console.error("Get device error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get device availability history (authenticated users)
+  app.get("/api/devices/:id/availability", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const device = await storage.getDevice(id);
+      if (!device) {
+        return res.status(404).json({ error: "Device not found" });
+      }
+      const availability = await getDeviceAvailability(id);
+      res.json(availability);
+    } catch (error) {
+      console.error("Get device availability error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create device
+  app.post("/api/devices", requirePermission("devices:write"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = insertDeviceSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      if (!(await isKnownCategory("device", parseResult.data.deviceType))) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: { deviceType: ["Unknown device type"] },
+        });
+      }
+
+      const device = await storage.createDevice(parseResult.data);
+      await recordAudit(req, { action: "create", entityType: "device", entityId: device.id, entityLabel: device.name, after: await withTags("device", device) });
+      res.json({ success: true, device });
+    } catch (error) {
+      console.error("Create device error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update device
+  app.patch("/api/devices/:id", requirePermission("devices:write"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      // Allow partial updates
+      const partialSchema = insertDeviceSchema.partial();
+      const parseResult = partialSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const existingDevice = await withTags("device", await storage.getDevice(id));
+      if (!existingDevice) {
+        return res.status(404).json({ error: "Device not found" });
+      }
+      if (!(await isKnownCategory("device", parseResult.data.deviceType))) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: { deviceType: ["Unknown device type"] },
+        });
+      }
+
+      const device = await storage.updateDevice(id, parseResult.data);
+      await recordAudit(req, { action: "update", entityType: "device", entityId: id, entityLabel: device?.name, before: existingDevice, after: await withTags("device", device) });
+      res.json({ success: true, device });
+    } catch (error) {
+      console.error("Update device error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Delete device
+  app.delete("/api/devices/:id", requirePermission("devices:write"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const existingDevice = await withTags("device", await storage.getDevice(id));
+      if (!existingDevice) {
+        return res.status(404).json({ error: "Device not found" });
+      }
+
+      const deleted = await storage.deleteDevice(id);
+      if (!deleted) {
+        return res.status(500).json({ error: "Failed to delete device" });
+      }
+
+      await recordAudit(req, { action: "delete", entityType: "device", entityId: id, entityLabel: existingDevice.name, before: existingDevice });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete device error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ DEVICE CHECK ROUTES ============
+
+  // Get checks for a device (authenticated users)
+  app.get("/api/devices/:id/checks", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const device = await storage.getDevice(id);
+      if (!device) {
+        return res.status(404).json({ error: "Device not found" });
+      }
+      const checks = await storage.getDeviceChecks(id);
+      res.json(checks);
+    } catch (error) {
+      console.error("Get device checks error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create check for a device
+  app.post("/api/devices/:id/checks", requirePermission("devices:write"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const parseResult = insertDeviceCheckSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const device = await storage.getDevice(id);
+      if (!device) {
+        return res.status(404).json({ error: "Device not found" });
+      }
+
+      const check = await storage.createDeviceCheck(id, parseResult.data);
+      await recordAudit(req, { action: "create", entityType: "device_check", entityId: check.id, entityLabel: `${device.name}: ${check.name || check.type}`, after: check });
+      res.json({ success: true, check });
+    } catch (error) {
+      console.error("Create device check error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update check
+  const updateDeviceCheckSchema = deviceCheckSettingsSchema.partial().extend({
+    type: z.enum(checkTypes).optional(),
+    config: z.record(z.unknown()).optional(),
+  });
+
+  app.patch("/api/devices/:id/checks/:checkId", requirePermission("devices:write"), async (req: Request, res: Response) => {
+    try {
+      const { id, checkId } = req.params;
+
+      const parseResult = updateDeviceCheckSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const existingCheck = await storage.getDeviceCheck(checkId);
+      if (!existingCheck || existingCheck.deviceId !== id) {
+        return res.status(404).json({ error: "Check not found" });
+      }
+
+      // Type and config are validated together against the merged definition
+      const { type, config, ...settings } = parseResult.data;
+      const updates: Partial<DeviceCheck> = { ...settings };
+      if (type !== undefined || config !== undefined) {
+        const definitionResult = deviceCheckConfigSchema.safeParse({
+          type: type ?? existingCheck.type,
+          config: config ?? existingCheck.config,
+        });
+        if (!definitionResult.success) {
+          return res.status(400).json({
+            error: "Invalid input",
+            details: definitionResult.error.flatten().fieldErrors,
+          });
+        }
+        Object.assign(updates, definitionResult.data, { status: "unknown", lastMessage: null });
+      }
+
+      const check = await storage.updateDeviceCheck(checkId, updates);
+      await recordAudit(req, { action: "update", entityType: "device_check", entityId: checkId, entityLabel: check?.name || check?.type, before: existingCheck, after: check });
+      res.json({ success: true, check });
+    } catch (error) {
+      console.error("Update device check error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Delete check
+  app.delete("/api/devices/:id/checks/:checkId", requirePermission("devices:write"), async (req: Request, res: Response) => {
+    try {
+      const { id, checkId } = req.params;
+
+      const existingCheck = await storage.getDeviceCheck(checkId);
+      if (!existingCheck || existingCheck.deviceId !== id) {
+        return res.status(404).json({ error: "Check not found" });
+      }
+
+      const deleted = await storage.deleteDeviceCheck(checkId);
+      if (!deleted) {
+        return res.status(500).json({ error: "Failed to delete check" });
+      }
+
+      await recordAudit(req, { action: "delete", entityType: "device_check", entityId: checkId, entityLabel: existingCheck.name || existingCheck.type, before: existingCheck });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete device check error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ NETWORK DISCOVERY ROUTES ============
+
+  // List recent discovery scans
+  app.get("/api/discovery/scans", requirePermission("discovery:manage"), async (req: Request, res: Response) => {
+    try {
+      const scans = await storage.getRecentNetworkScans(10);
+      res.json(scans);
+    } catch (error) {
+      console.error("Get network scans error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Start a discovery scan of a subnet; runs in the background
+  app.post("/api/discovery/scans", requirePermission("discovery:manage"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = startNetworkScanSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      if (isScanRunning()) {
+        return res.status(409).json({ error: "A network scan is already running" });
+      }
+
+      const scan = await startNetworkScan(parseResult.data.cidr, requestActor(req).userId || null);
+      await recordAudit(req, { action: "run", entityType: "discovery_scan", entityId: scan.id, entityLabel: scan.cidr });
+      res.status(202).json({ success: true, scan });
+    } catch (error) {
+      if (error instanceof CidrError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Start network scan error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // List discovered hosts; defaults to the review queue
+  const discoveredHostQuerySchema = z.object({
+    status: z.enum(discoveredHostStatuses).default("new"),
+  });
+
+  app.get("/api/discovery/hosts", requirePermission("discovery:manage"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = discoveredHostQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const hosts = await storage.getDiscoveredHosts(parseResult.data.status);
+      res.json(hosts);
+    } catch (error) {
+      console.error("Get discovered hosts error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Accept a discovered host into the device inventory
+  app.post("/api/discovery/hosts/:id/accept", requirePermission("discovery:manage"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const parseResult = acceptDiscoveredHostSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const host = await storage.getDiscoveredHost(id);
+      if (!host) {
+        return res.status(404).json({ error: "Discovered host not found" });
+      }
+      if (host.status === "accepted") {
+        return res.status(409).json({ error: "Host has already been accepted" });
+      }
+
+      const deviceResult = insertDeviceSchema.safeParse({
+        name: parseResult.data.name || host.hostname || host.ipAddress,
+        ipAddress: host.ipAddress,
+        macAddress: host.macAddress || "",
+        deviceType: parseResult.data.deviceType || "other",
+        description: host.vendor,
+      });
+      if (!deviceResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: deviceResult.error.flatten().fieldErrors,
+        });
+      }
+      if (!(await isKnownCategory("device", deviceResult.data.deviceType))) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: { deviceType: ["Unknown device type"] },
+        });
+      }
+
+      const device = await storage.createDevice(deviceResult.data);
+      const accepted = await storage.updateDiscoveredHost(id, { status: "accepted", deviceId: device.id });
+      await recordAudit(req, { action: "accept", entityType: "discovered_host", entityId: id, entityLabel: host.ipAddress, before: host, after: accepted });
+      await recordAudit(req, { action: "create", entityType: "device", entityId: device.id, entityLabel: device.name, after: device });
+      res.json({ success: true, device });
+    } catch (error) {
+      console.error("Accept discovered host error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Ignore a discovered host so re-scans keep it out of the review queue
+  app.post("/api/discovery/hosts/:id/ignore", requirePermission("discovery:manage"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const existingHost = await storage.getDiscoveredHost(id);
+      if (!existingHost) {
+        return res.status(404).json({ error: "Discovered host not found" });
+      }
+
+      const host = await storage.updateDiscoveredHost(id, { status: "ignored" });
+      await recordAudit(req, { action: "ignore", entityType: "discovered_host", entityId: id, entityLabel: existingHost.ipAddress, before: existingHost, after: host });
+      res.json({ success: true, host });
+    } catch (error) {
+      console.error("Ignore discovered host error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ SCRIPT MANAGEMENT ROUTES ============
+
+  // Get all scripts (authenticated users)
+  app.get("/api/scripts", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const scripts = await storage.getAllScripts();
+      res.json(attachTags(scripts, await storage.getItemTags("script")));
+    } catch (error) {
+      console.error("Get scripts error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get single script (authenticated users)
+  app.get("/api/scripts/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const script = await storage.getScript(id);
+      if (!script) {
+        return res.status(404).json({ error: "Script not found" });
+      }
+      const [tagged] = attachTags([script], await storage.getItemTags("script", [script.id]));
+      res.json(tagged);
+    } catch (error) {
+      console.error("Get script error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create script
+  app.post("/api/scripts", requirePermission("scripts:write"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = insertScriptSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      if (!(await isKnownCategory("script", parseResult.data.category))) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: { category: ["Unknown category"] },
+        });
+      }
+
+      const script = await storage.createScript(parseResult.data, requestActor(req).username || null);
+      await recordAudit(req, { action: "create", entityType: "script", entityId: script.id, entityLabel: script.name, after: await withTags("script", script) });
+      res.json({ success: true, script });
+    } catch (error) {
+      console.error("Create script error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update script
+  app.patch("/api/scripts/:id", requirePermission("scripts:write"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const partialSchema = scriptBaseSchema.partial();
+      const parseResult = partialSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const existingScript = await withTags("script", await storage.getScript(id));
+      if (!existingScript) {
+        return res.status(404).json({ error: "Script not found" });
+      }
+
+      // Validate the merged script so placeholders and parameter definitions stay in sync
+      const scheduledError = await checkScheduledScriptChange(req, existingScript, parseResult.data);
+      if (scheduledError) {
+        return res.status(403).json({ error: scheduledError });
+      }
+
+      const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...current } = existingScript;
+      const mergedResult = insertScriptSchema.safeParse({ ...current, ...parseResult.data });
+      if (!mergedResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: mergedResult.error.flatten().fieldErrors,
+        });
+      }
+
+      if (!(await isKnownCategory("script", mergedResult.data.category))) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: { category: ["Unknown category"] },
+        });
+      }
+
+      const script = await storage.updateScript(id, mergedResult.data, requestActor(req).username || null);
+      await recordAudit(req, { action: "update", entityType: "script", entityId: id, entityLabel: script?.name, before: existingScript, after: await withTags("script", script) });
+      res.json({ success: true, script });
+    } catch (error) {
+      console.error("Update script error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // List a script's revisions, newest first (authenticated users)
+  app.get("/api/scripts/:id/revisions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const script = await storage.getScript(req.params.id);
+      if (!script) {
+        return res.status(404).json({ error: "Script not found" });
+      }
+
+      const revisions = await storage.getScriptRevisions(script.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Get script revisions error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Restore a script to an earlier revision; this records a new revision
+  app.post("/api/scripts/:id/revisions/:revisionId/restore", requirePermission("scripts:write"), async (req: Request, res: Response) => {
+    try {
+      const { id, revisionId } = req.params;
+
+      const revision = await storage.getScriptRevision(revisionId);
+      if (!revision || revision.scriptId !== id) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      const existingScript = await storage.getScript(id);
+      if (!existingScript) {
+        return res.status(404).json({ error: "Script not found" });
+      }
+      const scheduledError = await checkScheduledScriptChange(req, existingScript, revision);
+      if (scheduledError) {
+        return res.status(403).json({ error: scheduledError });
+      }
+      if (!(await isKnownCategory("script", revision.category))) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: { category: ["Unknown category"] },
+        });
+      }
+
+      const script = await storage.updateScript(id, {
+        name: revision.name,
+        content: revision.content,
+        category: revision.category,
+        description: revision.description,
+        parameters: revision.parameters,
+      }, requestActor(req).username || null);
+      if (!script) {
+        return res.status(404).json({ error: "Script not found" });
+      }
+
+      await recordAudit(req, { action: "restore", entityType: "script", entityId: id, entityLabel: script.name, before: existingScript, after: script });
+      res.json({ success: true, script });
+    } catch (error) {
+      console.error("Restore script revision error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Delete script
+  app.delete("/api/scripts/:id", requirePermission("scripts:write"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const existingScript = await withTags("script", await storage.getScript(id));
+      if (!existingScript) {
+        return res.status(404).json({ error: "Script not found" });
+      }
+
+      const deleted = await storage.deleteScript(id);
+      if (!deleted) {
+        return res.status(500).json({ error: "Failed to delete script" });
+      }
+
+      await recordAudit(req, { action: "delete", entityType: "script", entityId: id, entityLabel: existingScript.name, before: existingScript });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete script error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ SSH CREDENTIAL ROUTES ============
+
+  // Secrets never leave the server
+  const toCredentialSummary = ({ secret, passphrase, ...summary }: SshCredential): SshCredentialSummary => summary;
+
+  // List SSH credentials; running a script means picking one
+  app.get("/api/ssh-credentials", requirePermission("credentials:manage", "scripts:run"), async (req: Request, res: Response) => {
+    try {
+      const credentials = await storage.getAllSshCredentials();
+      res.json(credentials.map(toCredentialSummary));
+    } catch (error) {
+      console.error("Get SSH credentials error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create SSH credential
+  app.post("/api/ssh-credentials", requirePermission("credentials:manage"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = insertSshCredentialSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const { secret, passphrase, ...rest } = parseResult.data;
+      const credential = await storage.createSshCredential({
+        ...rest,
+        secret: encryptSecret(secret),
+        passphrase: passphrase ? encryptSecret(passphrase) : null,
+      });
+      await recordAudit(req, { action: "create", entityType: "ssh_credential", entityId: credential.id, entityLabel: credential.name, after: credential });
+      res.json({ success: true, credential: toCredentialSummary(credential) });
+    } catch (error) {
+      console.error("Create SSH credential error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update SSH credential; omitted secrets are kept
+  app.patch("/api/ssh-credentials/:id", requirePermission("credentials:manage"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const parseResult = sshCredentialBaseSchema.partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const existing = await storage.getSshCredential(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Credential not found" });
+      }
+
+      const { secret, passphrase, ...rest } = parseResult.data;
+      if (rest.authMethod && rest.authMethod !== existing.authMethod && !secret) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: { secret: ["A new secret is required when changing the authentication method"] },
+        });
+      }
+      if ((rest.authMethod ?? existing.authMethod) === "key" && secret && !secret.includes("PRIVATE KEY")) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: { secret: ["Paste a PEM/OpenSSH private key"] },
+        });
+      }
+
+      const credential = await storage.updateSshCredential(id, {
+        ...rest,
+        ...(secret ? { secret: encryptSecret(secret) } : {}),
+        ...(passphrase !== undefined ? { passphrase: passphrase ? encryptSecret(passphrase) : null } : {}),
+      });
+      if (!credential) {
+        return res.status(404).json({ error: "Credential not found" });
+      }
+
+      await recordAudit(req, { action: "update", entityType: "ssh_credential", entityId: id, entityLabel: credential.name, before: existing, after: credential });
+      res.json({ success: true, credential: toCredentialSummary(credential) });
+    } catch (error) {
+      console.error("Update SSH credential error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Delete SSH credential
+  app.delete("/api/ssh-credentials/:id", requirePermission("credentials:manage"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const existing = await storage.getSshCredential(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Credential not found" });
+      }
+
+      const deleted = await storage.deleteSshCredential(id);
+      if (!deleted) {
+        return res.status(500).json({ error: "Failed to delete credential" });
+      }
+
+      await recordAudit(req, { action: "delete", entityType: "ssh_credential", entityId: id, entityLabel: existing.name, before: existing });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete SSH credential error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Forget a device's pinned SSH host key, e.g. after reinstalling it
+  app.delete("/api/devices/:id/ssh-host-key", requirePermission("credentials:manage"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const existingDevice = await storage.getDevice(id);
+      if (!existingDevice) {
+        return res.status(404).json({ error: "Device not found" });
+      }
+
+      const device = await storage.updateDeviceSshHostKey(id, null);
+      await recordAudit(req, { action: "update", entityType: "device", entityId: id, entityLabel: existingDevice.name, before: existingDevice, after: device });
+      res.json({ success: true, device });
+    } catch (error) {
+      console.error("Clear SSH host key error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ SCRIPT RUN ROUTES ============
+
+  // Run a script on devices over SSH. dryRun returns the
+  // execution plan without connecting so the caller can confirm it first.
+  app.post("/api/scripts/:id/runs", requirePermission("scripts:run"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const parseResult = runScriptSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const { deviceIds, credentialId, timeoutSeconds, parameters, dryRun } = parseResult.data;
+
+      const script = await storage.getScript(id);
+      if (!script) {
+        return res.status(404).json({ error: "Script not found" });
+      }
+
+      const credential = await storage.getSshCredential(credentialId);
+      if (!credential) {
+        return res.status(404).json({ error: "Credential not found" });
+      }
+
+      const devices: Device[] = [];
+      for (const deviceId of Array.from(new Set(deviceIds))) {
+        const device = await storage.getDevice(deviceId);
+        if (!device) {
+          return res.status(404).json({ error: "Device not found" });
+        }
+        devices.push(device);
+      }
+
+      const parameterDevices = script.parameters.some((parameter) => parameter.type === "device")
+        ? await storage.getAllDevices()
+        : [];
+      const parameterErrors = validateParameterValues(script.parameters, parameters, parameterDevices);
+      if (Object.keys(parameterErrors).length > 0) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: Object.fromEntries(Object.entries(parameterErrors).map(([name, message]) => [name, [message]])),
+        });
+      }
+
+      if (dryRun) {
+        const plan: ScriptRunPlan = {
+          script: {
+            id: script.id,
+            name: script.name,
+            content: renderScript(script.content, script.parameters, parameters, parameterDevices, { maskSecrets: true }),
+          },
+          credential: toCredentialSummary(credential),
+          timeoutSeconds,
+          targets: devices.map((device) => ({
+            deviceId: device.id,
+            name: device.name,
+            host: `${credential.username}@${device.ipAddress}:${credential.port}`,
+            hostKeyPinned: !!device.sshHostKey,
+          })),
+        };
+        return res.json({ success: true, dryRun: true, plan });
+      }
+
+      const content = renderScript(script.content, script.parameters, parameters, parameterDevices);
+      const runs = [];
+      for (const device of devices) {
+        runs.push(await startRemoteRun({
+          script,
+          content,
+          device,
+          credential,
+          timeoutSeconds,
+          triggeredBy: requestActor(req).username || null,
+        }));
+      }
+
+      // Parameter values are left out; secret parameters would end up in the log
+      await recordAudit(req, {
+        action: "run",
+        entityType: "script",
+        entityId: script.id,
+        entityLabel: script.name,
+        after: { devices: devices.map((device) => device.name), credential: credential.name },
+      });
+      res.status(202).json({ success: true, runs });
+    } catch (error) {
+      console.error("Run script error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Recent runs of a script (output may contain sensitive data)
+  app.get("/api/scripts/:id/runs", requirePermission("scripts:run"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const runs = await storage.getScriptRuns(id, 20);
+      res.json(runs);
+    } catch (error) {
+      console.error("Get script runs error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get a single run
+  app.get("/api/script-runs/:id", requirePermission("scripts:run"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const run = await storage.getScriptRun(id);
+      if (!run) {
+        return res.status(404).json({ error: "Script run not found" });
+      }
+
+      res.json(run);
+    } catch (error) {
+      console.error("Get script run error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Stream a run's output as server-sent events. Finished runs
+  // replay their stored output and end immediately.
+  app.get("/api/script-runs/:id/stream", requirePermission("scripts:run"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const run = await storage.getScriptRun(id);
+      if (!run) {
+        return res.status(404).json({ error: "Script run not found" });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+
+      const send = (event: ScriptRunStreamEvent) => {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+        if (event.type === "end") res.end();
+      };
+
+      const unsubscribe = subscribeToRun(id, send);
+      if (unsubscribe) {
+        req.on("close", unsubscribe);
+        return;
+      }
+
+      // Re-read in case the run finished between the lookup and subscribing
+      const finished = (await storage.getScriptRun(id)) ?? run;
+      if (finished.stdout) send({ type: "output", stream: "stdout", data: finished.stdout });
+      if (finished.stderr) send({ type: "output", stream: "stderr", data: finished.stderr });
+      send({ type: "end", run: finished });
+    } catch (error) {
+      console.error("Stream script run error:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Internal server error" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  // ============ SCRIPT JOB ROUTES ============
+
+  // List scheduled jobs with their latest result (authenticated users)
+  app.get("/api/script-jobs", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const jobs = await storage.getAllScriptJobs();
+      const latestRuns = await storage.getLatestScriptJobRuns();
+      const result: ScriptJobWithLastRun[] = jobs.map((job) => ({
+        ...job,
+        lastRun: latestRuns.get(job.id) ?? null,
+      }));
+      res.json(result);
+    } catch (error) {
+      console.error("Get script jobs error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create scheduled job
+  app.post("/api/script-jobs", requirePermission("jobs:manage"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = insertScriptJobSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const cronError = validateCronExpression(parseResult.data.cronExpression);
+      if (cronError) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: { cronExpression: [cronError] },
+        });
+      }
+
+      const script = await storage.getScript(parseResult.data.scriptId);
+      if (!script) {
+        return res.status(404).json({ error: "Script not found" });
+      }
+
+      const rendered = await getScheduledContent(script);
+      if ("error" in rendered) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: { scriptId: [rendered.error] },
+        });
+      }
+
+      const job = await storage.createScriptJob({
+        ...parseResult.data,
+        nextRunAt: parseResult.data.enabled === false ? null : getNextRunAt(parseResult.data.cronExpression),
+      });
+      await recordAudit(req, { action: "create", entityType: "script_job", entityId: job.id, entityLabel: script.name, after: job });
+      res.json({ success: true, job });
+    } catch (error) {
+      console.error("Create script job error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update scheduled job
+  app.patch("/api/script-jobs/:id", requirePermission("jobs:manage"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const parseResult = insertScriptJobSchema.omit({ scriptId: true }).partial().safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const existing = await storage.getScriptJob(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Script job not found" });
+      }
+
+      const cronExpression = parseResult.data.cronExpression ?? existing.cronExpression;
+      const cronError = validateCronExpression(cronExpression);
+      if (cronError) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: { cronExpression: [cronError] },
+        });
+      }
+
+      const enabled = parseResult.data.enabled ?? existing.enabled;
+      const job = await storage.updateScriptJob(id, {
+        ...parseResult.data,
+        nextRunAt: enabled ? getNextRunAt(cronExpression) : null,
+      });
+
+      const script = await storage.getScript(existing.scriptId);
+      await recordAudit(req, { action: "update", entityType: "script_job", entityId: id, entityLabel: script?.name, before: existing, after: job });
+      res.json({ success: true, job });
+    } catch (error) {
+      console.error("Update script job error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Delete scheduled job and its run history
+  app.delete("/api/script-jobs/:id", requirePermission("jobs:manage"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const existing = await storage.getScriptJob(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Script job not found" });
+      }
+
+      const deleted = await storage.deleteScriptJob(id);
+      if (!deleted) {
+        return res.status(500).json({ error: "Failed to delete script job" });
+      }
+
+      const script = await storage.getScript(existing.scriptId);
+      await recordAudit(req, { action: "delete", entityType: "script_job", entityId: id, entityLabel: script?.name, before: existing });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete script job error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Run a job immediately; the overlap policy still applies
+  app.post("/api/script-jobs/:id/run", requirePermission("jobs:manage"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const job = await storage.getScriptJob(id);
+      if (!job) {
+        return res.status(404).json({ error: "Script job not found" });
+      }
+
+      const result = await runJob(job, requestActor(req).username || "admin");
+      if (result.status === "missing_script") {
+        return res.status(404).json({ error: "The job's script no longer exists" });
+      }
+      if (result.status === "skipped") {
+        return res.status(409).json({ error: "Job is already running; this run was skipped" });
+      }
+
+      const script = await storage.getScript(job.scriptId);
+      await recordAudit(req, { action: "run", entityType: "script_job", entityId: id, entityLabel: script?.name });
+      if (result.status === "queued") {
+        return res.status(202).json({ success: true, queued: true });
+      }
+      res.status(202).json({ success: true, run: result.run });
+    } catch (error) {
+      console.error("Run script job error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Run history of a job (output may contain sensitive data)
+  app.get("/api/script-jobs/:id/runs", requirePermission("jobs:manage"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const job = await storage.getScriptJob(id);
+      if (!job) {
+        return res.status(404).json({ error: "Script job not found" });
+      }
+
+      const runs = await storage.getScriptJobRuns(id, job.historyLimit);
+      res.json(runs);
+    } catch (error) {
+      console.error("Get script job runs error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ SEARCH ROUTES ============
+
+  // Full-text search across devices, scripts and notes (authenticated users)
+  app.get("/api/search", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parseResult = searchQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const { q, types, limit } = parseResult.data;
+      const results = await search(q, types, limit);
+      res.json(results);
+    } catch (error) {
+      console.error("Search error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // ============ NOTES MANAGEMENT ROUTES ============
+
+  // Get all notes (authenticated users)
+  app.get("/api/notes", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const notes = await storage.getAllNotes();
+      res.json(attachTags(notes, await storage.getItemTags("note")));
+    } catch (error) {
+      console.error("Get notes error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Get single note (authenticated users)
+  app.get("/api/notes/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const note = await storage.getNote(id);
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+      const [tagged] = attachTags([note], await storage.getItemTags("note", [note.id]));
+      res.json(tagged);
+    } catch (error) {
+      console.error("Get note error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create note
+  app.post("/api/notes", requirePermission("notes:write"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = insertNoteSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      if (!(await isKnownCategory("note", parseResult.data.category))) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: { category: ["Unknown category"] },
+        });
+      }
+
+      const note = await storage.createNote(parseResult.data, requestActor(req).username || null);
+      await recordAudit(req, { action: "create", entityType: "note", entityId: note.id, entityLabel: note.title, after: await withTags("note", note) });
+      res.json({ success: true, note });
+    } catch (error) {
+      console.error("Create note error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Update note
+  app.patch("/api/notes/:id", requirePermission("notes:write"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const partialSchema = insertNoteSchema.partial();
+      const parseResult = partialSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const existingNote = await withTags("note", await storage.getNote(id));
+      if (!existingNote) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+      if (!(await isKnownCategory("note", parseResult.data.category))) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: { category: ["Unknown category"] },
+        });
+      }
+
+      const note = await storage.updateNote(id, parseResult.data, requestActor(req).username || null);
+      await recordAudit(req, { action: "update", entityType: "note", entityId: id, entityLabel: note?.title, before: existingNote, after: await withTags("note", note) });
+      res.json({ success: true, note });
+    } catch (error) {
+      console.error("Update note error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // List a note's revisions, newest first (authenticated users)
+  app.get("/api/notes/:id/revisions", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const note = await storage.getNote(req.params.id);
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+
+      const revisions = await storage.getNoteRevisions(note.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Get note revisions error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Restore a note to an earlier revision; this records a new revision
+  app.post("/api/notes/:id/revisions/:revisionId/restore", requirePermission("notes:write"), async (req: Request, res: Response) => {
+    try {
+      const { id, revisionId } = req.params;
+
+      const revision = await storage.getNoteRevision(revisionId);
+      if (!revision || revision.noteId !== id) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      const existingNote = await storage.getNote(id);
+      if (!(await isKnownCategory("note", revision.category))) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: { category: ["Unknown category"] },
+        });
+      }
+
+      const note = await storage.updateNote(id, {
+        title: revision.title,
+        content: revision.content,
+        category: revision.category,
+      }, requestActor(req).username || null);
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+
+      await recordAudit(req, { action: "restore", entityType: "note", entityId: id, entityLabel: note.title, before: existingNote, after: note });
+      res.json({ success: true, note });
+    } catch (error) {
+      console.error("Restore note revision error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  const toAttachmentSummary = ({ storedName: _storedName, ...attachment }: NoteAttachment): NoteAttachmentSummary => ({
+    ...attachment,
+    markdown: attachmentMarkdown(attachment),
+  });
+
+  // List a note's attachments (authenticated users)
+  app.get("/api/notes/:id/attachments", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const note = await storage.getNote(req.params.id);
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+
+      const attachments = await storage.getNoteAttachments(note.id);
+      res.json(attachments.map(toAttachmentSummary));
+    } catch (error) {
+      console.error("Get note attachments error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Upload a file to a note as multipart field "file"
+  app.post("/api/notes/:id/attachments", requirePermission("notes:write"), async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const note = await storage.getNote(req.params.id);
+      if (!note) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+      next();
+    } catch (error) {
+      console.error("Upload attachment error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }, (req: Request, res: Response, next: NextFunction) => {
+    attachmentUpload.single("file")(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return res.status(400).json({
+          error: error.code === "LIMIT_FILE_SIZE"
+            ? `File is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`
+            : error.message,
+        });
+      }
+      if (error) {
+        console.error("Upload attachment error:", error);
+        return res.status(500).json({ error: "Internal server error" });
+      }
+      next();
+    });
+  }, async (req: Request, res: Response) => {
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ error: "Invalid input", details: { file: ["A file is required"] } });
+    }
+
+    try {
+      const attachment = await storage.createNoteAttachment({
+        noteId: req.params.id,
+        fileName: file.originalname.slice(0, 255),
+        storedName: file.filename,
+        mimeType: file.mimetype || "application/octet-stream",
+        size: file.size,
+        uploadedBy: requestActor(req).username || null,
+      });
+      await recordAudit(req, { action: "create", entityType: "attachment", entityId: attachment.id, entityLabel: attachment.fileName, after: attachment });
+      res.json({ success: true, attachment: toAttachmentSummary(attachment) });
+    } catch (error) {
+      await removeAttachmentFile(file.filename);
+      console.error("Upload attachment error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Download an attachment (authenticated users)
+  app.get("/api/attachments/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const attachment = await storage.getNoteAttachment(req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+
+      const inline = isInlineMimeType(attachment.mimeType);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Content-Security-Policy", "default-src 'none'");
+      res.setHeader("Content-Type", inline ? attachment.mimeType : "application/octet-stream");
+      res.setHeader("Content-Disposition", `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+      res.sendFile(attachmentPath(attachment.storedName), (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ error: "Attachment file is missing" });
+        }
+      });
+    } catch (error) {
+      console.error("Get attachment error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Delete an attachment and its file
+  app.delete("/api/attachments/:id", requirePermission("notes:write"), async (req: Request, res: Response) => {
+    try {
+      const attachment = await storage.getNoteAttachment(req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+
+      await storage.deleteNoteAttachment(attachment.id);
+      await removeAttachmentFile(attachment.storedName);
+      await recordAudit(req, { action: "delete", entityType: "attachment", entityId: attachment.id, entityLabel: attachment.fileName, before: attachment });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete attachment error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Notes linking to each device or script, keyed by entity id (authenticated users)
+  app.get("/api/backlinks/:type", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const type = req.params.type as WikiLinkType;
+      if (!wikiLinkTypes.includes(type)) {
+        return res.status(404).json({ error: "Unknown link type" });
+      }
+
+      const entities: { id: string; name: string }[] = type === "device"
+        ? await storage.getAllDevices()
+        : await storage.getAllScripts();
+      const backlinks: NoteBacklinks = {};
+      for (const note of await storage.getNotesContaining(`[[${type}:`)) {
+        const linked = new Set<string>();
+        for (const link of findWikiLinks(note.content)) {
+          const entity = link.type === type ? resolveWikiLink(link.ref, entities) : undefined;
+          if (entity && !linked.has(entity.id)) {
+            linked.add(entity.id);
+            (backlinks[entity.id] ??= []).push({ noteId: note.id, title: note.title });
+          }
+        }
+      }
+
+      res.json(backlinks);
+    } catch (error) {
+      console.error("Get backlinks error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Delete note
+  app.delete("/api/notes/:id", requirePermission("notes:write"), async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const existingNote = await withTags("note", await storage.getNote(id));
+      if (!existingNote) {
+        return res.status(404).json({ error: "Note not found" });
+      }
+
+      const attachments = await storage.getNoteAttachments(id);
+      const deleted = await storage.deleteNote(id);
+      if (!deleted) {
+        return res.status(500).json({ error: "Failed to delete note" });
+      }
+      for (const attachment of attachments) {
+        await removeAttachmentFile(attachment.storedName);
+      }
+
+      await recordAudit(req, { action: "delete", entityType: "note", entityId: id, entityLabel: existingNote.title, before: existingNote });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete note error:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // System status route (protected)
-  app.get("/api/system/status", requireAuth, (req: Request, res: Response) => {
-    const status = getSystemStatus();
-    res.json(status);
-  });
+  // ============ CATEGORY AND TAG ROUTES ============
 
-  // ============ USER MANAGEMENT ROUTES ============
+  const categoryListQuerySchema = z.object({
+    scope: z.enum(categoryScopes).optional(),
+  });
 
-  // Get all users (admin only)
-  app.get("/api/users", requireAdmin, async (req: Request, res: Response) => {
+  // List categories with how many items use each; scope=device|script|note narrows it (authenticated users)
+  app.get("/api/categories", requireAuth, async (req: Request, res: Response) => {
     try {
-      const users = await storage.getAllUsers();
-      // Return users without passwords
-      const safeUsers = users.map(u => ({ id: u.id, username: u.username, role: u.role }));
-      res.json(safeUsers);
+      const parseResult = categoryListQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const categories = await storage.getCategories(parseResult.data.scope);
+      res.json(categories);
     } catch (error) {
-      console.error("Get users error:", error);
+      console.error("Get categories error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Create new user (protected)
-  const createUserSchema = z.object({
-    username: z.string().min(3, "Username must be at least 3 characters"),
-    password: z.string().min(6, "Password must be at least 6 characters"),
+  // Create category
+  app.post("/api/categories", requirePermission("categories:manage"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = insertCategorySchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const slug = slugify(parseResult.data.name);
+      if (await storage.getCategoryBySlug(parseResult.data.scope, slug)) {
+        return res.status(409).json({ error: "A category with this name already exists" });
+      }
+
+      const category = await storage.createCategory({ ...parseResult.data, slug });
+      await recordAudit(req, { action: "create", entityType: "category", entityId: category.id, entityLabel: category.name, after: category });
+      res.json({ success: true, category });
+    } catch (error) {
+      console.error("Create category error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
   });
 
-  app.post("/api/users", requireAdmin, async (req: Request, res: Response) => {
+  // Update a category's name, icon or colour; its slug stays the same
+  app.patch("/api/categories/:id", requirePermission("categories:manage"), async (req: Request, res: Response) => {
     try {
-      const parseResult = createUserSchema.safeParse(req.body);
+      const parseResult = updateCategorySchema.safeParse(req.body);
       if (!parseResult.success) {
-        return res.status(400).json({ 
+        return res.status(400).json({
           error: "Invalid input",
-          details: parseResult.error.flatten().fieldErrors 
+          details: parseResult.error.flatten().fieldErrors,
         });
       }
 
-      const { username, password } = parseResult.data;
+      const existing = await storage.getCategory(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Category not found" });
+      }
 
-      // Check if username already exists
-      const existingUser = await storage.getUserByUsername(username);
-      if (existingUser) {
-        return res.status(400).json({ error: "Username already exists" });
+      const category = await storage.updateCategory(existing.id, parseResult.data);
+      await recordAudit(req, { action: "update", entityType: "category", entityId: existing.id, entityLabel: category?.name, before: existing, after: category });
+      res.json({ success: true, category });
+    } catch (error) {
+      console.error("Update category error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Delete a category that no item uses
+  app.delete("/api/categories/:id", requirePermission("categories:manage"), async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getCategory(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Category not found" });
       }
 
-      const hashedPassword = await bcrypt.hash(password, SALT_ROUNDS);
-      const user = await storage.createUser({
-        username,
-        password: hashedPassword,
-      });
+      const usage = (await storage.getCategories(existing.scope as CategoryScope))
+        .find((category) => category.id === existing.id);
+      if (usage && usage.itemCount > 0) {
+        return res.status(409).json({
+          error: `Category is used by ${usage.itemCount} item${usage.itemCount === 1 ? "" : "s"}; move them to another category first`,
+        });
+      }
 
-      res.json({ success: true, user: { id: user.id, username: user.username } });
+      const deleted = await storage.deleteCategory(existing.id);
+      if (!deleted) {
+        return res.status(500).json({ error: "Failed to delete category" });
+      }
+
+      await recordAudit(req, { action: "delete", entityType: "category", entityId: existing.id, entityLabel: existing.name, before: existing });
+      res.json({ success: true });
     } catch (error) {
-      console.error("Create user error:", error);
+      console.error("Delete category error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Update user password (protected)
-  const updatePasswordSchema = z.object({
-    password: z.string().min(6, "Password must be at least 6 characters"),
+  // List tags with per-type usage counts (authenticated users)
+  app.get("/api/tags", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const tags = await storage.getAllTags();
+      res.json(tags);
+    } catch (error) {
+      console.error("Get tags error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
   });
 
-  app.patch("/api/users/:id/password", requireAdmin, async (req: Request, res: Response) => {
+  // Rename a tag everywhere it is used
+  app.patch("/api/tags/:id", requirePermission("categories:manage"), async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-
-      const parseResult = updatePasswordSchema.safeParse(req.body);
+      const parseResult = renameTagSchema.safeParse(req.body);
       if (!parseResult.success) {
-        return res.status(400).json({ 
+        return res.status(400).json({
           error: "Invalid input",
-          details: parseResult.error.flatten().fieldErrors 
+          details: parseResult.error.flatten().fieldErrors,
         });
       }
 
-      const { password } = parseResult.data;
-
-      // Check if user exists
-      const existingUser = await storage.getUser(id);
-      if (!existingUser) {
-        return res.status(404).json({ error: "User not found" });
+      const duplicate = await storage.getTagByName(parseResult.data.name);
+      if (duplicate && duplicate.id !== req.params.id) {
+        return res.status(409).json({ error: "A tag with this name already exists" });
       }
 
-      const hashedPassword = await bcrypt.hash(password, SALT_ROUNDS);
-      const user = await storage.updateUserPassword(id, hashedPassword);
-
-      if (!user) {
-        return res.status(500).json({ error: "Failed to update password" });
+      const existing = await storage.getTag(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Tag not found" });
       }
 
-      res.json({ success: true, user: { id: user.id, username: user.username } });
+      const tag = await storage.renameTag(existing.id, parseResult.data.name);
+      await recordAudit(req, { action: "update", entityType: "tag", entityId: existing.id, entityLabel: tag?.name, before: existing, after: tag });
+      res.json({ success: true, tag });
     } catch (error) {
-      console.error("Update password error:", error);
+      console.error("Rename tag error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Delete user (admin only)
-  app.delete("/api/users/:id", requireAdmin, async (req: Request, res: Response) => {
+  // Delete a tag and remove it from every item
+  app.delete("/api/tags/:id", requirePermission("categories:manage"), async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-
-      // Prevent deleting own account
-      if (id === req.session.userId) {
-        return res.status(400).json({ error: "Cannot delete your own account" });
-      }
-
-      // Check if user exists
-      const existingUser = await storage.getUser(id);
-      if (!existingUser) {
-        return res.status(404).json({ error: "User not found" });
+      const existing = await storage.getTag(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Tag not found" });
       }
 
-      const deleted = await storage.deleteUser(id);
+      const deleted = await storage.deleteTag(existing.id);
       if (!deleted) {
-        return res.status(500).json({ error: "Failed to delete user" });
+        return res.status(500).json({ error: "Failed to delete tag" });
       }
 
+      await recordAudit(req, { action: "delete", entityType: "tag", entityId: existing.id, entityLabel: existing.name, before: existing });
       res.json({ success: true });
     } catch (error) {
-      console.error("Delete user error:", error);
+      console.error("Delete tag error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // ============ DEVICE MANAGEMENT ROUTES ============
+  // ============ ALERTING ROUTES ============
 
-  // Get all devices (authenticated users)
-  app.get("/api/devices", requireAuth, async (req: Request, res: Response) => {
+  // List alerts (authenticated users); state=active for pending/firing, state=history for resolved
+  const alertListQuerySchema = z.object({
+    state: z.enum(["active", "history"]).default("active"),
+    limit: z.coerce.number().int().min(1).max(500).default(100),
+  });
+
+  app.get("/api/alerts", requireAuth, async (req: Request, res: Response) => {
     try {
-      const devices = await storage.getAllDevices();
-      res.json(devices);
+      const parseResult = alertListQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const { state, limit } = parseResult.data;
+      const states = state === "active" ? ["pending", "firing"] : ["resolved"];
+      const alerts = await storage.getAlerts(states, limit);
+      res.json(alerts);
     } catch (error) {
-      console.error("Get devices error:", error);
+      console.error("Get alerts error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Get single device (authenticated users)
-  app.get("/api/devices/:id", requireAuth, async (req: Request, res: Response) => {
+  // Snooze notifications for an alert; minutes=0 clears the snooze
+  const snoozeSchema = z.object({
+    minutes: z.coerce.number().int().min(0).max(7 * 24 * 60),
+  });
+
+  app.post("/api/alerts/:id/snooze", requirePermission("alerts:manage"), async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
-      const device = await storage.getDevice(id);
-      if (!device) {
-        return res.status(404).json({ error: "Device not found" });
+
+      const parseResult = snoozeSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: parseResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const existingAlert = await storage.getAlert(id);
+      if (!existingAlert) {
+        return res.status(404).json({ error: "Alert not found" });
       }
-      res.json(device);
+
+      const { minutes } = parseResult.data;
+      const snoozedUntil = minutes > 0 ? new Date(Date.now() + minutes * 60 * 1000) : null;
+      const alert = await storage.updateAlert(id, { snoozedUntil });
+      await recordAudit(req, { action: "snooze", entityType: "alert", entityId: id, entityLabel: existingAlert.subjectLabel, before: existingAlert, after: alert });
+      res.json({ success: true, alert });
     } catch (error) {
-      console.error("Get device error:", error);
+      console.error("Snooze alert error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Create device (admin only)
-  app.post("/api/devices", requireAdmin, async (req: Request, res: Response) => {
+  // Get all alert rules (authenticated users)
+  app.get("/api/alert-rules", requireAuth, async (req: Request, res: Response) => {
     try {
-      const parseResult = insertDeviceSchema.safeParse(req.body);
+      const rules = await storage.getAllAlertRules();
+      res.json(rules);
+    } catch (error) {
+      console.error("Get alert rules error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create alert rule
+  app.post("/api/alert-rules", requirePermission("alerts:manage"), async (req: Request, res: Response) => {
+    try {
+      const parseResult = insertAlertRuleSchema.safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({
           error: "Invalid input",
@@ -303,21 +3208,21 @@ export async function registerRoutes(
         });
       }
 
-      const device = await storage.createDevice(parseResult.data);
-      res.json({ success: true, device });
+      const rule = await storage.createAlertRule(parseResult.data);
+      await recordAudit(req, { action: "create", entityType: "alert_rule", entityId: rule.id, entityLabel: rule.name, after: rule });
+      res.json({ success: true, rule });
     } catch (error) {
-      console.error("Create device error:", error);
+      console.error("Create alert rule error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Update device (admin only)
-  app.patch("/api/devices/:id", requireAdmin, async (req: Request, res: Response) => {
+  // Update alert rule
+  app.patch("/api/alert-rules/:id", requirePermission("alerts:manage"), async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
 
-      // Allow partial updates
-      const partialSchema = insertDeviceSchema.partial();
+      const partialSchema = alertRuleBaseSchema.partial();
       const parseResult = partialSchema.safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({
@@ -326,73 +3231,68 @@ export async function registerRoutes(
         });
       }
 
-      const existingDevice = await storage.getDevice(id);
-      if (!existingDevice) {
-        return res.status(404).json({ error: "Device not found" });
+      const existingRule = await storage.getAlertRule(id);
+      if (!existingRule) {
+        return res.status(404).json({ error: "Alert rule not found" });
       }
 
-      const device = await storage.updateDevice(id, parseResult.data);
-      res.json({ success: true, device });
+      // Validate the merged rule so target-specific fields stay consistent
+      const { id: _id, createdAt: _createdAt, ...current } = existingRule;
+      const mergedResult = insertAlertRuleSchema.safeParse({ ...current, ...parseResult.data });
+      if (!mergedResult.success) {
+        return res.status(400).json({
+          error: "Invalid input",
+          details: mergedResult.error.flatten().fieldErrors,
+        });
+      }
+
+      const rule = await storage.updateAlertRule(id, mergedResult.data);
+      await recordAudit(req, { action: "update", entityType: "alert_rule", entityId: id, entityLabel: rule?.name, before: existingRule, after: rule });
+      res.json({ success: true, rule });
     } catch (error) {
-      console.error("Update device error:", error);
+      console.error("Update alert rule error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Delete device (admin only)
-  app.delete("/api/devices/:id", requireAdmin, async (req: Request, res: Response) => {
+  // Delete alert rule
+  app.delete("/api/alert-rules/:id", requirePermission("alerts:manage"), async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
 
-      const existingDevice = await storage.getDevice(id);
-      if (!existingDevice) {
-        return res.status(404).json({ error: "Device not found" });
+      const existingRule = await storage.getAlertRule(id);
+      if (!existingRule) {
+        return res.status(404).json({ error: "Alert rule not found" });
       }
 
-      const deleted = await storage.deleteDevice(id);
+      const deleted = await storage.deleteAlertRule(id);
       if (!deleted) {
-        return res.status(500).json({ error: "Failed to delete device" });
+        return res.status(500).json({ error: "Failed to delete alert rule" });
       }
 
+      await recordAudit(req, { action: "delete", entityType: "alert_rule", entityId: id, entityLabel: existingRule.name, before: existingRule });
       res.json({ success: true });
     } catch (error) {
-      console.error("Delete device error:", error);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  });
-
-  // ============ SCRIPT MANAGEMENT ROUTES ============
-
-  // Get all scripts (authenticated users)
-  app.get("/api/scripts", requireAuth, async (req: Request, res: Response) => {
-    try {
-      const scripts = await storage.getAllScripts();
-      res.json(scripts);
-    } catch (error) {
-      console.error("Get scripts error:", error);
+      console.error("Delete alert rule error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Get single script (authenticated users)
-  app.get("/api/scripts/:id", requireAuth, async (req: Request, res: Response) => {
+  // Get all notification channels (configs contain credentials)
+  app.get("/api/alert-channels", requirePermission("alerts:manage"), async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-      const script = await storage.getScript(id);
-      if (!script) {
-        return res.status(404).json({ error: "Script not found" });
-      }
-      res.json(script);
+      const channels = await storage.getAllAlertChannels();
+      res.json(channels);
     } catch (error) {
-      console.error("Get script error:", error);
+      console.error("Get alert channels error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Create script (admin only)
-  app.post("/api/scripts", requireAdmin, async (req: Request, res: Response) => {
+  // Create notification channel
+  app.post("/api/alert-channels", requirePermission("alerts:manage"), async (req: Request, res: Response) => {
     try {
-      const parseResult = insertScriptSchema.safeParse(req.body);
+      const parseResult = insertAlertChannelSchema.safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({
           error: "Invalid input",
@@ -400,21 +3300,26 @@ export async function registerRoutes(
         });
       }
 
-      const script = await storage.createScript(parseResult.data);
-      res.json({ success: true, script });
+      const channel = await storage.createAlertChannel(parseResult.data);
+      await recordAudit(req, { action: "create", entityType: "alert_channel", entityId: channel.id, entityLabel: channel.name, after: channel, redact: ["config"] });
+      res.json({ success: true, channel });
     } catch (error) {
-      console.error("Create script error:", error);
+      console.error("Create alert channel error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Update script (admin only)
-  app.patch("/api/scripts/:id", requireAdmin, async (req: Request, res: Response) => {
+  // Update notification channel
+  const updateAlertChannelSchema = alertChannelSettingsSchema.partial().extend({
+    type: z.enum(alertChannelTypes).optional(),
+    config: z.record(z.unknown()).optional(),
+  });
+
+  app.patch("/api/alert-channels/:id", requirePermission("alerts:manage"), async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
 
-      const partialSchema = insertScriptSchema.partial();
-      const parseResult = partialSchema.safeParse(req.body);
+      const parseResult = updateAlertChannelSchema.safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({
           error: "Invalid input",
@@ -422,73 +3327,99 @@ export async function registerRoutes(
         });
       }
 
-      const existingScript = await storage.getScript(id);
-      if (!existingScript) {
-        return res.status(404).json({ error: "Script not found" });
+      const existingChannel = await storage.getAlertChannel(id);
+      if (!existingChannel) {
+        return res.status(404).json({ error: "Alert channel not found" });
       }
 
-      const script = await storage.updateScript(id, parseResult.data);
-      res.json({ success: true, script });
+      const { type, config, ...settings } = parseResult.data;
+      const updates: Partial<AlertChannel> = { ...settings };
+      if (type !== undefined || config !== undefined) {
+        const definitionResult = alertChannelConfigSchema.safeParse({
+          type: type ?? existingChannel.type,
+          config: config ?? existingChannel.config,
+        });
+        if (!definitionResult.success) {
+          return res.status(400).json({
+            error: "Invalid input",
+            details: definitionResult.error.flatten().fieldErrors,
+          });
+        }
+        Object.assign(updates, definitionResult.data);
+      }
+
+      const channel = await storage.updateAlertChannel(id, updates);
+      await recordAudit(req, { action: "update", entityType: "alert_channel", entityId: id, entityLabel: channel?.name, before: existingChannel, after: channel, redact: ["config"] });
+      res.json({ success: true, channel });
     } catch (error) {
-      console.error("Update script error:", error);
+      console.error("Update alert channel error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Delete script (admin only)
-  app.delete("/api/scripts/:id", requireAdmin, async (req: Request, res: Response) => {
+  // Delete notification channel
+  app.delete("/api/alert-channels/:id", requirePermission("alerts:manage"), async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
 
-      const existingScript = await storage.getScript(id);
-      if (!existingScript) {
-        return res.status(404).json({ error: "Script not found" });
+      const existingChannel = await storage.getAlertChannel(id);
+      if (!existingChannel) {
+        return res.status(404).json({ error: "Alert channel not found" });
       }
 
-      const deleted = await storage.deleteScript(id);
+      const deleted = await storage.deleteAlertChannel(id);
       if (!deleted) {
-        return res.status(500).json({ error: "Failed to delete script" });
+        return res.status(500).json({ error: "Failed to delete alert channel" });
       }
 
+      await recordAudit(req, { action: "delete", entityType: "alert_channel", entityId: id, entityLabel: existingChannel.name, before: existingChannel, redact: ["config"] });
       res.json({ success: true });
     } catch (error) {
-      console.error("Delete script error:", error);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  });
-
-  // ============ NOTES MANAGEMENT ROUTES ============
-
-  // Get all notes (authenticated users)
-  app.get("/api/notes", requireAuth, async (req: Request, res: Response) => {
-    try {
-      const notes = await storage.getAllNotes();
-      res.json(notes);
-    } catch (error) {
-      console.error("Get notes error:", error);
+      console.error("Delete alert channel error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Get single note (authenticated users)
-  app.get("/api/notes/:id", requireAuth, async (req: Request, res: Response) => {
+  // Send a test notification through a channel
+  app.post("/api/alert-channels/:id/test", requirePermission("alerts:manage"), async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
-      const note = await storage.getNote(id);
-      if (!note) {
-        return res.status(404).json({ error: "Note not found" });
+
+      const channel = await storage.getAlertChannel(id);
+      if (!channel) {
+        return res.status(404).json({ error: "Alert channel not found" });
+      }
+
+      try {
+        await sendNotification(channel, {
+          title: "Wasteland Companion test notification",
+          message: `Test notification for channel "${channel.name}".`,
+          severity: "info",
+          state: "test",
+          timestamp: new Date().toISOString(),
+        });
+      } catch (deliveryError) {
+        const message = deliveryError instanceof Error ? deliveryError.message : String(deliveryError);
+        return res.status(502).json({ error: `Delivery failed: ${message}` });
       }
-      res.json(note);
+
+      await recordAudit(req, { action: "test", entityType: "alert_channel", entityId: id, entityLabel: channel.name });
+      res.json({ success: true });
     } catch (error) {
-      console.error("Get note error:", error);
+      console.error("Test alert channel error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Create note (admin only)
-  app.post("/api/notes", requireAdmin, async (req: Request, res: Response) => {
+  // ============ AUDIT LOG ROUTES ============
+
+  // Most events a CSV export holds; narrow the filters for more
+  const AUDIT_EXPORT_LIMIT = 10000;
+
+  // Search the audit log, newest first
+  app.get("/api/audit-events", requirePermission("audit:view"), async (req: Request, res: Response) => {
     try {
-      const parseResult = insertNoteSchema.safeParse(req.body);
+      const parseResult = auditQuerySchema.safeParse(req.query);
       if (!parseResult.success) {
         return res.status(400).json({
           error: "Invalid input",
@@ -496,21 +3427,18 @@ export async function registerRoutes(
         });
       }
 
-      const note = await storage.createNote(parseResult.data);
-      res.json({ success: true, note });
+      const page = await storage.getAuditEvents(parseResult.data);
+      res.json(page);
     } catch (error) {
-      console.error("Create note error:", error);
+      console.error("Get audit events error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Update note (admin only)
-  app.patch("/api/notes/:id", requireAdmin, async (req: Request, res: Response) => {
+  // Download the events matching the same filters as CSV
+  app.get("/api/audit-events/export.csv", requirePermission("audit:view"), async (req: Request, res: Response) => {
     try {
-      const { id } = req.params;
-
-      const partialSchema = insertNoteSchema.partial();
-      const parseResult = partialSchema.safeParse(req.body);
+      const parseResult = auditQuerySchema.omit({ limit: true, offset: true }).safeParse(req.query);
       if (!parseResult.success) {
         return res.status(400).json({
           error: "Invalid input",
@@ -518,43 +3446,33 @@ export async function registerRoutes(
         });
       }
 
-      const existingNote = await storage.getNote(id);
-      if (!existingNote) {
-        return res.status(404).json({ error: "Note not found" });
-      }
-
-      const note = await storage.updateNote(id, parseResult.data);
-      res.json({ success: true, note });
+      const { events } = await storage.getAuditEvents({ ...parseResult.data, limit: AUDIT_EXPORT_LIMIT, offset: 0 });
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.send(auditEventsToCsv(events));
     } catch (error) {
-      console.error("Update note error:", error);
+      console.error("Export audit events error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Delete note (admin only)
-  app.delete("/api/notes/:id", requireAdmin, async (req: Request, res: Response) => {
-    try {
-      const { id } = req.params;
+  // Start host status collector
+  startSystemCollector();
 
-      const existingNote = await storage.getNote(id);
-      if (!existingNote) {
-        return res.status(404).json({ error: "Note not found" });
-      }
+  // Start device monitor
+  startDeviceMonitor();
 
-      const deleted = await storage.deleteNote(id);
-      if (!deleted) {
-        return res.status(500).json({ error: "Failed to delete note" });
-      }
+  // Start alert engine
+  startAlertEngine();
 
-      res.json({ success: true });
-    } catch (error) {
-      console.error("Delete note error:", error);
-      res.status(500).json({ error: "Internal server error" });
-    }
-  });
+  // Start metrics history sampler
+  startMetricsSampler();
 
-  // Start device monitor
-  startDeviceMonitor();
+  // Start scheduled script jobs
+  startJobScheduler();
+
+  // Push host and device status to open dashboards
+  startLiveUpdates(httpServer, sessionMiddleware, async (req) => !!req.session.userId && !(await pendingAccountStep(req)));
 
   return httpServer;
 }
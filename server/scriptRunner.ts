@@ -0,0 +1,287 @@
+import crypto from "crypto";
+import { spawn } from "child_process";
+import { EventEmitter } from "events";
+import { Client, type ConnectConfig } from "ssh2";
+import { storage } from "./storage";
+import { decryptSecret } from "./secrets";
+import type { Device, InsertScriptRun, Script, ScriptJob, ScriptRun, ScriptRunStatus, ScriptRunStreamEvent, SshCredential } from "@shared/schema";
+
+const MAX_OUTPUT_CHARS = 512 * 1024; // Per stream; the rest of the output is dropped
+const MAX_CONNECT_TIMEOUT_MS = 20000;
+
+interface ActiveRun {
+  emitter: EventEmitter;
+  stdout: string;
+  stderr: string;
+  // Tracked per stream so that a flood on stdout does not hide the errors
+  truncated: { stdout: boolean; stderr: boolean };
+}
+
+interface ExecResult {
+  status: ScriptRunStatus;
+  exitCode: number | null;
+  error: string | null;
+}
+
+type OutputHandler = (stream: "stdout" | "stderr", data: string) => void;
+
+const activeRuns = new Map<string, ActiveRun>();
+
+// OpenSSH-style fingerprint, e.g. SHA256:47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU
+function fingerprintHostKey(key: Buffer): string {
+  return `SHA256:${crypto.createHash("sha256").update(key).digest("base64").replace(/=+$/, "")}`;
+}
+
+function appendOutput(active: ActiveRun, stream: "stdout" | "stderr", data: string): void {
+  if (active.truncated[stream]) return;
+
+  let chunk = data;
+  if (active[stream].length + chunk.length > MAX_OUTPUT_CHARS) {
+    chunk = chunk.slice(0, Math.max(0, MAX_OUTPUT_CHARS - active[stream].length)) + "\n[output truncated]\n";
+    active.truncated[stream] = true;
+  }
+  active[stream] += chunk;
+  active.emitter.emit("event", { type: "output", stream, data: chunk } satisfies ScriptRunStreamEvent);
+}
+
+function execOverSsh(
+  device: Device,
+  credential: SshCredential,
+  content: string,
+  timeoutSeconds: number,
+  onOutput: OutputHandler,
+): Promise<ExecResult> {
+  return new Promise((resolve) => {
+    const conn = new Client();
+    let settled = false;
+    let exitCode: number | null = null;
+    let presentedKey: string | null = null;
+
+    const finish = (result: ExecResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      conn.end();
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => {
+      finish({ status: "timed_out", exitCode: null, error: `Timed out after ${timeoutSeconds}s` });
+    }, timeoutSeconds * 1000);
+
+    conn.on("ready", () => {
+      // Trust on first use: pin the key the first time we connect
+      if (!device.sshHostKey && presentedKey) {
+        storage.updateDeviceSshHostKey(device.id, presentedKey).catch((error) => {
+          console.error("Pin SSH host key error:", error);
+        });
+      }
+
+      // The script is fed on stdin so it never has to be quoted for the remote shell
+      conn.exec("bash -s", (error, channel) => {
+        if (error) {
+          finish({ status: "failed", exitCode: null, error: error.message });
+          return;
+        }
+        channel.on("data", (data: Buffer) => onOutput("stdout", data.toString("utf8")));
+        channel.stderr.on("data", (data: Buffer) => onOutput("stderr", data.toString("utf8")));
+        channel.on("exit", (code: number | null) => {
+          exitCode = typeof code === "number" ? code : null;
+        });
+        channel.on("close", () => {
+          finish({
+            status: exitCode === 0 ? "succeeded" : "failed",
+            exitCode,
+            error: exitCode === null ? "Remote process ended without an exit code" : null,
+          });
+        });
+        channel.end(content);
+      });
+    });
+
+    conn.on("error", (error) => {
+      if (device.sshHostKey && presentedKey && presentedKey !== device.sshHostKey) {
+        finish({
+          status: "failed",
+          exitCode: null,
+          error: `Host key mismatch: expected ${device.sshHostKey}, got ${presentedKey}. Clear the pinned key on the device if the change is expected.`,
+        });
+        return;
+      }
+      finish({ status: "failed", exitCode: null, error: error.message });
+    });
+
+    const config: ConnectConfig = {
+      host: device.ipAddress,
+      port: credential.port,
+      username: credential.username,
+      readyTimeout: Math.min(timeoutSeconds * 1000, MAX_CONNECT_TIMEOUT_MS),
+      hostVerifier: (key: Buffer) => {
+        presentedKey = fingerprintHostKey(key);
+        return !device.sshHostKey || device.sshHostKey === presentedKey;
+      },
+    };
+
+    try {
+      if (credential.authMethod === "key") {
+        config.privateKey = decryptSecret(credential.secret);
+        if (credential.passphrase) config.passphrase = decryptSecret(credential.passphrase);
+      } else {
+        config.password = decryptSecret(credential.secret);
+      }
+      conn.connect(config);
+    } catch (error) {
+      finish({ status: "failed", exitCode: null, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
+
+// Runs a script with the dashboard host's bash in its own process group so a
+// timeout can kill everything it started
+function execLocally(content: string, timeoutSeconds: number, onOutput: OutputHandler): Promise<ExecResult> {
+  return new Promise((resolve) => {
+    let settled = false;
+    let timedOut = false;
+
+    const child = spawn("bash", ["-s"], { detached: true, stdio: ["pipe", "pipe", "pipe"] });
+
+    const finish = (result: ExecResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (child.pid) process.kill(-child.pid, "SIGKILL");
+      } catch {
+        child.kill("SIGKILL");
+      }
+    }, timeoutSeconds * 1000);
+
+    child.stdout.on("data", (data: Buffer) => onOutput("stdout", data.toString("utf8")));
+    child.stderr.on("data", (data: Buffer) => onOutput("stderr", data.toString("utf8")));
+    child.on("error", (error) => {
+      finish({ status: "failed", exitCode: null, error: error.message });
+    });
+    child.on("close", (code, signal) => {
+      if (timedOut) {
+        finish({ status: "timed_out", exitCode: null, error: `Timed out after ${timeoutSeconds}s` });
+      } else {
+        finish({
+          status: code === 0 ? "succeeded" : "failed",
+          exitCode: code,
+          error: signal ? `Terminated by ${signal}` : null,
+        });
+      }
+    });
+
+    // Ignore EPIPE when the script exits without reading all of stdin
+    child.stdin.on("error", () => {});
+    child.stdin.end(content);
+  });
+}
+
+async function completeRun(run: ScriptRun, active: ActiveRun, result: ExecResult): Promise<ScriptRun> {
+  const finishedAt = new Date();
+  let finished = run;
+  try {
+    const updated = await storage.updateScriptRun(run.id, {
+      status: result.status,
+      exitCode: result.exitCode,
+      error: result.error,
+      stdout: active.stdout,
+      stderr: active.stderr,
+      finishedAt,
+      durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+    });
+    finished = updated ?? run;
+  } catch (error) {
+    console.error("Save script run error:", error);
+  } finally {
+    active.emitter.emit("event", { type: "end", run: finished } satisfies ScriptRunStreamEvent);
+    activeRuns.delete(run.id);
+  }
+  return finished;
+}
+
+// Records a run, starts executing it in the background and resolves `finished` when it ends
+async function beginRun(
+  insertRun: InsertScriptRun,
+  exec: (onOutput: OutputHandler) => Promise<ExecResult>,
+): Promise<{ run: ScriptRun; finished: Promise<ScriptRun> }> {
+  const run = await storage.createScriptRun(insertRun);
+
+  const active: ActiveRun = { emitter: new EventEmitter(), stdout: "", stderr: "", truncated: { stdout: false, stderr: false } };
+  activeRuns.set(run.id, active);
+
+  const finished = exec((stream, data) => appendOutput(active, stream, data))
+    .catch((error): ExecResult => ({
+      status: "failed",
+      exitCode: null,
+      error: error instanceof Error ? error.message : String(error),
+    }))
+    .then((result) => completeRun(run, active, result));
+
+  return { run, finished };
+}
+
+// Starts running rendered script content on a device over SSH and returns the run record immediately
+export async function startRemoteRun(options: {
+  script: Script;
+  content: string;
+  device: Device;
+  credential: SshCredential;
+  timeoutSeconds: number;
+  triggeredBy: string | null;
+}): Promise<ScriptRun> {
+  const { script, content, device, credential, timeoutSeconds, triggeredBy } = options;
+
+  const { run } = await beginRun({
+    scriptId: script.id,
+    scriptName: script.name,
+    deviceId: device.id,
+    targetName: device.name,
+    host: `${credential.username}@${device.ipAddress}:${credential.port}`,
+    credentialId: credential.id,
+    timeoutSeconds,
+    triggeredBy,
+  }, (onOutput) => execOverSsh(device, credential, content, timeoutSeconds, onOutput));
+
+  return run;
+}
+
+// Starts a scheduled job's script on the dashboard host
+export async function startLocalRun(options: {
+  script: Script;
+  content: string;
+  job: ScriptJob;
+  triggeredBy: string | null;
+}): Promise<{ run: ScriptRun; finished: Promise<ScriptRun> }> {
+  const { script, content, job, triggeredBy } = options;
+
+  return beginRun({
+    scriptId: script.id,
+    scriptName: script.name,
+    jobId: job.id,
+    targetName: "Dashboard host",
+    host: "local",
+    timeoutSeconds: job.timeoutSeconds,
+    triggeredBy,
+  }, (onOutput) => execLocally(content, job.timeoutSeconds, onOutput));
+}
+
+// Replays output captured so far, then forwards live events. Returns null
+// when the run is not in progress on this server.
+export function subscribeToRun(runId: string, listener: (event: ScriptRunStreamEvent) => void): (() => void) | null {
+  const active = activeRuns.get(runId);
+  if (!active) return null;
+
+  if (active.stdout) listener({ type: "output", stream: "stdout", data: active.stdout });
+  if (active.stderr) listener({ type: "output", stream: "stderr", data: active.stderr });
+
+  active.emitter.on("event", listener);
+  return () => active.emitter.off("event", listener);
+}
@@ -0,0 +1,57 @@
+import { storage, HIGHLIGHT_START, HIGHLIGHT_STOP, type SearchHit } from "./storage";
+import { searchResultTypes, type SearchHighlight, type SearchResult, type SearchResultType } from "@shared/schema";
+
+const MAX_TERMS = 10;
+
+// Turns free text into a prefix query where every word must match, e.g.
+// "back pg" -> 'back':* & 'pg':*. Quoting each word lets Postgres tokenise
+// addresses and hyphenated names the same way it did when indexing.
+export function toPrefixQuery(input: string): string | null {
+  const terms = input
+    .split(/\s+/)
+    .map((term) => term.replace(/['\\]/g, ""))
+    .filter(Boolean)
+    .slice(0, MAX_TERMS);
+  return terms.length > 0 ? terms.map((term) => `'${term}':*`).join(" & ") : null;
+}
+
+function toHighlights(headline: string): SearchHighlight[] {
+  const highlights: SearchHighlight[] = [];
+  headline.split(HIGHLIGHT_START).forEach((part, index) => {
+    // Every part after the first starts with a match that runs to the stop marker
+    const [matched, rest] = index === 0 ? [null, part] : part.split(HIGHLIGHT_STOP, 2);
+    if (matched) highlights.push({ text: matched, match: true });
+    if (rest) highlights.push({ text: rest, match: false });
+  });
+  return highlights;
+}
+
+const searchers: Record<SearchResultType, (tsQuery: string, limit: number) => Promise<SearchHit[]>> = {
+  device: (tsQuery, limit) => storage.searchDevices(tsQuery, limit),
+  script: (tsQuery, limit) => storage.searchScripts(tsQuery, limit),
+  note: (tsQuery, limit) => storage.searchNotes(tsQuery, limit),
+};
+
+// Searches each requested type and merges the hits by rank
+export async function search(
+  input: string,
+  types: readonly SearchResultType[] = searchResultTypes,
+  limit = 20,
+): Promise<SearchResult[]> {
+  const tsQuery = toPrefixQuery(input);
+  if (!tsQuery) return [];
+
+  const perType = await Promise.all(types.map(async (type) => {
+    const hits = await searchers[type](tsQuery, limit);
+    return hits.map((hit): SearchResult => ({
+      type,
+      id: hit.id,
+      title: toHighlights(hit.title),
+      subtitle: hit.subtitle,
+      snippet: toHighlights(hit.snippet),
+      rank: hit.rank,
+    }));
+  }));
+
+  return perType.flat().sort((a, b) => b.rank - a.rank).slice(0, limit);
+}
@@ -0,0 +1,34 @@
+import crypto from "crypto";
+
+const FORMAT_VERSION = "v1";
+
+// Stored secrets are encrypted with AES-256-GCM. The key comes from
+// CREDENTIALS_KEY, falling back to SESSION_SECRET; changing it makes
+// previously stored secrets unreadable.
+function getKey(): Buffer {
+  const material = process.env.CREDENTIALS_KEY
+    || process.env.SESSION_SECRET
+    || "lab-companion-secret-key-change-in-production";
+  return crypto.createHash("sha256").update(material).digest();
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [FORMAT_VERSION, iv.toString("base64"), tag.toString("base64"), ciphertext.toString("base64")].join(":");
+}
+
+export function decryptSecret(encoded: string): string {
+  const [version, iv, tag, ciphertext] = encoded.split(":");
+  if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Unrecognized secret format");
+  }
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
@@ -0,0 +1,22 @@
+import crypto from "crypto";
+import type { SessionRow, UserSession } from "@shared/schema";
+
+// Stands in for the session id in the API. Anyone holding a session id is
+// signed in as its owner, so the id itself is only ever sent as the cookie.
+export function publicSessionId(sid: string): string {
+  return crypto.createHash("sha256").update(sid).digest("hex").slice(0, 24);
+}
+
+const toIso = (ms: number | undefined) => (ms ? new Date(ms).toISOString() : null);
+
+export function toUserSession(row: SessionRow, currentSid: string): UserSession {
+  return {
+    id: publicSessionId(row.sid),
+    current: row.sid === currentSid,
+    ip: row.sess.ip ?? null,
+    userAgent: row.sess.userAgent ?? null,
+    signedInAt: toIso(row.sess.signedInAt),
+    lastSeenAt: toIso(row.sess.lastSeenAt),
+    expiresAt: row.expire.toISOString(),
+  };
+}
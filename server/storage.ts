@@ -1,34 +1,272 @@
-import { users, devices, scripts, notes, type User, type InsertUser, type Device, type InsertDevice, type Script, type InsertScript, type Note, type InsertNote } from "@shared/schema";
+import { users, roles, sessions, apiTokens, auditEvents, devices, deviceStatusEvents, deviceChecks, scripts, scriptRevisions, notes, noteRevisions, noteAttachments, categories, tags, watchedServices, deviceTags, scriptTags, noteTags, systemMetricSamples, alertRules, alertChannels, alerts, networkScans, discoveredHosts, sshCredentials, scriptRuns, scriptJobs, type User, type InsertUser, type SessionRow, type ApiToken, type InsertApiToken, type ApiTokenSummary, type Role, type InsertRole, type RoleWithUsage, type AuditEvent, type InsertAuditEvent, type AuditQuery, type AuditEventPage, type Device, type InsertDevice, type DeviceProbeMetrics, type DeviceStatusEvent, type InsertDeviceStatusEvent, type DeviceCheck, type InsertDeviceCheck, type CheckStatus, type Script, type InsertScript, type ScriptRevision, type InsertScriptRevision, type Note, type InsertNote, type NoteRevision, type InsertNoteRevision, type NoteAttachment, type InsertNoteAttachment, type InsertSystemMetricSample, type SystemMetricSample, type MetricResolution, type SystemMetricName, type MetricHistoryPoint, type AlertRule, type InsertAlertRule, type AlertChannel, type InsertAlertChannel, type Alert, type InsertAlert, type AlertWithRule, type NetworkScan, type InsertNetworkScan, type DiscoveredHost, type InsertDiscoveredHost, type SshCredential, type ScriptRun, type InsertScriptRun, type ScriptJob, type InsertScriptJob, type ScriptRunSummary, type Category, type CategoryScope, type CategoryWithUsage, type InsertCategory, type Tag, type TagWithCounts, type TaggableType, type WatchedService, type InsertWatchedService, deviceSearchDocument, scriptSearchDocument, noteSearchDocument } from "@shared/schema";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { eq, ne, and, gte, lt, lte, desc, asc, avg, sql, count, ilike, inArray, notInArray, isNull, getTableColumns } from "drizzle-orm";
+
+const metricColumns = {
+  cpu: systemMetricSamples.cpuUsage,
+  memory: systemMetricSamples.memoryUsage,
+  disk: systemMetricSamples.diskUsage,
+  temperature: systemMetricSamples.temperature,
+} as const;
+
+// Floors sampled_at to the start of its bucket. bucketSeconds is always an
+// integer we control, so it is inlined to keep SELECT and GROUP BY identical.
+function bucketExpression(bucketSeconds: number) {
+  const seconds = sql.raw(String(Math.floor(bucketSeconds)));
+  return sql<Date>`to_timestamp(floor(extract(epoch from ${systemMetricSamples.sampledAt}) / ${seconds}) * ${seconds}) at time zone 'UTC'`
+    .mapWith(systemMetricSamples.sampledAt);
+}
+
+// ts_headline marks matches with these control characters, which the search
+// module splits on; they cannot appear in a rendered highlight
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_STOP = "\u0003";
+const SNIPPET_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=25, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "`;
+const TITLE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+
+// A row matched by full-text search, with title and snippet still as headlines
+export interface SearchHit {
+  id: string;
+  title: string;
+  subtitle: string | null;
+  snippet: string;
+  rank: number;
+}
+
+// Treats % and _ in user input literally inside an ILIKE pattern
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Join table and item column for each kind of taggable item
+const tagLinks = {
+  device: {
+    table: deviceTags,
+    itemId: deviceTags.deviceId,
+    tagId: deviceTags.tagId,
+    insert: (tx: Transaction, itemId: string, tagIds: string[]) =>
+      tx.insert(deviceTags).values(tagIds.map((tagId) => ({ deviceId: itemId, tagId }))),
+  },
+  script: {
+    table: scriptTags,
+    itemId: scriptTags.scriptId,
+    tagId: scriptTags.tagId,
+    insert: (tx: Transaction, itemId: string, tagIds: string[]) =>
+      tx.insert(scriptTags).values(tagIds.map((tagId) => ({ scriptId: itemId, tagId }))),
+  },
+  note: {
+    table: noteTags,
+    itemId: noteTags.noteId,
+    tagId: noteTags.tagId,
+    insert: (tx: Transaction, itemId: string, tagIds: string[]) =>
+      tx.insert(noteTags).values(tagIds.map((tagId) => ({ noteId: itemId, tagId }))),
+  },
+} as const;
+
+// Column holding the category slug for each kind of item
+const categoryColumns = {
+  device: devices.deviceType,
+  script: scripts.category,
+  note: notes.category,
+} as const;
+
+// Replaces an item's tags, creating tags that don't exist yet
+async function replaceItemTags(tx: Transaction, type: TaggableType, itemId: string, names: string[]) {
+  const link = tagLinks[type];
+  await tx.delete(link.table).where(eq(link.itemId, itemId));
+  if (names.length === 0) return;
+
+  await tx.insert(tags).values(names.map((name) => ({ name }))).onConflictDoNothing();
+  const rows = await tx.select({ id: tags.id }).from(tags).where(inArray(tags.name, names));
+  await link.insert(tx, itemId, rows.map((row) => row.id));
+}
+
+function scriptSnapshot(script: Script, author: string | null): InsertScriptRevision {
+  return {
+    scriptId: script.id,
+    name: script.name,
+    content: script.content,
+    category: script.category,
+    description: script.description,
+    parameters: script.parameters,
+    author,
+  };
+}
+
+function noteSnapshot(note: Note, author: string | null): InsertNoteRevision {
+  return {
+    noteId: note.id,
+    title: note.title,
+    content: note.content,
+    category: note.category,
+    author,
+  };
+}
+
+export type UserTwoFactorUpdate = Partial<Pick<User, "totpSecret" | "totpEnabledAt" | "totpLastCounter" | "recoveryCodes">>;
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
-  createUserWithRole(user: InsertUser, role: string): Promise<User>;
-  updateUserPassword(id: string, hashedPassword: string): Promise<User | undefined>;
+  createUserWithRole(user: InsertUser & { mustChangePassword?: boolean }, roleId: string): Promise<User>;
+  updateUserPassword(id: string, hashedPassword: string, mustChangePassword?: boolean): Promise<User | undefined>;
+  updateUserRole(id: string, roleId: string): Promise<User | undefined>;
+  assignLegacyRoles(adminRoleId: string, defaultRoleId: string): Promise<number>;
+  updateUserTwoFactor(id: string, updates: UserTwoFactorUpdate): Promise<User | undefined>;
+  claimTotpCounter(id: string, counter: number): Promise<boolean>;
+  consumeRecoveryCode(id: string, codeHash: string): Promise<boolean>;
   deleteUser(id: string): Promise<boolean>;
+
+  getUserSessions(userId: string): Promise<SessionRow[]>;
+  getActiveSessionCounts(): Promise<Map<string, number>>;
+  deleteSession(sid: string): Promise<boolean>;
+  deleteUserSessions(userId: string, exceptSid?: string): Promise<number>;
+
+  getApiTokens(userId?: string): Promise<ApiTokenSummary[]>;
+  getApiToken(id: string): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  recordApiTokenUse(id: string, ip: string | null): Promise<void>;
+  deleteApiToken(id: string): Promise<boolean>;
+
+  getRoles(): Promise<RoleWithUsage[]>;
+  getRole(id: string): Promise<Role | undefined>;
+  getRoleByName(name: string): Promise<Role | undefined>;
+  getUserRole(userId: string): Promise<Role | undefined>;
+  createRole(role: InsertRole, builtIn?: boolean): Promise<Role>;
+  updateRole(id: string, role: Partial<InsertRole>): Promise<Role | undefined>;
+  deleteRole(id: string): Promise<boolean>;
+
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(query: AuditQuery): Promise<AuditEventPage>;
   
   getAllDevices(): Promise<Device[]>;
   getDevice(id: string): Promise<Device | undefined>;
   createDevice(device: InsertDevice): Promise<Device>;
   updateDevice(id: string, device: Partial<InsertDevice>): Promise<Device | undefined>;
-  updateDeviceStatus(id: string, status: string, lastSeenAt?: Date): Promise<Device | undefined>;
+  updateDeviceStatus(id: string, status: string, lastSeenAt?: Date, probe?: DeviceProbeMetrics): Promise<Device | undefined>;
+  updateDeviceSshHostKey(id: string, fingerprint: string | null): Promise<Device | undefined>;
   deleteDevice(id: string): Promise<boolean>;
 
+  getAllDeviceChecks(): Promise<DeviceCheck[]>;
+  getDeviceChecks(deviceId: string): Promise<DeviceCheck[]>;
+  getDeviceCheck(id: string): Promise<DeviceCheck | undefined>;
+  createDeviceCheck(deviceId: string, check: InsertDeviceCheck): Promise<DeviceCheck>;
+  updateDeviceCheck(id: string, check: Partial<Omit<DeviceCheck, "id" | "deviceId">>): Promise<DeviceCheck | undefined>;
+  updateDeviceCheckResult(id: string, status: CheckStatus, message: string): Promise<DeviceCheck | undefined>;
+  deleteDeviceCheck(id: string): Promise<boolean>;
+
+  createDeviceStatusEvent(event: InsertDeviceStatusEvent): Promise<DeviceStatusEvent>;
+  getDeviceStatusEventsSince(deviceId: string, since: Date): Promise<DeviceStatusEvent[]>;
+
   getAllScripts(): Promise<Script[]>;
   getScript(id: string): Promise<Script | undefined>;
-  createScript(script: InsertScript): Promise<Script>;
-  updateScript(id: string, script: Partial<InsertScript>): Promise<Script | undefined>;
+  createScript(script: InsertScript, author: string | null): Promise<Script>;
+  updateScript(id: string, script: Partial<InsertScript>, author: string | null): Promise<Script | undefined>;
   deleteScript(id: string): Promise<boolean>;
+  getScriptRevisions(scriptId: string): Promise<ScriptRevision[]>;
+  getScriptRevision(id: string): Promise<ScriptRevision | undefined>;
+
+  getAllSshCredentials(): Promise<SshCredential[]>;
+  getSshCredential(id: string): Promise<SshCredential | undefined>;
+  createSshCredential(credential: Omit<SshCredential, "id" | "createdAt">): Promise<SshCredential>;
+  updateSshCredential(id: string, credential: Partial<Omit<SshCredential, "id" | "createdAt">>): Promise<SshCredential | undefined>;
+  deleteSshCredential(id: string): Promise<boolean>;
+
+  getScriptRuns(scriptId: string, limit: number): Promise<ScriptRun[]>;
+  getScriptRun(id: string): Promise<ScriptRun | undefined>;
+  createScriptRun(run: InsertScriptRun): Promise<ScriptRun>;
+  updateScriptRun(id: string, run: Partial<InsertScriptRun>): Promise<ScriptRun | undefined>;
+  failInterruptedScriptRuns(): Promise<number>;
+
+  getAllScriptJobs(): Promise<ScriptJob[]>;
+  getScriptJob(id: string): Promise<ScriptJob | undefined>;
+  createScriptJob(job: InsertScriptJob & { nextRunAt: Date | null }): Promise<ScriptJob>;
+  updateScriptJob(id: string, job: Partial<Omit<ScriptJob, "id" | "createdAt">>): Promise<ScriptJob | undefined>;
+  deleteScriptJob(id: string): Promise<boolean>;
+  getScriptJobsForScript(scriptId: string): Promise<ScriptJob[]>;
+  getScriptJobRuns(jobId: string, limit: number): Promise<ScriptRun[]>;
+  getLatestScriptJobRuns(): Promise<Map<string, ScriptRunSummary>>;
+  pruneScriptJobRuns(jobId: string, keep: number): Promise<number>;
 
   getAllNotes(): Promise<Note[]>;
   getNote(id: string): Promise<Note | undefined>;
-  createNote(note: InsertNote): Promise<Note>;
-  updateNote(id: string, note: Partial<InsertNote>): Promise<Note | undefined>;
+  createNote(note: InsertNote, author: string | null): Promise<Note>;
+  updateNote(id: string, note: Partial<InsertNote>, author: string | null): Promise<Note | undefined>;
   deleteNote(id: string): Promise<boolean>;
+  getNoteRevisions(noteId: string): Promise<NoteRevision[]>;
+  getNoteRevision(id: string): Promise<NoteRevision | undefined>;
+  getNotesContaining(fragment: string): Promise<Note[]>;
+
+  searchDevices(tsQuery: string, limit: number): Promise<SearchHit[]>;
+  searchScripts(tsQuery: string, limit: number): Promise<SearchHit[]>;
+  searchNotes(tsQuery: string, limit: number): Promise<SearchHit[]>;
+
+  getCategories(scope?: CategoryScope): Promise<CategoryWithUsage[]>;
+  getCategory(id: string): Promise<Category | undefined>;
+  getCategoryBySlug(scope: CategoryScope, slug: string): Promise<Category | undefined>;
+  getCategorySlugsInUse(scope: CategoryScope): Promise<string[]>;
+  createCategory(category: InsertCategory & { slug: string }): Promise<Category>;
+  updateCategory(id: string, category: Partial<Omit<InsertCategory, "scope">>): Promise<Category | undefined>;
+  deleteCategory(id: string): Promise<boolean>;
+
+  getWatchedServices(): Promise<WatchedService[]>;
+  getWatchedService(id: string): Promise<WatchedService | undefined>;
+  getWatchedServiceByUnit(unit: string): Promise<WatchedService | undefined>;
+  createWatchedService(service: InsertWatchedService): Promise<WatchedService>;
+  updateWatchedService(id: string, service: Partial<InsertWatchedService>): Promise<WatchedService | undefined>;
+  deleteWatchedService(id: string): Promise<boolean>;
+
+  getAllTags(): Promise<TagWithCounts[]>;
+  getTag(id: string): Promise<Tag | undefined>;
+  getTagByName(name: string): Promise<Tag | undefined>;
+  renameTag(id: string, name: string): Promise<Tag | undefined>;
+  deleteTag(id: string): Promise<boolean>;
+  getItemTags(type: TaggableType, itemIds?: string[]): Promise<Map<string, string[]>>;
+
+  getNoteAttachments(noteId: string): Promise<NoteAttachment[]>;
+  getNoteAttachment(id: string): Promise<NoteAttachment | undefined>;
+  createNoteAttachment(attachment: InsertNoteAttachment): Promise<NoteAttachment>;
+  deleteNoteAttachment(id: string): Promise<boolean>;
+
+  createMetricSample(sample: InsertSystemMetricSample): Promise<SystemMetricSample>;
+  rollupMetricSamples(source: MetricResolution, target: MetricResolution, bucketSeconds: number, until: Date): Promise<number>;
+  deleteMetricSamplesBefore(resolution: MetricResolution, before: Date): Promise<number>;
+  getMetricHistory(metric: SystemMetricName, resolution: MetricResolution, from: Date, to: Date, stepSeconds: number): Promise<MetricHistoryPoint[]>;
+
+  getAllAlertRules(): Promise<AlertRule[]>;
+  getAlertRule(id: string): Promise<AlertRule | undefined>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: string, rule: Partial<InsertAlertRule>): Promise<AlertRule | undefined>;
+  deleteAlertRule(id: string): Promise<boolean>;
+
+  getAllAlertChannels(): Promise<AlertChannel[]>;
+  getAlertChannel(id: string): Promise<AlertChannel | undefined>;
+  createAlertChannel(channel: InsertAlertChannel): Promise<AlertChannel>;
+  updateAlertChannel(id: string, channel: Partial<Omit<AlertChannel, "id" | "createdAt">>): Promise<AlertChannel | undefined>;
+  deleteAlertChannel(id: string): Promise<boolean>;
+
+  getOpenAlerts(): Promise<Alert[]>;
+  getAlerts(states: string[], limit: number): Promise<AlertWithRule[]>;
+  getAlert(id: string): Promise<Alert | undefined>;
+  createAlert(alert: InsertAlert): Promise<Alert>;
+  updateAlert(id: string, alert: Partial<InsertAlert>): Promise<Alert | undefined>;
+  deleteAlert(id: string): Promise<boolean>;
+
+  getRecentNetworkScans(limit: number): Promise<NetworkScan[]>;
+  getNetworkScan(id: string): Promise<NetworkScan | undefined>;
+  createNetworkScan(scan: InsertNetworkScan): Promise<NetworkScan>;
+  updateNetworkScan(id: string, scan: Partial<InsertNetworkScan>): Promise<NetworkScan | undefined>;
+
+  getDiscoveredHosts(status?: string): Promise<DiscoveredHost[]>;
+  getDiscoveredHost(id: string): Promise<DiscoveredHost | undefined>;
+  getDiscoveredHostByIp(ipAddress: string): Promise<DiscoveredHost | undefined>;
+  createDiscoveredHost(host: InsertDiscoveredHost): Promise<DiscoveredHost>;
+  updateDiscoveredHost(id: string, host: Partial<InsertDiscoveredHost>): Promise<DiscoveredHost | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -54,28 +292,233 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createUserWithRole(insertUser: InsertUser, role: string): Promise<User> {
+  async createUserWithRole(insertUser: InsertUser & { mustChangePassword?: boolean }, roleId: string): Promise<User> {
     const [user] = await db
       .insert(users)
-      .values({ ...insertUser, role })
+      .values({ ...insertUser, roleId })
       .returning();
     return user;
   }
 
-  async updateUserPassword(id: string, hashedPassword: string): Promise<User | undefined> {
+  async updateUserPassword(id: string, hashedPassword: string, mustChangePassword = false): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ password: hashedPassword, mustChangePassword })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  async updateUserRole(id: string, roleId: string): Promise<User | undefined> {
     const [user] = await db
       .update(users)
-      .set({ password: hashedPassword })
+      .set({ roleId })
       .where(eq(users.id, id))
       .returning();
     return user || undefined;
   }
 
+  // Users from before roles existed carry only the old "admin" / "user" value
+  async assignLegacyRoles(adminRoleId: string, defaultRoleId: string): Promise<number> {
+    const result = await db
+      .update(users)
+      .set({ roleId: sql`case when ${users.role} = 'admin' then ${adminRoleId} else ${defaultRoleId} end` })
+      .where(isNull(users.roleId))
+      .returning({ id: users.id });
+    return result.length;
+  }
+
+  async updateUserTwoFactor(id: string, updates: UserTwoFactorUpdate): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  // Records the time step of an accepted code; false if it (or a later one)
+  // was already used, e.g. by a concurrent request with the same code
+  async claimTotpCounter(id: string, counter: number): Promise<boolean> {
+    const result = await db
+      .update(users)
+      .set({ totpLastCounter: counter })
+      .where(and(
+        eq(users.id, id),
+        sql`(${users.totpLastCounter} IS NULL OR ${users.totpLastCounter} < ${counter})`,
+      ))
+      .returning({ id: users.id });
+    return result.length > 0;
+  }
+
+  // Removes a recovery code; false if the user does not have it
+  async consumeRecoveryCode(id: string, codeHash: string): Promise<boolean> {
+    const result = await db
+      .update(users)
+      .set({ recoveryCodes: sql`${users.recoveryCodes} - ${codeHash}::text` })
+      .where(and(eq(users.id, id), sql`${users.recoveryCodes} ? ${codeHash}::text`))
+      .returning({ id: users.id });
+    return result.length > 0;
+  }
+
   async deleteUser(id: string): Promise<boolean> {
     const result = await db.delete(users).where(eq(users.id, id)).returning();
     return result.length > 0;
   }
 
+  // Sessions are matched on the userId express-session stored in them;
+  // expired rows linger until the store prunes them, so they are skipped
+  async getUserSessions(userId: string): Promise<SessionRow[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(sql`${sessions.sess}->>'userId' = ${userId}`, gte(sessions.expire, new Date())))
+      .orderBy(desc(sessions.expire));
+  }
+
+  async getActiveSessionCounts(): Promise<Map<string, number>> {
+    const userId = sql<string>`${sessions.sess}->>'userId'`;
+    const rows = await db
+      .select({ userId, count: count() })
+      .from(sessions)
+      .where(and(sql`${userId} IS NOT NULL`, gte(sessions.expire, new Date())))
+      .groupBy(userId);
+    return new Map(rows.map((row) => [row.userId, row.count]));
+  }
+
+  async deleteSession(sid: string): Promise<boolean> {
+    const result = await db.delete(sessions).where(eq(sessions.sid, sid)).returning({ sid: sessions.sid });
+    return result.length > 0;
+  }
+
+  async deleteUserSessions(userId: string, exceptSid?: string): Promise<number> {
+    const result = await db
+      .delete(sessions)
+      .where(and(
+        sql`${sessions.sess}->>'userId' = ${userId}`,
+        exceptSid ? ne(sessions.sid, exceptSid) : undefined,
+      ))
+      .returning({ sid: sessions.sid });
+    return result.length;
+  }
+
+  // Every token, or only the personal tokens of one user
+  async getApiTokens(userId?: string): Promise<ApiTokenSummary[]> {
+    const { tokenHash, ...columns } = getTableColumns(apiTokens);
+    return await db
+      .select({ ...columns, owner: users.username })
+      .from(apiTokens)
+      .leftJoin(users, eq(apiTokens.userId, users.id))
+      .where(userId ? eq(apiTokens.userId, userId) : undefined)
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiToken(id: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.id, id));
+    return token || undefined;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [created] = await db.insert(apiTokens).values(token).returning();
+    return created;
+  }
+
+  async recordApiTokenUse(id: string, ip: string | null): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: new Date(), lastUsedIp: ip }).where(eq(apiTokens.id, id));
+  }
+
+  async deleteApiToken(id: string): Promise<boolean> {
+    const result = await db.delete(apiTokens).where(eq(apiTokens.id, id)).returning({ id: apiTokens.id });
+    return result.length > 0;
+  }
+
+  async getRoles(): Promise<RoleWithUsage[]> {
+    return await db
+      .select({ ...getTableColumns(roles), userCount: sql<number>`count(${users.id})::int` })
+      .from(roles)
+      .leftJoin(users, eq(users.roleId, roles.id))
+      .groupBy(roles.id)
+      .orderBy(desc(roles.builtIn), asc(roles.name));
+  }
+
+  async getRole(id: string): Promise<Role | undefined> {
+    const [role] = await db.select().from(roles).where(eq(roles.id, id));
+    return role || undefined;
+  }
+
+  async getRoleByName(name: string): Promise<Role | undefined> {
+    const [role] = await db.select().from(roles).where(eq(roles.name, name));
+    return role || undefined;
+  }
+
+  async getUserRole(userId: string): Promise<Role | undefined> {
+    const [row] = await db
+      .select({ role: roles })
+      .from(users)
+      .innerJoin(roles, eq(users.roleId, roles.id))
+      .where(eq(users.id, userId));
+    return row?.role;
+  }
+
+  async createRole(insertRole: InsertRole, builtIn = false): Promise<Role> {
+    const [role] = await db
+      .insert(roles)
+      .values({ ...insertRole, builtIn })
+      .returning();
+    return role;
+  }
+
+  async updateRole(id: string, updates: Partial<InsertRole>): Promise<Role | undefined> {
+    const [role] = await db
+      .update(roles)
+      .set(updates)
+      .where(eq(roles.id, id))
+      .returning();
+    return role || undefined;
+  }
+
+  async deleteRole(id: string): Promise<boolean> {
+    const result = await db.delete(roles).where(eq(roles.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const [event] = await db
+      .insert(auditEvents)
+      .values(insertEvent)
+      .returning();
+    return event;
+  }
+
+  // Newest first, with the total matching count for paging
+  async getAuditEvents(query: AuditQuery): Promise<AuditEventPage> {
+    const where = and(
+      query.actor ? ilike(auditEvents.actorName, `%${escapeLike(query.actor)}%`) : undefined,
+      query.q ? ilike(auditEvents.entityLabel, `%${escapeLike(query.q)}%`) : undefined,
+      query.action ? eq(auditEvents.action, query.action) : undefined,
+      query.entityType ? eq(auditEvents.entityType, query.entityType) : undefined,
+      query.entityId ? eq(auditEvents.entityId, query.entityId) : undefined,
+      query.from ? gte(auditEvents.createdAt, query.from) : undefined,
+      query.to ? lte(auditEvents.createdAt, query.to) : undefined,
+    );
+    const [events, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(auditEvents)
+        .where(where)
+        .orderBy(desc(auditEvents.createdAt))
+        .limit(query.limit)
+        .offset(query.offset),
+      db.select({ total: count() }).from(auditEvents).where(where),
+    ]);
+    return { events, total };
+  }
+
   async getAllDevices(): Promise<Device[]> {
     return await db.select().from(devices);
   }
@@ -85,27 +528,42 @@ export class DatabaseStorage implements IStorage {
     return device || undefined;
   }
 
-  async createDevice(insertDevice: InsertDevice): Promise<Device> {
-    const [device] = await db
-      .insert(devices)
-      .values(insertDevice)
-      .returning();
-    return device;
+  async createDevice({ tags: tagNames, ...insertDevice }: InsertDevice): Promise<Device> {
+    return await db.transaction(async (tx) => {
+      const [device] = await tx
+        .insert(devices)
+        .values(insertDevice)
+        .returning();
+      if (tagNames) await replaceItemTags(tx, "device", device.id, tagNames);
+      return device;
+    });
+  }
+
+  async updateDevice(id: string, { tags: tagNames, ...updates }: Partial<InsertDevice>): Promise<Device | undefined> {
+    return await db.transaction(async (tx) => {
+      const [device] = Object.keys(updates).length > 0
+        ? await tx.update(devices).set(updates).where(eq(devices.id, id)).returning()
+        : await tx.select().from(devices).where(eq(devices.id, id));
+      if (!device) return undefined;
+      if (tagNames) await replaceItemTags(tx, "device", id, tagNames);
+      return device;
+    });
   }
 
-  async updateDevice(id: string, updates: Partial<InsertDevice>): Promise<Device | undefined> {
+  async updateDeviceSshHostKey(id: string, fingerprint: string | null): Promise<Device | undefined> {
     const [device] = await db
       .update(devices)
-      .set(updates)
+      .set({ sshHostKey: fingerprint })
       .where(eq(devices.id, id))
       .returning();
     return device || undefined;
   }
 
-  async updateDeviceStatus(id: string, status: string, lastSeenAt?: Date): Promise<Device | undefined> {
-    const updateData: { status: string; lastCheckedAt: Date; lastSeenAt?: Date } = {
+  async updateDeviceStatus(id: string, status: string, lastSeenAt?: Date, probe?: DeviceProbeMetrics): Promise<Device | undefined> {
+    const updateData: { status: string; lastCheckedAt: Date; lastSeenAt?: Date } & Partial<DeviceProbeMetrics> = {
       status,
       lastCheckedAt: new Date(),
+      ...probe,
     };
     if (lastSeenAt) {
       updateData.lastSeenAt = lastSeenAt;
@@ -123,6 +581,87 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  async getAllDeviceChecks(): Promise<DeviceCheck[]> {
+    return await db.select().from(deviceChecks);
+  }
+
+  async getDeviceChecks(deviceId: string): Promise<DeviceCheck[]> {
+    return await db
+      .select()
+      .from(deviceChecks)
+      .where(eq(deviceChecks.deviceId, deviceId))
+      .orderBy(asc(deviceChecks.type));
+  }
+
+  async getDeviceCheck(id: string): Promise<DeviceCheck | undefined> {
+    const [check] = await db.select().from(deviceChecks).where(eq(deviceChecks.id, id));
+    return check || undefined;
+  }
+
+  async createDeviceCheck(deviceId: string, insertCheck: InsertDeviceCheck): Promise<DeviceCheck> {
+    const [check] = await db
+      .insert(deviceChecks)
+      .values({ ...insertCheck, deviceId })
+      .returning();
+    return check;
+  }
+
+  async updateDeviceCheck(id: string, updates: Partial<Omit<DeviceCheck, "id" | "deviceId">>): Promise<DeviceCheck | undefined> {
+    const [check] = await db
+      .update(deviceChecks)
+      .set(updates)
+      .where(eq(deviceChecks.id, id))
+      .returning();
+    return check || undefined;
+  }
+
+  async updateDeviceCheckResult(id: string, status: CheckStatus, message: string): Promise<DeviceCheck | undefined> {
+    const [check] = await db
+      .update(deviceChecks)
+      .set({ status, lastMessage: message, lastCheckedAt: new Date() })
+      .where(eq(deviceChecks.id, id))
+      .returning();
+    return check || undefined;
+  }
+
+  async deleteDeviceCheck(id: string): Promise<boolean> {
+    const result = await db.delete(deviceChecks).where(eq(deviceChecks.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async createDeviceStatusEvent(event: InsertDeviceStatusEvent): Promise<DeviceStatusEvent> {
+    const [row] = await db
+      .insert(deviceStatusEvents)
+      .values(event)
+      .returning();
+    return row;
+  }
+
+  // Returns events after `since` in chronological order, preceded by the last
+  // event before it so callers know the status at the start of the window.
+  async getDeviceStatusEventsSince(deviceId: string, since: Date): Promise<DeviceStatusEvent[]> {
+    const [previous] = await db
+      .select()
+      .from(deviceStatusEvents)
+      .where(and(
+        eq(deviceStatusEvents.deviceId, deviceId),
+        lt(deviceStatusEvents.changedAt, since),
+      ))
+      .orderBy(desc(deviceStatusEvents.changedAt))
+      .limit(1);
+
+    const events = await db
+      .select()
+      .from(deviceStatusEvents)
+      .where(and(
+        eq(deviceStatusEvents.deviceId, deviceId),
+        gte(deviceStatusEvents.changedAt, since),
+      ))
+      .orderBy(asc(deviceStatusEvents.changedAt));
+
+    return previous ? [previous, ...events] : events;
+  }
+
   async getAllScripts(): Promise<Script[]> {
     return await db.select().from(scripts);
   }
@@ -132,21 +671,45 @@ export class DatabaseStorage implements IStorage {
     return script || undefined;
   }
 
-  async createScript(insertScript: InsertScript): Promise<Script> {
-    const [script] = await db
-      .insert(scripts)
-      .values(insertScript)
-      .returning();
-    return script;
+  async createScript({ tags: tagNames, ...insertScript }: InsertScript, author: string | null): Promise<Script> {
+    return await db.transaction(async (tx) => {
+      const [script] = await tx
+        .insert(scripts)
+        .values(insertScript)
+        .returning();
+      await tx.insert(scriptRevisions).values(scriptSnapshot(script, author));
+      if (tagNames) await replaceItemTags(tx, "script", script.id, tagNames);
+      return script;
+    });
   }
 
-  async updateScript(id: string, updates: Partial<InsertScript>): Promise<Script | undefined> {
-    const [script] = await db
-      .update(scripts)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(scripts.id, id))
-      .returning();
-    return script || undefined;
+  async updateScript(id: string, { tags: tagNames, ...updates }: Partial<InsertScript>, author: string | null): Promise<Script | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(scripts).where(eq(scripts.id, id)).for("update");
+      if (!existing) return undefined;
+
+      // Scripts created before revisions existed get their current state recorded first
+      const [previous] = await tx
+        .select({ id: scriptRevisions.id })
+        .from(scriptRevisions)
+        .where(eq(scriptRevisions.scriptId, id))
+        .limit(1);
+      if (!previous) {
+        await tx.insert(scriptRevisions).values({
+          ...scriptSnapshot(existing, null),
+          createdAt: existing.updatedAt ?? existing.createdAt ?? new Date(),
+        });
+      }
+
+      const [script] = await tx
+        .update(scripts)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(scripts.id, id))
+        .returning();
+      await tx.insert(scriptRevisions).values(scriptSnapshot(script, author));
+      if (tagNames) await replaceItemTags(tx, "script", id, tagNames);
+      return script;
+    });
   }
 
   async deleteScript(id: string): Promise<boolean> {
@@ -154,6 +717,172 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  async getScriptRevisions(scriptId: string): Promise<ScriptRevision[]> {
+    return await db
+      .select()
+      .from(scriptRevisions)
+      .where(eq(scriptRevisions.scriptId, scriptId))
+      .orderBy(desc(scriptRevisions.createdAt));
+  }
+
+  async getScriptRevision(id: string): Promise<ScriptRevision | undefined> {
+    const [revision] = await db.select().from(scriptRevisions).where(eq(scriptRevisions.id, id));
+    return revision || undefined;
+  }
+
+  async getAllSshCredentials(): Promise<SshCredential[]> {
+    return await db.select().from(sshCredentials).orderBy(asc(sshCredentials.name));
+  }
+
+  async getSshCredential(id: string): Promise<SshCredential | undefined> {
+    const [credential] = await db.select().from(sshCredentials).where(eq(sshCredentials.id, id));
+    return credential || undefined;
+  }
+
+  async createSshCredential(insertCredential: Omit<SshCredential, "id" | "createdAt">): Promise<SshCredential> {
+    const [credential] = await db
+      .insert(sshCredentials)
+      .values(insertCredential)
+      .returning();
+    return credential;
+  }
+
+  async updateSshCredential(id: string, updates: Partial<Omit<SshCredential, "id" | "createdAt">>): Promise<SshCredential | undefined> {
+    const [credential] = await db
+      .update(sshCredentials)
+      .set(updates)
+      .where(eq(sshCredentials.id, id))
+      .returning();
+    return credential || undefined;
+  }
+
+  async deleteSshCredential(id: string): Promise<boolean> {
+    const result = await db.delete(sshCredentials).where(eq(sshCredentials.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getScriptRuns(scriptId: string, limit: number): Promise<ScriptRun[]> {
+    return await db
+      .select()
+      .from(scriptRuns)
+      .where(eq(scriptRuns.scriptId, scriptId))
+      .orderBy(desc(scriptRuns.startedAt))
+      .limit(limit);
+  }
+
+  async getScriptRun(id: string): Promise<ScriptRun | undefined> {
+    const [run] = await db.select().from(scriptRuns).where(eq(scriptRuns.id, id));
+    return run || undefined;
+  }
+
+  async createScriptRun(insertRun: InsertScriptRun): Promise<ScriptRun> {
+    const [run] = await db
+      .insert(scriptRuns)
+      .values(insertRun)
+      .returning();
+    return run;
+  }
+
+  async updateScriptRun(id: string, updates: Partial<InsertScriptRun>): Promise<ScriptRun | undefined> {
+    const [run] = await db
+      .update(scriptRuns)
+      .set(updates)
+      .where(eq(scriptRuns.id, id))
+      .returning();
+    return run || undefined;
+  }
+
+  // Runs left "running" by a previous server process can never finish
+  async failInterruptedScriptRuns(): Promise<number> {
+    const result = await db
+      .update(scriptRuns)
+      .set({ status: "failed", error: "Interrupted by server restart", finishedAt: new Date() })
+      .where(eq(scriptRuns.status, "running"))
+      .returning({ id: scriptRuns.id });
+    return result.length;
+  }
+
+  async getAllScriptJobs(): Promise<ScriptJob[]> {
+    return await db.select().from(scriptJobs).orderBy(asc(scriptJobs.createdAt));
+  }
+
+  async getScriptJob(id: string): Promise<ScriptJob | undefined> {
+    const [job] = await db.select().from(scriptJobs).where(eq(scriptJobs.id, id));
+    return job || undefined;
+  }
+
+  async createScriptJob(insertJob: InsertScriptJob & { nextRunAt: Date | null }): Promise<ScriptJob> {
+    const [job] = await db
+      .insert(scriptJobs)
+      .values(insertJob)
+      .returning();
+    return job;
+  }
+
+  async updateScriptJob(id: string, updates: Partial<Omit<ScriptJob, "id" | "createdAt">>): Promise<ScriptJob | undefined> {
+    const [job] = await db
+      .update(scriptJobs)
+      .set(updates)
+      .where(eq(scriptJobs.id, id))
+      .returning();
+    return job || undefined;
+  }
+
+  async deleteScriptJob(id: string): Promise<boolean> {
+    const result = await db.delete(scriptJobs).where(eq(scriptJobs.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getScriptJobsForScript(scriptId: string): Promise<ScriptJob[]> {
+    return await db.select().from(scriptJobs).where(eq(scriptJobs.scriptId, scriptId));
+  }
+
+  async getScriptJobRuns(jobId: string, limit: number): Promise<ScriptRun[]> {
+    return await db
+      .select()
+      .from(scriptRuns)
+      .where(eq(scriptRuns.jobId, jobId))
+      .orderBy(desc(scriptRuns.startedAt))
+      .limit(limit);
+  }
+
+  async getLatestScriptJobRuns(): Promise<Map<string, ScriptRunSummary>> {
+    const rows = await db
+      .selectDistinctOn([scriptRuns.jobId], {
+        jobId: scriptRuns.jobId,
+        id: scriptRuns.id,
+        status: scriptRuns.status,
+        exitCode: scriptRuns.exitCode,
+        startedAt: scriptRuns.startedAt,
+        finishedAt: scriptRuns.finishedAt,
+        durationMs: scriptRuns.durationMs,
+      })
+      .from(scriptRuns)
+      .where(sql`${scriptRuns.jobId} is not null`)
+      .orderBy(scriptRuns.jobId, desc(scriptRuns.startedAt));
+
+    const latest = new Map<string, ScriptRunSummary>();
+    for (const { jobId, ...run } of rows) {
+      latest.set(jobId!, run);
+    }
+    return latest;
+  }
+
+  // Keeps only the newest `keep` runs of a job
+  async pruneScriptJobRuns(jobId: string, keep: number): Promise<number> {
+    const retained = db
+      .select({ id: scriptRuns.id })
+      .from(scriptRuns)
+      .where(eq(scriptRuns.jobId, jobId))
+      .orderBy(desc(scriptRuns.startedAt))
+      .limit(keep);
+    const result = await db
+      .delete(scriptRuns)
+      .where(and(eq(scriptRuns.jobId, jobId), notInArray(scriptRuns.id, retained)))
+      .returning({ id: scriptRuns.id });
+    return result.length;
+  }
+
   async getAllNotes(): Promise<Note[]> {
     return await db.select().from(notes);
   }
@@ -163,27 +892,550 @@ export class DatabaseStorage implements IStorage {
     return note || undefined;
   }
 
-  async createNote(insertNote: InsertNote): Promise<Note> {
-    const [note] = await db
-      .insert(notes)
-      .values(insertNote)
-      .returning();
-    return note;
+  async createNote({ tags: tagNames, ...insertNote }: InsertNote, author: string | null): Promise<Note> {
+    return await db.transaction(async (tx) => {
+      const [note] = await tx
+        .insert(notes)
+        .values(insertNote)
+        .returning();
+      await tx.insert(noteRevisions).values(noteSnapshot(note, author));
+      if (tagNames) await replaceItemTags(tx, "note", note.id, tagNames);
+      return note;
+    });
   }
 
-  async updateNote(id: string, updates: Partial<InsertNote>): Promise<Note | undefined> {
-    const [note] = await db
-      .update(notes)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(notes.id, id))
-      .returning();
-    return note || undefined;
+  async updateNote(id: string, { tags: tagNames, ...updates }: Partial<InsertNote>, author: string | null): Promise<Note | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(notes).where(eq(notes.id, id)).for("update");
+      if (!existing) return undefined;
+
+      // Notes created before revisions existed get their current state recorded first
+      const [previous] = await tx
+        .select({ id: noteRevisions.id })
+        .from(noteRevisions)
+        .where(eq(noteRevisions.noteId, id))
+        .limit(1);
+      if (!previous) {
+        await tx.insert(noteRevisions).values({
+          ...noteSnapshot(existing, null),
+          createdAt: existing.updatedAt ?? existing.createdAt ?? new Date(),
+        });
+      }
+
+      const [note] = await tx
+        .update(notes)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(notes.id, id))
+        .returning();
+      await tx.insert(noteRevisions).values(noteSnapshot(note, author));
+      if (tagNames) await replaceItemTags(tx, "note", id, tagNames);
+      return note;
+    });
   }
 
   async deleteNote(id: string): Promise<boolean> {
     const result = await db.delete(notes).where(eq(notes.id, id)).returning();
     return result.length > 0;
   }
+
+  async getNoteRevisions(noteId: string): Promise<NoteRevision[]> {
+    return await db
+      .select()
+      .from(noteRevisions)
+      .where(eq(noteRevisions.noteId, noteId))
+      .orderBy(desc(noteRevisions.createdAt));
+  }
+
+  async getNoteRevision(id: string): Promise<NoteRevision | undefined> {
+    const [revision] = await db.select().from(noteRevisions).where(eq(noteRevisions.id, id));
+    return revision || undefined;
+  }
+
+  async getNotesContaining(fragment: string): Promise<Note[]> {
+    return await db
+      .select()
+      .from(notes)
+      .where(sql`strpos(${notes.content}, ${fragment}) > 0`);
+  }
+
+  async searchDevices(tsQuery: string, limit: number): Promise<SearchHit[]> {
+    const query = sql`to_tsquery('simple'::regconfig, ${tsQuery})`;
+    const document = deviceSearchDocument(devices);
+    const rank = sql<number>`ts_rank_cd(${document}, ${query})`;
+    return await db
+      .select({
+        id: devices.id,
+        title: sql<string>`ts_headline('simple'::regconfig, ${devices.name}, ${query}, ${TITLE_OPTIONS})`,
+        subtitle: devices.ipAddress,
+        snippet: sql<string>`ts_headline('simple'::regconfig, concat_ws(' · ', ${devices.ipAddress}, ${devices.macAddress}, ${devices.os}, ${devices.description}), ${query}, ${SNIPPET_OPTIONS})`,
+        rank,
+      })
+      .from(devices)
+      .where(sql`${document} @@ ${query}`)
+      .orderBy(desc(rank))
+      .limit(limit);
+  }
+
+  async searchScripts(tsQuery: string, limit: number): Promise<SearchHit[]> {
+    const query = sql`to_tsquery('english'::regconfig, ${tsQuery})`;
+    const document = scriptSearchDocument(scripts);
+    const rank = sql<number>`ts_rank_cd(${document}, ${query})`;
+    return await db
+      .select({
+        id: scripts.id,
+        title: sql<string>`ts_headline('english'::regconfig, ${scripts.name}, ${query}, ${TITLE_OPTIONS})`,
+        subtitle: scripts.description,
+        snippet: sql<string>`ts_headline('english'::regconfig, ${scripts.content}, ${query}, ${SNIPPET_OPTIONS})`,
+        rank,
+      })
+      .from(scripts)
+      .where(sql`${document} @@ ${query}`)
+      .orderBy(desc(rank))
+      .limit(limit);
+  }
+
+  async searchNotes(tsQuery: string, limit: number): Promise<SearchHit[]> {
+    const query = sql`to_tsquery('english'::regconfig, ${tsQuery})`;
+    const document = noteSearchDocument(notes);
+    const rank = sql<number>`ts_rank_cd(${document}, ${query})`;
+    return await db
+      .select({
+        id: notes.id,
+        title: sql<string>`ts_headline('english'::regconfig, ${notes.title}, ${query}, ${TITLE_OPTIONS})`,
+        subtitle: notes.category,
+        snippet: sql<string>`ts_headline('english'::regconfig, ${notes.content}, ${query}, ${SNIPPET_OPTIONS})`,
+        rank,
+      })
+      .from(notes)
+      .where(sql`${document} @@ ${query}`)
+      .orderBy(desc(rank))
+      .limit(limit);
+  }
+
+  async getCategories(scope?: CategoryScope): Promise<CategoryWithUsage[]> {
+    const itemCount = sql<number>`case ${categories.scope}
+      when 'device' then (select count(*)::int from ${devices} where ${devices.deviceType} = ${categories.slug})
+      when 'script' then (select count(*)::int from ${scripts} where ${scripts.category} = ${categories.slug})
+      when 'note' then (select count(*)::int from ${notes} where ${notes.category} = ${categories.slug})
+      else 0 end`;
+    return await db
+      .select({ ...getTableColumns(categories), itemCount })
+      .from(categories)
+      .where(scope ? eq(categories.scope, scope) : undefined)
+      .orderBy(asc(categories.scope), asc(categories.name));
+  }
+
+  async getCategory(id: string): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.id, id));
+    return category || undefined;
+  }
+
+  async getCategoryBySlug(scope: CategoryScope, slug: string): Promise<Category | undefined> {
+    const [category] = await db
+      .select()
+      .from(categories)
+      .where(and(eq(categories.scope, scope), eq(categories.slug, slug)));
+    return category || undefined;
+  }
+
+  async getCategorySlugsInUse(scope: CategoryScope): Promise<string[]> {
+    const column = categoryColumns[scope];
+    const rows = await db.selectDistinct({ slug: column }).from(column.table);
+    return rows.map((row) => row.slug);
+  }
+
+  async createCategory(insertCategory: InsertCategory & { slug: string }): Promise<Category> {
+    const [category] = await db
+      .insert(categories)
+      .values(insertCategory)
+      .returning();
+    return category;
+  }
+
+  async updateCategory(id: string, updates: Partial<Omit<InsertCategory, "scope">>): Promise<Category | undefined> {
+    const [category] = await db
+      .update(categories)
+      .set(updates)
+      .where(eq(categories.id, id))
+      .returning();
+    return category || undefined;
+  }
+
+  async deleteCategory(id: string): Promise<boolean> {
+    const result = await db.delete(categories).where(eq(categories.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getWatchedServices(): Promise<WatchedService[]> {
+    return await db.select().from(watchedServices).orderBy(asc(watchedServices.displayName));
+  }
+
+  async getWatchedService(id: string): Promise<WatchedService | undefined> {
+    const [service] = await db.select().from(watchedServices).where(eq(watchedServices.id, id));
+    return service || undefined;
+  }
+
+  async getWatchedServiceByUnit(unit: string): Promise<WatchedService | undefined> {
+    const [service] = await db.select().from(watchedServices).where(eq(watchedServices.unit, unit));
+    return service || undefined;
+  }
+
+  async createWatchedService(insertService: InsertWatchedService): Promise<WatchedService> {
+    const [service] = await db
+      .insert(watchedServices)
+      .values(insertService)
+      .returning();
+    return service;
+  }
+
+  async updateWatchedService(id: string, updates: Partial<InsertWatchedService>): Promise<WatchedService | undefined> {
+    const [service] = await db
+      .update(watchedServices)
+      .set(updates)
+      .where(eq(watchedServices.id, id))
+      .returning();
+    return service || undefined;
+  }
+
+  async deleteWatchedService(id: string): Promise<boolean> {
+    const result = await db.delete(watchedServices).where(eq(watchedServices.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getAllTags(): Promise<TagWithCounts[]> {
+    const usage = (type: TaggableType) =>
+      sql<number>`(select count(*)::int from ${tagLinks[type].table} where ${tagLinks[type].tagId} = ${tags.id})`;
+    return await db
+      .select({
+        ...getTableColumns(tags),
+        device: usage("device"),
+        script: usage("script"),
+        note: usage("note"),
+      })
+      .from(tags)
+      .orderBy(asc(tags.name));
+  }
+
+  async getTag(id: string): Promise<Tag | undefined> {
+    const [tag] = await db.select().from(tags).where(eq(tags.id, id));
+    return tag || undefined;
+  }
+
+  async getTagByName(name: string): Promise<Tag | undefined> {
+    const [tag] = await db.select().from(tags).where(eq(tags.name, name));
+    return tag || undefined;
+  }
+
+  async renameTag(id: string, name: string): Promise<Tag | undefined> {
+    const [tag] = await db
+      .update(tags)
+      .set({ name })
+      .where(eq(tags.id, id))
+      .returning();
+    return tag || undefined;
+  }
+
+  async deleteTag(id: string): Promise<boolean> {
+    const result = await db.delete(tags).where(eq(tags.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Tag names per item id, alphabetical; items without tags are absent
+  async getItemTags(type: TaggableType, itemIds?: string[]): Promise<Map<string, string[]>> {
+    const link = tagLinks[type];
+    const rows = await db
+      .select({ itemId: link.itemId, name: tags.name })
+      .from(link.table)
+      .innerJoin(tags, eq(tags.id, link.tagId))
+      .where(itemIds ? inArray(link.itemId, itemIds) : undefined)
+      .orderBy(asc(tags.name));
+
+    const byItem = new Map<string, string[]>();
+    for (const row of rows) {
+      const names = byItem.get(row.itemId) ?? [];
+      names.push(row.name);
+      byItem.set(row.itemId, names);
+    }
+    return byItem;
+  }
+
+  async getNoteAttachments(noteId: string): Promise<NoteAttachment[]> {
+    return await db
+      .select()
+      .from(noteAttachments)
+      .where(eq(noteAttachments.noteId, noteId))
+      .orderBy(asc(noteAttachments.createdAt));
+  }
+
+  async getNoteAttachment(id: string): Promise<NoteAttachment | undefined> {
+    const [attachment] = await db.select().from(noteAttachments).where(eq(noteAttachments.id, id));
+    return attachment || undefined;
+  }
+
+  async createNoteAttachment(insertAttachment: InsertNoteAttachment): Promise<NoteAttachment> {
+    const [attachment] = await db
+      .insert(noteAttachments)
+      .values(insertAttachment)
+      .returning();
+    return attachment;
+  }
+
+  async deleteNoteAttachment(id: string): Promise<boolean> {
+    const result = await db.delete(noteAttachments).where(eq(noteAttachments.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async createMetricSample(sample: InsertSystemMetricSample): Promise<SystemMetricSample> {
+    const [row] = await db
+      .insert(systemMetricSamples)
+      .values(sample)
+      .returning();
+    return row;
+  }
+
+  async rollupMetricSamples(source: MetricResolution, target: MetricResolution, bucketSeconds: number, until: Date): Promise<number> {
+    // Resume after the newest bucket already rolled up so each bucket is written once
+    const [latest] = await db
+      .select({ sampledAt: systemMetricSamples.sampledAt })
+      .from(systemMetricSamples)
+      .where(eq(systemMetricSamples.resolution, target))
+      .orderBy(desc(systemMetricSamples.sampledAt))
+      .limit(1);
+    const since = latest ? new Date(latest.sampledAt.getTime() + bucketSeconds * 1000) : new Date(0);
+    if (since >= until) {
+      return 0;
+    }
+
+    const bucket = bucketExpression(bucketSeconds);
+    const rows = await db
+      .select({
+        sampledAt: bucket,
+        cpuUsage: avg(systemMetricSamples.cpuUsage).mapWith(Number),
+        memoryUsage: avg(systemMetricSamples.memoryUsage).mapWith(Number),
+        diskUsage: avg(systemMetricSamples.diskUsage).mapWith(Number),
+        temperature: avg(systemMetricSamples.temperature).mapWith(Number),
+      })
+      .from(systemMetricSamples)
+      .where(and(
+        eq(systemMetricSamples.resolution, source),
+        gte(systemMetricSamples.sampledAt, since),
+        lt(systemMetricSamples.sampledAt, until),
+      ))
+      .groupBy(bucket);
+
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    await db
+      .insert(systemMetricSamples)
+      .values(rows.map((row) => ({ ...row, resolution: target })));
+    return rows.length;
+  }
+
+  async deleteMetricSamplesBefore(resolution: MetricResolution, before: Date): Promise<number> {
+    const result = await db
+      .delete(systemMetricSamples)
+      .where(and(
+        eq(systemMetricSamples.resolution, resolution),
+        lt(systemMetricSamples.sampledAt, before),
+      ))
+      .returning({ id: systemMetricSamples.id });
+    return result.length;
+  }
+
+  async getMetricHistory(metric: SystemMetricName, resolution: MetricResolution, from: Date, to: Date, stepSeconds: number): Promise<MetricHistoryPoint[]> {
+    const bucket = bucketExpression(stepSeconds);
+    const rows = await db
+      .select({
+        t: bucket,
+        value: avg(metricColumns[metric]).mapWith(Number),
+      })
+      .from(systemMetricSamples)
+      .where(and(
+        eq(systemMetricSamples.resolution, resolution),
+        gte(systemMetricSamples.sampledAt, from),
+        lte(systemMetricSamples.sampledAt, to),
+      ))
+      .groupBy(bucket)
+      .orderBy(asc(bucket));
+
+    return rows.map((row) => ({
+      t: row.t.toISOString(),
+      value: row.value === null ? null : Math.round(row.value * 10) / 10,
+    }));
+  }
+
+  async getAllAlertRules(): Promise<AlertRule[]> {
+    return await db.select().from(alertRules).orderBy(asc(alertRules.name));
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | undefined> {
+    const [rule] = await db.select().from(alertRules).where(eq(alertRules.id, id));
+    return rule || undefined;
+  }
+
+  async createAlertRule(insertRule: InsertAlertRule): Promise<AlertRule> {
+    const [rule] = await db
+      .insert(alertRules)
+      .values(insertRule)
+      .returning();
+    return rule;
+  }
+
+  async updateAlertRule(id: string, updates: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
+    const [rule] = await db
+      .update(alertRules)
+      .set(updates)
+      .where(eq(alertRules.id, id))
+      .returning();
+    return rule || undefined;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    const result = await db.delete(alertRules).where(eq(alertRules.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getAllAlertChannels(): Promise<AlertChannel[]> {
+    return await db.select().from(alertChannels).orderBy(asc(alertChannels.name));
+  }
+
+  async getAlertChannel(id: string): Promise<AlertChannel | undefined> {
+    const [channel] = await db.select().from(alertChannels).where(eq(alertChannels.id, id));
+    return channel || undefined;
+  }
+
+  async createAlertChannel(insertChannel: InsertAlertChannel): Promise<AlertChannel> {
+    const [channel] = await db
+      .insert(alertChannels)
+      .values(insertChannel)
+      .returning();
+    return channel;
+  }
+
+  async updateAlertChannel(id: string, updates: Partial<Omit<AlertChannel, "id" | "createdAt">>): Promise<AlertChannel | undefined> {
+    const [channel] = await db
+      .update(alertChannels)
+      .set(updates)
+      .where(eq(alertChannels.id, id))
+      .returning();
+    return channel || undefined;
+  }
+
+  async deleteAlertChannel(id: string): Promise<boolean> {
+    const result = await db.delete(alertChannels).where(eq(alertChannels.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getOpenAlerts(): Promise<Alert[]> {
+    return await db
+      .select()
+      .from(alerts)
+      .where(inArray(alerts.state, ["pending", "firing"]));
+  }
+
+  async getAlerts(states: string[], limit: number): Promise<AlertWithRule[]> {
+    return await db
+      .select({ ...getTableColumns(alerts), ruleName: alertRules.name })
+      .from(alerts)
+      .innerJoin(alertRules, eq(alerts.ruleId, alertRules.id))
+      .where(inArray(alerts.state, states))
+      .orderBy(desc(alerts.startedAt))
+      .limit(limit);
+  }
+
+  async getAlert(id: string): Promise<Alert | undefined> {
+    const [alert] = await db.select().from(alerts).where(eq(alerts.id, id));
+    return alert || undefined;
+  }
+
+  async createAlert(insertAlert: InsertAlert): Promise<Alert> {
+    const [alert] = await db
+      .insert(alerts)
+      .values(insertAlert)
+      .returning();
+    return alert;
+  }
+
+  async updateAlert(id: string, updates: Partial<InsertAlert>): Promise<Alert | undefined> {
+    const [alert] = await db
+      .update(alerts)
+      .set(updates)
+      .where(eq(alerts.id, id))
+      .returning();
+    return alert || undefined;
+  }
+
+  async deleteAlert(id: string): Promise<boolean> {
+    const result = await db.delete(alerts).where(eq(alerts.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getRecentNetworkScans(limit: number): Promise<NetworkScan[]> {
+    return await db
+      .select()
+      .from(networkScans)
+      .orderBy(desc(networkScans.startedAt))
+      .limit(limit);
+  }
+
+  async getNetworkScan(id: string): Promise<NetworkScan | undefined> {
+    const [scan] = await db.select().from(networkScans).where(eq(networkScans.id, id));
+    return scan || undefined;
+  }
+
+  async createNetworkScan(insertScan: InsertNetworkScan): Promise<NetworkScan> {
+    const [scan] = await db
+      .insert(networkScans)
+      .values(insertScan)
+      .returning();
+    return scan;
+  }
+
+  async updateNetworkScan(id: string, updates: Partial<InsertNetworkScan>): Promise<NetworkScan | undefined> {
+    const [scan] = await db
+      .update(networkScans)
+      .set(updates)
+      .where(eq(networkScans.id, id))
+      .returning();
+    return scan || undefined;
+  }
+
+  async getDiscoveredHosts(status?: string): Promise<DiscoveredHost[]> {
+    return await db
+      .select()
+      .from(discoveredHosts)
+      .where(status ? eq(discoveredHosts.status, status) : undefined)
+      .orderBy(desc(discoveredHosts.lastSeenAt));
+  }
+
+  async getDiscoveredHost(id: string): Promise<DiscoveredHost | undefined> {
+    const [host] = await db.select().from(discoveredHosts).where(eq(discoveredHosts.id, id));
+    return host || undefined;
+  }
+
+  async getDiscoveredHostByIp(ipAddress: string): Promise<DiscoveredHost | undefined> {
+    const [host] = await db.select().from(discoveredHosts).where(eq(discoveredHosts.ipAddress, ipAddress));
+    return host || undefined;
+  }
+
+  async createDiscoveredHost(insertHost: InsertDiscoveredHost): Promise<DiscoveredHost> {
+    const [host] = await db
+      .insert(discoveredHosts)
+      .values(insertHost)
+      .returning();
+    return host;
+  }
+
+  async updateDiscoveredHost(id: string, updates: Partial<InsertDiscoveredHost>): Promise<DiscoveredHost | undefined> {
+    const [host] = await db
+      .update(discoveredHosts)
+      .set(updates)
+      .where(eq(discoveredHosts.id, id))
+      .returning();
+    return host || undefined;
+  }
 }
 
 export const storage = new DatabaseStorage();
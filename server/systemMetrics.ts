@@ -1,293 +1,395 @@
-import { execSync } from "child_process";
-import * as fs from "fs";
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import { publishLiveEvent } from "./liveUpdates";
+import { storage } from "./storage";
+import type {
+  CollectorError,
+  ServiceAction,
+  ServiceStatus,
+  ServiceUnitDetails,
+  ServiceUnitSuggestion,
+  SystemCollector,
+  SystemStatus,
+  WatchedService,
+} from "@shared/schema";
 
-// Store previous CPU reading for differential calculation
-let previousCpuReading: { idle: number; total: number; timestamp: number } | null = null;
+const COLLECT_INTERVAL = 15000; // Collect host status every 15 seconds
+const COMMAND_TIMEOUT = 5000;
+// Starting or stopping a unit waits for systemd to finish the job
+const SERVICE_ACTION_TIMEOUT = Math.max(1, parseInt(process.env.SERVICE_ACTION_TIMEOUT_SECONDS || "90", 10) || 90) * 1000;
+// Host pinged to decide whether the network is up; override with NETWORK_CHECK_HOST
+const NETWORK_CHECK_HOST = process.env.NETWORK_CHECK_HOST || "8.8.8.8";
+// The first CPU reading has nothing to compare against, so it waits this long for a second
+const FIRST_CPU_SAMPLE_MS = 1000;
+// Journal lines shown in a service's details
+const JOURNAL_LINES = 20;
 
-interface ServiceStatus {
-  name: string;
-  status: "running" | "stopped" | "warning";
-  port?: number;
-  uptime?: string;
+interface CpuTimes {
+  idle: number;
+  total: number;
 }
 
-interface SystemStatus {
-  hostname: string;
-  uptime: string;
-  cpuUsage: number;
-  memoryUsage: number;
-  diskUsage: number;
-  networkStatus: "online" | "offline";
-  temperature: number;
-  services: ServiceStatus[];
-  lastUpdate: string;
+let previousCpuTimes: CpuTimes | null = null;
+let latest: SystemStatus | null = null;
+let inFlight: Promise<SystemStatus> | null = null;
+let collectorInterval: NodeJS.Timeout | null = null;
+// Last message logged per collector, so a persistent failure is logged once
+const loggedErrors = new Map<SystemCollector, string>();
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Runs a command without a shell or blocking the event loop
+function runCommand(file: string, args: string[], timeout = COMMAND_TIMEOUT): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(file, args, { encoding: "utf-8", timeout }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(stderr.trim() || error.message));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
 }
 
-function safeExec(command: string, fallback: string = ""): string {
-  try {
-    return execSync(command, { encoding: "utf-8", timeout: 5000 }).trim();
-  } catch {
-    return fallback;
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function formatDuration(seconds: number, withMinutes: boolean): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return withMinutes ? `${days}d ${hours}h ${minutes}m` : `${days}d ${hours}h`;
+}
+
+async function readCpuTimes(): Promise<CpuTimes> {
+  const stat = await fs.readFile("/proc/stat", "utf-8");
+  const fields = stat.split("\n")[0].split(/\s+/).slice(1, 9).map(Number);
+  if (fields.length < 5 || fields.some(isNaN)) {
+    throw new Error("Unexpected /proc/stat format");
   }
+  // idle + iowait
+  return { idle: fields[3] + fields[4], total: fields.reduce((sum, value) => sum + value, 0) };
 }
 
-function getHostname(): string {
-  try {
-    return fs.readFileSync("/etc/hostname", "utf-8").trim();
-  } catch {
-    return safeExec("hostname", "unknown-host");
+// Busy share of CPU time since the previous collection
+async function collectCpu(): Promise<number> {
+  let previous = previousCpuTimes;
+  if (!previous) {
+    previous = await readCpuTimes();
+    await delay(FIRST_CPU_SAMPLE_MS);
   }
+  const current = await readCpuTimes();
+  previousCpuTimes = current;
+
+  const totalDelta = current.total - previous.total;
+  if (totalDelta <= 0) {
+    throw new Error("No CPU time elapsed between readings");
+  }
+  const usage = Math.round(((totalDelta - (current.idle - previous.idle)) / totalDelta) * 100);
+  return Math.min(100, Math.max(0, usage));
 }
 
-function getUptime(): string {
-  try {
-    const uptimeSeconds = parseFloat(fs.readFileSync("/proc/uptime", "utf-8").split(" ")[0]);
-    const days = Math.floor(uptimeSeconds / 86400);
-    const hours = Math.floor((uptimeSeconds % 86400) / 3600);
-    const minutes = Math.floor((uptimeSeconds % 3600) / 60);
-    return `${days}d ${hours}h ${minutes}m`;
-  } catch {
-    const uptimeSecs = Math.floor(process.uptime());
-    const days = Math.floor(uptimeSecs / 86400);
-    const hours = Math.floor((uptimeSecs % 86400) / 3600);
-    const minutes = Math.floor((uptimeSecs % 3600) / 60);
-    return `${days}d ${hours}h ${minutes}m`;
+async function collectMemory(): Promise<number> {
+  const meminfo = await fs.readFile("/proc/meminfo", "utf-8");
+  const values = new Map<string, number>();
+  for (const line of meminfo.split("\n")) {
+    const match = line.match(/^(\w+):\s+(\d+)/);
+    if (match) values.set(match[1], parseInt(match[2], 10));
   }
+
+  const total = values.get("MemTotal") ?? 0;
+  if (total <= 0) {
+    throw new Error("MemTotal missing from /proc/meminfo");
+  }
+  // Kernels before 3.14 have no MemAvailable
+  const available = values.get("MemAvailable")
+    ?? (values.get("MemFree") ?? 0) + (values.get("Buffers") ?? 0) + (values.get("Cached") ?? 0);
+  return Math.round(((total - available) / total) * 100);
 }
 
-function getCpuUsage(): number {
-  try {
-    // Read current /proc/stat and use differential from previous reading
-    const stat = fs.readFileSync("/proc/stat", "utf-8");
-    const cpuLine = stat.split("\n")[0];
-    const values = cpuLine.split(/\s+/).slice(1).map(Number);
-    
-    // idle + iowait
-    const idle = values[3] + values[4];
-    const total = values.reduce((a, b) => a + b, 0);
-    const now = Date.now();
-    
-    if (previousCpuReading && (now - previousCpuReading.timestamp) < 60000) {
-      // Calculate differential from previous reading
-      const idleDelta = idle - previousCpuReading.idle;
-      const totalDelta = total - previousCpuReading.total;
-      
-      // Update stored reading
-      previousCpuReading = { idle, total, timestamp: now };
-      
-      if (totalDelta > 0) {
-        const usage = Math.round(((totalDelta - idleDelta) / totalDelta) * 100);
-        return Math.min(100, Math.max(0, usage));
-      }
-    }
-    
-    // Store current reading for next request
-    previousCpuReading = { idle, total, timestamp: now };
-    
-    // First request: try top command for immediate result
-    const topOutput = safeExec("top -bn1 2>/dev/null | head -5 | grep -i cpu");
-    if (topOutput) {
-      // Parse "Cpu(s):  4.7 us," or "%Cpu(s):  4.7 us," format
-      const match = topOutput.match(/(\d+\.?\d*)\s*(?:us|%)/);
-      if (match) {
-        const userCpu = parseFloat(match[1]);
-        // Also try to get system CPU
-        const sysMatch = topOutput.match(/(\d+\.?\d*)\s*sy/);
-        const sysCpu = sysMatch ? parseFloat(sysMatch[1]) : 0;
-        const totalUsage = userCpu + sysCpu;
-        if (!isNaN(totalUsage) && totalUsage >= 0) {
-          return Math.round(Math.min(100, totalUsage));
-        }
-      }
-    }
-    
-    // Try mpstat if available
-    const mpstatOutput = safeExec("mpstat 1 1 2>/dev/null | tail -1 | awk '{print 100 - $NF}'");
-    if (mpstatOutput) {
-      const usage = parseFloat(mpstatOutput);
-      if (!isNaN(usage) && usage >= 0 && usage <= 100) {
-        return Math.round(usage);
-      }
-    }
-    
-    // Return reasonable default on first request
-    return 15;
-  } catch {
-    return 15;
+// Same figure as df: space reserved for root does not count as free
+async function collectDisk(): Promise<number> {
+  const stats = await fs.statfs("/");
+  const used = stats.blocks - stats.bfree;
+  const usable = used + stats.bavail;
+  if (usable <= 0) {
+    throw new Error("Root filesystem reports no blocks");
   }
+  return Math.round((used / usable) * 100);
 }
 
-function getMemoryUsage(): number {
-  try {
-    // Try free command first - most reliable on Ubuntu
-    const freeOutput = safeExec("free | grep Mem | awk '{print ($3/$2) * 100}'");
-    if (freeOutput) {
-      const usage = parseFloat(freeOutput);
-      if (!isNaN(usage) && usage >= 0 && usage <= 100) {
-        return Math.round(usage);
-      }
-    }
-    
-    // Fallback to /proc/meminfo
-    const meminfo = fs.readFileSync("/proc/meminfo", "utf-8");
-    const lines = meminfo.split("\n");
-    let total = 0, available = 0, free = 0, buffers = 0, cached = 0;
-    
-    for (const line of lines) {
-      if (line.startsWith("MemTotal:")) {
-        total = parseInt(line.split(/\s+/)[1]);
-      } else if (line.startsWith("MemAvailable:")) {
-        available = parseInt(line.split(/\s+/)[1]);
-      } else if (line.startsWith("MemFree:")) {
-        free = parseInt(line.split(/\s+/)[1]);
-      } else if (line.startsWith("Buffers:")) {
-        buffers = parseInt(line.split(/\s+/)[1]);
-      } else if (line.startsWith("Cached:")) {
-        cached = parseInt(line.split(/\s+/)[1]);
+// First positive reading, in °C, from the sensor files of the matching entries
+async function readSensors(
+  directory: string,
+  matches: (entry: string) => boolean,
+  sensorFiles: (entry: string) => Promise<string[]>,
+): Promise<number | null> {
+  const entries = await fs.readdir(directory).catch(() => [] as string[]);
+  for (const entry of entries.filter(matches).sort()) {
+    for (const file of await sensorFiles(entry)) {
+      const millidegrees = parseInt(await fs.readFile(file, "utf-8").catch(() => ""), 10);
+      if (!isNaN(millidegrees) && millidegrees > 0) {
+        return Math.round(millidegrees / 1000);
       }
     }
-    
-    if (total > 0) {
-      // Use MemAvailable if present (newer kernels), otherwise calculate
-      const actualFree = available > 0 ? available : (free + buffers + cached);
-      return Math.round(((total - actualFree) / total) * 100);
-    }
-    return 50;
-  } catch {
-    return 50;
   }
+  return null;
 }
 
-function getDiskUsage(): number {
-  try {
-    // Try df with percentage extraction
-    const output = safeExec("df / 2>/dev/null | tail -1 | awk '{print $5}' | tr -d '%'");
-    if (output) {
-      const usage = parseInt(output);
-      if (!isNaN(usage) && usage >= 0 && usage <= 100) {
-        return usage;
-      }
-    }
-    
-    // Alternative: calculate from blocks
-    const blocksOutput = safeExec("df / 2>/dev/null | tail -1 | awk '{print $3, $2}'");
-    if (blocksOutput) {
-      const [used, total] = blocksOutput.split(/\s+/).map(s => parseInt(s));
-      if (!isNaN(used) && !isNaN(total) && total > 0) {
-        return Math.round((used / total) * 100);
+// Thermal zones first, then any hwmon chip's temperature inputs
+async function collectTemperature(): Promise<number> {
+  const thermal = await readSensors(
+    "/sys/class/thermal",
+    (entry) => entry.startsWith("thermal_zone"),
+    async (zone) => [`/sys/class/thermal/${zone}/temp`],
+  );
+  if (thermal !== null) return thermal;
+
+  const hwmon = await readSensors(
+    "/sys/class/hwmon",
+    () => true,
+    async (chip) => {
+      const files = await fs.readdir(`/sys/class/hwmon/${chip}`).catch(() => [] as string[]);
+      return files
+        .filter((name) => /^temp\d+_input$/.test(name))
+        .sort()
+        .map((name) => `/sys/class/hwmon/${chip}/${name}`);
+    },
+  );
+  if (hwmon !== null) return hwmon;
+
+  throw new Error("No temperature sensor found");
+}
+
+// ping exits non-zero when nothing answers; only a ping that cannot run is an error
+function collectNetwork(): Promise<"online" | "offline"> {
+  return new Promise((resolve, reject) => {
+    execFile("ping", ["-n", "-c", "1", "-W", "2", NETWORK_CHECK_HOST], { timeout: COMMAND_TIMEOUT }, (error) => {
+      if ((error as NodeJS.ErrnoException | null)?.code === "ENOENT") {
+        reject(new Error("ping is not installed"));
+        return;
       }
+      resolve(error ? "offline" : "online");
+    });
+  });
+}
+
+function toServiceStatus(activeState: string | undefined): ServiceStatus["status"] {
+  if (activeState === "active") return "running";
+  if (activeState === "inactive") return "stopped";
+  return "warning";
+}
+
+// Splits `systemctl show` output into one property map per unit, in order
+function parseUnitProperties(output: string): Map<string, string>[] {
+  return output.trim().split(/\n\s*\n/).map((block) => {
+    const properties = new Map<string, string>();
+    for (const line of block.split("\n")) {
+      const separator = line.indexOf("=");
+      if (separator > 0) properties.set(line.slice(0, separator), line.slice(separator + 1));
     }
-    
-    return 50;
-  } catch {
-    return 50;
+    return properties;
+  });
+}
+
+// One systemctl call for every watched unit
+async function collectServices(watched: WatchedService[]): Promise<ServiceStatus[]> {
+  if (watched.length === 0) {
+    return [];
   }
+  const output = await runCommand("systemctl", [
+    "show",
+    "--property=ActiveState,ActiveEnterTimestampMonotonic",
+    "--",
+    ...watched.map((service) => service.unit),
+  ]);
+  const blocks = parseUnitProperties(output);
+  const uptimeSeconds = os.uptime();
+
+  return watched.map((service, index) => {
+    const properties = blocks[index] ?? new Map<string, string>();
+    const status = toServiceStatus(properties.get("ActiveState"));
+    // Microseconds since boot at which the unit became active
+    const enteredAt = parseInt(properties.get("ActiveEnterTimestampMonotonic") ?? "", 10);
+    const uptime = status === "running" && enteredAt > 0
+      ? formatDuration(Math.max(0, uptimeSeconds - enteredAt / 1e6), false)
+      : undefined;
+    return { id: service.id, unit: service.unit, name: service.displayName, status, port: service.port ?? undefined, uptime };
+  });
 }
 
-function getTemperature(): number {
+// Runs one collector, recording its failure instead of substituting a value
+async function settle<T>(collector: SystemCollector, task: () => Promise<T>, errors: CollectorError[]): Promise<T | null> {
   try {
-    // Try all thermal zones
-    for (let zone = 0; zone <= 10; zone++) {
-      const tempPath = `/sys/class/thermal/thermal_zone${zone}/temp`;
-      if (fs.existsSync(tempPath)) {
-        const temp = parseInt(fs.readFileSync(tempPath, "utf-8").trim());
-        if (!isNaN(temp) && temp > 0) {
-          return Math.round(temp / 1000);
-        }
-      }
-    }
-    
-    // Try sensors command
-    const sensorsOutput = safeExec("sensors 2>/dev/null | grep -E 'Core|temp' | head -1 | grep -oE '[0-9]+\\.[0-9]+' | head -1");
-    if (sensorsOutput) {
-      const temp = parseFloat(sensorsOutput);
-      if (!isNaN(temp) && temp > 0 && temp < 150) {
-        return Math.round(temp);
-      }
-    }
-    
-    // Try hwmon
-    const hwmonOutput = safeExec("cat /sys/class/hwmon/hwmon*/temp*_input 2>/dev/null | head -1");
-    if (hwmonOutput) {
-      const temp = parseInt(hwmonOutput);
-      if (!isNaN(temp) && temp > 0) {
-        return Math.round(temp / 1000);
-      }
+    const value = await task();
+    loggedErrors.delete(collector);
+    return value;
+  } catch (error) {
+    const message = errorMessage(error);
+    errors.push({ collector, message });
+    if (loggedErrors.get(collector) !== message) {
+      loggedErrors.set(collector, message);
+      console.error(`System metrics: ${collector} collector failed:`, message);
     }
-    
-    // Default fallback for systems without thermal sensors
-    return 45;
-  } catch {
-    return 45;
+    return null;
   }
 }
 
-function checkNetworkStatus(): "online" | "offline" {
-  try {
-    const result = safeExec("ping -c 1 -W 2 8.8.8.8 > /dev/null 2>&1 && echo online || echo offline");
-    return result === "online" ? "online" : "offline";
-  } catch {
-    // Try alternative network check
-    const altResult = safeExec("curl -s --connect-timeout 2 http://www.google.com > /dev/null && echo online || echo offline");
-    return altResult === "online" ? "online" : "offline";
-  }
+async function collect(): Promise<SystemStatus> {
+  const errors: CollectorError[] = [];
+  // Kept outside the services collector so the list survives systemctl failing
+  let watched: WatchedService[] = [];
+  const [cpuUsage, memoryUsage, diskUsage, temperature, networkStatus, services] = await Promise.all([
+    settle("cpu", collectCpu, errors),
+    settle("memory", collectMemory, errors),
+    settle("disk", collectDisk, errors),
+    settle("temperature", collectTemperature, errors),
+    settle("network", collectNetwork, errors),
+    settle("services", async () => {
+      watched = await storage.getWatchedServices();
+      return collectServices(watched);
+    }, errors),
+  ]);
+
+  return {
+    hostname: os.hostname(),
+    uptime: formatDuration(os.uptime(), true),
+    cpuUsage,
+    memoryUsage,
+    diskUsage,
+    networkStatus: networkStatus ?? "unknown",
+    temperature,
+    services: services ?? watched.map((service) => ({
+      id: service.id,
+      unit: service.unit,
+      name: service.displayName,
+      status: "unknown" as const,
+      port: service.port ?? undefined,
+    })),
+    errors: errors.sort((a, b) => a.collector.localeCompare(b.collector)),
+    lastUpdate: new Date().toISOString(),
+  };
 }
 
-function getServiceStatus(serviceName: string): "running" | "stopped" | "warning" {
-  try {
-    const result = safeExec(`systemctl is-active ${serviceName} 2>/dev/null`);
-    if (result === "active") return "running";
-    if (result === "inactive" || result === "dead") return "stopped";
-    return "warning";
-  } catch {
-    return "stopped";
+// Collects a new snapshot and pushes it to open dashboards. A collection that
+// is still running is shared rather than started twice.
+function refresh(): Promise<SystemStatus> {
+  if (!inFlight) {
+    inFlight = collect()
+      .then((status) => {
+        latest = status;
+        publishLiveEvent({ type: "system_status", status });
+        return status;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
   }
+  return inFlight;
+}
+
+export interface MetricSnapshot {
+  cpuUsage: number | null;
+  memoryUsage: number | null;
+  diskUsage: number | null;
+  temperature: number | null;
+}
+
+// The latest collected snapshot; only waits when nothing has been collected yet
+export async function getSystemStatus(): Promise<SystemStatus> {
+  return latest ?? refresh();
+}
+
+// Only the numeric gauges, for the history sampler and the alert engine
+export async function getMetricSnapshot(): Promise<MetricSnapshot> {
+  const { cpuUsage, memoryUsage, diskUsage, temperature } = await getSystemStatus();
+  return { cpuUsage, memoryUsage, diskUsage, temperature };
+}
+
+// Collects again now, e.g. after the watched services changed
+export function refreshSystemStatus(): void {
+  refresh().catch((error) => console.error("System metrics error:", error));
+}
+
+// Loaded service units, for suggestions when adding a watched service
+export async function listServiceUnits(): Promise<ServiceUnitSuggestion[]> {
+  const output = await runCommand("systemctl", ["list-units", "--type=service", "--all", "--no-legend", "--plain"]);
+  return output
+    .split("\n")
+    .map((line) => line.replace(/^\W+/, "").trim().split(/\s+/))
+    .filter((fields) => fields.length >= 4 && fields[0].endsWith(".service"))
+    .map(([unit, , activeState, , ...description]) => ({ unit, activeState, description: description.join(" ") }));
+}
+
+// systemctl reports unset numbers as "[not set]" or the largest uint64
+function unitNumber(value: string | undefined): number | null {
+  const parsed = Number(value);
+  return value && Number.isSafeInteger(parsed) ? parsed : null;
+}
+
+// Process, memory and restart figures plus the latest journal lines of a unit.
+// Either half may fail on its own, e.g. when the journal is not readable.
+export async function getServiceUnitDetails(unit: string): Promise<ServiceUnitDetails> {
+  const [show, journal] = await Promise.allSettled([
+    runCommand("systemctl", [
+      "show",
+      "--property=Description,ActiveState,SubState,MainPID,MemoryCurrent,NRestarts",
+      "--",
+      unit,
+    ]),
+    runCommand("journalctl", ["--unit", unit, "--lines", String(JOURNAL_LINES), "--no-pager", "--quiet", "--output", "short-iso"]),
+  ]);
+
+  const properties = show.status === "fulfilled" ? parseUnitProperties(show.value)[0] : undefined;
+  const mainPid = unitNumber(properties?.get("MainPID"));
+  return {
+    unit,
+    description: properties?.get("Description") || null,
+    activeState: properties?.get("ActiveState") || null,
+    subState: properties?.get("SubState") || null,
+    mainPid: mainPid || null,
+    memoryBytes: unitNumber(properties?.get("MemoryCurrent")),
+    restartCount: unitNumber(properties?.get("NRestarts")),
+    unitError: show.status === "rejected" ? errorMessage(show.reason) : null,
+    journal: journal.status === "fulfilled" ? journal.value.split("\n").filter((line) => line.trim() !== "") : null,
+    journalError: journal.status === "rejected" ? errorMessage(journal.reason) : null,
+  };
 }
 
-function getServiceUptime(serviceName: string): string {
+// Asks systemd to start, stop, restart or reload a unit and waits for the job.
+// The server runs unprivileged: the polkit rule in deploy/ has to allow its
+// user these verbs on the watched units, otherwise systemd answers "Access
+// denied".
+// --no-ask-password makes a missing rule fail instead of waiting for a prompt.
+export async function controlServiceUnit(unit: string, action: ServiceAction): Promise<void> {
   try {
-    const output = safeExec(`systemctl show ${serviceName} --property=ActiveEnterTimestamp 2>/dev/null`);
-    if (output && output.includes("=")) {
-      const timestamp = output.split("=")[1];
-      if (timestamp) {
-        const startTime = new Date(timestamp);
-        const now = new Date();
-        const diffMs = now.getTime() - startTime.getTime();
-        const days = Math.floor(diffMs / 86400000);
-        const hours = Math.floor((diffMs % 86400000) / 3600000);
-        return `${days}d ${hours}h`;
-      }
-    }
-    return "N/A";
-  } catch {
-    return "N/A";
+    await runCommand("systemctl", ["--no-ask-password", action, "--", unit], SERVICE_ACTION_TIMEOUT);
+  } finally {
+    refreshSystemStatus();
   }
 }
 
-const serviceConfigs = [
-  { name: "PostgreSQL", service: "postgresql", port: 5432 },
-  { name: "Docker", service: "docker" },
-  { name: "SSH", service: "sshd", port: 22 },
-  { name: "Firewall", service: "ufw" },
-];
-
-export function getSystemStatus(): SystemStatus {
-  const services: ServiceStatus[] = serviceConfigs.map((config) => ({
-    name: config.name,
-    status: getServiceStatus(config.service),
-    port: config.port,
-    uptime: getServiceUptime(config.service),
-  }));
+export function startSystemCollector(): void {
+  if (collectorInterval) {
+    return;
+  }
 
-  return {
-    hostname: getHostname(),
-    uptime: getUptime(),
-    cpuUsage: getCpuUsage(),
-    memoryUsage: getMemoryUsage(),
-    diskUsage: getDiskUsage(),
-    networkStatus: checkNetworkStatus(),
-    temperature: getTemperature(),
-    services,
-    lastUpdate: new Date().toLocaleTimeString(),
+  console.log(`Starting system metrics collector (every ${COLLECT_INTERVAL / 1000} seconds)...`);
+
+  const run = () => {
+    refresh().catch((error) => console.error("System metrics error:", error));
   };
+  run();
+
+  collectorInterval = setInterval(run, COLLECT_INTERVAL);
+}
+
+export function stopSystemCollector(): void {
+  if (collectorInterval) {
+    clearInterval(collectorInterval);
+    collectorInterval = null;
+    console.log("System metrics collector stopped");
+  }
 }
@@ -0,0 +1,56 @@
+import crypto from "crypto";
+import { Secret, TOTP } from "otpauth";
+import QRCode from "qrcode";
+import type { TwoFactorSetup } from "@shared/schema";
+
+const ISSUER = "Wasteland Companion";
+const RECOVERY_CODE_COUNT = 10;
+
+// Standard authenticator-app settings: SHA-1, 6 digits, 30-second steps
+function totpFor(secret: string, username = ""): TOTP {
+  return new TOTP({
+    issuer: ISSUER,
+    label: username,
+    algorithm: "SHA1",
+    digits: 6,
+    period: 30,
+    secret: Secret.fromBase32(secret),
+  });
+}
+
+export function createTotpSecret(): string {
+  return new Secret({ size: 20 }).base32;
+}
+
+export async function getTotpSetup(secret: string, username: string): Promise<TwoFactorSetup> {
+  const otpauthUrl = totpFor(secret, username).toString();
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 }) };
+}
+
+// Returns the time step the code belongs to, or null if it is wrong. One step
+// of clock drift is allowed either way; a step at or before lastCounter has
+// already been used and is refused.
+export function verifyTotp(secret: string, code: string, lastCounter: number | null): number | null {
+  const totp = totpFor(secret);
+  const delta = totp.validate({ token: code, window: 1 });
+  if (delta === null) return null;
+  const counter = totp.counter() + delta;
+  if (lastCounter !== null && counter <= lastCounter) return null;
+  return counter;
+}
+
+// "ab12-cd34", "AB12CD34" and "ab12 cd34" are the same code
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+// One-time codes for when the authenticator is lost. Only the hashes are
+// stored; the codes themselves are shown to the user once.
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
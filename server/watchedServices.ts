@@ -0,0 +1,20 @@
+import { storage } from "./storage";
+import type { InsertWatchedService } from "@shared/schema";
+
+// The units the dashboard used to hardcode; seeded when none are watched yet
+const defaultWatchedServices: InsertWatchedService[] = [
+  { unit: "postgresql", displayName: "PostgreSQL", port: 5432 },
+  { unit: "docker", displayName: "Docker", port: null },
+  { unit: "sshd", displayName: "SSH", port: 22 },
+  { unit: "ufw", displayName: "Firewall", port: null },
+];
+
+export async function ensureWatchedServices(): Promise<void> {
+  if ((await storage.getWatchedServices()).length > 0) {
+    return;
+  }
+  for (const service of defaultWatchedServices) {
+    await storage.createWatchedService(service);
+  }
+  console.log(`Seeded ${defaultWatchedServices.length} watched services`);
+}
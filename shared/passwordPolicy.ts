@@ -0,0 +1,53 @@
+// Rules for new passwords, set on the server and shown next to password fields
+export interface PasswordPolicy {
+  minLength: number;
+  // How many of the character classes below a password must mix
+  minCharacterClasses: number;
+  // Whether passwords on the bundled common-password list are refused
+  breachCheck: boolean;
+}
+
+export const passwordCharacterClasses = [
+  { name: "lowercase letters", pattern: /[a-z]/ },
+  { name: "uppercase letters", pattern: /[A-Z]/ },
+  { name: "digits", pattern: /[0-9]/ },
+  { name: "symbols", pattern: /[^a-zA-Z0-9]/ },
+] as const;
+
+// bcrypt ignores everything past the first 72 bytes
+export const MAX_PASSWORD_BYTES = 72;
+
+// What the policy asks for, as a list of plain sentences
+export function describePasswordPolicy(policy: PasswordPolicy): string[] {
+  const rules = [`At least ${policy.minLength} characters`];
+  if (policy.minCharacterClasses > 1) {
+    rules.push(
+      `At least ${policy.minCharacterClasses} of: ${passwordCharacterClasses.map((characterClass) => characterClass.name).join(", ")}`,
+    );
+  }
+  rules.push("Does not contain your username");
+  if (policy.breachCheck) rules.push("Not a commonly used password");
+  return rules;
+}
+
+// Returns the rules a password breaks; an empty list means it is acceptable.
+// The common-password list is only on the server, so that check happens there.
+export function checkPasswordPolicy(password: string, policy: PasswordPolicy, username?: string): string[] {
+  const problems: string[] = [];
+  if (password.length < policy.minLength) {
+    problems.push(`Password must be at least ${policy.minLength} characters`);
+  }
+  if (new TextEncoder().encode(password).length > MAX_PASSWORD_BYTES) {
+    problems.push(`Password must be at most ${MAX_PASSWORD_BYTES} bytes`);
+  }
+  const classes = passwordCharacterClasses.filter((characterClass) => characterClass.pattern.test(password)).length;
+  if (classes < policy.minCharacterClasses) {
+    problems.push(
+      `Password must mix at least ${policy.minCharacterClasses} of: ${passwordCharacterClasses.map((characterClass) => characterClass.name).join(", ")}`,
+    );
+  }
+  if (username && password.toLowerCase().includes(username.toLowerCase())) {
+    problems.push("Password must not contain the username");
+  }
+  return problems;
+}
@@ -1,13 +1,26 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, real, index, uniqueIndex, primaryKey, integer, boolean, json, jsonb, type PgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { findPlaceholders, findUnexpandedPlaceholders, isSafePattern, MAX_PATTERN_LENGTH } from "./scriptTemplate";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  // Pre-RBAC "admin" / "user" value; only read at startup to assign role_id
   role: text("role").notNull().default("user"),
+  roleId: varchar("role_id").references(() => roles.id, { onDelete: "restrict" }),
+  // TOTP second factor; the secret is encrypted like SSH credentials
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  // Time step of the last accepted code, so a code cannot be replayed
+  totpLastCounter: integer("totp_last_counter"),
+  // SHA-256 hashes of the unused recovery codes
+  recoveryCodes: jsonb("recovery_codes").$type<string[]>().notNull().default([]),
+  // Set for the seeded admin and for passwords an admin chose; the user has
+  // to pick their own password before doing anything else
+  mustChangePassword: boolean("must_change_password").notNull().default(false),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -18,6 +31,265 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// What a role may change. Viewing devices, scripts, notes and alerts is open
+// to every signed-in user.
+export const permissions = [
+  "devices:write",
+  "discovery:manage",
+  "scripts:write",
+  "scripts:run",
+  "jobs:manage",
+  "credentials:manage",
+  "notes:write",
+  "categories:manage",
+  "alerts:manage",
+  "services:manage",
+  "services:control",
+  "containers:manage",
+  "users:manage",
+  "audit:view",
+] as const;
+export type Permission = typeof permissions[number];
+
+export const permissionDescriptions: Record<Permission, string> = {
+  "devices:write": "Add, edit and delete devices and their health checks",
+  "discovery:manage": "Scan subnets and accept or ignore discovered hosts",
+  "scripts:write": "Add, edit, delete and restore scripts",
+  "scripts:run": "Run scripts on devices over SSH and view run output",
+  "jobs:manage": "Schedule, edit and trigger script jobs",
+  "credentials:manage": "Manage SSH credentials and pinned host keys",
+  "notes:write": "Add, edit, delete and restore notes and attachments",
+  "categories:manage": "Manage categories and rename or delete tags",
+  "alerts:manage": "Manage alert rules and channels and snooze alerts",
+  "services:manage": "Choose which systemd services the dashboard watches",
+  "services:control": "Start, stop, restart and reload watched services",
+  "containers:manage": "Start, stop, restart and pull-and-recreate Docker containers",
+  "users:manage": "Manage user accounts and roles",
+  "audit:view": "View the audit log and export it as CSV",
+};
+
+export const roles = pgTable("roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description").notNull().default(""),
+  permissions: jsonb("permissions").$type<Permission[]>().notNull().default([]),
+  // Members must enroll in TOTP before they can use the dashboard
+  requireTwoFactor: boolean("require_two_factor").notNull().default(false),
+  // Built-in roles cannot be renamed or deleted
+  builtIn: boolean("built_in").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertRoleSchema = createInsertSchema(roles).omit({
+  id: true,
+  builtIn: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Role name is required").max(40),
+  description: z.string().trim().max(200).default(""),
+  permissions: z.array(z.enum(permissions)).transform((granted) => Array.from(new Set(granted))),
+});
+
+export const updateRoleSchema = insertRoleSchema.partial();
+
+export const updateUserRoleSchema = z.object({
+  roleId: z.string().min(1, "Role is required"),
+});
+
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+export type Role = typeof roles.$inferSelect;
+export type RoleWithUsage = Role & { userCount: number };
+
+// The signed-in user as reported by /api/auth/status
+export interface SessionUser {
+  id: string;
+  username: string;
+  role: string;
+  permissions: Permission[];
+  twoFactorEnabled: boolean;
+  // The role requires 2FA and the user has not enrolled yet; everything but
+  // enrollment is refused until they do
+  twoFactorSetupRequired: boolean;
+  // Signed in with a password an admin set; nothing else works until it is changed
+  passwordChangeRequired: boolean;
+}
+
+// A 6-digit code from the authenticator app
+export const totpCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+});
+
+// Second login step: an authenticator code or one of the recovery codes
+export const loginSecondFactorSchema = z.object({
+  code: z.string().trim().min(6, "Enter a code").max(32),
+});
+
+// Self-service password change; the new password is checked against the
+// password policy on the server
+export const changeOwnPasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(1, "New password is required"),
+});
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+});
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // The user's role requires 2FA, so it cannot be turned off
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Shown once while enrolling; the secret is only stored after a code checks out
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+// Sign-in failures are counted per username and per client address
+export const loginThrottleKinds = ["username", "ip"] as const;
+export type LoginThrottleKind = typeof loginThrottleKinds[number];
+
+// A username or address refused sign-in after too many failures
+export interface LoginLockout {
+  kind: LoginThrottleKind;
+  value: string;
+  failures: number;
+  lockedUntil: string;
+}
+
+// The parts of a stored session this app reads; the rest belongs to
+// express-session. Times are epoch milliseconds.
+export interface StoredSession {
+  userId?: string;
+  username?: string;
+  signedInAt?: number;
+  lastSeenAt?: number;
+  ip?: string;
+  userAgent?: string;
+}
+
+// Login sessions in connect-pg-simple's table layout. Declared here so that
+// db:push creates the table instead of dropping it.
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").$type<StoredSession>().notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+export type SessionRow = typeof sessions.$inferSelect;
+
+// One of the signed-in user's sessions, as listed on the account page. The id
+// is derived from the session id, which itself never leaves the cookie.
+export interface UserSession {
+  id: string;
+  current: boolean;
+  ip: string | null;
+  userAgent: string | null;
+  signedInAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+}
+
+// API tokens for scripts and automation. Personal tokens act as their owner,
+// limited to the scopes picked; service tokens belong to no user and hold
+// exactly their scopes. "read" covers everything any signed-in user can view.
+export const apiTokenKinds = ["personal", "service"] as const;
+export type ApiTokenKind = typeof apiTokenKinds[number];
+
+export const apiTokenScopes = ["read", ...permissions] as const;
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  kind: text("kind").$type<ApiTokenKind>().notNull(),
+  // Owner of a personal token; null for service tokens
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  // SHA-256 of the token; the token itself is shown once when created
+  tokenHash: text("token_hash").notNull().unique(),
+  // Start of the token, so it can be recognised in the list
+  prefix: text("prefix").notNull(),
+  scopes: jsonb("scopes").$type<ApiTokenScope[]>().notNull().default([]),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Token name is required").max(80),
+  kind: z.enum(apiTokenKinds).default("personal"),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1, "Pick at least one scope")
+    .transform((granted) => Array.from(new Set(granted))),
+  // null for a token that never expires
+  expiresInDays: z.number().int().min(1).max(3650).nullable().default(90),
+});
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
+// As listed in settings: no hash, plus the owner's username for personal tokens
+export type ApiTokenSummary = Omit<ApiToken, "tokenHash"> & { owner: string | null };
+
+// Free-form labels shared by devices, scripts and notes, e.g. "proxmox" or "vlan-20"
+export const tagNameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, "Tag cannot be empty")
+  .max(32, "Tags are at most 32 characters")
+  .regex(/^[a-z0-9][a-z0-9._-]*$/, "Tags may only contain letters, numbers, dots, dashes and underscores");
+
+// Replaces an item's tags when present; duplicates are collapsed
+export const itemTagsSchema = z
+  .array(tagNameSchema)
+  .max(20, "At most 20 tags per item")
+  .transform((names) => Array.from(new Set(names)));
+
+// Weighted tsvector over a row's text columns. The GIN indexes and the search
+// queries build it the same way so the planner can use the index.
+export function searchDocument(config: "english" | "simple", fields: [PgColumn, "A" | "B" | "C" | "D"][]): SQL {
+  const weighted = sql.join(
+    fields.map(([column, weight]) =>
+      sql`setweight(to_tsvector(${sql.raw(`'${config}'::regconfig`)}, coalesce(${column}, '')), ${sql.raw(`'${weight}'`)})`),
+    sql` || `,
+  );
+  // Parenthesised because an index expression must be
+  return sql`(${weighted})`;
+}
+
+export function deviceSearchDocument(table: { name: PgColumn; ipAddress: PgColumn; macAddress: PgColumn; os: PgColumn; description: PgColumn }): SQL {
+  // Host names and addresses should not be stemmed, so devices use the simple configuration
+  return searchDocument("simple", [
+    [table.name, "A"],
+    [table.ipAddress, "A"],
+    [table.macAddress, "B"],
+    [table.os, "C"],
+    [table.description, "C"],
+  ]);
+}
+
+export function scriptSearchDocument(table: { name: PgColumn; description: PgColumn; content: PgColumn }): SQL {
+  return searchDocument("english", [
+    [table.name, "A"],
+    [table.description, "B"],
+    [table.content, "C"],
+  ]);
+}
+
+export function noteSearchDocument(table: { title: PgColumn; content: PgColumn }): SQL {
+  return searchDocument("english", [
+    [table.title, "A"],
+    [table.content, "C"],
+  ]);
+}
+
 export const devices = pgTable("devices", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -29,43 +301,389 @@ export const devices = pgTable("devices", {
   status: text("status").notNull().default("unknown"),
   lastSeenAt: timestamp("last_seen_at"),
   lastCheckedAt: timestamp("last_checked_at"),
-});
+  latencyMs: real("latency_ms"),
+  jitterMs: real("jitter_ms"),
+  packetLoss: real("packet_loss"),
+  // SHA256 fingerprint of the SSH host key, pinned on first connection
+  sshHostKey: text("ssh_host_key"),
+}, (table) => [
+  index("devices_search_idx").using("gin", deviceSearchDocument(table)),
+]);
 
 export const insertDeviceSchema = createInsertSchema(devices).omit({
   id: true,
   status: true,
   lastSeenAt: true,
   lastCheckedAt: true,
+  latencyMs: true,
+  jitterMs: true,
+  packetLoss: true,
+  sshHostKey: true,
 }).extend({
   ipAddress: z.string().regex(/^(\d{1,3}\.){3}\d{1,3}$/, "Invalid IP address format"),
   macAddress: z.string().regex(/^([0-9A-Fa-f]{2}[:-]){5}([0-9A-Fa-f]{2})$/, "Invalid MAC address format").optional().or(z.literal("")),
+  tags: itemTagsSchema.optional(),
 });
 
 export type InsertDevice = z.infer<typeof insertDeviceSchema>;
 export type Device = typeof devices.$inferSelect;
 
+// Round-trip measurements from the latest probe of a device
+export interface DeviceProbeMetrics {
+  latencyMs: number | null;
+  jitterMs: number | null;
+  packetLoss: number | null;
+}
+
+export const checkTypes = ["ping", "tcp", "http", "dns", "tls"] as const;
+export type CheckType = typeof checkTypes[number];
+
+export const checkStatuses = ["up", "down", "warning", "unknown"] as const;
+export type CheckStatus = typeof checkStatuses[number];
+
+// Health checks attached to a device. When a device has enabled checks its
+// status is rolled up from them instead of a plain ICMP ping.
+export const deviceChecks = pgTable("device_checks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  name: text("name"),
+  type: text("type").notNull(),
+  config: jsonb("config").$type<Record<string, unknown>>().notNull().default({}),
+  intervalSeconds: integer("interval_seconds").notNull().default(60),
+  timeoutMs: integer("timeout_ms").notNull().default(5000),
+  enabled: boolean("enabled").notNull().default(true),
+  status: text("status").notNull().default("unknown"),
+  lastMessage: text("last_message"),
+  lastCheckedAt: timestamp("last_checked_at"),
+});
+
+export const pingCheckConfigSchema = z.object({});
+
+export const tcpCheckConfigSchema = z.object({
+  port: z.coerce.number().int().min(1).max(65535),
+});
+
+export const httpCheckConfigSchema = z.object({
+  url: z.string().url("Invalid URL"),
+  expectedStatus: z.coerce.number().int().min(100).max(599).default(200),
+  keyword: z.string().optional(),
+  ignoreTlsErrors: z.boolean().default(false),
+});
+
+export const dnsRecordTypes = ["A", "AAAA", "CNAME", "MX", "TXT"] as const;
+
+export const dnsCheckConfigSchema = z.object({
+  hostname: z.string().min(1, "Hostname is required"),
+  recordType: z.enum(dnsRecordTypes).default("A"),
+  expectedValue: z.string().optional(),
+  // Query the device itself as the resolver (e.g. Pi-hole) instead of the system resolver
+  useDeviceAsResolver: z.boolean().default(true),
+});
+
+export const tlsCheckConfigSchema = z.object({
+  port: z.coerce.number().int().min(1).max(65535).default(443),
+  servername: z.string().optional(),
+  warnDays: z.coerce.number().int().min(0).default(14),
+});
+
+export const deviceCheckConfigSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("ping"), config: pingCheckConfigSchema.default({}) }),
+  z.object({ type: z.literal("tcp"), config: tcpCheckConfigSchema }),
+  z.object({ type: z.literal("http"), config: httpCheckConfigSchema }),
+  z.object({ type: z.literal("dns"), config: dnsCheckConfigSchema }),
+  z.object({ type: z.literal("tls"), config: tlsCheckConfigSchema }),
+]);
+
+export const deviceCheckSettingsSchema = z.object({
+  name: z.string().optional(),
+  intervalSeconds: z.coerce.number().int().min(10, "Interval must be at least 10 seconds").max(86400).default(60),
+  timeoutMs: z.coerce.number().int().min(500, "Timeout must be at least 500 ms").max(60000).default(5000),
+  enabled: z.boolean().default(true),
+});
+
+export const insertDeviceCheckSchema = deviceCheckSettingsSchema.and(deviceCheckConfigSchema);
+
+export type DeviceCheckConfig = z.infer<typeof deviceCheckConfigSchema>;
+export type InsertDeviceCheck = z.infer<typeof insertDeviceCheckSchema>;
+export type DeviceCheck = typeof deviceChecks.$inferSelect;
+
+// One row per status transition recorded by the device monitor
+export const deviceStatusEvents = pgTable("device_status_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  status: text("status").notNull(),
+  previousStatus: text("previous_status"),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+}, (table) => [
+  index("device_status_events_device_id_changed_at_idx").on(table.deviceId, table.changedAt),
+]);
+
+export type InsertDeviceStatusEvent = typeof deviceStatusEvents.$inferInsert;
+export type DeviceStatusEvent = typeof deviceStatusEvents.$inferSelect;
+
+export const availabilityWindows = ["24h", "7d", "30d"] as const;
+export type AvailabilityWindow = typeof availabilityWindows[number];
+
+export interface DeviceOutage {
+  start: string;
+  end: string | null;
+  durationSeconds: number;
+}
+
+export interface AvailabilitySegment {
+  start: string;
+  end: string;
+  status: string;
+}
+
+export interface DeviceAvailability {
+  deviceId: string;
+  // Percentage of monitored time spent online; null when nothing was monitored in the window
+  uptime: Record<AvailabilityWindow, number | null>;
+  mtbfSeconds: number | null;
+  outages: DeviceOutage[];
+  segments: AvailabilitySegment[];
+}
+
+export const scriptParameterTypes = ["string", "number", "enum", "device", "secret"] as const;
+export type ScriptParameterType = typeof scriptParameterTypes[number];
+
+// A typed {{placeholder}} in a script's content. Device parameters take a
+// device id; secrets are never given defaults and are masked in previews.
+export const scriptParameterSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Use letters, digits and underscores"),
+  label: z.string().optional(),
+  type: z.enum(scriptParameterTypes),
+  required: z.boolean().default(true),
+  default: z.string().optional(),
+  options: z.array(z.string().min(1)).optional(),
+  pattern: z.string().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+});
+
+export type ScriptParameter = z.infer<typeof scriptParameterSchema>;
+
 export const scripts = pgTable("scripts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   content: text("content").notNull(),
   category: text("category").notNull().default("general"),
   description: text("description"),
+  parameters: jsonb("parameters").$type<ScriptParameter[]>().notNull().default([]),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("scripts_search_idx").using("gin", scriptSearchDocument(table)),
+]);
 
-export const insertScriptSchema = createInsertSchema(scripts).omit({
+export const scriptBaseSchema = createInsertSchema(scripts).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
   name: z.string().min(1, "Script name is required"),
   content: z.string().min(1, "Script content is required"),
+  parameters: z.array(scriptParameterSchema).max(50).default([]),
+  tags: itemTagsSchema.optional(),
+});
+
+export const insertScriptSchema = scriptBaseSchema.superRefine((data, ctx) => {
+  const byName = new Map<string, ScriptParameter>();
+
+  data.parameters.forEach((parameter, index) => {
+    const issue = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["parameters", index], message });
+
+    if (byName.has(parameter.name)) issue(`Duplicate parameter ${parameter.name}`);
+    byName.set(parameter.name, parameter);
+
+    if (parameter.type === "enum") {
+      if (!parameter.options?.length) issue(`${parameter.name} needs at least one option`);
+      else if (parameter.default && !parameter.options.includes(parameter.default)) issue(`Default for ${parameter.name} is not one of its options`);
+    }
+    if (parameter.type === "secret" && parameter.default) {
+      issue(`Secret ${parameter.name} cannot have a default`);
+    }
+    if (parameter.type === "number" && parameter.default && !Number.isFinite(Number(parameter.default))) {
+      issue(`Default for ${parameter.name} must be a number`);
+    }
+    if (parameter.type === "string" && parameter.pattern && !isSafePattern(parameter.pattern)) {
+      issue(`Pattern for ${parameter.name} must be a valid regular expression of at most ${MAX_PATTERN_LENGTH} characters without nested quantifiers such as (a+)+`);
+    }
+  });
+
+  for (const placeholder of findUnexpandedPlaceholders(data.content)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["content"],
+      message: `${placeholder} is inside single quotes or a quoted heredoc, where the shell does not expand it`,
+    });
+  }
+
+  for (const placeholder of findPlaceholders(data.content)) {
+    const parameter = byName.get(placeholder.name);
+    if (!parameter) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["content"], message: `{{${placeholder.name}}} is not a declared parameter` });
+    } else if (placeholder.field && parameter.type !== "device") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["content"], message: `{{${placeholder.name}.${placeholder.field}}} only works for device parameters` });
+    }
+  }
 });
 
 export type InsertScript = z.infer<typeof insertScriptSchema>;
 export type Script = typeof scripts.$inferSelect;
 
+// Append-only snapshots of a script, written on every create, update and restore
+export const scriptRevisions = pgTable("script_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scriptId: varchar("script_id").notNull().references(() => scripts.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  content: text("content").notNull(),
+  category: text("category").notNull(),
+  description: text("description"),
+  parameters: jsonb("parameters").$type<ScriptParameter[]>().notNull().default([]),
+  author: text("author"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("script_revisions_script_created_idx").on(table.scriptId, table.createdAt),
+]);
+
+export type ScriptRevision = typeof scriptRevisions.$inferSelect;
+export type InsertScriptRevision = typeof scriptRevisions.$inferInsert;
+
+export const sshAuthMethods = ["password", "key"] as const;
+
+// Stored SSH logins used to run scripts on devices. The secret (password or
+// private key) and key passphrase are encrypted at rest and never returned by the API.
+export const sshCredentials = pgTable("ssh_credentials", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  username: text("username").notNull(),
+  port: integer("port").notNull().default(22),
+  authMethod: text("auth_method").notNull(),
+  secret: text("secret").notNull(),
+  passphrase: text("passphrase"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const sshCredentialBaseSchema = z.object({
+  name: z.string().min(1, "Credential name is required"),
+  username: z.string().min(1, "Username is required"),
+  port: z.coerce.number().int().min(1).max(65535).default(22),
+  authMethod: z.enum(sshAuthMethods),
+  secret: z.string().min(1, "Password or private key is required"),
+  passphrase: z.string().optional(),
+});
+
+export const insertSshCredentialSchema = sshCredentialBaseSchema.refine(
+  (data) => data.authMethod !== "key" || data.secret.includes("PRIVATE KEY"),
+  { message: "Paste a PEM/OpenSSH private key", path: ["secret"] },
+);
+
+export type InsertSshCredential = z.infer<typeof insertSshCredentialSchema>;
+export type SshCredential = typeof sshCredentials.$inferSelect;
+export type SshCredentialSummary = Omit<SshCredential, "secret" | "passphrase">;
+
+export const scriptRunStatuses = ["running", "succeeded", "failed", "timed_out", "skipped"] as const;
+export type ScriptRunStatus = typeof scriptRunStatuses[number];
+
+// What the scheduler does when a job comes due while its previous run is still going:
+// skip it, queue one run for when the current one finishes, or start another in parallel
+export const jobOverlapPolicies = ["skip", "queue", "allow"] as const;
+export type JobOverlapPolicy = typeof jobOverlapPolicies[number];
+
+// Cron-scheduled execution of a library script on the dashboard host
+export const scriptJobs = pgTable("script_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scriptId: varchar("script_id").notNull().references(() => scripts.id, { onDelete: "cascade" }),
+  cronExpression: text("cron_expression").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  overlapPolicy: text("overlap_policy").notNull().default("skip"),
+  timeoutSeconds: integer("timeout_seconds").notNull().default(300),
+  historyLimit: integer("history_limit").notNull().default(20),
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertScriptJobSchema = createInsertSchema(scriptJobs).omit({
+  id: true,
+  nextRunAt: true,
+  lastRunAt: true,
+  createdAt: true,
+}).extend({
+  cronExpression: z.string().trim().refine(
+    (value) => value.split(/\s+/).length === 5,
+    "Use five fields: minute hour day-of-month month day-of-week",
+  ),
+  overlapPolicy: z.enum(jobOverlapPolicies).default("skip"),
+  timeoutSeconds: z.coerce.number().int().min(5).max(86400).default(300),
+  historyLimit: z.coerce.number().int().min(1).max(200).default(20),
+});
+
+export type InsertScriptJob = z.infer<typeof insertScriptJobSchema>;
+export type ScriptJob = typeof scriptJobs.$inferSelect;
+
+// One execution of a script against one target
+export const scriptRuns = pgTable("script_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scriptId: varchar("script_id").references(() => scripts.id, { onDelete: "set null" }),
+  scriptName: text("script_name").notNull(),
+  deviceId: varchar("device_id").references(() => devices.id, { onDelete: "set null" }),
+  targetName: text("target_name").notNull(),
+  host: text("host").notNull(),
+  credentialId: varchar("credential_id").references(() => sshCredentials.id, { onDelete: "set null" }),
+  jobId: varchar("job_id").references(() => scriptJobs.id, { onDelete: "cascade" }),
+  status: text("status").notNull().default("running"),
+  exitCode: integer("exit_code"),
+  stdout: text("stdout").notNull().default(""),
+  stderr: text("stderr").notNull().default(""),
+  error: text("error"),
+  timeoutSeconds: integer("timeout_seconds").notNull(),
+  triggeredBy: text("triggered_by"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+}, (table) => [
+  index("script_runs_script_started_idx").on(table.scriptId, table.startedAt),
+  index("script_runs_job_started_idx").on(table.jobId, table.startedAt),
+]);
+
+export type InsertScriptRun = typeof scriptRuns.$inferInsert;
+export type ScriptRun = typeof scriptRuns.$inferSelect;
+
+export type ScriptRunSummary = Pick<ScriptRun, "id" | "status" | "exitCode" | "startedAt" | "finishedAt" | "durationMs">;
+
+export type ScriptJobWithLastRun = ScriptJob & {
+  lastRun: ScriptRunSummary | null;
+};
+
+export const runScriptSchema = z.object({
+  deviceIds: z.array(z.string().min(1)).min(1, "Select at least one device").max(20),
+  credentialId: z.string().min(1, "Credential is required"),
+  timeoutSeconds: z.coerce.number().int().min(5).max(3600).default(300),
+  parameters: z.record(z.string()).default({}),
+  dryRun: z.boolean().default(false),
+});
+
+// Plan returned by a dry run so the caller can confirm before anything executes
+export interface ScriptRunPlan {
+  script: Pick<Script, "id" | "name" | "content">;
+  credential: SshCredentialSummary;
+  timeoutSeconds: number;
+  targets: {
+    deviceId: string;
+    name: string;
+    host: string;
+    hostKeyPinned: boolean;
+  }[];
+}
+
+// Chunks streamed to the browser while a run is in progress
+export type ScriptRunStreamEvent =
+  | { type: "output"; stream: "stdout" | "stderr"; data: string }
+  | { type: "end"; run: ScriptRun };
+
 export const notes = pgTable("notes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
@@ -73,7 +691,9 @@ export const notes = pgTable("notes", {
   category: text("category").notNull().default("general"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("notes_search_idx").using("gin", noteSearchDocument(table)),
+]);
 
 export const insertNoteSchema = createInsertSchema(notes).omit({
   id: true,
@@ -82,7 +702,604 @@ export const insertNoteSchema = createInsertSchema(notes).omit({
 }).extend({
   title: z.string().min(1, "Note title is required"),
   content: z.string().min(1, "Note content is required"),
+  tags: itemTagsSchema.optional(),
 });
 
 export type InsertNote = z.infer<typeof insertNoteSchema>;
 export type Note = typeof notes.$inferSelect;
+
+// Append-only snapshots of a note, written on every create, update and restore
+export const noteRevisions = pgTable("note_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  noteId: varchar("note_id").notNull().references(() => notes.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  category: text("category").notNull(),
+  author: text("author"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("note_revisions_note_created_idx").on(table.noteId, table.createdAt),
+]);
+
+export type NoteRevision = typeof noteRevisions.$inferSelect;
+export type InsertNoteRevision = typeof noteRevisions.$inferInsert;
+
+// Files uploaded to a note. The bytes live on disk under ATTACHMENTS_DIR;
+// notes reference them as /api/attachments/:id.
+export const noteAttachments = pgTable("note_attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  noteId: varchar("note_id").notNull().references(() => notes.id, { onDelete: "cascade" }),
+  fileName: text("file_name").notNull(),
+  storedName: text("stored_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  uploadedBy: text("uploaded_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("note_attachments_note_idx").on(table.noteId),
+]);
+
+export type NoteAttachment = typeof noteAttachments.$inferSelect;
+export type InsertNoteAttachment = typeof noteAttachments.$inferInsert;
+
+// What the API returns: the on-disk name stays private
+export type NoteAttachmentSummary = Omit<NoteAttachment, "storedName"> & { markdown: string };
+
+// Notes that link to an entity with [[device:...]] or [[script:...]], keyed by entity id
+export type NoteBacklinks = Record<string, { noteId: string; title: string }[]>;
+
+// Categories group items of one kind. Devices keep the slug in device_type,
+// scripts and notes in category; the slug never changes once created.
+export const categoryScopes = ["device", "script", "note"] as const;
+export type CategoryScope = typeof categoryScopes[number];
+
+export const categoryIcons = [
+  "server", "monitor", "laptop", "router", "smartphone", "hard-drive", "cpu", "cloud", "network",
+  "lock", "shield", "terminal", "file-code", "file-text", "folder-open", "search", "wrench",
+  "settings", "database", "archive", "activity", "box",
+] as const;
+export type CategoryIcon = typeof categoryIcons[number];
+
+export const categories = pgTable("categories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: text("scope").notNull(),
+  slug: text("slug").notNull(),
+  name: text("name").notNull(),
+  icon: text("icon").notNull().default("folder-open"),
+  color: varchar("color", { length: 7 }).notNull().default("#22c55e"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("categories_scope_slug_idx").on(table.scope, table.slug),
+]);
+
+export const insertCategorySchema = createInsertSchema(categories).omit({
+  id: true,
+  slug: true,
+  createdAt: true,
+}).extend({
+  scope: z.enum(categoryScopes),
+  name: z.string().trim().min(1, "Category name is required").max(40)
+    .refine((name) => /[a-z0-9]/i.test(name), "Name needs at least one letter or number"),
+  icon: z.enum(categoryIcons),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Use a hex colour such as #22c55e"),
+});
+
+export const updateCategorySchema = insertCategorySchema.omit({ scope: true }).partial();
+
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type Category = typeof categories.$inferSelect;
+export type CategoryWithUsage = Category & { itemCount: number };
+
+export const taggableTypes = ["device", "script", "note"] as const;
+export type TaggableType = typeof taggableTypes[number];
+
+export const tags = pgTable("tags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const deviceTags = pgTable("device_tags", {
+  deviceId: varchar("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  tagId: varchar("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.deviceId, table.tagId] }),
+  index("device_tags_tag_idx").on(table.tagId),
+]);
+
+export const scriptTags = pgTable("script_tags", {
+  scriptId: varchar("script_id").notNull().references(() => scripts.id, { onDelete: "cascade" }),
+  tagId: varchar("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.scriptId, table.tagId] }),
+  index("script_tags_tag_idx").on(table.tagId),
+]);
+
+export const noteTags = pgTable("note_tags", {
+  noteId: varchar("note_id").notNull().references(() => notes.id, { onDelete: "cascade" }),
+  tagId: varchar("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.noteId, table.tagId] }),
+  index("note_tags_tag_idx").on(table.tagId),
+]);
+
+export const renameTagSchema = z.object({
+  name: tagNameSchema,
+});
+
+export type Tag = typeof tags.$inferSelect;
+
+// Tag with how many items of each kind carry it, for tag clouds
+export type TagWithCounts = Tag & Record<TaggableType, number>;
+
+// List and detail responses include the item's tag names
+export type Tagged<T> = T & { tags: string[] };
+
+// systemd units shown in the dashboard's service list
+export const watchedServices = pgTable("watched_services", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Unit name as systemctl knows it, e.g. "nginx.service" or "wg-quick@wg0"
+  unit: text("unit").notNull().unique(),
+  displayName: text("display_name").notNull(),
+  port: integer("port"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertWatchedServiceSchema = createInsertSchema(watchedServices).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  unit: z.string().trim().min(1, "Unit name is required").max(256)
+    .regex(/^[a-zA-Z0-9@._:-]+$/, "Unit names may only contain letters, numbers and @ . _ : -")
+    .refine((unit) => !unit.startsWith("-"), "Unit names cannot start with a dash"),
+  displayName: z.string().trim().min(1, "Display name is required").max(60),
+  port: z.number().int().min(1).max(65535).nullable().default(null),
+});
+
+export const updateWatchedServiceSchema = insertWatchedServiceSchema.partial();
+
+export type InsertWatchedService = z.infer<typeof insertWatchedServiceSchema>;
+export type WatchedService = typeof watchedServices.$inferSelect;
+
+// What an admin may ask systemd to do with a watched unit
+export const serviceActions = ["start", "stop", "restart", "reload"] as const;
+export type ServiceAction = typeof serviceActions[number];
+
+export const serviceActionSchema = z.object({
+  action: z.enum(serviceActions),
+});
+
+// A unit systemctl knows about, offered when adding a watched service
+export interface ServiceUnitSuggestion {
+  unit: string;
+  description: string;
+  activeState: string;
+}
+
+// From GET /api/services/:id/details. Each part is null, with its error set,
+// when it could not be read; the journal usually needs the systemd-journal group.
+export interface ServiceUnitDetails {
+  unit: string;
+  description: string | null;
+  activeState: string | null;
+  subState: string | null;
+  mainPid: number | null;
+  memoryBytes: number | null;
+  restartCount: number | null;
+  unitError: string | null;
+  journal: string[] | null;
+  journalError: string | null;
+}
+
+// Host status shown on the dashboard, from GET /api/system/status
+export interface ServiceStatus {
+  // The watched service this row is for
+  id: string;
+  unit: string;
+  name: string;
+  // "unknown" when systemd could not be asked
+  status: "running" | "stopped" | "warning" | "unknown";
+  port?: number;
+  uptime?: string;
+}
+
+// The parts of the host status gathered separately; one failing leaves the
+// others intact and is reported in `errors`
+export const systemCollectors = ["cpu", "memory", "disk", "temperature", "network", "services"] as const;
+export type SystemCollector = typeof systemCollectors[number];
+
+export interface CollectorError {
+  collector: SystemCollector;
+  message: string;
+}
+
+// Gauges are null when their collector failed, rather than a made-up value
+export interface SystemStatus {
+  hostname: string;
+  uptime: string;
+  cpuUsage: number | null;
+  memoryUsage: number | null;
+  diskUsage: number | null;
+  networkStatus: "online" | "offline" | "unknown";
+  temperature: number | null;
+  services: ServiceStatus[];
+  errors: CollectorError[];
+  // ISO time the snapshot was collected
+  lastUpdate: string;
+}
+
+// Host metric samples. "raw" rows are written by the sampler every minute and
+// are periodically rolled up into "5m" and "1h" averages.
+export const metricResolutions = ["raw", "5m", "1h"] as const;
+export type MetricResolution = typeof metricResolutions[number];
+
+export const systemMetricNames = ["cpu", "memory", "disk", "temperature"] as const;
+export type SystemMetricName = typeof systemMetricNames[number];
+
+export const systemMetricSamples = pgTable("system_metric_samples", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  resolution: text("resolution").notNull().default("raw"),
+  sampledAt: timestamp("sampled_at").notNull(),
+  cpuUsage: real("cpu_usage"),
+  memoryUsage: real("memory_usage"),
+  diskUsage: real("disk_usage"),
+  temperature: real("temperature"),
+}, (table) => [
+  index("system_metric_samples_resolution_sampled_at_idx").on(table.resolution, table.sampledAt),
+]);
+
+export type InsertSystemMetricSample = typeof systemMetricSamples.$inferInsert;
+export type SystemMetricSample = typeof systemMetricSamples.$inferSelect;
+
+export interface MetricHistoryPoint {
+  t: string;
+  value: number | null;
+}
+
+export interface MetricHistory {
+  metric: SystemMetricName;
+  resolution: MetricResolution;
+  step: number;
+  from: string;
+  to: string;
+  points: MetricHistoryPoint[];
+}
+
+// The fields of a device the monitor changes on every probe
+export type DeviceStatusUpdate = Pick<Device, "id" | "status" | "lastSeenAt" | "lastCheckedAt" | "latencyMs" | "jitterMs" | "packetLoss">;
+
+// Messages pushed to the browser over the /api/live WebSocket
+export type LiveEvent =
+  | { type: "system_status"; status: SystemStatus }
+  | { type: "metric_sample"; sampledAt: string }
+  | { type: "device_status"; device: DeviceStatusUpdate };
+
+// Docker containers on this host, from GET /api/containers
+export interface ContainerPort {
+  privatePort: number;
+  // Unset when the port is only exposed, not published
+  publicPort?: number;
+  ip?: string;
+  type: string;
+}
+
+export interface ContainerSummary {
+  id: string;
+  name: string;
+  image: string;
+  imageId: string;
+  // created, running, paused, restarting, exited, removing or dead
+  state: string;
+  // Docker's human-readable status, e.g. "Up 3 hours (healthy)"
+  status: string;
+  // null when the image defines no health check
+  health: "starting" | "healthy" | "unhealthy" | null;
+  ports: ContainerPort[];
+  restartCount: number;
+  // From the com.docker.compose.* labels; null for containers started by hand
+  composeProject: string | null;
+  composeService: string | null;
+  createdAt: string;
+  // Only for running containers
+  cpuPercent: number | null;
+  memoryBytes: number | null;
+  memoryLimitBytes: number | null;
+}
+
+export const containerActions = ["start", "stop", "restart", "recreate"] as const;
+export type ContainerAction = typeof containerActions[number];
+
+export const containerActionSchema = z.object({
+  action: z.enum(containerActions),
+});
+
+export interface ContainerActionResult {
+  success: true;
+  // For recreate: false when the pulled image was the one already running
+  recreated?: boolean;
+  // A recreated container has a new id
+  containerId: string;
+}
+
+export const containerLogsQuerySchema = z.object({
+  tail: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+export const alertTargetTypes = ["metric", "device"] as const;
+export const alertComparators = [">", ">=", "<", "<="] as const;
+export const alertDeviceStatuses = ["offline", "degraded", "unknown"] as const;
+export const alertSeverities = ["info", "warning", "critical"] as const;
+export const alertStates = ["pending", "firing", "resolved"] as const;
+export const alertChannelTypes = ["webhook", "email", "ntfy", "gotify"] as const;
+
+export type AlertSeverity = typeof alertSeverities[number];
+export type AlertState = typeof alertStates[number];
+
+// Notification targets alerts are delivered to
+export const alertChannels = pgTable("alert_channels", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  type: text("type").notNull(),
+  config: jsonb("config").$type<Record<string, unknown>>().notNull().default({}),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const webhookChannelConfigSchema = z.object({
+  url: z.string().url("Invalid URL"),
+  headers: z.record(z.string()).optional(),
+});
+
+export const emailChannelConfigSchema = z.object({
+  host: z.string().min(1, "SMTP host is required"),
+  port: z.coerce.number().int().min(1).max(65535).default(587),
+  // true for implicit TLS (port 465); otherwise STARTTLS is used when offered
+  secure: z.boolean().default(false),
+  username: z.string().optional(),
+  password: z.string().optional(),
+  from: z.string().email("Invalid sender address"),
+  to: z.string().min(1, "At least one recipient is required"),
+});
+
+export const ntfyChannelConfigSchema = z.object({
+  serverUrl: z.string().url("Invalid URL").default("https://ntfy.sh"),
+  topic: z.string().min(1, "Topic is required"),
+  token: z.string().optional(),
+});
+
+export const gotifyChannelConfigSchema = z.object({
+  serverUrl: z.string().url("Invalid URL"),
+  token: z.string().min(1, "Application token is required"),
+});
+
+export const alertChannelConfigSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("webhook"), config: webhookChannelConfigSchema }),
+  z.object({ type: z.literal("email"), config: emailChannelConfigSchema }),
+  z.object({ type: z.literal("ntfy"), config: ntfyChannelConfigSchema }),
+  z.object({ type: z.literal("gotify"), config: gotifyChannelConfigSchema }),
+]);
+
+export const alertChannelSettingsSchema = z.object({
+  name: z.string().min(1, "Channel name is required"),
+  enabled: z.boolean().default(true),
+});
+
+export const insertAlertChannelSchema = alertChannelSettingsSchema.and(alertChannelConfigSchema);
+
+export type AlertChannelConfig = z.infer<typeof alertChannelConfigSchema>;
+export type InsertAlertChannel = z.infer<typeof insertAlertChannelSchema>;
+export type AlertChannel = typeof alertChannels.$inferSelect;
+
+// Threshold rules evaluated by the alert engine. Metric rules compare a host
+// gauge against a threshold; device rules match a device status.
+export const alertRules = pgTable("alert_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  targetType: text("target_type").notNull(),
+  metric: text("metric"),
+  comparator: text("comparator"),
+  threshold: real("threshold"),
+  // Null matches every device
+  deviceId: varchar("device_id").references(() => devices.id, { onDelete: "cascade" }),
+  deviceStatus: text("device_status"),
+  durationSeconds: integer("duration_seconds").notNull().default(0),
+  severity: text("severity").notNull().default("warning"),
+  channelIds: jsonb("channel_ids").$type<string[]>().notNull().default([]),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const alertRuleBaseSchema = createInsertSchema(alertRules).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Rule name is required"),
+  targetType: z.enum(alertTargetTypes),
+  metric: z.enum(systemMetricNames).nullable().optional(),
+  comparator: z.enum(alertComparators).nullable().optional(),
+  threshold: z.coerce.number().nullable().optional(),
+  deviceId: z.string().nullable().optional(),
+  deviceStatus: z.enum(alertDeviceStatuses).nullable().optional(),
+  durationSeconds: z.coerce.number().int().min(0).default(0),
+  severity: z.enum(alertSeverities).default("warning"),
+  channelIds: z.array(z.string()).default([]),
+});
+
+export const insertAlertRuleSchema = alertRuleBaseSchema.superRefine((rule, ctx) => {
+  if (rule.targetType === "metric") {
+    if (!rule.metric) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["metric"], message: "Metric is required" });
+    if (!rule.comparator) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["comparator"], message: "Comparator is required" });
+    if (rule.threshold === null || rule.threshold === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["threshold"], message: "Threshold is required" });
+    }
+  } else if (!rule.deviceStatus) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["deviceStatus"], message: "Device status is required" });
+  }
+});
+
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type AlertRule = typeof alertRules.$inferSelect;
+
+// One row per (rule, subject) episode. At most one pending/firing row exists
+// per subjectKey, which is what deduplicates notifications.
+export const alerts = pgTable("alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ruleId: varchar("rule_id").notNull().references(() => alertRules.id, { onDelete: "cascade" }),
+  subjectKey: text("subject_key").notNull(),
+  subjectLabel: text("subject_label").notNull(),
+  state: text("state").notNull().default("pending"),
+  severity: text("severity").notNull(),
+  value: text("value"),
+  message: text("message").notNull(),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  firedAt: timestamp("fired_at"),
+  resolvedAt: timestamp("resolved_at"),
+  snoozedUntil: timestamp("snoozed_until"),
+}, (table) => [
+  index("alerts_rule_id_subject_key_idx").on(table.ruleId, table.subjectKey),
+  index("alerts_state_idx").on(table.state),
+]);
+
+export type InsertAlert = typeof alerts.$inferInsert;
+export type Alert = typeof alerts.$inferSelect;
+
+export interface AlertWithRule extends Alert {
+  ruleName: string;
+}
+
+export const networkScanStatuses = ["running", "completed", "failed"] as const;
+export const discoveredHostStatuses = ["new", "ignored", "accepted"] as const;
+
+export const networkScans = pgTable("network_scans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cidr: text("cidr").notNull(),
+  status: text("status").notNull().default("running"),
+  hostsFound: integer("hosts_found").notNull().default(0),
+  newHosts: integer("new_hosts").notNull().default(0),
+  error: text("error"),
+  startedBy: varchar("started_by").references(() => users.id, { onDelete: "set null" }),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+});
+
+export type InsertNetworkScan = typeof networkScans.$inferInsert;
+export type NetworkScan = typeof networkScans.$inferSelect;
+
+// Hosts found by discovery scans that are not yet in the device inventory
+export const discoveredHosts = pgTable("discovered_hosts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ipAddress: varchar("ip_address", { length: 45 }).notNull().unique(),
+  macAddress: varchar("mac_address", { length: 17 }),
+  hostname: text("hostname"),
+  vendor: text("vendor"),
+  status: text("status").notNull().default("new"),
+  deviceId: varchar("device_id").references(() => devices.id, { onDelete: "set null" }),
+  firstScanId: varchar("first_scan_id").references(() => networkScans.id, { onDelete: "set null" }),
+  lastScanId: varchar("last_scan_id").references(() => networkScans.id, { onDelete: "set null" }),
+  firstSeenAt: timestamp("first_seen_at").notNull().defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").notNull().defaultNow(),
+});
+
+export type InsertDiscoveredHost = typeof discoveredHosts.$inferInsert;
+export type DiscoveredHost = typeof discoveredHosts.$inferSelect;
+
+export const startNetworkScanSchema = z.object({
+  cidr: z.string().regex(/^(\d{1,3}\.){3}\d{1,3}\/\d{1,2}$/, "Use CIDR notation, e.g. 192.168.8.0/24"),
+});
+
+export const acceptDiscoveredHostSchema = z.object({
+  name: z.string().min(1, "Device name is required").optional(),
+  deviceType: z.string().min(1).optional(),
+});
+
+export const searchResultTypes = ["device", "script", "note"] as const;
+export type SearchResultType = typeof searchResultTypes[number];
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query is required").max(200),
+  // Comma-separated, e.g. types=script,note; all types when omitted
+  types: z.preprocess(
+    (value) => (typeof value === "string" ? value.split(",").filter(Boolean) : value),
+    z.array(z.enum(searchResultTypes)).min(1),
+  ).optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// Runs of text from a headline; match marks the parts that hit the query
+export interface SearchHighlight {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: SearchHighlight[];
+  subtitle: string | null;
+  snippet: SearchHighlight[];
+  rank: number;
+}
+
+export const auditActions = [
+  "login", "login_failed", "logout", "create", "update", "delete",
+  "restore", "run", "snooze", "accept", "ignore", "test", "lock", "unlock",
+  "start", "stop", "restart", "reload", "recreate",
+] as const;
+export type AuditAction = typeof auditActions[number];
+
+export const auditEntityTypes = [
+  "session", "user", "role", "device", "device_check", "discovery_scan", "discovered_host",
+  "script", "script_job", "ssh_credential", "note", "attachment", "category", "tag",
+  "alert", "alert_rule", "alert_channel", "login_lockout", "api_token", "watched_service", "container",
+] as const;
+export type AuditEntityType = typeof auditEntityTypes[number];
+
+// One changed field; secrets are stored as "[redacted]"
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+  // Username at the time, kept after the account is deleted
+  actorName: text("actor_name").notNull(),
+  action: text("action").notNull(),
+  entityType: text("entity_type").notNull(),
+  entityId: varchar("entity_id"),
+  entityLabel: text("entity_label"),
+  changes: jsonb("changes").$type<AuditChange[]>().notNull().default([]),
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+}, (table) => [
+  index("audit_events_created_at_idx").on(table.createdAt),
+  index("audit_events_entity_idx").on(table.entityType, table.entityId),
+  index("audit_events_actor_idx").on(table.actorId),
+]);
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+
+export const auditQuerySchema = z.object({
+  // Substring of the actor's username
+  actor: z.string().trim().max(100).optional(),
+  // Substring of the entity label, e.g. a device or script name
+  q: z.string().trim().max(200).optional(),
+  action: z.enum(auditActions).optional(),
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  total: number;
+}
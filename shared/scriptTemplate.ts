@@ -0,0 +1,225 @@
+import type { Device, ScriptParameter } from "./schema";
+
+// {{name}} placeholders; device parameters also accept {{name.ip}}, {{name.name}} and {{name.mac}}
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)(?:\.(ip|name|mac))?\s*\}\}/g;
+
+export type ScriptParameterValues = Record<string, string>;
+type DeviceField = "ip" | "name" | "mac";
+type TemplateDevice = Pick<Device, "id" | "name" | "ipAddress" | "macAddress">;
+
+const SECRET_MASK = "********";
+// Longest pattern a string parameter may declare, and longest value checked against one
+export const MAX_PATTERN_LENGTH = 200;
+const MAX_PATTERN_VALUE_LENGTH = 1000;
+// A quantified group that itself contains a quantifier, e.g. (a+)+ or (\w*)*,
+// can take exponential time to reject a near-miss
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[*+}](?:[^()\\]|\\.)*\)\s*(?:[*+]|\{\d+,\d*\})/;
+
+export function findPlaceholders(content: string): { name: string; field?: DeviceField }[] {
+  return Array.from(content.matchAll(PLACEHOLDER_PATTERN), (match) => ({
+    name: match[1],
+    field: match[2] as DeviceField | undefined,
+  }));
+}
+
+// Wraps a value in single quotes so the shell treats it as one literal word
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Placeholders the shell never expands because they sit inside single quotes
+// or in a heredoc with a quoted delimiter (<<'EOF'); the script would get the
+// literal text "$WC_PARAM_name" there instead of the value. Comments are
+// skipped. This follows the common cases, not the full shell grammar.
+export function findUnexpandedPlaceholders(content: string): string[] {
+  const found = new Set<string>();
+  const collect = (text: string) => {
+    for (const match of Array.from(text.matchAll(PLACEHOLDER_PATTERN))) found.add(match[0]);
+  };
+  const heredocs: { delimiter: string; quoted: boolean; stripTabs: boolean }[] = [];
+  let inDoubleQuotes = false;
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+    if (char === "\\") {
+      i += 2;
+    } else if (inDoubleQuotes) {
+      if (char === '"') inDoubleQuotes = false;
+      i++;
+    } else if (char === '"') {
+      inDoubleQuotes = true;
+      i++;
+    } else if (char === "'") {
+      const end = content.indexOf("'", i + 1);
+      const stop = end === -1 ? content.length : end;
+      collect(content.slice(i + 1, stop));
+      i = stop + 1;
+    } else if (char === "#" && (i === 0 || /[\s;&|(]/.test(content[i - 1]))) {
+      const end = content.indexOf("\n", i);
+      i = end === -1 ? content.length : end;
+    } else if (char === "<" && content.startsWith("<<", i) && content[i + 2] !== "<") {
+      const match = /^<<(-?)[ \t]*(?:'([^'\n]*)'|"([^"\n]*)"|(\\?)([A-Za-z_][A-Za-z0-9_.-]*))/.exec(content.slice(i));
+      if (match) {
+        heredocs.push({
+          delimiter: match[2] ?? match[3] ?? match[5],
+          quoted: match[2] !== undefined || match[3] !== undefined || match[4] === "\\",
+          stripTabs: match[1] === "-",
+        });
+      }
+      i += match ? match[0].length : 2;
+    } else if (char === "\n" && heredocs.length > 0) {
+      // Heredoc bodies start on the line after the one that opened them
+      i++;
+      for (const heredoc of heredocs.splice(0)) {
+        let body = "";
+        while (i < content.length) {
+          const end = content.indexOf("\n", i);
+          const line = content.slice(i, end === -1 ? content.length : end);
+          i = end === -1 ? content.length : end + 1;
+          if ((heredoc.stripTabs ? line.replace(/^\t+/, "") : line) === heredoc.delimiter) break;
+          body += `${line}\n`;
+        }
+        if (heredoc.quoted) collect(body);
+      }
+    } else {
+      i++;
+    }
+  }
+  return Array.from(found);
+}
+
+// Whether a parameter pattern is short, compiles, and has no nested quantifiers
+export function isSafePattern(pattern: string): boolean {
+  if (pattern.length > MAX_PATTERN_LENGTH || NESTED_QUANTIFIER.test(pattern)) {
+    return false;
+  }
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Shell variable a placeholder's value is assigned to, e.g. WC_PARAM_host__ip
+function placeholderVariable(name: string, field?: DeviceField): string {
+  return field ? `WC_PARAM_${name}__${field}` : `WC_PARAM_${name}`;
+}
+
+// Applies defaults for values the caller did not supply
+export function resolveParameterValues(parameters: ScriptParameter[], values: ScriptParameterValues): ScriptParameterValues {
+  const resolved: ScriptParameterValues = {};
+  for (const parameter of parameters) {
+    const value = values[parameter.name];
+    resolved[parameter.name] = value !== undefined && value !== "" ? value : parameter.default ?? "";
+  }
+  return resolved;
+}
+
+// Returns an error message per invalid parameter; an empty object means the values are usable
+export function validateParameterValues(
+  parameters: ScriptParameter[],
+  values: ScriptParameterValues,
+  devices: TemplateDevice[],
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const resolved = resolveParameterValues(parameters, values);
+
+  for (const parameter of parameters) {
+    const value = resolved[parameter.name];
+    const label = parameter.label || parameter.name;
+
+    if (value === "") {
+      if (parameter.required) errors[parameter.name] = `${label} is required`;
+      continue;
+    }
+
+    switch (parameter.type) {
+      case "number": {
+        const number = Number(value);
+        if (!Number.isFinite(number)) {
+          errors[parameter.name] = `${label} must be a number`;
+        } else if (parameter.min !== undefined && number < parameter.min) {
+          errors[parameter.name] = `${label} must be at least ${parameter.min}`;
+        } else if (parameter.max !== undefined && number > parameter.max) {
+          errors[parameter.name] = `${label} must be at most ${parameter.max}`;
+        }
+        break;
+      }
+      case "enum":
+        if (!parameter.options?.includes(value)) {
+          errors[parameter.name] = `${label} must be one of ${parameter.options?.join(", ")}`;
+        }
+        break;
+      case "device":
+        if (!devices.some((device) => device.id === value)) {
+          errors[parameter.name] = `${label} must reference an existing device`;
+        }
+        break;
+      case "string":
+        if (!parameter.pattern) break;
+        if (!isSafePattern(parameter.pattern)) {
+          errors[parameter.name] = `${label} has a pattern that cannot be checked safely`;
+        } else if (value.length > MAX_PATTERN_VALUE_LENGTH) {
+          errors[parameter.name] = `${label} is longer than ${MAX_PATTERN_VALUE_LENGTH} characters`;
+        } else if (!new RegExp(`^(?:${parameter.pattern})$`).test(value)) {
+          errors[parameter.name] = `${label} does not match ${parameter.pattern}`;
+        }
+        break;
+    }
+  }
+
+  return errors;
+}
+
+// Assigns each value to a shell variable at the top of the script and puts a
+// double-quoted reference to it where the placeholder was. The value is never
+// parsed by the shell, so it stays literal even when the placeholder sits
+// inside double quotes, backticks or a heredoc. Inside single quotes it is not
+// expanded at all, which findUnexpandedPlaceholders catches before saving.
+// maskSecrets replaces secret values for previews that should not reveal them.
+export function renderScript(
+  content: string,
+  parameters: ScriptParameter[],
+  values: ScriptParameterValues,
+  devices: TemplateDevice[],
+  options: { maskSecrets?: boolean } = {},
+): string {
+  const resolved = resolveParameterValues(parameters, values);
+  const byName = new Map(parameters.map((parameter) => [parameter.name, parameter]));
+  const assignments = new Map<string, string>();
+
+  const valueFor = (parameter: ScriptParameter, field?: DeviceField): string => {
+    const value = resolved[parameter.name];
+    if (parameter.type === "secret" && options.maskSecrets) {
+      return SECRET_MASK;
+    }
+    if (parameter.type === "device") {
+      const device = devices.find((candidate) => candidate.id === value);
+      if (!device) return "";
+      if (field === "name") return device.name;
+      if (field === "mac") return device.macAddress || "";
+      return device.ipAddress;
+    }
+    return value;
+  };
+
+  const body = content.replace(PLACEHOLDER_PATTERN, (placeholder, name: string, field?: DeviceField) => {
+    const parameter = byName.get(name);
+    if (!parameter) return placeholder;
+
+    const variable = placeholderVariable(name, field);
+    assignments.set(variable, valueFor(parameter, field));
+    return `"$${variable}"`;
+  });
+
+  if (assignments.size === 0) {
+    return body;
+  }
+
+  const prelude = Array.from(assignments, ([variable, value]) => `${variable}=${shellQuote(value)}\n`).join("");
+  // The assignments go after a shebang line, which has to stay first
+  const shebang = body.match(/^#![^\n]*\n/)?.[0] ?? "";
+  return shebang + prelude + body.slice(shebang.length);
+}
@@ -0,0 +1,44 @@
+// [[device:nas-01]] or [[script:backup-pg|Nightly backup]] inside note content
+const WIKI_LINK_PATTERN = /\[\[(device|script):([^\]|\n]+?)(?:\|([^\]\n]+))?\]\]/g;
+
+export const wikiLinkTypes = ["device", "script"] as const;
+export type WikiLinkType = typeof wikiLinkTypes[number];
+
+export interface WikiLink {
+  type: WikiLinkType;
+  ref: string;
+  label?: string;
+}
+
+interface LinkableEntity {
+  id: string;
+  name: string;
+}
+
+// "Backup PG" and "backup-pg" both become "backup-pg"
+export function slugify(text: string): string {
+  return text.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+export function findWikiLinks(content: string): WikiLink[] {
+  return splitWikiLinks(content).filter((segment): segment is WikiLink => typeof segment !== "string");
+}
+
+// A reference matches an entity by id or by its slugged name
+export function resolveWikiLink<T extends LinkableEntity>(ref: string, entities: T[]): T | undefined {
+  const slug = slugify(ref);
+  return entities.find((entity) => entity.id === ref) ?? entities.find((entity) => slugify(entity.name) === slug);
+}
+
+// Splits text into plain strings and wiki links, in order
+export function splitWikiLinks(text: string): (string | WikiLink)[] {
+  const segments: (string | WikiLink)[] = [];
+  let last = 0;
+  for (const match of Array.from(text.matchAll(WIKI_LINK_PATTERN))) {
+    if (match.index! > last) segments.push(text.slice(last, match.index));
+    segments.push({ type: match[1] as WikiLinkType, ref: match[2].trim(), label: match[3]?.trim() });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push(text.slice(last));
+  return segments;
+}